@@ -1,21 +1,59 @@
 import { utils, writeFile } from 'xlsx';
 import dayjs from 'dayjs';
+import { PAYMENT_METHOD_LABELS } from '@/lib/sales';
+import { DateRange } from '@/lib/dateRanges';
 import { Sale } from './types';
 
-export function exportSalesToExcel(sales: Sale[], period: 'weekly' | 'monthly') {
-  let filteredSales: Sale[] = [];
-  const today = dayjs();
-  if (period === 'weekly') {
-    const startOfWeek = today.startOf('week');
-    filteredSales = sales.filter(sale => dayjs(sale.date).isSameOrAfter(startOfWeek));
-  } else if (period === 'monthly') {
-    const startOfMonth = today.startOf('month');
-    filteredSales = sales.filter(sale => dayjs(sale.date).isSameOrAfter(startOfMonth));
-  }
+// One workbook for the sales in the range, already filtered by the caller.
+export function exportSalesToExcel(sales: Sale[], range: DateRange) {
+  const salesRows = sales.map(({ sale_items, sale_payments, sale_refunds, ...sale }) => ({
+    ...sale,
+    items: sale_items?.length || 0,
+    paid: (sale_payments || []).reduce((sum, payment) => sum + Number(payment.amount), 0),
+    refunded: (sale_refunds || []).reduce((sum, refund) => sum + Number(refund.amount), 0)
+  }));
+  const itemRows = sales.flatMap(sale =>
+    (sale.sale_items || []).map(item => ({
+      sale_id: sale.id,
+      date: sale.date,
+      customer_name: sale.customer_name,
+      service: item.service_name,
+      unit_price: item.unit_price,
+      quantity: item.quantity,
+      discount: item.discount,
+      line_total: item.line_total,
+      staff: item.staff || ''
+    }))
+  );
+
+  const paymentRows = sales.flatMap(sale =>
+    (sale.sale_payments || []).map(payment => ({
+      sale_id: sale.id,
+      date: sale.date,
+      method: PAYMENT_METHOD_LABELS[payment.method],
+      amount: payment.amount,
+      tendered: payment.tendered ?? '',
+      change_given: payment.change_given,
+      reference: payment.reference || ''
+    }))
+  );
+
+  const refundRows = sales.flatMap(sale =>
+    (sale.sale_refunds || []).map(refund => ({
+      sale_id: sale.id,
+      date: dayjs(refund.created_at).format('YYYY-MM-DD'),
+      method: PAYMENT_METHOD_LABELS[refund.method],
+      amount: refund.amount,
+      reason: refund.reason,
+      approved_by: refund.approved_by_email
+    }))
+  );
 
-  const worksheet = utils.json_to_sheet(filteredSales);
   const workbook = utils.book_new();
-  utils.book_append_sheet(workbook, worksheet, 'Sales');
-  const filename = `sales-report-${period}-${today.format('YYYY-MM-DD')}.xlsx`;
+  utils.book_append_sheet(workbook, utils.json_to_sheet(salesRows), 'Sales');
+  utils.book_append_sheet(workbook, utils.json_to_sheet(itemRows), 'Line Items');
+  utils.book_append_sheet(workbook, utils.json_to_sheet(paymentRows), 'Payments');
+  utils.book_append_sheet(workbook, utils.json_to_sheet(refundRows), 'Refunds');
+  const filename = `sales-report-${range.from}-to-${range.to}.xlsx`;
   writeFile(workbook, filename);
 }
@@ -1,123 +1,232 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { Suspense, useCallback, useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabase';
 import Sidebar from '@/components/Sidebar';
-import { useRouter } from 'next/navigation';
-import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Legend } from 'recharts';
+import { DateRangePicker } from 'react-date-range';
+import 'react-date-range/dist/styles.css';
+import 'react-date-range/dist/theme/default.css';
 import dayjs from 'dayjs';
-import isSameOrAfter from 'dayjs/plugin/isSameOrAfter';
 import { exportSalesToExcel } from './exportSalesToExcel';
-import { Sale } from './types';
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS, PaymentMethod } from '@/lib/sales';
+import { formatDiscount } from '@/lib/discounts';
+import { StaffMember, fetchStaff } from '@/lib/staff';
+import { DateRange, describeRange, presetRange } from '@/lib/dateRanges';
+import {
+  COMPARISON_BASELINE_LABELS,
+  ComparisonBaseline,
+  PeriodRevenue,
+  PromoCodeUsage,
+  RevenueBucket,
+  SalesTotals,
+  ServiceRevenueTotal,
+  StaffRevenueTotal,
+  comparisonLabel,
+  comparisonRange,
+  fetchAnalyticsSales,
+  fetchPromoCodeUsage,
+  fetchRevenueByPeriod,
+  fetchRevenueByService,
+  fetchRevenueByStaff,
+  fetchSalesTotals,
+  growthPercent
+} from '@/lib/analytics';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   CurrencyDollarIcon,
   ChartBarIcon,
   CalendarDaysIcon,
-  ClockIcon,
   CheckCircleIcon,
   ArrowTrendingUpIcon,
   DocumentArrowDownIcon,
   XMarkIcon,
   FunnelIcon,
   ChartPieIcon,
-  Bars3BottomLeftIcon
+  Bars3BottomLeftIcon,
+  ReceiptRefundIcon
 } from '@heroicons/react/24/outline';
 
-dayjs.extend(isSameOrAfter);
-
 interface ChartData {
   service: string;
   amount: number;
   color?: string;
 }
 
-interface SalesPeriod {
-  daily: number;
-  weekly: number;
-  monthly: number;
-}
-
-interface DailyRevenue {
+interface TrendPoint {
   date: string;
   amount: number;
+  previous: number | null;
+}
+
+interface ServiceOption {
+  id: string;
+  name: string;
+}
+
+// Everything the page shows is driven by the URL, so a view can be shared:
+// ?from=2026-10-01&to=2026-10-19&staff=…&service=…&method=cash&compare=previous_year&by=week
+interface AnalyticsView {
+  range: DateRange;
+  staffId: string | null;
+  serviceId: string | null;
+  paymentMethod: PaymentMethod | null;
+  baseline: ComparisonBaseline;
+  bucket: RevenueBucket;
 }
 
+const BUCKET_LABELS: Record<RevenueBucket, { title: string; label: string }> = {
+  day: { title: 'Daily Revenue', label: 'MMM DD' },
+  week: { title: 'Weekly Revenue', label: 'DD MMM' },
+  month: { title: 'Monthly Revenue', label: 'MMM YYYY' }
+};
+
+const isDate = (value: string | null): value is string =>
+  !!value && /^\d{4}-\d{2}-\d{2}$/.test(value) && dayjs(value).isValid();
+
+// Days for up to a month, weeks for up to half a year, months beyond that.
+const defaultBucket = ({ from, to }: DateRange): RevenueBucket => {
+  const days = dayjs(to).diff(dayjs(from), 'day') + 1;
+  return days <= 31 ? 'day' : days <= 183 ? 'week' : 'month';
+};
+
+function viewFromParams(params: URLSearchParams): AnalyticsView {
+  const from = params.get('from');
+  const to = params.get('to');
+  const range = isDate(from) && isDate(to) && from <= to ? { from, to } : presetRange('this_month');
+  const method = params.get('method') as PaymentMethod | null;
+  const compare = params.get('compare') as ComparisonBaseline | null;
+  const by = params.get('by') as RevenueBucket | null;
+  return {
+    range,
+    staffId: params.get('staff'),
+    serviceId: params.get('service'),
+    paymentMethod: method && PAYMENT_METHODS.includes(method) ? method : null,
+    baseline: compare && compare in COMPARISON_BASELINE_LABELS ? compare : 'previous_period',
+    bucket: by && by in BUCKET_LABELS ? by : defaultBucket(range)
+  };
+}
+
+const formatGrowth = (growth: number | null) =>
+  growth === null ? 'No sales to compare' : `${growth >= 0 ? '+' : ''}${growth.toFixed(1)}%`;
+
 const COLORS = [
   '#FF6B8A', '#4FACFE', '#43E97B', '#FA709A', '#FDBB2D',
   '#FF9A9E', '#A8EDEA', '#D299C2', '#FED6E3', '#D585FF'
 ];
 
+// useSearchParams needs a Suspense boundary to prerender.
 export default function AnalyticsPage() {
+  return (
+    <Suspense>
+      <AnalyticsDashboard />
+    </Suspense>
+  );
+}
+
+function AnalyticsDashboard() {
   const router = useRouter();
-  const [sales, setSales] = useState<Sale[]>([]);
+  const searchParams = useSearchParams();
+  const view = viewFromParams(searchParams);
+  const { range, staffId, serviceId, paymentMethod, baseline, bucket } = view;
+  const { from, to } = range;
+  const [totals, setTotals] = useState<SalesTotals | null>(null);
+  const [previousTotals, setPreviousTotals] = useState<SalesTotals | null>(null);
+  const [serviceRevenue, setServiceRevenue] = useState<ServiceRevenueTotal[]>([]);
+  const [staffRevenue, setStaffRevenue] = useState<StaffRevenueTotal[]>([]);
+  const [trend, setTrend] = useState<PeriodRevenue[]>([]);
+  const [trendPrevious, setTrendPrevious] = useState<PeriodRevenue[]>([]);
+  const [promoCodes, setPromoCodes] = useState<PromoCodeUsage[]>([]);
+  const [staffOptions, setStaffOptions] = useState<StaffMember[]>([]);
+  const [serviceOptions, setServiceOptions] = useState<ServiceOption[]>([]);
+  const [showPicker, setShowPicker] = useState(false);
+  const [pickerRange, setPickerRange] = useState({ startDate: new Date(), endDate: new Date(), key: 'selection' });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [periodSales, setPeriodSales] = useState<SalesPeriod>({
-    daily: 0,
-    weekly: 0,
-    monthly: 0
-  });
-  const [completedAppointments, setCompletedAppointments] = useState(0);
   const [selectedChartType, setSelectedChartType] = useState<'pie' | 'bar'>('pie');
-  const [selectedPeriod, setSelectedPeriod] = useState<'week' | 'month'>('week');
 
   useEffect(() => {
-    fetchData();
+    fetchStaff()
+      .then(setStaffOptions)
+      .catch(err => console.error('Error fetching staff:', err));
+    supabase
+      .from('services')
+      .select('id, name')
+      .order('name')
+      .then(({ data, error: fetchError }) => {
+        if (fetchError) console.error('Error fetching services:', fetchError);
+        else setServiceOptions(data || []);
+      });
   }, []);
 
-  const fetchData = async () => {
+  const fetchData = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
 
-      const today = dayjs();
-      const startOfDay = today.startOf('day').toISOString();
-      const startOfWeek = today.startOf('week').toISOString();
-      const startOfMonth = today.startOf('month').toISOString();
-
-      const { data: salesData, error: salesError } = await supabase
-        .from('sales')
-        .select('*')
-        .order('date', { ascending: false });
-
-      if (salesError) throw new Error(`Sales fetch error: ${salesError.message}`);
-
-      setSales(salesData || []);
-
-      // Calculate period sales
-      if (salesData) {
-        const dailySales = salesData
-          .filter(sale => dayjs(sale.date).isSameOrAfter(startOfDay))
-          .reduce((sum, sale) => sum + sale.amount, 0);
-
-        const weeklySales = salesData
-          .filter(sale => dayjs(sale.date).isSameOrAfter(startOfWeek))
-          .reduce((sum, sale) => sum + sale.amount, 0);
-
-        const monthlySales = salesData
-          .filter(sale => dayjs(sale.date).isSameOrAfter(startOfMonth))
-          .reduce((sum, sale) => sum + sale.amount, 0);
-
-        setPeriodSales({
-          daily: dailySales,
-          weekly: weeklySales,
-          monthly: monthlySales
-        });
-      }
-
-      // Calculate completed appointments from sales data
-      const completedCount = salesData?.filter(sale => 
-        dayjs(sale.date).isSame(dayjs(), 'day')
-      ).length || 0;
-
-      setCompletedAppointments(completedCount);
+      const filters = { from, to, staffId, serviceId, paymentMethod };
+      const previousRange = comparisonRange({ from, to }, baseline);
+      const previousFilters = { ...filters, ...previousRange };
+
+      const [current, previous, periods, previousPeriods, services, staff, promos] = await Promise.all([
+        fetchSalesTotals(filters),
+        fetchSalesTotals(previousFilters),
+        fetchRevenueByPeriod({ from, to }, bucket, filters),
+        fetchRevenueByPeriod(previousRange, bucket, previousFilters),
+        fetchRevenueByService(filters),
+        fetchRevenueByStaff(filters),
+        fetchPromoCodeUsage(filters)
+      ]);
+
+      setTotals(current);
+      setPreviousTotals(previous);
+      setTrend(periods);
+      setTrendPrevious(previousPeriods);
+      setServiceRevenue(services);
+      setStaffRevenue(staff);
+      setPromoCodes(promos);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred while fetching data');
       console.error('Data fetch error:', err);
     } finally {
       setLoading(false);
     }
+  }, [from, to, staffId, serviceId, paymentMethod, baseline, bucket]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Writes the changed selections to the URL, leaving defaults out.
+  const updateView = (changes: Partial<AnalyticsView>) => {
+    const next = { ...view, ...changes };
+    const params = new URLSearchParams();
+    params.set('from', next.range.from);
+    params.set('to', next.range.to);
+    if (next.staffId) params.set('staff', next.staffId);
+    if (next.serviceId) params.set('service', next.serviceId);
+    if (next.paymentMethod) params.set('method', next.paymentMethod);
+    if (next.baseline !== 'previous_period') params.set('compare', next.baseline);
+    // A new range gets its own default bucket unless one was picked with it.
+    const bucketFor = changes.range && !changes.bucket ? defaultBucket(next.range) : next.bucket;
+    if (bucketFor !== defaultBucket(next.range)) params.set('by', bucketFor);
+    router.replace(`/analytics?${params.toString()}`, { scroll: false });
+  };
+
+  const openPicker = () => {
+    setPickerRange({ startDate: dayjs(from).toDate(), endDate: dayjs(to).toDate(), key: 'selection' });
+    setShowPicker(true);
+  };
+
+  const applyPicker = () => {
+    setShowPicker(false);
+    updateView({
+      range: {
+        from: dayjs(pickerRange.startDate).format('YYYY-MM-DD'),
+        to: dayjs(pickerRange.endDate).format('YYYY-MM-DD')
+      }
+    });
   };
 
   const handleLogout = async () => {
@@ -130,58 +239,172 @@ export default function AnalyticsPage() {
     }
   };
 
-  // Calculate revenue by service
-  const revenueByService = sales.reduce<Record<string, number>>((acc, sale) => {
-    if (sale.service) {
-      acc[sale.service] = (acc[sale.service] || 0) + sale.amount;
-    }
-    return acc;
-  }, {});
-
-  const chartData: ChartData[] = Object.entries(revenueByService)
-    .map(([service, amount], index) => ({
-      service,
-      amount,
-      color: COLORS[index % COLORS.length]
-    }))
-    .sort((a, b) => b.amount - a.amount);
-
-  // Calculate daily revenue for the last 7 days
-  const last7Days = Array.from({ length: 7 }, (_, i) => {
-    const date = dayjs().subtract(i, 'day');
-    const dayRevenue = sales
-      .filter(sale => dayjs(sale.date).isSame(date, 'day'))
-      .reduce((sum, sale) => sum + sale.amount, 0);
-    
-    return {
-      date: date.format('MMM DD'),
-      amount: dayRevenue
-    };
-  }).reverse();
-
-  const totalRevenue = sales.reduce((sum, sale) => sum + sale.amount, 0);
-  const averageDailyRevenue = totalRevenue / Math.max(1, sales.length > 0 ? dayjs().diff(dayjs(sales[sales.length - 1]?.date), 'day') + 1 : 1);
-
-  const handleExportSales = async (period: 'weekly' | 'monthly') => {
+  const chartData: ChartData[] = serviceRevenue.map(({ service, revenue }, index) => ({
+    service,
+    amount: revenue,
+    color: COLORS[index % COLORS.length]
+  }));
+
+  // The comparison series is lined up bucket for bucket with the current one.
+  const trendData: TrendPoint[] = trend.map((point, index) => ({
+    date: dayjs(point.period).format(BUCKET_LABELS[bucket].label),
+    amount: point.revenue,
+    previous: trendPrevious[index]?.revenue ?? null
+  }));
+
+  const totalRevenue = totals?.revenue || 0;
+  const salesCount = totals?.salesCount || 0;
+  const averageSale = salesCount > 0 ? totalRevenue / salesCount : 0;
+  const previousAverageSale = previousTotals && previousTotals.salesCount > 0
+    ? previousTotals.revenue / previousTotals.salesCount
+    : 0;
+  const refundTotal = totals?.refunded || 0;
+  const voidedCount = totals?.voidedCount || 0;
+  const discountTotals = {
+    total: totals?.discountTotal || 0,
+    line: totals?.lineDiscounts || 0,
+    promo: totals?.promoDiscounts || 0,
+    bill: totals?.billDiscounts || 0,
+    overrides: totals?.overrideCount || 0,
+    overrideAmount: totals?.overrideAmount || 0
+  };
+  const daysInRange = dayjs(to).diff(dayjs(from), 'day') + 1;
+  const averageDailyRevenue = totalRevenue / daysInRange;
+  const hasFilters = !!(staffId || serviceId || paymentMethod);
+
+  const growthLabel = (current: number, previous: number | undefined) => {
+    if (previous === undefined) return '…';
+    const change = growthPercent(current, previous);
+    return change === null ? formatGrowth(change) : `${formatGrowth(change)} ${comparisonLabel(baseline)}`;
+  };
+  const revenueGrowth = previousTotals ? growthPercent(totalRevenue, previousTotals.revenue) : null;
+
+  const handleExportSales = async () => {
     try {
-      await exportSalesToExcel(sales, period);
+      const sales = await fetchAnalyticsSales({ from, to, staffId, serviceId, paymentMethod });
+      exportSalesToExcel(sales, range);
     } catch (err) {
-      setError('Failed to export sales data');
+      setError(err instanceof Error ? err.message : 'Failed to export sales data');
     }
   };
 
-  const salesGrowth = periodSales.weekly > 0 
-    ? ((periodSales.weekly - (periodSales.monthly - periodSales.weekly)) / Math.max(1, periodSales.monthly - periodSales.weekly)) * 100
-    : 0;
-
   return (
     <div className="flex min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
       <Sidebar onLogout={handleLogout} />
       <main className="flex-1 p-8">
         {/* Header */}
-        <div className="mb-8">
-          <h1 className="text-4xl font-bold text-gray-900 mb-2">Analytics Dashboard</h1>
-          <p className="text-gray-600">Track your salon's performance and insights</p>
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">Analytics Dashboard</h1>
+            <p className="text-gray-600">Track your salon's performance and insights</p>
+          </div>
+        </div>
+
+        {/* Range and Filters */}
+        <div className="mb-8 bg-white rounded-2xl shadow-lg p-6 border border-gray-200">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div className="relative">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Date range</label>
+              <button
+                onClick={() => (showPicker ? setShowPicker(false) : openPicker())}
+                className="w-full flex items-center px-4 py-3 border border-gray-300 rounded-lg text-left hover:bg-gray-50 transition-all"
+              >
+                <CalendarDaysIcon className="h-5 w-5 mr-2 text-gray-400" />
+                {describeRange(range)}
+              </button>
+              {showPicker && (
+                <div className="absolute z-20 mt-2 bg-white rounded-xl shadow-2xl border border-gray-200 p-2">
+                  <DateRangePicker
+                    ranges={[pickerRange]}
+                    onChange={(item: { selection: typeof pickerRange }) => setPickerRange(item.selection)}
+                    maxDate={new Date()}
+                    rangeColors={['#ec4899']}
+                  />
+                  <div className="flex justify-end gap-2 p-2">
+                    <button
+                      onClick={() => setShowPicker(false)}
+                      className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={applyPicker}
+                      className="px-4 py-2 text-sm bg-pink-600 text-white rounded-lg hover:bg-pink-700"
+                    >
+                      Apply
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Staff</label>
+              <select
+                value={staffId || ''}
+                onChange={(e) => updateView({ staffId: e.target.value || null })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all bg-white"
+              >
+                <option value="">All staff</option>
+                {staffOptions.map(member => (
+                  <option key={member.id} value={member.id}>{member.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Service</label>
+              <select
+                value={serviceId || ''}
+                onChange={(e) => updateView({ serviceId: e.target.value || null })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all bg-white"
+              >
+                <option value="">All services</option>
+                {serviceOptions.map(service => (
+                  <option key={service.id} value={service.id}>{service.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Payment method</label>
+              <select
+                value={paymentMethod || ''}
+                onChange={(e) => updateView({ paymentMethod: (e.target.value || null) as PaymentMethod | null })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all bg-white"
+              >
+                <option value="">All methods</option>
+                {PAYMENT_METHODS.map(method => (
+                  <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Compare with</label>
+              <select
+                value={baseline}
+                onChange={(e) => updateView({ baseline: e.target.value as ComparisonBaseline })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all bg-white"
+              >
+                {(Object.keys(COMPARISON_BASELINE_LABELS) as ComparisonBaseline[]).map(option => (
+                  <option key={option} value={option}>{COMPARISON_BASELINE_LABELS[option]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {hasFilters && (
+            <div className="mt-4 flex items-center text-sm text-gray-600">
+              <FunnelIcon className="h-4 w-4 mr-1" />
+              Showing sales with a matching line or payment.
+              <button
+                onClick={() => updateView({ staffId: null, serviceId: null, paymentMethod: null })}
+                className="ml-2 text-pink-600 font-medium"
+              >
+                Clear filters
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Error Display */}
@@ -221,9 +444,9 @@ export default function AnalyticsPage() {
               >
                 <div className="flex items-center justify-between">
                   <div>
-                    <h3 className="text-sm font-medium text-pink-100">Today's Sales</h3>
-                    <p className="text-3xl font-bold mt-2">RM {periodSales.daily.toFixed(2)}</p>
-                    <p className="text-pink-100 text-sm mt-1">{completedAppointments} appointments</p>
+                    <h3 className="text-sm font-medium text-pink-100">Revenue</h3>
+                    <p className="text-3xl font-bold mt-2">RM {totalRevenue.toFixed(2)}</p>
+                    <p className="text-pink-100 text-sm mt-1">{describeRange(range)} · {growthLabel(totalRevenue, previousTotals?.revenue)}</p>
                   </div>
                   <div className="bg-white bg-opacity-20 rounded-lg p-3">
                     <CurrencyDollarIcon className="h-8 w-8" />
@@ -239,14 +462,12 @@ export default function AnalyticsPage() {
               >
                 <div className="flex items-center justify-between">
                   <div>
-                    <h3 className="text-sm font-medium text-blue-100">Weekly Sales</h3>
-                    <p className="text-3xl font-bold mt-2">RM {periodSales.weekly.toFixed(2)}</p>
-                    <p className="text-blue-100 text-sm mt-1">
-                      {salesGrowth >= 0 ? '+' : ''}{salesGrowth.toFixed(1)}% growth
-                    </p>
+                    <h3 className="text-sm font-medium text-blue-100">Sales</h3>
+                    <p className="text-3xl font-bold mt-2">{salesCount}</p>
+                    <p className="text-blue-100 text-sm mt-1">{growthLabel(salesCount, previousTotals?.salesCount)}</p>
                   </div>
                   <div className="bg-white bg-opacity-20 rounded-lg p-3">
-                    <CalendarDaysIcon className="h-8 w-8" />
+                    <ChartBarIcon className="h-8 w-8" />
                   </div>
                 </div>
               </motion.div>
@@ -259,12 +480,12 @@ export default function AnalyticsPage() {
               >
                 <div className="flex items-center justify-between">
                   <div>
-                    <h3 className="text-sm font-medium text-green-100">Monthly Sales</h3>
-                    <p className="text-3xl font-bold mt-2">RM {periodSales.monthly.toFixed(2)}</p>
-                    <p className="text-green-100 text-sm mt-1">This month</p>
+                    <h3 className="text-sm font-medium text-green-100">Average Sale</h3>
+                    <p className="text-3xl font-bold mt-2">RM {averageSale.toFixed(2)}</p>
+                    <p className="text-green-100 text-sm mt-1">{growthLabel(averageSale, previousTotals ? previousAverageSale : undefined)}</p>
                   </div>
                   <div className="bg-white bg-opacity-20 rounded-lg p-3">
-                    <ChartBarIcon className="h-8 w-8" />
+                    <ArrowTrendingUpIcon className="h-8 w-8" />
                   </div>
                 </div>
               </motion.div>
@@ -277,12 +498,12 @@ export default function AnalyticsPage() {
               >
                 <div className="flex items-center justify-between">
                   <div>
-                    <h3 className="text-sm font-medium text-orange-100">Total Revenue</h3>
-                    <p className="text-3xl font-bold mt-2">RM {totalRevenue.toFixed(2)}</p>
-                    <p className="text-orange-100 text-sm mt-1">All time</p>
+                    <h3 className="text-sm font-medium text-orange-100">Refunds</h3>
+                    <p className="text-3xl font-bold mt-2">RM {refundTotal.toFixed(2)}</p>
+                    <p className="text-orange-100 text-sm mt-1">{voidedCount} voided {voidedCount === 1 ? 'sale' : 'sales'}</p>
                   </div>
                   <div className="bg-white bg-opacity-20 rounded-lg p-3">
-                    <ArrowTrendingUpIcon className="h-8 w-8" />
+                    <ReceiptRefundIcon className="h-8 w-8" />
                   </div>
                 </div>
               </motion.div>
@@ -296,25 +517,19 @@ export default function AnalyticsPage() {
               className="bg-white rounded-2xl shadow-lg p-6 border border-gray-200"
             >
               <h2 className="text-xl font-bold text-gray-900 mb-4">Export Sales Data</h2>
-              <div className="flex flex-wrap gap-4">
+              <div className="flex flex-wrap items-center gap-4">
                 <motion.button
                   whileHover={{ scale: 1.02 }}
                   whileTap={{ scale: 0.98 }}
-                  onClick={() => handleExportSales('weekly')}
+                  onClick={handleExportSales}
                   className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-600 text-white font-semibold rounded-lg shadow-lg hover:shadow-xl transition-all duration-200"
                 >
                   <DocumentArrowDownIcon className="h-5 w-5 mr-2" />
-                  Export Weekly Sales
-                </motion.button>
-                <motion.button
-                  whileHover={{ scale: 1.02 }}
-                  whileTap={{ scale: 0.98 }}
-                  onClick={() => handleExportSales('monthly')}
-                  className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-blue-500 to-cyan-600 text-white font-semibold rounded-lg shadow-lg hover:shadow-xl transition-all duration-200"
-                >
-                  <DocumentArrowDownIcon className="h-5 w-5 mr-2" />
-                  Export Monthly Sales
+                  Export Sales
                 </motion.button>
+                <p className="text-sm text-gray-500">
+                  {describeRange(range)}{hasFilters && ', with the filters above'}
+                </p>
               </div>
             </motion.div>
 
@@ -415,32 +630,51 @@ export default function AnalyticsPage() {
                 transition={{ delay: 0.7 }}
                 className="bg-white rounded-2xl shadow-lg p-6 border border-gray-200"
               >
-                <h2 className="text-xl font-bold text-gray-900 mb-6">Daily Revenue (Last 7 Days)</h2>
-                
-                {last7Days.some(day => day.amount > 0) ? (
+                <div className="flex items-center justify-between mb-6">
+                  <h2 className="text-xl font-bold text-gray-900">{BUCKET_LABELS[bucket].title}</h2>
+                  <div className="flex gap-2">
+                    {(Object.keys(BUCKET_LABELS) as RevenueBucket[]).map(option => (
+                      <button
+                        key={option}
+                        onClick={() => updateView({ bucket: option })}
+                        className={`px-3 py-1.5 text-sm rounded-lg transition-colors capitalize ${
+                          bucket === option
+                            ? 'bg-blue-100 text-blue-600'
+                            : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                        }`}
+                      >
+                        {option}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {trendData.some(point => point.amount > 0) ? (
                   <>
                     <ResponsiveContainer width="100%" height={300}>
-                      <BarChart data={last7Days}>
+                      <BarChart data={trendData}>
                         <CartesianGrid strokeDasharray="3 3" />
                         <XAxis dataKey="date" />
                         <YAxis />
-                        <Tooltip formatter={(value) => [`RM ${value}`, 'Revenue']} />
-                        <Bar dataKey="amount" fill="#4FACFE" radius={[4, 4, 0, 0]} />
+                        <Tooltip formatter={(value) => `RM ${value}`} />
+                        <Legend />
+                        <Bar dataKey="previous" name={COMPARISON_BASELINE_LABELS[baseline]} fill="#CBD5E1" radius={[4, 4, 0, 0]} />
+                        <Bar dataKey="amount" name="Revenue" fill="#4FACFE" radius={[4, 4, 0, 0]} />
                       </BarChart>
                     </ResponsiveContainer>
                     
                     {/* Daily Stats */}
                     <div className="mt-6 grid grid-cols-2 gap-4">
                       <div className="bg-blue-50 rounded-lg p-4">
-                        <h4 className="text-blue-700 text-sm font-medium">Average Daily</h4>
+                        <h4 className="text-blue-700 text-sm font-medium">Average per {bucket}</h4>
                         <p className="text-2xl font-bold text-blue-800">
-                          RM {(last7Days.reduce((sum, day) => sum + day.amount, 0) / 7).toFixed(2)}
+                          RM {(trendData.reduce((sum, point) => sum + point.amount, 0) / Math.max(1, trendData.length)).toFixed(2)}
                         </p>
                       </div>
                       <div className="bg-green-50 rounded-lg p-4">
-                        <h4 className="text-green-700 text-sm font-medium">Best Day</h4>
+                        <h4 className="text-green-700 text-sm font-medium">Best {bucket}</h4>
                         <p className="text-2xl font-bold text-green-800">
-                          RM {Math.max(...last7Days.map(day => day.amount)).toFixed(2)}
+                          RM {Math.max(...trendData.map(point => point.amount)).toFixed(2)}
                         </p>
                       </div>
                     </div>
@@ -448,12 +682,113 @@ export default function AnalyticsPage() {
                 ) : (
                   <div className="flex flex-col items-center justify-center h-64 text-gray-500">
                     <ChartBarIcon className="h-16 w-16 mb-4 text-gray-300" />
-                    <p>No revenue data for the past 7 days</p>
+                    <p>No revenue data for this period</p>
                   </div>
                 )}
               </motion.div>
             </div>
 
+            {/* Revenue by Staff */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.72 }}
+              className="bg-white rounded-2xl shadow-lg p-6 border border-gray-200"
+            >
+              <h2 className="text-xl font-bold text-gray-900 mb-6">Revenue by Staff</h2>
+              {staffRevenue.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2">Staff</th>
+                        <th className="py-2 text-right">Sales</th>
+                        <th className="py-2 text-right">Services</th>
+                        <th className="py-2 text-right">Revenue</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {staffRevenue.map(row => (
+                        <tr key={row.staffId || row.staff}>
+                          <td className="py-2 font-medium text-gray-900">{row.staff}</td>
+                          <td className="py-2 text-right text-gray-700">{row.salesCount}</td>
+                          <td className="py-2 text-right text-gray-700">{row.quantity}</td>
+                          <td className="py-2 text-right font-semibold text-pink-600">RM {row.revenue.toFixed(2)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-gray-500 text-sm">No staff revenue yet</p>
+              )}
+            </motion.div>
+
+            {/* Discounts & Promotions */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.75 }}
+              className="bg-white rounded-2xl shadow-lg p-6 border border-gray-200"
+            >
+              <h2 className="text-xl font-bold text-gray-900 mb-6">Discounts & Promotions</h2>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+                <div className="bg-pink-50 rounded-lg p-4">
+                  <h4 className="text-pink-700 text-sm font-medium">Discounts Given</h4>
+                  <p className="text-2xl font-bold text-pink-800">RM {discountTotals.total.toFixed(2)}</p>
+                  <p className="text-pink-600 text-xs">{describeRange(range)}</p>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <h4 className="text-gray-600 text-sm font-medium">Line Discounts</h4>
+                  <p className="text-2xl font-bold text-gray-800">RM {discountTotals.line.toFixed(2)}</p>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <h4 className="text-gray-600 text-sm font-medium">Promo Codes</h4>
+                  <p className="text-2xl font-bold text-gray-800">RM {discountTotals.promo.toFixed(2)}</p>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <h4 className="text-gray-600 text-sm font-medium">Bill Discounts</h4>
+                  <p className="text-2xl font-bold text-gray-800">RM {discountTotals.bill.toFixed(2)}</p>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <h4 className="text-gray-600 text-sm font-medium">Price Overrides</h4>
+                  <p className="text-2xl font-bold text-gray-800">{discountTotals.overrides}</p>
+                  <p className="text-gray-500 text-xs">RM {discountTotals.overrideAmount.toFixed(2)} below list price</p>
+                </div>
+              </div>
+
+              {promoCodes.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2">Promo code</th>
+                        <th className="py-2">Discount</th>
+                        <th className="py-2 text-right">Times used</th>
+                        <th className="py-2 text-right">Cost</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {promoCodes.map(promo => (
+                        <tr key={promo.id}>
+                          <td className="py-2 font-mono font-semibold text-gray-900">{promo.code}</td>
+                          <td className="py-2 text-gray-700">
+                            {formatDiscount({ type: promo.discount_type, value: promo.discount_value })}
+                          </td>
+                          <td className="py-2 text-right text-gray-700">{promo.times_used}</td>
+                          <td className="py-2 text-right font-semibold text-pink-600">
+                            RM {Number(promo.discount_given).toFixed(2)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-gray-500 text-sm">No promo codes used in this range</p>
+              )}
+            </motion.div>
+
             {/* Quick Stats */}
             <motion.div
               initial={{ opacity: 0, y: 20 }}
@@ -467,9 +802,9 @@ export default function AnalyticsPage() {
                   <div className="bg-white bg-opacity-10 rounded-lg p-4 mb-2">
                     <CheckCircleIcon className="h-8 w-8 mx-auto" />
                   </div>
-                  <h4 className="text-gray-300 text-sm">Appointments Completed</h4>
-                  <p className="text-3xl font-bold">{completedAppointments}</p>
-                  <p className="text-gray-400 text-sm">Today</p>
+                  <h4 className="text-gray-300 text-sm">Sales Completed</h4>
+                  <p className="text-3xl font-bold">{salesCount}</p>
+                  <p className="text-gray-400 text-sm">In range</p>
                 </div>
                 <div className="text-center">
                   <div className="bg-white bg-opacity-10 rounded-lg p-4 mb-2">
@@ -477,17 +812,15 @@ export default function AnalyticsPage() {
                   </div>
                   <h4 className="text-gray-300 text-sm">Average Daily Revenue</h4>
                   <p className="text-3xl font-bold">RM {averageDailyRevenue.toFixed(2)}</p>
-                  <p className="text-gray-400 text-sm">Overall</p>
+                  <p className="text-gray-400 text-sm">Over {daysInRange} {daysInRange === 1 ? 'day' : 'days'}</p>
                 </div>
                 <div className="text-center">
                   <div className="bg-white bg-opacity-10 rounded-lg p-4 mb-2">
                     <ArrowTrendingUpIcon className="h-8 w-8 mx-auto" />
                   </div>
                   <h4 className="text-gray-300 text-sm">Growth Rate</h4>
-                  <p className="text-3xl font-bold">
-                    {salesGrowth >= 0 ? '+' : ''}{salesGrowth.toFixed(1)}%
-                  </p>
-                  <p className="text-gray-400 text-sm">Week over week</p>
+                  <p className="text-3xl font-bold">{formatGrowth(revenueGrowth)}</p>
+                  <p className="text-gray-400 text-sm">Revenue {comparisonLabel(baseline)}</p>
                 </div>
               </div>
             </motion.div>
@@ -1,3 +1,5 @@
+import { SaleItem, SalePayment, SaleRefund } from '@/lib/sales';
+
 export interface Sale {
   id: string;
   customer_name: string;
@@ -5,4 +7,15 @@ export interface Sale {
   amount: number;
   date: string;
   staff?: string;
+  staff_id?: string | null;
+  promo_code_id?: string | null;
+  promo_discount?: number;
+  bill_discount?: number;
+  discount_total?: number;
+  sale_items?: SaleItem[];
+  sale_payments?: SalePayment[];
+  sale_refunds?: SaleRefund[];
+  net_amount?: number;
+  refunded_amount?: number;
+  voided_at?: string | null;
 }
@@ -1,6 +1,7 @@
 'use client';
 
 import { useEffect, useState, useCallback } from 'react';
+import dayjs from 'dayjs';
 import { supabase } from '@/lib/supabase';
 import Sidebar from '@/components/Sidebar';
 import { useRouter } from 'next/navigation';
@@ -17,12 +18,46 @@ import {
   XMarkIcon
 } from '@heroicons/react/24/outline';
 import { motion, AnimatePresence } from 'framer-motion';
+import AppointmentStatusBadge from '@/components/AppointmentStatusBadge';
+import CustomerSuggestions from '@/components/CustomerSuggestions';
+import SlotFinder, { SlotChoice } from '@/components/SlotFinder';
+import AppointmentTimeline, { TimelineView, timelineRange } from '@/components/AppointmentTimeline';
+import DiscountInput, { DiscountDraft, emptyDiscount, parseDiscountDraft } from '@/components/DiscountInput';
+import { StaffMember, fetchStaff } from '@/lib/staff';
+import { TaxSettings, calculateCharges, fetchTaxSettings } from '@/lib/tax';
+import { DiscountType, PromoCodeSummary, applyBillDiscounts, findPromoCode, formatDiscount } from '@/lib/discounts';
+import { Customer, findOrCreateCustomer } from '@/lib/customers';
+import { PHONE_TYPE_LABELS, PHONE_VALIDATION_MESSAGE, formatPhoneNumber, parsePhoneNumber } from '@/lib/phone';
+import {
+  STAFF_AVAILABILITY_LABELS,
+  StaffAvailabilityStatus,
+  fetchStaffAvailability,
+  isBookableAvailability
+} from '@/lib/schedules';
+import { BusinessDay, businessHoursProblem, fetchBusinessCalendar } from '@/lib/businessHours';
+import Link from 'next/link';
+import {
+  ACTIVE_STATUSES,
+  APPOINTMENT_STATUSES,
+  AppointmentStatus,
+  STATUS_ACTION_LABELS,
+  STATUS_LABELS,
+  StaffBooking,
+  canComplete,
+  completeAppointment,
+  findStaffConflicts,
+  getNextStatuses,
+  isStaffOverlapError,
+  updateAppointmentStatus
+} from '@/lib/appointments';
 
 interface Service {
   id: string;
   name: string;
   price: number;
   duration_minutes: number;
+  tax_exempt?: boolean;
+  buffer_minutes?: number;
 }
 
 interface Appointment {
@@ -31,21 +66,40 @@ interface Appointment {
   phone_number: string;
   services: Service[];
   staff?: string;
+  staff_id?: string | null;
+  customer_id?: string | null;
   date: string;
   time: string;
   total_duration: number;
   total_price: number;
+  promo_code?: string | null;
+  discount_type?: DiscountType | null;
+  discount_value?: number | null;
+  discount_reason?: string | null;
+  status: AppointmentStatus;
+  status_changed_at: string;
 }
 
+type StatusFilter = 'active' | 'all' | AppointmentStatus;
+
+type AppointmentView = 'list' | TimelineView;
+
+const VIEW_LABELS: Record<AppointmentView, string> = {
+  list: 'List',
+  day: 'Day',
+  week: 'Week'
+};
+
 export default function AppointmentPage() {
   const router = useRouter();
   const [appointments, setAppointments] = useState<Appointment[]>([]);
   const [services, setServices] = useState<Service[]>([]);
+  const [staffMembers, setStaffMembers] = useState<StaffMember[]>([]);
   const [selectedServices, setSelectedServices] = useState<Service[]>([]);
   const [formData, setFormData] = useState({
     customer_name: '',
     phone_number: '',
-    staff: '',
+    staff_id: '',
     date: '',
     time: '',
   });
@@ -54,6 +108,24 @@ export default function AppointmentPage() {
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showForm, setShowForm] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+  const [view, setView] = useState<AppointmentView>('list');
+  const [timelineDate, setTimelineDate] = useState(() => dayjs().format('YYYY-MM-DD'));
+  const [completingId, setCompletingId] = useState<string | null>(null);
+  const [customerId, setCustomerId] = useState<string | null>(null);
+  const [customerQuery, setCustomerQuery] = useState('');
+  const [conflicts, setConflicts] = useState<StaffBooking[]>([]);
+  const [allowOverlap, setAllowOverlap] = useState(false);
+  // Who is on shift for the form's date, time and duration; null until both are set.
+  const [staffAvailability, setStaffAvailability] = useState<Map<string, StaffAvailabilityStatus> | null>(null);
+  const [businessDay, setBusinessDay] = useState<BusinessDay | null>(null);
+  const [showSlotFinder, setShowSlotFinder] = useState(false);
+  const [taxSettings, setTaxSettings] = useState<TaxSettings | null>(null);
+  const [discount, setDiscount] = useState<DiscountDraft>(emptyDiscount);
+  const [discountReason, setDiscountReason] = useState('');
+  const [promoInput, setPromoInput] = useState('');
+  const [promo, setPromo] = useState<PromoCodeSummary | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
 
   const checkAuth = useCallback(async () => {
     const { data: { user }, error: authError } = await supabase.auth.getUser();
@@ -65,34 +137,27 @@ export default function AppointmentPage() {
 
   useEffect(() => {
     checkAuth();
-    fetchAppointments();
     fetchServices();
+    fetchStaff()
+      .then(setStaffMembers)
+      .catch(err => console.error('Error fetching staff:', err));
+    fetchTaxSettings()
+      .then(setTaxSettings)
+      .catch(err => console.error('Error fetching tax settings:', err));
     return () => {
-      setFormData({ customer_name: '', phone_number: '', staff: '', date: '', time: '' });
+      setFormData({ customer_name: '', phone_number: '', staff_id: '', date: '', time: '' });
       setSelectedServices([]);
+      setCustomerId(null);
+      setCustomerQuery('');
       setEditingId(null);
       setError(null);
     };
   }, [checkAuth]);
 
-  const fetchServices = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('services')
-        .select('*')
-        .order('name');
-      
-      if (error) throw error;
-      setServices(data || []);
-    } catch (err) {
-      console.error('Error fetching services:', err);
-    }
-  };
-
-  const fetchAppointments = async () => {
+  const fetchAppointments = useCallback(async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
+      let query = supabase
         .from('appointments')
         .select(`
           id,
@@ -100,13 +165,34 @@ export default function AppointmentPage() {
           phone_number,
           services,
           staff,
+          staff_id,
+          customer_id,
           date,
           time,
           total_duration,
-          total_price
+          total_price,
+          promo_code,
+          discount_type,
+          discount_value,
+          discount_reason,
+          status,
+          status_changed_at
         `)
         .order('date', { ascending: true });
 
+      if (view !== 'list') {
+        const { from, to } = timelineRange(view, timelineDate);
+        query = query.gte('date', from).lte('date', to).order('time', { ascending: true });
+      }
+
+      if (statusFilter === 'active') {
+        query = query.in('status', ACTIVE_STATUSES);
+      } else if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+
+      const { data, error } = await query;
+
       if (error) {
         console.error('Error fetching appointments:', error);
         throw new Error(error.message);
@@ -125,6 +211,123 @@ export default function AppointmentPage() {
     } finally {
       setLoading(false);
     }
+  }, [statusFilter, view, timelineDate]);
+
+  useEffect(() => {
+    fetchAppointments();
+  }, [fetchAppointments]);
+
+  const { staff_id: formStaffId, date: formDate, time: formTime } = formData;
+  const parsedFormPhone = parsePhoneNumber(formData.phone_number);
+  const selectedDiscounts = applyBillDiscounts(
+    selectedServices.map(service => ({ serviceId: service.id, amount: service.price })),
+    promo,
+    parseDiscountDraft(discount)
+  );
+  // Stored appointment services do not carry the exemption flag, so look it up.
+  const selectedCharges = calculateCharges(
+    selectedServices.map((service, index) => ({
+      amount: selectedDiscounts.netAmounts[index],
+      taxExempt: services.find(s => s.id === service.id)?.tax_exempt ?? false
+    })),
+    taxSettings
+  );
+
+  useEffect(() => {
+    const duration = selectedServices.reduce((sum, service) => sum + service.duration_minutes, 0);
+    setAllowOverlap(false);
+
+    if (!formStaffId || !formDate || !formTime || duration === 0) {
+      setConflicts([]);
+      return;
+    }
+
+    let cancelled = false;
+    findStaffConflicts({ staffId: formStaffId, date: formDate, time: formTime, duration, excludeId: editingId })
+      .then(result => {
+        if (!cancelled) setConflicts(result);
+      })
+      .catch(err => console.error('Error checking staff conflicts:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [formStaffId, formDate, formTime, selectedServices, editingId]);
+
+  useEffect(() => {
+    const duration = selectedServices.reduce((sum, service) => sum + service.duration_minutes, 0);
+
+    if (!formDate || !formTime) {
+      setStaffAvailability(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetchStaffAvailability(formDate, formTime, duration)
+      .then(result => {
+        if (!cancelled) setStaffAvailability(result);
+      })
+      .catch(err => console.error('Error checking staff availability:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [formDate, formTime, selectedServices]);
+
+  useEffect(() => {
+    if (!formDate) {
+      setBusinessDay(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetchBusinessCalendar(formDate, formDate)
+      .then(([day]) => {
+        if (!cancelled) setBusinessDay(day || null);
+      })
+      .catch(err => console.error('Error fetching opening hours:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [formDate]);
+
+  // Edits that keep the original slot are allowed even if the hours have
+  // changed since, as in the database trigger.
+  const formDuration = selectedServices.reduce((sum, service) => sum + service.duration_minutes, 0);
+  const originalAppointment = editingId ? appointments.find(appointment => appointment.id === editingId) : undefined;
+  const keepsOriginalSlot = !!originalAppointment &&
+    originalAppointment.date === formDate &&
+    originalAppointment.time === formTime &&
+    originalAppointment.total_duration === formDuration;
+  // Stored appointment services do not carry buffers either.
+  const formBuffer = selectedServices.reduce(
+    (sum, service) => sum + (services.find(s => s.id === service.id)?.buffer_minutes ?? 0),
+    0
+  );
+  const openingHoursProblem = businessDay && !keepsOriginalSlot
+    ? businessHoursProblem(businessDay, formTime, formDuration)
+    : null;
+
+  const staffAvailabilityFor = (staffId: string) => staffAvailability?.get(staffId);
+  const selectedStaffStatus = formStaffId ? staffAvailabilityFor(formStaffId) : undefined;
+  const selectedStaffOffShift = !isBookableAvailability(selectedStaffStatus);
+  const offShiftCount = staffMembers.filter(
+    member => member.active && !isBookableAvailability(staffAvailabilityFor(member.id))
+  ).length;
+
+  const fetchServices = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('services')
+        .select('*')
+        .order('name');
+      
+      if (error) throw error;
+      setServices(data || []);
+    } catch (err) {
+      console.error('Error fetching services:', err);
+    }
   };
 
   const handleLogout = async () => {
@@ -132,10 +335,25 @@ export default function AppointmentPage() {
     router.push('/');
   };
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     setError(null);
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
+
+    if (name === 'customer_name' || name === 'phone_number') {
+      setCustomerId(null);
+      setCustomerQuery(value);
+    }
+  };
+
+  const handleCustomerSelect = (customer: Customer) => {
+    setFormData(prev => ({
+      ...prev,
+      customer_name: customer.name,
+      phone_number: formatPhoneNumber(customer.phone_number)
+    }));
+    setCustomerId(customer.id);
+    setCustomerQuery('');
   };
 
   const handleServiceToggle = (service: Service) => {
@@ -149,6 +367,24 @@ export default function AppointmentPage() {
     });
   };
 
+  const resetDiscounts = () => {
+    setDiscount(emptyDiscount);
+    setDiscountReason('');
+    setPromoInput('');
+    setPromo(null);
+    setPromoError(null);
+  };
+
+  const handleApplyPromo = async () => {
+    setPromoError(null);
+    try {
+      setPromo(await findPromoCode(promoInput));
+    } catch (err) {
+      setPromo(null);
+      setPromoError(err instanceof Error ? err.message : 'Promo code could not be checked');
+    }
+  };
+
   const calculateTotals = (services: Service[]) => {
     return services.reduce(
       (acc, service) => ({
@@ -165,13 +401,39 @@ export default function AppointmentPage() {
     setIsSubmitting(true);
 
     try {
-      const { customer_name, phone_number, staff, date, time } = formData;
+      const { customer_name, phone_number, staff_id, date, time } = formData;
+      const staffMember = staffMembers.find(member => member.id === staff_id);
 
       if (!customer_name || !date || !time || selectedServices.length === 0) {
         throw new Error('Customer name, services, date and time are required');
       }
 
-      const { duration, price } = calculateTotals(selectedServices);
+      const parsedPhone = parsePhoneNumber(phone_number);
+      if (!parsedPhone) {
+        throw new Error(PHONE_VALIDATION_MESSAGE);
+      }
+
+      if (openingHoursProblem) {
+        throw new Error(openingHoursProblem);
+      }
+
+      if (staff_id && selectedStaffOffShift) {
+        throw new Error(
+          `${staffMember?.name} is not working at this time (${STAFF_AVAILABILITY_LABELS[selectedStaffStatus!].toLowerCase()}). Choose another time or staff member.`
+        );
+      }
+
+      if (conflicts.length > 0 && !allowOverlap) {
+        throw new Error(`${staffMember?.name} is already booked at this time. Choose another time or confirm the double booking.`);
+      }
+
+      const parsedDiscount = parseDiscountDraft(discount);
+      if (parsedDiscount && !discountReason.trim()) {
+        throw new Error('Give a reason for the discount');
+      }
+
+      const { duration } = calculateTotals(selectedServices);
+      const price = selectedDiscounts.netAmounts.reduce((sum, amount) => sum + amount, 0);
 
       const servicesData = selectedServices.map(service => ({
         id: service.id,
@@ -181,42 +443,59 @@ export default function AppointmentPage() {
       }));
 
       const appointmentData = {
+        customer_id: customerId || await findOrCreateCustomer(customer_name, parsedPhone.e164),
         customer_name,
-        phone_number,
+        phone_number: parsedPhone.e164,
         services: servicesData,
-        staff: staff || null,
+        staff: staffMember?.name || null,
+        staff_id: staffMember?.id || null,
         date,
         time,
         total_duration: duration,
-        total_price: price
+        total_price: price,
+        promo_code: promo?.code || null,
+        discount_type: parsedDiscount?.type || null,
+        discount_value: parsedDiscount?.value || null,
+        discount_reason: parsedDiscount ? discountReason.trim() : null,
+        allow_overlap: conflicts.length > 0 && allowOverlap
       };
 
       if (editingId) {
-        const { data, error: updateError } = await supabase
+        const { error: updateError } = await supabase
           .from('appointments')
           .update(appointmentData)
           .eq('id', editingId)
           .select()
           .single();
 
+        if (isStaffOverlapError(updateError)) {
+          throw new Error('Another booking for this staff member was just saved at an overlapping time');
+        }
         if (updateError) {
           throw new Error(updateError.message);
         }
       } else {
-        const { data, error: insertError } = await supabase
+        const { error: insertError } = await supabase
           .from('appointments')
           .insert([appointmentData])
           .select()
           .single();
 
+        if (isStaffOverlapError(insertError)) {
+          throw new Error('Another booking for this staff member was just saved at an overlapping time');
+        }
         if (insertError) {
           throw new Error(insertError.message);
         }
       }
 
-      setFormData({ customer_name: '', phone_number: '', staff: '', date: '', time: '' });
+      setFormData({ customer_name: '', phone_number: '', staff_id: '', date: '', time: '' });
       setSelectedServices([]);
+      setCustomerId(null);
+      setCustomerQuery('');
+      resetDiscounts();
       setEditingId(null);
+      setShowSlotFinder(false);
       setShowForm(false);
       await fetchAppointments();
     } catch (err) {
@@ -232,12 +511,26 @@ export default function AppointmentPage() {
       setError(null);
       setFormData({
         customer_name: appointment.customer_name || '',
-        phone_number: appointment.phone_number || '',
-        staff: appointment.staff || '',
+        phone_number: formatPhoneNumber(appointment.phone_number),
+        staff_id: appointment.staff_id || '',
         date: appointment.date || '',
         time: appointment.time || ''
       });
       setSelectedServices(appointment.services || []);
+      setCustomerId(appointment.customer_id || null);
+      setCustomerQuery('');
+      setDiscount(appointment.discount_type
+        ? { type: appointment.discount_type, value: String(appointment.discount_value ?? '') }
+        : emptyDiscount);
+      setDiscountReason(appointment.discount_reason || '');
+      setPromo(null);
+      setPromoError(null);
+      setPromoInput(appointment.promo_code || '');
+      if (appointment.promo_code) {
+        findPromoCode(appointment.promo_code, { booked: true })
+          .then(setPromo)
+          .catch(err => setPromoError(err instanceof Error ? err.message : 'Promo code could not be checked'));
+      }
       setEditingId(appointment.id);
       setShowForm(true);
     } catch (err) {
@@ -245,9 +538,18 @@ export default function AppointmentPage() {
     }
   };
 
+  const handleSlotSelect = ({ date, time, staffId }: SlotChoice) => {
+    setFormData(prev => ({ ...prev, date, time, staff_id: staffId }));
+    setShowSlotFinder(false);
+  };
+
   const handleCancelEdit = () => {
-    setFormData({ customer_name: '', phone_number: '', staff: '', date: '', time: '' });
+    setShowSlotFinder(false);
+    setFormData({ customer_name: '', phone_number: '', staff_id: '', date: '', time: '' });
     setSelectedServices([]);
+    setCustomerId(null);
+    setCustomerQuery('');
+    resetDiscounts();
     setEditingId(null);
     setShowForm(false);
   };
@@ -273,40 +575,29 @@ export default function AppointmentPage() {
   };
 
   const handleMarkAsDone = async (appointment: Appointment) => {
+    if (completingId) return;
+
     try {
       setError(null);
-
-      const salesData = {
-        customer_name: appointment.customer_name,
-        service: appointment.services.map(s => s.name).join(', '),
-        amount: appointment.total_price,
-        date: new Date().toISOString().split('T')[0],
-        staff: appointment.staff || null
-      };
-
-      const { data: saleData, error: salesError } = await supabase
-        .from('sales')
-        .insert([salesData])
-        .select()
-        .single();
-
-      if (salesError) {
-        throw new Error(`Failed to create sale: ${salesError.message}`);
-      }
-
-      const { error: deleteError } = await supabase
-        .from('appointments')
-        .delete()
-        .eq('id', appointment.id);
-
-      if (deleteError) {
-        throw new Error(`Failed to delete appointment: ${deleteError.message}`);
-      }
-
+      setCompletingId(appointment.id);
+      await completeAppointment(appointment.id);
       await fetchAppointments();
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to mark appointment as done';
       setError(errorMessage);
+    } finally {
+      setCompletingId(null);
+    }
+  };
+
+  const handleStatusChange = async (appointment: Appointment, status: AppointmentStatus) => {
+    try {
+      setError(null);
+      await updateAppointmentStatus(appointment.id, appointment.status, status);
+      await fetchAppointments();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update appointment status';
+      setError(errorMessage);
     }
   };
 
@@ -427,29 +718,69 @@ export default function AppointmentPage() {
                         <input
                           type="tel"
                           name="phone_number"
-                          placeholder="Enter phone number"
+                          placeholder="e.g. 012-345 6789"
                           value={formData.phone_number}
                           onChange={handleChange}
+                          onBlur={() => {
+                            if (parsedFormPhone) {
+                              setFormData(prev => ({ ...prev, phone_number: formatPhoneNumber(parsedFormPhone.e164) }));
+                            }
+                          }}
                           required
                           className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all"
                           disabled={isSubmitting}
                         />
                       </div>
+                      {formData.phone_number.trim() && (
+                        parsedFormPhone ? (
+                          <p className="mt-1 text-xs text-gray-500">
+                            {PHONE_TYPE_LABELS[parsedFormPhone.type]} · {parsedFormPhone.e164}
+                          </p>
+                        ) : (
+                          <p className="mt-1 text-xs text-red-600">{PHONE_VALIDATION_MESSAGE}</p>
+                        )
+                      )}
                     </div>
 
                     <div className="relative">
                       <label className="block text-sm font-medium text-gray-700 mb-2">
                         Staff Member
                       </label>
-                      <input
-                        type="text"
-                        name="staff"
-                        placeholder="Enter staff name"
-                        value={formData.staff}
+                      <select
+                        name="staff_id"
+                        value={formData.staff_id}
                         onChange={handleChange}
-                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all"
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all bg-white"
                         disabled={isSubmitting}
-                      />
+                      >
+                        <option value="">No staff assigned</option>
+                        {staffMembers
+                          .filter(member =>
+                            member.id === formData.staff_id ||
+                            (member.active && isBookableAvailability(staffAvailabilityFor(member.id)))
+                          )
+                          .map(member => {
+                            const status = staffAvailabilityFor(member.id);
+                            return (
+                              <option key={member.id} value={member.id}>
+                                {member.name}{member.role ? ` (${member.role})` : ''}
+                                {status && status !== 'on_shift' ? ` · ${STAFF_AVAILABILITY_LABELS[status]}` : ''}
+                              </option>
+                            );
+                          })}
+                      </select>
+                      {formData.staff_id && selectedStaffOffShift ? (
+                        <p className="mt-1 text-xs text-red-600">
+                          {staffMembers.find(member => member.id === formData.staff_id)?.name} is not working at this
+                          time ({STAFF_AVAILABILITY_LABELS[selectedStaffStatus!].toLowerCase()})
+                        </p>
+                      ) : (
+                        staffAvailability && offShiftCount > 0 && (
+                          <p className="mt-1 text-xs text-gray-500">
+                            {offShiftCount} staff not on shift at this time are hidden
+                          </p>
+                        )
+                      )}
                     </div>
 
                     <div className="grid grid-cols-2 gap-4">
@@ -483,15 +814,30 @@ export default function AppointmentPage() {
                             name="time"
                             value={formData.time}
                             onChange={handleChange}
+                            min={businessDay?.openTime?.slice(0, 5)}
+                            max={businessDay?.closeTime?.slice(0, 5)}
                             required
                             className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all"
                             disabled={isSubmitting}
                           />
                         </div>
                       </div>
+                      {openingHoursProblem ? (
+                        <p className="col-span-2 -mt-2 text-xs text-red-600">{openingHoursProblem}</p>
+                      ) : (
+                        businessDay?.openTime && businessDay.closeTime && (
+                          <p className="col-span-2 -mt-2 text-xs text-gray-500">
+                            Open {businessDay.openTime.slice(0, 5)} to {businessDay.closeTime.slice(0, 5)}
+                          </p>
+                        )
+                      )}
                     </div>
                   </div>
 
+                  {!customerId && (
+                    <CustomerSuggestions query={customerQuery} onSelect={handleCustomerSelect} />
+                  )}
+
                   {/* Service Selection */}
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-4">
@@ -534,6 +880,34 @@ export default function AppointmentPage() {
                     </div>
                   </div>
 
+                  {/* Slot Finder */}
+                  {selectedServices.length > 0 && (
+                    <div>
+                      <button
+                        type="button"
+                        onClick={() => setShowSlotFinder(!showSlotFinder)}
+                        className="inline-flex items-center text-sm font-medium text-pink-600 hover:text-pink-700"
+                        disabled={isSubmitting}
+                      >
+                        <ClockIcon className="h-4 w-4 mr-1" />
+                        {showSlotFinder ? 'Hide open slots' : 'Find an open slot'}
+                      </button>
+                      {showSlotFinder && (
+                        <div className="mt-3">
+                          <SlotFinder
+                            duration={formDuration}
+                            buffer={formBuffer}
+                            staff={staffMembers}
+                            initialStaffId={formData.staff_id}
+                            initialDate={formData.date}
+                            excludeId={editingId}
+                            onSelect={handleSlotSelect}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {/* Selected Services Summary */}
                   {selectedServices.length > 0 && (
                     <motion.div
@@ -549,20 +923,135 @@ export default function AppointmentPage() {
                             <span className="font-medium">RM {service.price.toFixed(2)}</span>
                           </div>
                         ))}
+                        {selectedDiscounts.promoDiscount > 0 && (
+                          <div className="flex justify-between text-sm text-green-700">
+                            <span>Promo {promo?.code}</span>
+                            <span>-RM {selectedDiscounts.promoDiscount.toFixed(2)}</span>
+                          </div>
+                        )}
+                        {selectedDiscounts.billDiscount > 0 && (
+                          <div className="flex justify-between text-sm text-green-700">
+                            <span>Discount{discountReason.trim() && ` (${discountReason.trim()})`}</span>
+                            <span>-RM {selectedDiscounts.billDiscount.toFixed(2)}</span>
+                          </div>
+                        )}
                         <div className="border-t border-pink-200 pt-3 mt-3">
                           <div className="flex justify-between font-semibold text-lg">
                             <span>Total Duration:</span>
                             <span className="text-purple-600">{calculateTotals(selectedServices).duration} mins</span>
                           </div>
+                          {selectedCharges.serviceCharge > 0 && (
+                            <div className="flex justify-between text-sm text-gray-600">
+                              <span>Service charge ({taxSettings?.service_charge_rate}%)</span>
+                              <span>RM {selectedCharges.serviceCharge.toFixed(2)}</span>
+                            </div>
+                          )}
+                          {selectedCharges.tax > 0 && (
+                            <div className="flex justify-between text-sm text-gray-600">
+                              <span>
+                                SST ({taxSettings?.sst_rate}%){taxSettings?.prices_include_tax && ', included'}
+                              </span>
+                              <span>RM {selectedCharges.tax.toFixed(2)}</span>
+                            </div>
+                          )}
                           <div className="flex justify-between font-semibold text-lg">
                             <span>Total Price:</span>
-                            <span className="text-pink-600">RM {calculateTotals(selectedServices).price.toFixed(2)}</span>
+                            <span className="text-pink-600">RM {selectedCharges.total.toFixed(2)}</span>
                           </div>
                         </div>
                       </div>
                     </motion.div>
                   )}
 
+                  {/* Discount and Promo Code */}
+                  {selectedServices.length > 0 && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Discount</label>
+                        <div className="flex gap-2">
+                          <div className="w-40">
+                            <DiscountInput discount={discount} onChange={setDiscount} />
+                          </div>
+                          <input
+                            type="text"
+                            value={discountReason}
+                            onChange={(e) => setDiscountReason(e.target.value)}
+                            placeholder="Reason"
+                            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all"
+                          />
+                        </div>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Promo code</label>
+                        {promo ? (
+                          <div className="flex items-center justify-between px-4 py-2 bg-green-50 border border-green-200 rounded-lg">
+                            <span className="text-green-800">
+                              <span className="font-mono font-semibold">{promo.code}</span>
+                              {' · '}
+                              {formatDiscount({ type: promo.discount_type, value: promo.discount_value })} off
+                            </span>
+                            <button
+                              type="button"
+                              onClick={() => { setPromo(null); setPromoInput(''); }}
+                              className="text-sm text-gray-600 hover:text-red-600"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        ) : (
+                          <div className="flex gap-2">
+                            <input
+                              type="text"
+                              value={promoInput}
+                              onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                              placeholder="e.g. RAYA10"
+                              className="w-full px-4 py-2 border border-gray-300 rounded-lg font-mono focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all"
+                            />
+                            <button
+                              type="button"
+                              onClick={handleApplyPromo}
+                              disabled={!promoInput.trim()}
+                              className="px-4 py-2 bg-pink-100 text-pink-700 rounded-lg hover:bg-pink-200 transition-colors disabled:opacity-50"
+                            >
+                              Apply
+                            </button>
+                          </div>
+                        )}
+                        {promoError && <p className="mt-1 text-sm text-red-600">{promoError}</p>}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Staff Conflicts */}
+                  {conflicts.length > 0 && (
+                    <div className="bg-yellow-50 border border-yellow-300 rounded-xl p-4">
+                      <h4 className="font-semibold text-yellow-800 mb-2">
+                        {staffMembers.find(member => member.id === formData.staff_id)?.name} already has {conflicts.length === 1 ? 'a booking' : 'bookings'} at this time
+                      </h4>
+                      <ul className="space-y-1 text-sm text-yellow-800 mb-3">
+                        {conflicts.map(conflict => (
+                          <li key={conflict.id} className="flex items-center gap-2">
+                            <ClockIcon className="h-4 w-4" />
+                            <span>
+                              {formatTime(conflict.time)} · {conflict.total_duration} mins · {conflict.customer_name}
+                            </span>
+                            <AppointmentStatusBadge status={conflict.status} />
+                          </li>
+                        ))}
+                      </ul>
+                      <label className="flex items-center gap-2 text-sm text-yellow-900">
+                        <input
+                          type="checkbox"
+                          checked={allowOverlap}
+                          onChange={(e) => setAllowOverlap(e.target.checked)}
+                          disabled={isSubmitting}
+                          className="rounded border-yellow-400 text-pink-600 focus:ring-pink-500"
+                        />
+                        Book anyway (double booking)
+                      </label>
+                    </div>
+                  )}
+
                   {/* Form Actions */}
                   <div className="flex justify-end gap-4 pt-6">
                     <button
@@ -578,7 +1067,13 @@ export default function AppointmentPage() {
                       whileTap={{ scale: 0.98 }}
                       type="submit"
                       className="px-8 py-3 bg-gradient-to-r from-pink-500 to-purple-600 text-white font-semibold rounded-lg shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50"
-                      disabled={isSubmitting || selectedServices.length === 0}
+                      disabled={
+                        isSubmitting ||
+                        selectedServices.length === 0 ||
+                        !!openingHoursProblem ||
+                        (!!formData.staff_id && selectedStaffOffShift) ||
+                        (conflicts.length > 0 && !allowOverlap)
+                      }
                     >
                       {isSubmitting 
                         ? (editingId ? 'Updating...' : 'Creating...') 
@@ -592,11 +1087,51 @@ export default function AppointmentPage() {
           )}
         </AnimatePresence>
 
+        {/* View and Status Filter */}
+        <div className="mb-6 flex flex-wrap items-center gap-2">
+          <div className="flex rounded-lg border border-gray-200 bg-white p-1 mr-2">
+            {(Object.keys(VIEW_LABELS) as AppointmentView[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                  view === option ? 'bg-pink-500 text-white' : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {VIEW_LABELS[option]}
+              </button>
+            ))}
+          </div>
+          {(['active', ...APPOINTMENT_STATUSES, 'all'] as StatusFilter[]).map(filter => (
+            <button
+              key={filter}
+              onClick={() => setStatusFilter(filter)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                statusFilter === filter
+                  ? 'bg-pink-100 text-pink-700'
+                  : 'bg-white text-gray-600 hover:bg-gray-100 border border-gray-200'
+              }`}
+            >
+              {filter === 'active' ? 'Upcoming' : filter === 'all' ? 'All' : STATUS_LABELS[filter]}
+            </button>
+          ))}
+        </div>
+
         {/* Appointments List */}
         {loading ? (
           <div className="flex justify-center items-center h-64">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500"></div>
           </div>
+        ) : view !== 'list' ? (
+          <AppointmentTimeline
+            view={view}
+            date={timelineDate}
+            appointments={appointments}
+            staff={staffMembers}
+            onDateChange={setTimelineDate}
+            onEdit={handleEdit}
+            onChanged={fetchAppointments}
+          />
         ) : appointments.length === 0 ? (
           <motion.div
             initial={{ opacity: 0 }}
@@ -604,8 +1139,14 @@ export default function AppointmentPage() {
             className="text-center py-16"
           >
             <CalendarDaysIcon className="mx-auto h-16 w-16 text-gray-400 mb-4" />
-            <h3 className="text-xl font-medium text-gray-900 mb-2">No appointments yet</h3>
-            <p className="text-gray-500">Create your first appointment to get started</p>
+            <h3 className="text-xl font-medium text-gray-900 mb-2">
+              {statusFilter === 'active' ? 'No upcoming appointments' : 'No appointments found'}
+            </h3>
+            <p className="text-gray-500">
+              {statusFilter === 'active'
+                ? 'Create a new appointment to get started'
+                : 'Try a different status filter'}
+            </p>
           </motion.div>
         ) : (
           <div className="grid gap-6 lg:grid-cols-1 xl:grid-cols-2">
@@ -619,22 +1160,34 @@ export default function AppointmentPage() {
               >
                 <div className="flex items-start justify-between mb-4">
                   <div>
-                    <h3 className="text-xl font-bold text-gray-900">{appointment.customer_name}</h3>
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-xl font-bold text-gray-900">
+                        {appointment.customer_id ? (
+                          <Link href={`/customers/${appointment.customer_id}`} className="hover:text-pink-600 transition-colors">
+                            {appointment.customer_name}
+                          </Link>
+                        ) : appointment.customer_name}
+                      </h3>
+                      <AppointmentStatusBadge status={appointment.status} />
+                    </div>
                     <p className="text-gray-600 flex items-center mt-1">
                       <PhoneIcon className="h-4 w-4 mr-2" />
-                      {appointment.phone_number}
+                      {formatPhoneNumber(appointment.phone_number)}
                     </p>
                   </div>
                   <div className="flex gap-2">
-                    <motion.button
-                      whileHover={{ scale: 1.1 }}
-                      whileTap={{ scale: 0.9 }}
-                      onClick={() => handleMarkAsDone(appointment)}
-                      className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors"
-                      title="Mark as completed"
-                    >
-                      <CheckIcon className="h-5 w-5" />
-                    </motion.button>
+                    {canComplete(appointment.status) && (
+                      <motion.button
+                        whileHover={{ scale: 1.1 }}
+                        whileTap={{ scale: 0.9 }}
+                        onClick={() => handleMarkAsDone(appointment)}
+                        disabled={completingId === appointment.id}
+                        className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors disabled:opacity-50"
+                        title="Mark as completed"
+                      >
+                        <CheckIcon className="h-5 w-5" />
+                      </motion.button>
+                    )}
                     <motion.button
                       whileHover={{ scale: 1.1 }}
                       whileTap={{ scale: 0.9 }}
@@ -667,6 +1220,12 @@ export default function AppointmentPage() {
 
                   <div className="flex items-center text-gray-700">
                     <UserIcon className="h-5 w-5 text-blue-500 mr-3" />
+                    {appointment.staff_id && (
+                      <span
+                        className="w-3 h-3 rounded-full mr-2"
+                        style={{ backgroundColor: staffMembers.find(member => member.id === appointment.staff_id)?.color }}
+                      />
+                    )}
                     <span>{appointment.staff || 'No staff assigned'}</span>
                   </div>
 
@@ -691,8 +1250,32 @@ export default function AppointmentPage() {
                       <span className="text-2xl font-bold text-pink-600">
                         RM {appointment.total_price.toFixed(2)}
                       </span>
+                      {(appointment.promo_code || appointment.discount_type) && (
+                        <p className="text-xs text-green-700">
+                          {[
+                            appointment.promo_code,
+                            appointment.discount_type && appointment.discount_value
+                              ? `${formatDiscount({ type: appointment.discount_type, value: appointment.discount_value })} off`
+                              : null
+                          ].filter(Boolean).join(' · ')}
+                        </p>
+                      )}
                     </div>
                   </div>
+
+                  {getNextStatuses(appointment.status).length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {getNextStatuses(appointment.status).map(status => (
+                        <button
+                          key={status}
+                          onClick={() => handleStatusChange(appointment, status)}
+                          className="px-3 py-1 text-xs font-medium rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+                        >
+                          {STATUS_ACTION_LABELS[status]}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </motion.div>
             ))}
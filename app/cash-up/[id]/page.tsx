@@ -0,0 +1,181 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import dayjs from 'dayjs';
+import { supabase } from '@/lib/supabase';
+import { PAYMENT_METHOD_LABELS } from '@/lib/sales';
+import { ReceiptSettings, fetchReceiptSettings } from '@/lib/receipts';
+import { DAY_CLOSURE_SELECT, DayClosure, sortCounts, totalVariance } from '@/lib/closures';
+import { ArrowLeftIcon, PrinterIcon } from '@heroicons/react/24/outline';
+
+const money = (value: number) => Number(value).toFixed(2);
+
+const signed = (value: number) => `${value > 0.005 ? '+' : ''}${money(value)}`;
+
+// Printable Z-report of a closed day, read back from the stored closure so it
+// always matches what was counted.
+export default function ZReportPage() {
+  const { id } = useParams<{ id: string }>();
+  const [closure, setClosure] = useState<DayClosure | null>(null);
+  const [settings, setSettings] = useState<ReceiptSettings | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [closureResult, receiptSettings] = await Promise.all([
+          supabase.from('day_closures').select(DAY_CLOSURE_SELECT).eq('id', id).single(),
+          fetchReceiptSettings()
+        ]);
+        if (closureResult.error) {
+          throw new Error(`Failed to load Z-report: ${closureResult.error.message}`);
+        }
+        setClosure(closureResult.data as DayClosure);
+        setSettings(receiptSettings);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load Z-report');
+      }
+    };
+    load();
+  }, [id]);
+
+  useEffect(() => {
+    if (!closure) return;
+    document.title = `Z-report ${closure.outlet_code} ${closure.business_date}`;
+  }, [closure]);
+
+  if (error) {
+    return <p className="p-8 text-red-600">{error}</p>;
+  }
+
+  if (!closure || !settings) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="w-10 h-10 border-4 border-pink-200 border-t-pink-600 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  const counts = sortCounts(closure.day_closure_counts);
+  const variance = totalVariance(closure.day_closure_counts);
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8 print:bg-white print:py-0">
+      <div className="max-w-md mx-auto mb-4 flex justify-between print:hidden">
+        <Link href="/cash-up" className="inline-flex items-center text-gray-600 hover:text-gray-900">
+          <ArrowLeftIcon className="h-4 w-4 mr-1" />
+          Back to cash-up
+        </Link>
+        <button
+          onClick={() => window.print()}
+          className="inline-flex items-center px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700"
+        >
+          <PrinterIcon className="h-5 w-5 mr-2" />
+          Print / Save as PDF
+        </button>
+      </div>
+
+      <div className="max-w-md mx-auto bg-white p-8 shadow-lg print:shadow-none print:p-0 text-sm text-gray-900">
+        <div className="text-center mb-4">
+          <h1 className="text-xl font-bold">{settings.business_name || 'Z-report'}</h1>
+          <p className="font-semibold tracking-widest">Z-REPORT</p>
+        </div>
+
+        <div className="border-t border-dashed border-gray-400 py-2 space-y-0.5">
+          <div className="flex justify-between">
+            <span>Outlet</span>
+            <span className="font-mono">{closure.outlet_code}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Business day</span>
+            <span>{dayjs(closure.business_date).format('DD/MM/YYYY')}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Closed</span>
+            <span>{dayjs(closure.closed_at).format('DD/MM/YYYY h:mm A')}</span>
+          </div>
+          {closure.closed_by_email && (
+            <div className="flex justify-between">
+              <span>Closed by</span>
+              <span>{closure.closed_by_email}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span>Receipts</span>
+            <span className="font-mono">
+              {closure.first_receipt_number ? `${closure.first_receipt_number} - ${closure.last_receipt_number}` : '-'}
+            </span>
+          </div>
+        </div>
+
+        <div className="border-t border-dashed border-gray-400 py-2 space-y-0.5">
+          <div className="flex justify-between">
+            <span>Sales ({closure.sales_count})</span>
+            <span>{money(closure.gross_sales)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Discounts given</span>
+            <span>{money(closure.discounts)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Service charge</span>
+            <span>{money(closure.service_charge)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>SST</span>
+            <span>{money(closure.tax)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Voids ({closure.voids_count})</span>
+            <span>{money(closure.voids_amount)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Refunds ({closure.refunds_count})</span>
+            <span>-{money(closure.refunds_amount)}</span>
+          </div>
+          <div className="flex justify-between text-base font-bold pt-1">
+            <span>Net sales (RM)</span>
+            <span>{money(closure.net_sales)}</span>
+          </div>
+        </div>
+
+        <table className="w-full border-t border-dashed border-gray-400">
+          <thead>
+            <tr className="text-left">
+              <th className="py-1 font-semibold">Method</th>
+              <th className="py-1 font-semibold text-right">Expected</th>
+              <th className="py-1 font-semibold text-right">Counted</th>
+              <th className="py-1 font-semibold text-right">Variance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {counts.map(count => (
+              <tr key={count.method}>
+                <td className="py-0.5">{PAYMENT_METHOD_LABELS[count.method]}</td>
+                <td className="py-0.5 text-right">{money(count.expected)}</td>
+                <td className="py-0.5 text-right">{money(count.counted)}</td>
+                <td className="py-0.5 text-right">{signed(Number(count.variance))}</td>
+              </tr>
+            ))}
+            <tr className="font-bold border-t border-dashed border-gray-400">
+              <td className="py-1">Total</td>
+              <td className="py-1 text-right">{money(counts.reduce((sum, count) => sum + Number(count.expected), 0))}</td>
+              <td className="py-1 text-right">{money(counts.reduce((sum, count) => sum + Number(count.counted), 0))}</td>
+              <td className="py-1 text-right">{signed(variance)}</td>
+            </tr>
+          </tbody>
+        </table>
+
+        <div className="border-t border-dashed border-gray-400 py-2 space-y-0.5">
+          <div className="flex justify-between">
+            <span>Opening float (in cash expected)</span>
+            <span>{money(closure.opening_float)}</span>
+          </div>
+          {closure.notes && <p className="pt-1 whitespace-pre-line">Notes: {closure.notes}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
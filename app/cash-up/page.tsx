@@ -0,0 +1,333 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import dayjs from 'dayjs';
+import { supabase } from '@/lib/supabase';
+import Sidebar from '@/components/Sidebar';
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS, PaymentMethod } from '@/lib/sales';
+import { fetchReceiptSettings } from '@/lib/receipts';
+import {
+  DAY_CLOSURE_SELECT,
+  DayClosure,
+  ExpectedTaking,
+  closeDay,
+  fetchDayClosure,
+  fetchExpectedTakings,
+  totalVariance
+} from '@/lib/closures';
+import { CalendarDaysIcon, DocumentTextIcon, LockClosedIcon } from '@heroicons/react/24/outline';
+
+interface DaySale {
+  amount: number;
+  net_amount: number;
+  voided_at: string | null;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all';
+
+const varianceClass = (variance: number) =>
+  Math.abs(variance) < 0.005 ? 'text-gray-700' : variance > 0 ? 'text-green-700' : 'text-red-700';
+
+const formatVariance = (variance: number) =>
+  `${variance > 0.005 ? '+' : ''}${variance.toFixed(2)}`;
+
+export default function CashUpPage() {
+  const router = useRouter();
+  const [selectedDate, setSelectedDate] = useState(dayjs().format('YYYY-MM-DD'));
+  const [outletCode, setOutletCode] = useState<string | null>(null);
+  const [closure, setClosure] = useState<DayClosure | null>(null);
+  const [expected, setExpected] = useState<ExpectedTaking[]>([]);
+  const [daySales, setDaySales] = useState<DaySale[]>([]);
+  const [history, setHistory] = useState<DayClosure[]>([]);
+  const [openingFloat, setOpeningFloat] = useState('0.00');
+  const [counted, setCounted] = useState<Partial<Record<PaymentMethod, string>>>({});
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [isClosing, setIsClosing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchReceiptSettings()
+      .then(settings => setOutletCode(settings.outlet_code))
+      .catch(err => setError(err.message));
+  }, []);
+
+  const fetchHistory = useCallback(async () => {
+    const { data, error: historyError } = await supabase
+      .from('day_closures')
+      .select(DAY_CLOSURE_SELECT)
+      .order('business_date', { ascending: false })
+      .limit(30);
+    if (historyError) {
+      console.error('Error fetching closures:', historyError);
+    } else {
+      setHistory(data || []);
+    }
+  }, []);
+
+  const fetchDay = useCallback(async () => {
+    if (!outletCode) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const [dayClosure, takings, salesResult] = await Promise.all([
+        fetchDayClosure(outletCode, selectedDate),
+        fetchExpectedTakings(selectedDate),
+        supabase
+          .from('sales')
+          .select('amount, net_amount, voided_at')
+          .eq('outlet_code', outletCode)
+          .eq('date', selectedDate)
+      ]);
+      if (salesResult.error) throw new Error(salesResult.error.message);
+      setClosure(dayClosure);
+      setExpected(takings);
+      setDaySales(salesResult.data || []);
+      setCounted({});
+      setNotes('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the day');
+    } finally {
+      setLoading(false);
+    }
+  }, [outletCode, selectedDate]);
+
+  useEffect(() => {
+    fetchDay();
+    fetchHistory();
+  }, [fetchDay, fetchHistory]);
+
+  const handleLogout = async () => {
+    await supabase.auth.signOut();
+    router.push('/');
+  };
+
+  const floatAmount = parseFloat(openingFloat) || 0;
+  const expectedFor = (method: PaymentMethod) =>
+    Number(expected.find(taking => taking.method === method)?.amount || 0) + (method === 'cash' ? floatAmount : 0);
+  // Cash is always counted; other methods only when something was taken.
+  const methods = PAYMENT_METHODS.filter(method => method === 'cash' || expected.some(taking => taking.method === method));
+  const countedFor = (method: PaymentMethod) => parseFloat(counted[method] || '') || 0;
+  const variance = methods.reduce((sum, method) => sum + countedFor(method) - expectedFor(method), 0);
+  const liveSales = daySales.filter(sale => !sale.voided_at);
+
+  const handleClose = async () => {
+    if (methods.some(method => counted[method] === undefined || counted[method] === '')) {
+      setError('Enter the counted amount for every payment method');
+      return;
+    }
+    if (Math.abs(variance) >= 0.005 && !notes.trim()) {
+      setError('Explain the variance in the notes before closing');
+      return;
+    }
+    if (!confirm(`Close ${dayjs(selectedDate).format('D MMM YYYY')}? No more sales, payments or refunds can be recorded for it.`)) {
+      return;
+    }
+
+    setIsClosing(true);
+    setError(null);
+    try {
+      const result = await closeDay(
+        selectedDate,
+        floatAmount,
+        methods.map(method => ({ method, counted: countedFor(method) })),
+        notes
+      );
+      router.push(`/cash-up/${result.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to close the day');
+      setIsClosing(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      <Sidebar onLogout={handleLogout} />
+      <main className="flex-1 p-8">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">Cash-up</h1>
+          <p className="text-gray-600">Count the takings, close the day and print the Z-report</p>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg shadow-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-200 mb-8">
+          <div className="flex flex-wrap items-end justify-between gap-4 mb-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Business day</label>
+              <div className="relative">
+                <CalendarDaysIcon className="h-5 w-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                <input
+                  type="date"
+                  value={selectedDate}
+                  max={dayjs().format('YYYY-MM-DD')}
+                  onChange={(e) => setSelectedDate(e.target.value)}
+                  className="pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all"
+                />
+              </div>
+            </div>
+            <div className="flex gap-6 text-right">
+              <div>
+                <p className="text-sm text-gray-500">Sales</p>
+                <p className="text-2xl font-bold text-gray-900">{liveSales.length}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Net sales</p>
+                <p className="text-2xl font-bold text-pink-600">
+                  RM {liveSales.reduce((sum, sale) => sum + Number(sale.net_amount), 0).toFixed(2)}
+                </p>
+              </div>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center items-center h-32">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-pink-500"></div>
+            </div>
+          ) : closure ? (
+            <div className="flex items-center justify-between bg-gray-50 rounded-lg p-4">
+              <div className="flex items-center text-gray-700">
+                <LockClosedIcon className="h-5 w-5 mr-2" />
+                Closed {dayjs(closure.closed_at).format('D MMM YYYY h:mm A')}
+                {closure.closed_by_email && ` by ${closure.closed_by_email}`}
+              </div>
+              <Link
+                href={`/cash-up/${closure.id}`}
+                className="inline-flex items-center px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700"
+              >
+                <DocumentTextIcon className="h-5 w-5 mr-2" />
+                View Z-report
+              </Link>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="max-w-xs">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Opening float (RM)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={openingFloat}
+                  onChange={(e) => setOpeningFloat(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left text-sm text-gray-500 border-b">
+                    <th className="py-2">Method</th>
+                    <th className="py-2 text-right">Expected (RM)</th>
+                    <th className="py-2 w-48">Counted (RM)</th>
+                    <th className="py-2 text-right">Variance (RM)</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {methods.map(method => (
+                    <tr key={method}>
+                      <td className="py-3 font-medium text-gray-900">
+                        {PAYMENT_METHOD_LABELS[method]}
+                        {method === 'cash' && <span className="block text-xs text-gray-500">Whole drawer, float included</span>}
+                      </td>
+                      <td className="py-3 text-right text-gray-700">{expectedFor(method).toFixed(2)}</td>
+                      <td className="py-3">
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={counted[method] ?? ''}
+                          onChange={(e) => setCounted(prev => ({ ...prev, [method]: e.target.value }))}
+                          placeholder="0.00"
+                          className={inputClass}
+                        />
+                      </td>
+                      <td className={`py-3 text-right font-semibold ${varianceClass(countedFor(method) - expectedFor(method))}`}>
+                        {counted[method] ? formatVariance(countedFor(method) - expectedFor(method)) : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="font-semibold">
+                    <td className="py-3">Total</td>
+                    <td className="py-3 text-right">
+                      {methods.reduce((sum, method) => sum + expectedFor(method), 0).toFixed(2)}
+                    </td>
+                    <td className="py-3 pl-3">{methods.reduce((sum, method) => sum + countedFor(method), 0).toFixed(2)}</td>
+                    <td className={`py-3 text-right ${varianceClass(variance)}`}>{formatVariance(variance)}</td>
+                  </tr>
+                </tbody>
+              </table>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Notes {Math.abs(variance) >= 0.005 && '*'}
+                </label>
+                <textarea
+                  rows={2}
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="e.g. RM 5 short, change given wrongly"
+                  className={inputClass}
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <button
+                  onClick={handleClose}
+                  disabled={isClosing}
+                  className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-600 text-white font-semibold rounded-lg shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50"
+                >
+                  <LockClosedIcon className="h-5 w-5 mr-2" />
+                  {isClosing ? 'Closing...' : 'Close day'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-200">
+          <h2 className="text-xl font-bold text-gray-900 mb-4">Closed Days</h2>
+          {history.length === 0 ? (
+            <p className="text-gray-500">No days have been closed yet</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2">Date</th>
+                  <th className="py-2">Outlet</th>
+                  <th className="py-2 text-right">Net sales (RM)</th>
+                  <th className="py-2 text-right">Variance (RM)</th>
+                  <th className="py-2">Closed by</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {history.map(day => (
+                  <tr key={day.id}>
+                    <td className="py-2">{dayjs(day.business_date).format('ddd, D MMM YYYY')}</td>
+                    <td className="py-2 font-mono">{day.outlet_code}</td>
+                    <td className="py-2 text-right">{Number(day.net_sales).toFixed(2)}</td>
+                    <td className={`py-2 text-right font-semibold ${varianceClass(totalVariance(day.day_closure_counts))}`}>
+                      {formatVariance(totalVariance(day.day_closure_counts))}
+                    </td>
+                    <td className="py-2 text-gray-600">{day.closed_by_email || '-'}</td>
+                    <td className="py-2 text-right">
+                      <Link href={`/cash-up/${day.id}`} className="text-pink-600 hover:text-pink-700 font-medium">
+                        Z-report
+                      </Link>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,438 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import dayjs from 'dayjs';
+import { supabase } from '@/lib/supabase';
+import Sidebar from '@/components/Sidebar';
+import AppointmentStatusBadge from '@/components/AppointmentStatusBadge';
+import { ACTIVE_STATUSES, AppointmentStatus } from '@/lib/appointments';
+import { CustomerSummary } from '@/lib/customers';
+import { saleNetAmount } from '@/lib/sales';
+import {
+  BUYER_ID_TYPE_LABELS,
+  BuyerDetails,
+  CUSTOMER_BUYER_SELECT,
+  CustomerBuyerRow,
+  MALAYSIAN_STATES,
+  buyerFromCustomer,
+  saveCustomerBuyerDetails
+} from '@/lib/einvoice';
+import BuyerDetailsForm from '@/components/BuyerDetailsForm';
+import { PHONE_VALIDATION_MESSAGE, formatPhoneNumber, parsePhoneNumber } from '@/lib/phone';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  ArrowLeftIcon,
+  CalendarDaysIcon,
+  CurrencyDollarIcon,
+  PhoneIcon,
+  EnvelopeIcon,
+  ShoppingBagIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline';
+
+interface CustomerAppointment {
+  id: string;
+  date: string;
+  time: string;
+  services: { name: string }[];
+  staff?: string;
+  total_price: number;
+  status: AppointmentStatus;
+}
+
+interface CustomerSale {
+  id: string;
+  date: string;
+  created_at?: string;
+  service: string;
+  amount: number;
+  net_amount: number;
+  voided_at: string | null;
+  staff?: string;
+  appointment_id?: string | null;
+}
+
+type TimelineEntry =
+  | { kind: 'appointment'; sortKey: string; appointment: CustomerAppointment }
+  | { kind: 'sale'; sortKey: string; sale: CustomerSale };
+
+export default function CustomerProfilePage() {
+  const router = useRouter();
+  const { id } = useParams<{ id: string }>();
+  const [customer, setCustomer] = useState<CustomerSummary | null>(null);
+  const [appointments, setAppointments] = useState<CustomerAppointment[]>([]);
+  const [sales, setSales] = useState<CustomerSale[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [formData, setFormData] = useState({ name: '', phone_number: '', email: '', birthday: '', notes: '' });
+  const [buyer, setBuyer] = useState<BuyerDetails | null>(null);
+  const [hasBuyerDetails, setHasBuyerDetails] = useState(false);
+  const [buyerDraft, setBuyerDraft] = useState<BuyerDetails | null>(null);
+
+  const fetchProfile = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [customerResult, appointmentResult, salesResult, buyerResult] = await Promise.all([
+        supabase.from('customer_summaries').select('*').eq('id', id).single(),
+        supabase
+          .from('appointments')
+          .select('id, date, time, services, staff, total_price, status')
+          .eq('customer_id', id)
+          .order('date', { ascending: false }),
+        supabase
+          .from('sales')
+          .select('id, date, created_at, service, amount, net_amount, voided_at, staff, appointment_id')
+          .eq('customer_id', id)
+          .order('date', { ascending: false }),
+        supabase.from('customers').select(CUSTOMER_BUYER_SELECT).eq('id', id).single()
+      ]);
+
+      if (customerResult.error) throw new Error(customerResult.error.message);
+      if (appointmentResult.error) throw new Error(appointmentResult.error.message);
+      if (salesResult.error) throw new Error(salesResult.error.message);
+      if (buyerResult.error) throw new Error(buyerResult.error.message);
+
+      setCustomer(customerResult.data);
+      setAppointments(appointmentResult.data || []);
+      setSales(salesResult.data || []);
+      setBuyer(buyerFromCustomer(buyerResult.data as CustomerBuyerRow));
+      setHasBuyerDetails(!!buyerResult.data.tin);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load customer');
+      console.error('Error fetching customer profile:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchProfile();
+  }, [fetchProfile]);
+
+  const handleLogout = async () => {
+    await supabase.auth.signOut();
+    router.push('/');
+  };
+
+  const startEditing = () => {
+    if (!customer) return;
+    setFormData({
+      name: customer.name,
+      phone_number: formatPhoneNumber(customer.phone_number),
+      email: customer.email || '',
+      birthday: customer.birthday || '',
+      notes: customer.notes || ''
+    });
+    setIsEditing(true);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    setFormData(prev => ({ ...prev, [e.target.name]: e.target.value }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const phone = formData.phone_number.trim();
+    const parsedPhone = phone ? parsePhoneNumber(phone) : null;
+    if (phone && !parsedPhone) {
+      setError(PHONE_VALIDATION_MESSAGE);
+      return;
+    }
+
+    const { error: updateError } = await supabase
+      .from('customers')
+      .update({
+        name: formData.name.trim(),
+        phone_number: parsedPhone?.e164 || null,
+        email: formData.email.trim() || null,
+        birthday: formData.birthday || null,
+        notes: formData.notes.trim() || null
+      })
+      .eq('id', id);
+
+    if (updateError) {
+      setError(updateError.message);
+      return;
+    }
+
+    setIsEditing(false);
+    await fetchProfile();
+  };
+
+  const handleSaveBuyer = async () => {
+    if (!customer || !buyerDraft) return;
+    setError(null);
+    try {
+      await saveCustomerBuyerDetails(id, customer.name, buyerDraft);
+      setBuyerDraft(null);
+      await fetchProfile();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save e-invoice details');
+    }
+  };
+
+  // Completed appointments already appear through their sale.
+  const timeline: TimelineEntry[] = [
+    ...appointments
+      .filter(appointment => appointment.status !== 'completed')
+      .map(appointment => ({
+        kind: 'appointment' as const,
+        sortKey: `${appointment.date} ${appointment.time}`,
+        appointment
+      })),
+    ...sales.map(sale => ({
+      kind: 'sale' as const,
+      sortKey: sale.created_at ? dayjs(sale.created_at).format('YYYY-MM-DD HH:mm:ss') : sale.date,
+      sale
+    }))
+  ].sort((a, b) => b.sortKey.localeCompare(a.sortKey));
+
+  const upcomingCount = appointments.filter(appointment => ACTIVE_STATUSES.includes(appointment.status)).length;
+
+  return (
+    <div className="flex min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      <Sidebar onLogout={handleLogout} />
+      <main className="flex-1 p-8">
+        <Link href="/customers" className="inline-flex items-center text-sm text-gray-600 hover:text-pink-600 mb-6">
+          <ArrowLeftIcon className="h-4 w-4 mr-1" />
+          All customers
+        </Link>
+
+        {/* Error Display */}
+        <AnimatePresence>
+          {error && (
+            <motion.div
+              initial={{ opacity: 0, y: -20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              className="mb-6 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg shadow-sm"
+            >
+              <div className="flex items-center">
+                <XMarkIcon className="h-5 w-5 mr-2" />
+                {error}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {loading ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500"></div>
+          </div>
+        ) : !customer ? (
+          <p className="text-gray-600">Customer not found.</p>
+        ) : (
+          <div className="space-y-8">
+            {customer.merged_into && (
+              <div className="bg-yellow-50 border border-yellow-300 text-yellow-800 px-4 py-3 rounded-lg">
+                This profile was merged into{' '}
+                <Link href={`/customers/${customer.merged_into}`} className="font-medium underline">
+                  another customer
+                </Link>
+                . Its history now appears there.
+              </div>
+            )}
+
+            {/* Profile */}
+            <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-200">
+              {isEditing ? (
+                <form onSubmit={handleSave} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <input name="name" value={formData.name} onChange={handleChange} required placeholder="Name"
+                    className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent" />
+                  <input name="phone_number" type="tel" value={formData.phone_number} onChange={handleChange} placeholder="Phone number"
+                    className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent" />
+                  <input name="email" type="email" value={formData.email} onChange={handleChange} placeholder="Email"
+                    className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent" />
+                  <input name="birthday" type="date" value={formData.birthday} onChange={handleChange}
+                    className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent" />
+                  <textarea name="notes" value={formData.notes} onChange={handleChange} placeholder="Notes (preferences, allergies...)"
+                    className="md:col-span-2 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent" rows={3} />
+                  <div className="md:col-span-2 flex justify-end gap-3">
+                    <button type="button" onClick={() => setIsEditing(false)}
+                      className="px-6 py-3 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors">
+                      Cancel
+                    </button>
+                    <button type="submit"
+                      className="px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-600 text-white font-semibold rounded-lg shadow-lg">
+                      Save
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h1 className="text-4xl font-bold text-gray-900 mb-2">{customer.name}</h1>
+                    <p className="text-gray-600 flex items-center">
+                      <PhoneIcon className="h-4 w-4 mr-2" />
+                      {formatPhoneNumber(customer.phone_number) || 'No phone number'}
+                    </p>
+                    {customer.email && (
+                      <p className="text-gray-600 flex items-center mt-1">
+                        <EnvelopeIcon className="h-4 w-4 mr-2" />
+                        {customer.email}
+                      </p>
+                    )}
+                    {customer.birthday && (
+                      <p className="text-gray-600 mt-1">Birthday: {dayjs(customer.birthday).format('D MMMM')}</p>
+                    )}
+                    {customer.notes && <p className="text-gray-700 mt-3 whitespace-pre-line">{customer.notes}</p>}
+                  </div>
+                  <button onClick={startEditing}
+                    className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors">
+                    Edit profile
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {/* e-Invoice details */}
+            {buyer && (
+              <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-200">
+                <div className="flex items-start justify-between mb-4">
+                  <div>
+                    <h2 className="text-xl font-bold text-gray-900">e-Invoice Details</h2>
+                    <p className="text-sm text-gray-500">Used when this customer asks for their own e-invoice</p>
+                  </div>
+                  {!buyerDraft && (
+                    <button onClick={() => setBuyerDraft(buyer)}
+                      className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors">
+                      {hasBuyerDetails ? 'Edit' : 'Add details'}
+                    </button>
+                  )}
+                </div>
+                {buyerDraft ? (
+                  <div className="space-y-4">
+                    <BuyerDetailsForm value={buyerDraft} onChange={setBuyerDraft} />
+                    <div className="flex justify-end gap-3">
+                      <button onClick={() => setBuyerDraft(null)}
+                        className="px-6 py-3 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors">
+                        Cancel
+                      </button>
+                      <button onClick={handleSaveBuyer}
+                        className="px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-600 text-white font-semibold rounded-lg shadow-lg">
+                        Save
+                      </button>
+                    </div>
+                  </div>
+                ) : hasBuyerDetails ? (
+                  <dl className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                    <div>
+                      <dt className="text-gray-500">Registered name</dt>
+                      <dd className="text-gray-900">{buyer.name}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-gray-500">TIN</dt>
+                      <dd className="text-gray-900 font-mono">{buyer.tin}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-gray-500">{BUYER_ID_TYPE_LABELS[buyer.id_type]}</dt>
+                      <dd className="text-gray-900 font-mono">{buyer.id_number || '-'}</dd>
+                    </div>
+                    <div className="md:col-span-3">
+                      <dt className="text-gray-500">Address</dt>
+                      <dd className="text-gray-900">
+                        {[
+                          buyer.address_line,
+                          buyer.postcode,
+                          buyer.city,
+                          MALAYSIAN_STATES.find(([code]) => code === buyer.state_code)?.[1],
+                          buyer.country_code
+                        ].filter(Boolean).join(', ')}
+                      </dd>
+                    </div>
+                  </dl>
+                ) : (
+                  <p className="text-gray-500">No TIN recorded.</p>
+                )}
+              </div>
+            )}
+
+            {/* Stats */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+              <div className="bg-gradient-to-r from-pink-500 to-purple-600 rounded-2xl shadow-lg p-6 text-white">
+                <h3 className="text-sm font-medium text-pink-100">Lifetime Spend</h3>
+                <p className="text-3xl font-bold mt-2">RM {Number(customer.lifetime_spend).toFixed(2)}</p>
+              </div>
+              <div className="bg-gradient-to-r from-blue-500 to-cyan-600 rounded-2xl shadow-lg p-6 text-white">
+                <h3 className="text-sm font-medium text-blue-100">Visits</h3>
+                <p className="text-3xl font-bold mt-2">{customer.visit_count}</p>
+              </div>
+              <div className="bg-gradient-to-r from-green-500 to-emerald-600 rounded-2xl shadow-lg p-6 text-white">
+                <h3 className="text-sm font-medium text-green-100">Last Visit</h3>
+                <p className="text-3xl font-bold mt-2">
+                  {customer.last_visit ? dayjs(customer.last_visit).format('D MMM YYYY') : '-'}
+                </p>
+              </div>
+              <div className="bg-gradient-to-r from-orange-500 to-red-600 rounded-2xl shadow-lg p-6 text-white">
+                <h3 className="text-sm font-medium text-orange-100">Upcoming</h3>
+                <p className="text-3xl font-bold mt-2">{upcomingCount}</p>
+              </div>
+            </div>
+
+            {/* Timeline */}
+            <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-200">
+              <h2 className="text-xl font-bold text-gray-900 mb-6">History</h2>
+              {timeline.length === 0 ? (
+                <p className="text-gray-500">No appointments or sales yet.</p>
+              ) : (
+                <ol className="relative border-l border-gray-200 ml-3 space-y-6">
+                  {timeline.map(entry => entry.kind === 'sale' ? (
+                    <li key={`sale-${entry.sale.id}`} className="ml-6">
+                      <span className="absolute -left-3 flex items-center justify-center w-6 h-6 bg-pink-100 rounded-full">
+                        <ShoppingBagIcon className="h-3.5 w-3.5 text-pink-600" />
+                      </span>
+                      <div className="flex justify-between">
+                        <div>
+                          <p className="font-medium text-gray-900">{entry.sale.service}</p>
+                          <p className="text-sm text-gray-500">
+                            {dayjs(entry.sale.date).format('ddd, D MMM YYYY')}
+                            {entry.sale.staff && ` · ${entry.sale.staff}`}
+                            {entry.sale.appointment_id ? ' · Appointment' : ' · Walk-in'}
+                          </p>
+                        </div>
+                        {entry.sale.voided_at ? (
+                          <span className="font-semibold text-gray-400 line-through">RM {entry.sale.amount.toFixed(2)}</span>
+                        ) : (
+                          <span className="font-semibold text-pink-600">RM {saleNetAmount(entry.sale).toFixed(2)}</span>
+                        )}
+                      </div>
+                    </li>
+                  ) : (
+                    <li key={`appointment-${entry.appointment.id}`} className="ml-6">
+                      <span className="absolute -left-3 flex items-center justify-center w-6 h-6 bg-purple-100 rounded-full">
+                        <CalendarDaysIcon className="h-3.5 w-3.5 text-purple-600" />
+                      </span>
+                      <div className="flex justify-between">
+                        <div>
+                          <p className="font-medium text-gray-900 flex items-center gap-2">
+                            {entry.appointment.services.map(s => s.name).join(', ')}
+                            <AppointmentStatusBadge status={entry.appointment.status} />
+                          </p>
+                          <p className="text-sm text-gray-500">
+                            {dayjs(entry.appointment.date).format('ddd, D MMM YYYY')} at {entry.appointment.time.slice(0, 5)}
+                            {entry.appointment.staff && ` · ${entry.appointment.staff}`}
+                          </p>
+                        </div>
+                        <span className="text-gray-600 flex items-center">
+                          <CurrencyDollarIcon className="h-4 w-4 mr-1" />
+                          RM {entry.appointment.total_price.toFixed(2)}
+                        </span>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,328 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import dayjs from 'dayjs';
+import { supabase } from '@/lib/supabase';
+import Sidebar from '@/components/Sidebar';
+import { CustomerSummary } from '@/lib/customers';
+import { DuplicateCluster, findDuplicateClusters } from '@/lib/customerDuplicates';
+import { formatPhoneNumber } from '@/lib/phone';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ArrowLeftIcon, ArrowUturnLeftIcon, UserGroupIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface CustomerMerge {
+  id: string;
+  survivor_id: string;
+  merged: { customer_id: string; appointment_ids: string[]; sale_ids: string[] }[];
+  created_at: string;
+  undone_at: string | null;
+}
+
+interface ClusterSelection {
+  survivorId: string;
+  mergedIds: string[];
+}
+
+const clusterKey = (cluster: DuplicateCluster<CustomerSummary>) =>
+  cluster.customers.map(customer => customer.id).sort().join(':');
+
+// Keep the profile with the most history by default.
+const defaultSelection = (cluster: DuplicateCluster<CustomerSummary>): ClusterSelection => {
+  const [survivor, ...rest] = [...cluster.customers].sort((a, b) =>
+    b.visit_count - a.visit_count || (b.last_visit || '').localeCompare(a.last_visit || '')
+  );
+  return { survivorId: survivor.id, mergedIds: rest.map(customer => customer.id) };
+};
+
+export default function DuplicateCustomersPage() {
+  const router = useRouter();
+  const [customers, setCustomers] = useState<CustomerSummary[]>([]);
+  const [merges, setMerges] = useState<CustomerMerge[]>([]);
+  const [selections, setSelections] = useState<Record<string, ClusterSelection>>({});
+  const [loading, setLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [customerResult, mergeResult] = await Promise.all([
+        supabase.from('customer_summaries').select('*').order('name'),
+        supabase
+          .from('customer_merges')
+          .select('id, survivor_id, merged, created_at, undone_at')
+          .order('created_at', { ascending: false })
+          .limit(20)
+      ]);
+
+      if (customerResult.error) throw new Error(customerResult.error.message);
+      if (mergeResult.error) throw new Error(mergeResult.error.message);
+
+      setCustomers(customerResult.data || []);
+      setMerges(mergeResult.data || []);
+      setSelections({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load customers');
+      console.error('Error fetching duplicate candidates:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleLogout = async () => {
+    await supabase.auth.signOut();
+    router.push('/');
+  };
+
+  const clusters = findDuplicateClusters(customers.filter(customer => !customer.merged_into));
+  const customerNames = new Map(customers.map(customer => [customer.id, customer.name]));
+
+  const getSelection = (cluster: DuplicateCluster<CustomerSummary>) =>
+    selections[clusterKey(cluster)] || defaultSelection(cluster);
+
+  const updateSelection = (cluster: DuplicateCluster<CustomerSummary>, selection: ClusterSelection) => {
+    setSelections(prev => ({ ...prev, [clusterKey(cluster)]: selection }));
+  };
+
+  const handleSurvivorChange = (cluster: DuplicateCluster<CustomerSummary>, survivorId: string) => {
+    updateSelection(cluster, {
+      survivorId,
+      mergedIds: cluster.customers.map(customer => customer.id).filter(id => id !== survivorId)
+    });
+  };
+
+  const handleToggleMerged = (cluster: DuplicateCluster<CustomerSummary>, customerId: string) => {
+    const selection = getSelection(cluster);
+    updateSelection(cluster, {
+      ...selection,
+      mergedIds: selection.mergedIds.includes(customerId)
+        ? selection.mergedIds.filter(id => id !== customerId)
+        : [...selection.mergedIds, customerId]
+    });
+  };
+
+  const handleMerge = async (cluster: DuplicateCluster<CustomerSummary>) => {
+    const { survivorId, mergedIds } = getSelection(cluster);
+    if (mergedIds.length === 0) return;
+
+    const survivorName = customerNames.get(survivorId);
+    if (!confirm(`Merge ${mergedIds.length} profile(s) into ${survivorName}? All their appointments and sales will move to ${survivorName}.`)) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    setSuccessMessage(null);
+    try {
+      const { error: mergeError } = await supabase.rpc('merge_customers', {
+        p_survivor_id: survivorId,
+        p_merged_ids: mergedIds
+      });
+      if (mergeError) throw new Error(mergeError.message);
+
+      setSuccessMessage(`Merged into ${survivorName}`);
+      await fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge customers');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleUndo = async (merge: CustomerMerge) => {
+    if (!confirm('Undo this merge? The merged profiles and their history will be restored.')) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    setSuccessMessage(null);
+    try {
+      const { error: undoError } = await supabase.rpc('undo_customer_merge', { p_merge_id: merge.id });
+      if (undoError) throw new Error(undoError.message);
+
+      setSuccessMessage('Merge undone');
+      await fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to undo merge');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      <Sidebar onLogout={handleLogout} />
+      <main className="flex-1 p-8">
+        <Link href="/customers" className="inline-flex items-center text-sm text-gray-600 hover:text-pink-600 mb-6">
+          <ArrowLeftIcon className="h-4 w-4 mr-1" />
+          All customers
+        </Link>
+
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">Duplicate Customers</h1>
+          <p className="text-gray-600">Review profiles that look like the same person and merge them</p>
+        </div>
+
+        {/* Alerts */}
+        <AnimatePresence>
+          {error && (
+            <motion.div
+              initial={{ opacity: 0, y: -20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              className="mb-6 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg shadow-sm"
+            >
+              <div className="flex items-center">
+                <XMarkIcon className="h-5 w-5 mr-2" />
+                {error}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {successMessage && (
+          <div className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg shadow-sm">
+            {successMessage}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500"></div>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {clusters.length === 0 ? (
+              <div className="text-center py-16 bg-white rounded-2xl shadow-lg">
+                <UserGroupIcon className="mx-auto h-16 w-16 text-gray-400 mb-4" />
+                <h3 className="text-xl font-medium text-gray-900 mb-2">No likely duplicates</h3>
+                <p className="text-gray-500">Every customer profile looks unique</p>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                {clusters.map(cluster => {
+                  const selection = getSelection(cluster);
+                  return (
+                    <div key={clusterKey(cluster)} className="bg-white rounded-2xl shadow-lg p-6 border border-gray-200">
+                      <div className="flex items-center justify-between mb-4">
+                        <div className="flex gap-2">
+                          {cluster.reasons.map(reason => (
+                            <span key={reason} className="px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                              {reason}
+                            </span>
+                          ))}
+                        </div>
+                        <button
+                          onClick={() => handleMerge(cluster)}
+                          disabled={isSubmitting || selection.mergedIds.length === 0}
+                          className="px-4 py-2 bg-gradient-to-r from-pink-500 to-purple-600 text-white text-sm font-semibold rounded-lg shadow disabled:opacity-50"
+                        >
+                          Merge selected
+                        </button>
+                      </div>
+                      <table className="w-full">
+                        <thead>
+                          <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            <th className="py-2">Keep</th>
+                            <th className="py-2">Merge</th>
+                            <th className="py-2">Name</th>
+                            <th className="py-2">Phone</th>
+                            <th className="py-2">Visits</th>
+                            <th className="py-2">Last visit</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {cluster.customers.map(customer => (
+                            <tr key={customer.id}>
+                              <td className="py-2">
+                                <input
+                                  type="radio"
+                                  checked={selection.survivorId === customer.id}
+                                  onChange={() => handleSurvivorChange(cluster, customer.id)}
+                                  className="text-pink-600 focus:ring-pink-500"
+                                />
+                              </td>
+                              <td className="py-2">
+                                <input
+                                  type="checkbox"
+                                  checked={selection.mergedIds.includes(customer.id)}
+                                  disabled={selection.survivorId === customer.id}
+                                  onChange={() => handleToggleMerged(cluster, customer.id)}
+                                  className="rounded text-pink-600 focus:ring-pink-500"
+                                />
+                              </td>
+                              <td className="py-2">
+                                <Link href={`/customers/${customer.id}`} className="font-medium text-gray-900 hover:text-pink-600">
+                                  {customer.name}
+                                </Link>
+                              </td>
+                              <td className="py-2 text-gray-700">{formatPhoneNumber(customer.phone_number) || '-'}</td>
+                              <td className="py-2 text-gray-700">{customer.visit_count}</td>
+                              <td className="py-2 text-gray-700">
+                                {customer.last_visit ? dayjs(customer.last_visit).format('D MMM YYYY') : '-'}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Merge Log */}
+            <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-200">
+              <h2 className="text-xl font-bold text-gray-900 mb-4">Recent Merges</h2>
+              {merges.length === 0 ? (
+                <p className="text-gray-500">No merges yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {merges.map(merge => (
+                    <li key={merge.id} className="py-3 flex items-center justify-between">
+                      <div>
+                        <p className="text-gray-900">
+                          {merge.merged.map(entry => customerNames.get(entry.customer_id) || 'Unknown').join(', ')}
+                          {' → '}
+                          <span className="font-medium">{customerNames.get(merge.survivor_id) || 'Unknown'}</span>
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          {dayjs(merge.created_at).format('D MMM YYYY, h:mm A')}
+                          {' · '}
+                          {merge.merged.reduce((sum, entry) => sum + entry.appointment_ids.length, 0)} appointments,{' '}
+                          {merge.merged.reduce((sum, entry) => sum + entry.sale_ids.length, 0)} sales moved
+                          {merge.undone_at && ` · Undone ${dayjs(merge.undone_at).format('D MMM YYYY')}`}
+                        </p>
+                      </div>
+                      {!merge.undone_at && (
+                        <button
+                          onClick={() => handleUndo(merge)}
+                          disabled={isSubmitting}
+                          className="inline-flex items-center px-3 py-1 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                        >
+                          <ArrowUturnLeftIcon className="h-4 w-4 mr-1" />
+                          Undo
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
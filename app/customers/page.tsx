@@ -0,0 +1,193 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { supabase } from '@/lib/supabase';
+import Sidebar from '@/components/Sidebar';
+import { CustomerSummary } from '@/lib/customers';
+import { formatPhoneNumber } from '@/lib/phone';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  UserGroupIcon,
+  MagnifyingGlassIcon,
+  PhoneIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline';
+
+type SortKey = 'name' | 'last_visit' | 'lifetime_spend' | 'visit_count';
+
+export default function CustomersPage() {
+  const router = useRouter();
+  const [customers, setCustomers] = useState<CustomerSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('last_visit');
+
+  useEffect(() => {
+    fetchCustomers();
+  }, []);
+
+  const fetchCustomers = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('customer_summaries')
+        .select('*')
+        .is('merged_into', null)
+        .order('name');
+
+      if (fetchError) throw new Error(fetchError.message);
+      setCustomers(data || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch customers');
+      console.error('Error fetching customers:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    await supabase.auth.signOut();
+    router.push('/');
+  };
+
+  const term = searchTerm.trim().toLowerCase();
+  const filteredCustomers = customers
+    .filter(customer =>
+      !term ||
+      customer.name.toLowerCase().includes(term) ||
+      (customer.phone_number || '').includes(term) ||
+      formatPhoneNumber(customer.phone_number).includes(term)
+    )
+    .sort((a, b) => {
+      if (sortKey === 'name') return a.name.localeCompare(b.name);
+      if (sortKey === 'last_visit') return (b.last_visit || '').localeCompare(a.last_visit || '');
+      return b[sortKey] - a[sortKey];
+    });
+
+  return (
+    <div className="flex min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      <Sidebar onLogout={handleLogout} />
+      <main className="flex-1 p-8">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center justify-between">
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">Customers</h1>
+            <Link
+              href="/customers/duplicates"
+              className="px-4 py-2 text-sm bg-white text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              Find duplicates
+            </Link>
+          </div>
+          <p className="text-gray-600">See who visits, how often and what they spend</p>
+        </div>
+
+        {/* Error Display */}
+        <AnimatePresence>
+          {error && (
+            <motion.div
+              initial={{ opacity: 0, y: -20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              className="mb-6 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg shadow-sm"
+            >
+              <div className="flex items-center">
+                <XMarkIcon className="h-5 w-5 mr-2" />
+                {error}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Filters */}
+        <div className="mb-8 bg-white rounded-2xl shadow-lg p-6 border border-gray-200">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="relative md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Search</label>
+              <div className="relative">
+                <MagnifyingGlassIcon className="h-5 w-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                <input
+                  type="text"
+                  placeholder="Search by name or phone..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Sort by</label>
+              <select
+                value={sortKey}
+                onChange={(e) => setSortKey(e.target.value as SortKey)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all bg-white"
+              >
+                <option value="last_visit">Last visit</option>
+                <option value="lifetime_spend">Lifetime spend</option>
+                <option value="visit_count">Visits</option>
+                <option value="name">Name</option>
+              </select>
+            </div>
+          </div>
+        </div>
+
+        {/* Customer List */}
+        {loading ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500"></div>
+          </div>
+        ) : filteredCustomers.length === 0 ? (
+          <div className="text-center py-16 bg-white rounded-2xl shadow-lg">
+            <UserGroupIcon className="mx-auto h-16 w-16 text-gray-400 mb-4" />
+            <h3 className="text-xl font-medium text-gray-900 mb-2">
+              {customers.length === 0 ? 'No customers yet' : 'No customers match your search'}
+            </h3>
+            <p className="text-gray-500">
+              {customers.length === 0
+                ? 'Customers are created when you book their first appointment'
+                : 'Try a different name or phone number'}
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-2xl shadow-lg border border-gray-200 overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider bg-gray-50">
+                  <th className="px-6 py-3">Customer</th>
+                  <th className="px-6 py-3">Visits</th>
+                  <th className="px-6 py-3">Lifetime Spend</th>
+                  <th className="px-6 py-3">Last Visit</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {filteredCustomers.map(customer => (
+                  <tr key={customer.id} className="hover:bg-gray-50 transition">
+                    <td className="px-6 py-4">
+                      <Link href={`/customers/${customer.id}`} className="font-medium text-gray-900 hover:text-pink-600">
+                        {customer.name}
+                      </Link>
+                      <div className="text-sm text-gray-500 flex items-center mt-1">
+                        <PhoneIcon className="h-4 w-4 mr-1" />
+                        {formatPhoneNumber(customer.phone_number) || 'No phone'}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-gray-700">{customer.visit_count}</td>
+                    <td className="px-6 py-4 font-semibold text-pink-600">RM {Number(customer.lifetime_spend).toFixed(2)}</td>
+                    <td className="px-6 py-4 text-gray-700">
+                      {customer.last_visit ? new Date(customer.last_visit).toLocaleDateString() : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
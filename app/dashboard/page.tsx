@@ -12,6 +12,17 @@ import 'react-date-range/dist/theme/default.css';
 import { AnimatePresence, motion } from 'framer-motion';
 import { Popover, Transition } from '@headlessui/react';
 import { BadgeCheck, Calendar as CalendarIcon, CreditCard, User, Clock, X } from 'lucide-react';
+import AppointmentStatusBadge from '@/components/AppointmentStatusBadge';
+import {
+  ACTIVE_STATUSES,
+  APPOINTMENT_STATUSES,
+  AppointmentStatus,
+  STATUS_LABELS,
+  canComplete,
+  completeAppointment
+} from '@/lib/appointments';
+import { saleNetAmount } from '@/lib/sales';
+import { BusinessDay, fetchBusinessCalendar } from '@/lib/businessHours';
 
 interface Service {
   id: string;
@@ -29,6 +40,7 @@ interface Appointment {
   time: string;
   total_duration: number;
   total_price: number;
+  status: AppointmentStatus;
 }
 
 interface Sale {
@@ -36,6 +48,8 @@ interface Sale {
   customer_name: string;
   service: string;
   amount: number;
+  net_amount?: number;
+  voided_at?: string | null;
   date: string;
   staff?: string;
 }
@@ -51,7 +65,11 @@ export default function DashboardPage() {
   const [selectedAppointments, setSelectedAppointments] = useState<Appointment[]>([]);
   const [hydrated, setHydrated] = useState(false);
   const [calendarDate, setCalendarDate] = useState(new Date());
+  const [shownMonth, setShownMonth] = useState(new Date());
+  const [closedDays, setClosedDays] = useState<Map<string, BusinessDay>>(new Map());
   const [showSuccessPopup, setShowSuccessPopup] = useState(false);
+  const [completingId, setCompletingId] = useState<string | null>(null);
+  const [todayStatusFilter, setTodayStatusFilter] = useState<'active' | 'all' | AppointmentStatus>('active');
 
   const fetchDashboardData = useCallback(async () => {
     try {
@@ -102,41 +120,43 @@ export default function DashboardPage() {
     setHydrated(true);
   }, []);
 
+  // Closed days for the weeks the calendar shows, which spill into the
+  // months either side.
+  useEffect(() => {
+    const month = dayjs(shownMonth);
+    fetchBusinessCalendar(
+      month.startOf('month').startOf('week').format('YYYY-MM-DD'),
+      month.endOf('month').endOf('week').format('YYYY-MM-DD')
+    )
+      .then(days => setClosedDays(new Map(days.filter(day => !day.isOpen).map(day => [day.date, day]))))
+      .catch(err => console.error('Error fetching opening hours:', err));
+  }, [shownMonth]);
+
+  const activeAppointments = appointments.filter(appointment => ACTIVE_STATUSES.includes(appointment.status));
+
   // Set selected appointments whenever date changes
   useEffect(() => {
     setSelectedAppointments(
-      appointments.filter(appointment => appointment.date === dayjs(selectedDate).format('YYYY-MM-DD'))
+      appointments.filter(appointment =>
+        appointment.date === dayjs(selectedDate).format('YYYY-MM-DD') && ACTIVE_STATUSES.includes(appointment.status)
+      )
     );
   }, [selectedDate, appointments]);
 
-  const todayRevenue = sales.reduce((sum, sale) => sum + sale.amount, 0);
-  const todayAppointments = appointments.filter(appointment => appointment.date === dayjs().format('YYYY-MM-DD'));
-
-  const handleMarkAsDone = async (appointment: Appointment, today: dayjs.Dayjs) => {
-    try {
-      // Create sales record
-      const salesData = {
-        customer_name: appointment.customer_name,
-        service: appointment.services.map(s => s.name).join(', '),
-        amount: appointment.total_price,
-        date: today.format('YYYY-MM-DD'),
-        staff: appointment.staff || null
-      };
-
-      // Create the sale record
-      const { error: salesError } = await supabase
-        .from('sales')
-        .insert([salesData]);
-
-      if (salesError) throw salesError;
+  const todayRevenue = sales.reduce((sum, sale) => sum + saleNetAmount(sale), 0);
+  const todayAppointments = activeAppointments.filter(appointment => appointment.date === dayjs().format('YYYY-MM-DD'));
+  const filteredTodayAppointments = appointments.filter(appointment =>
+    appointment.date === dayjs().format('YYYY-MM-DD') &&
+    (todayStatusFilter === 'all' ||
+      (todayStatusFilter === 'active' ? ACTIVE_STATUSES.includes(appointment.status) : appointment.status === todayStatusFilter))
+  );
 
-      // Delete the appointment
-      const { error: deleteError } = await supabase
-        .from('appointments')
-        .delete()
-        .eq('id', appointment.id);
+  const handleMarkAsDone = async (appointment: Appointment) => {
+    if (completingId) return;
 
-      if (deleteError) throw deleteError;
+    try {
+      setCompletingId(appointment.id);
+      await completeAppointment(appointment.id);
 
       // Refresh dashboard data
       await fetchDashboardData();
@@ -150,6 +170,8 @@ export default function DashboardPage() {
       console.error('Error marking appointment as done:', err);
       setError('Failed to mark appointment as done. Please try again.');
       setTimeout(() => setError(null), 3000);
+    } finally {
+      setCompletingId(null);
     }
   };
 
@@ -160,23 +182,27 @@ export default function DashboardPage() {
 
   const getDayHasAppointment = (date: Date) => {
     const dateStr = dayjs(date).format('YYYY-MM-DD');
-    return appointments.some(appointment => appointment.date === dateStr);
+    return activeAppointments.some(appointment => appointment.date === dateStr);
   };
 
   // Function to get total appointments for a day
   const getAppointmentCountForDay = (date: Date) => {
     const dateStr = dayjs(date).format('YYYY-MM-DD');
-    return appointments.filter(appointment => appointment.date === dateStr).length;
+    return activeAppointments.filter(appointment => appointment.date === dateStr).length;
   };
 
   // Custom day renderer for the calendar
   const customDayContent = (day: Date) => {
     const appointmentCount = getAppointmentCountForDay(day);
     const isToday = dayjs(day).format('YYYY-MM-DD') === dayjs().format('YYYY-MM-DD');
+    const closedDay = closedDays.get(dayjs(day).format('YYYY-MM-DD'));
     
     return (
-      <div className="relative h-full w-full">
-        <div className={`text-center ${isToday ? 'font-bold' : ''}`}>{day.getDate()}</div>
+      <div
+        className={`relative h-full w-full ${closedDay ? 'bg-gray-100 text-gray-400 rounded' : ''}`}
+        title={closedDay ? `Closed: ${closedDay.reason}` : undefined}
+      >
+        <div className={`text-center ${isToday ? 'font-bold' : ''} ${closedDay ? 'line-through' : ''}`}>{day.getDate()}</div>
         {appointmentCount > 0 && (
           <div className="absolute bottom-0 left-0 right-0 flex justify-center">
             <div className="bg-pink-500 text-white text-xs rounded-full h-4 w-4 flex items-center justify-center">
@@ -311,23 +337,42 @@ export default function DashboardPage() {
           >
             <div className="flex items-center justify-between mb-5">
               <h2 className="text-xl font-semibold text-gray-800">Today's Appointments</h2>
-              <button 
-                onClick={() => router.push('/appointments')}
-                className="px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 transition-colors text-sm font-medium"
-              >
-                New Appointment
-              </button>
+              <div className="flex items-center gap-3">
+                <select
+                  value={todayStatusFilter}
+                  onChange={(e) => setTodayStatusFilter(e.target.value as typeof todayStatusFilter)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                >
+                  <option value="active">Upcoming</option>
+                  {APPOINTMENT_STATUSES.map(status => (
+                    <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                  ))}
+                  <option value="all">All</option>
+                </select>
+                <button 
+                  onClick={() => router.push('/appointments')}
+                  className="px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 transition-colors text-sm font-medium"
+                >
+                  New Appointment
+                </button>
+              </div>
             </div>
             
-            {todayAppointments.length === 0 ? (
+            {filteredTodayAppointments.length === 0 ? (
               <div className="p-8 text-center">
                 <div className="mx-auto w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mb-4">
                   <CalendarIcon className="w-8 h-8 text-gray-400" />
                 </div>
-                <h3 className="text-lg font-medium text-gray-800 mb-1">No appointments today</h3>
-                <p className="text-gray-500 max-w-md mx-auto">
-                  Your schedule is clear for today. Consider creating a new appointment or checking tomorrow's schedule.
-                </p>
+                {todayStatusFilter === 'active' ? (
+                  <>
+                    <h3 className="text-lg font-medium text-gray-800 mb-1">No appointments today</h3>
+                    <p className="text-gray-500 max-w-md mx-auto">
+                      Your schedule is clear for today. Consider creating a new appointment or checking tomorrow's schedule.
+                    </p>
+                  </>
+                ) : (
+                  <h3 className="text-lg font-medium text-gray-800 mb-1">No matching appointments today</h3>
+                )}
               </div>
             ) : (
               <div className="overflow-x-auto">
@@ -338,11 +383,12 @@ export default function DashboardPage() {
                       <th className="pb-3 font-medium text-gray-600 text-sm">Customer</th>
                       <th className="pb-3 font-medium text-gray-600 text-sm">Services</th>
                       <th className="pb-3 font-medium text-gray-600 text-sm">Price</th>
+                      <th className="pb-3 font-medium text-gray-600 text-sm">Status</th>
                       <th className="pb-3 font-medium text-gray-600 text-sm">Actions</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {todayAppointments.map((appointment) => (
+                    {filteredTodayAppointments.map((appointment) => (
                       <motion.tr 
                         key={appointment.id} 
                         initial={{ opacity: 0 }}
@@ -377,15 +423,21 @@ export default function DashboardPage() {
                         <td className="py-4 text-gray-800">
                           RM {appointment.total_price.toFixed(2)}
                         </td>
+                        <td className="py-4">
+                          <AppointmentStatusBadge status={appointment.status} />
+                        </td>
                         <td className="py-4">
                           <div className="flex space-x-2">
-                            <button
-                              onClick={() => handleMarkAsDone(appointment, dayjs())}
-                              className="px-3 py-1 bg-green-100 text-green-700 rounded hover:bg-green-200 transition-colors flex items-center text-sm"
-                            >
-                              <BadgeCheck className="w-4 h-4 mr-1" />
-                              Complete
-                            </button>
+                            {canComplete(appointment.status) && (
+                              <button
+                                onClick={() => handleMarkAsDone(appointment)}
+                                disabled={completingId === appointment.id}
+                                className="px-3 py-1 bg-green-100 text-green-700 rounded hover:bg-green-200 transition-colors flex items-center text-sm disabled:opacity-50"
+                              >
+                                <BadgeCheck className="w-4 h-4 mr-1" />
+                                Complete
+                              </button>
+                            )}
                           </div>
                         </td>
                       </motion.tr>
@@ -416,6 +468,7 @@ export default function DashboardPage() {
                     }}
                     color="#be185d"
                     showDateDisplay={false}
+                    onShownDateChange={(date: Date) => setShownMonth(date)}
                     dayContentRenderer={customDayContent}
                     className="custom-calendar"
                   />
@@ -451,6 +504,12 @@ export default function DashboardPage() {
                 </span>
               </div>
 
+              {closedDays.has(dayjs(selectedDate).format('YYYY-MM-DD')) && (
+                <div className="mb-4 px-3 py-2 bg-gray-100 text-gray-600 text-sm rounded-lg">
+                  Closed: {closedDays.get(dayjs(selectedDate).format('YYYY-MM-DD'))?.reason}
+                </div>
+              )}
+
               {selectedAppointments.length === 0 ? (
                 <div className="p-8 text-center border border-dashed border-gray-200 rounded-lg">
                   <CalendarIcon className="w-10 h-10 text-gray-300 mx-auto mb-3" />
@@ -467,9 +526,12 @@ export default function DashboardPage() {
                     >
                       <div className="flex justify-between mb-2">
                         <span className="font-medium text-gray-900">{appointment.time}</span>
-                        <span className="text-sm bg-pink-100 text-pink-800 px-2 py-0.5 rounded">
-                          {appointment.total_duration} min
-                        </span>
+                        <div className="flex items-center gap-2">
+                          <AppointmentStatusBadge status={appointment.status} />
+                          <span className="text-sm bg-pink-100 text-pink-800 px-2 py-0.5 rounded">
+                            {appointment.total_duration} min
+                          </span>
+                        </div>
                       </div>
                       <div className="flex items-start">
                         <User className="w-4 h-4 text-gray-400 mr-2 mt-0.5" />
@@ -486,8 +548,9 @@ export default function DashboardPage() {
                         </span>
                         {dayjs(selectedDate).format('YYYY-MM-DD') === dayjs().format('YYYY-MM-DD') && (
                           <button
-                            onClick={() => handleMarkAsDone(appointment, dayjs())}
-                            className="text-xs px-2 py-1 bg-green-100 text-green-700 rounded hover:bg-green-200 transition-colors"
+                            onClick={() => handleMarkAsDone(appointment)}
+                            disabled={completingId === appointment.id}
+                            className="text-xs px-2 py-1 bg-green-100 text-green-700 rounded hover:bg-green-200 transition-colors disabled:opacity-50"
                           >
                             Complete
                           </button>
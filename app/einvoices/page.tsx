@@ -0,0 +1,233 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import dayjs from 'dayjs';
+import { supabase } from '@/lib/supabase';
+import Sidebar from '@/components/Sidebar';
+import EInvoiceActions from '@/components/EInvoiceActions';
+import EInvoiceStatusBadge from '@/components/EInvoiceStatusBadge';
+import {
+  EInvoice,
+  EINVOICE_SALE_SELECT,
+  EInvoiceSale,
+  GENERAL_PUBLIC_BUYER,
+  buildConsolidatedInvoice,
+  fetchIssuerSettings,
+  saveEInvoice
+} from '@/lib/einvoice';
+import { SchemaIssue, validateEInvoice } from '@/lib/einvoiceSchema';
+import { submitEInvoice } from '@/lib/einvoiceSubmitter';
+import { DocumentTextIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+export default function EInvoicesPage() {
+  const router = useRouter();
+  const [einvoices, setEInvoices] = useState<EInvoice[]>([]);
+  // Consolidated invoices are due within 7 days of the month end, so the
+  // previous month is the usual one to issue.
+  const [month, setMonth] = useState(dayjs().subtract(1, 'month').format('YYYY-MM'));
+  const [monthSales, setMonthSales] = useState<EInvoiceSale[]>([]);
+  const [issues, setIssues] = useState<SchemaIssue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isIssuing, setIsIssuing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEInvoices = useCallback(async () => {
+    const { data, error: fetchError } = await supabase
+      .from('einvoices')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(100);
+    if (fetchError) {
+      setError(fetchError.message);
+    } else {
+      setEInvoices(data || []);
+    }
+  }, []);
+
+  // Sales in the month not yet covered by an e-invoice.
+  const fetchMonthSales = useCallback(async () => {
+    setLoading(true);
+    const start = dayjs(`${month}-01`);
+    const { data, error: fetchError } = await supabase
+      .from('sales')
+      .select(EINVOICE_SALE_SELECT)
+      .gte('date', start.format('YYYY-MM-DD'))
+      .lte('date', start.endOf('month').format('YYYY-MM-DD'))
+      .is('einvoice_id', null)
+      .is('voided_at', null)
+      .order('receipt_number');
+    if (fetchError) {
+      setError(fetchError.message);
+    } else {
+      setMonthSales(data || []);
+    }
+    setLoading(false);
+  }, [month]);
+
+  useEffect(() => {
+    fetchEInvoices();
+  }, [fetchEInvoices]);
+
+  useEffect(() => {
+    setIssues([]);
+    fetchMonthSales();
+  }, [fetchMonthSales]);
+
+  const handleLogout = async () => {
+    await supabase.auth.signOut();
+    router.push('/');
+  };
+
+  const handleUpdated = (updated: EInvoice) => {
+    setEInvoices(prev => prev.map(einvoice => (einvoice.id === updated.id ? updated : einvoice)));
+    if (updated.status === 'invalid' || updated.status === 'cancelled') fetchMonthSales();
+  };
+
+  const billableSales = monthSales.filter(sale => Number(sale.net_amount) > 0);
+  const monthEnded = dayjs(`${month}-01`).endOf('month').isBefore(dayjs());
+
+  const handleIssueConsolidated = async () => {
+    setError(null);
+    setIsIssuing(true);
+    try {
+      const period = `${month}-01`;
+      const document = buildConsolidatedInvoice(billableSales, period, await fetchIssuerSettings());
+      const documentIssues = validateEInvoice(document);
+      setIssues(documentIssues);
+      if (documentIssues.length > 0) return;
+
+      const saved = await saveEInvoice(
+        'consolidated',
+        document,
+        billableSales.map(sale => sale.id),
+        GENERAL_PUBLIC_BUYER,
+        period
+      );
+      await submitEInvoice(saved);
+      await Promise.all([fetchEInvoices(), fetchMonthSales()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to issue consolidated e-invoice');
+    } finally {
+      setIsIssuing(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      <Sidebar onLogout={handleLogout} />
+      <main className="flex-1 p-8">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">e-Invoices</h1>
+          <p className="text-gray-600">LHDN MyInvois documents for individual buyers and monthly consolidated sales</p>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg shadow-sm flex items-center">
+            <XMarkIcon className="h-5 w-5 mr-2" />
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-200 mb-8">
+          <h2 className="text-xl font-bold text-gray-900 mb-1">Consolidated Invoice</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Every receipt in the month that has no e-invoice of its own, issued to the general public.
+          </p>
+          <div className="flex flex-wrap items-end gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Month</label>
+              <input
+                type="month"
+                value={month}
+                max={dayjs().format('YYYY-MM')}
+                onChange={(e) => setMonth(e.target.value)}
+                className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all"
+              />
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Receipts to include</p>
+              <p className="text-2xl font-bold text-gray-900">{loading ? '-' : billableSales.length}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Net total</p>
+              <p className="text-2xl font-bold text-pink-600">
+                RM {billableSales.reduce((sum, sale) => sum + Number(sale.net_amount), 0).toFixed(2)}
+              </p>
+            </div>
+            <button
+              onClick={handleIssueConsolidated}
+              disabled={isIssuing || loading || billableSales.length === 0 || !monthEnded}
+              className="ml-auto inline-flex items-center px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-600 text-white font-semibold rounded-lg shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50"
+            >
+              <DocumentTextIcon className="h-5 w-5 mr-2" />
+              {isIssuing ? 'Issuing...' : 'Issue consolidated e-invoice'}
+            </button>
+          </div>
+          {!monthEnded && (
+            <p className="text-sm text-gray-500 mt-3">The consolidated invoice can be issued once the month has ended.</p>
+          )}
+          {issues.length > 0 && (
+            <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="font-medium text-red-700 mb-2">Fix these before issuing:</p>
+              <ul className="list-disc list-inside text-sm text-red-700 space-y-0.5">
+                {issues.map(issue => (
+                  <li key={issue.path + issue.message}>{issue.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-200">
+          <h2 className="text-xl font-bold text-gray-900 mb-4">Documents</h2>
+          {einvoices.length === 0 ? (
+            <p className="text-gray-500">No e-invoices have been issued yet</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2">Invoice</th>
+                  <th className="py-2">Buyer</th>
+                  <th className="py-2 text-right">Total (RM)</th>
+                  <th className="py-2">Status</th>
+                  <th className="py-2">Issued</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {einvoices.map(einvoice => (
+                  <tr key={einvoice.id} className="align-top">
+                    <td className="py-3">
+                      <span className="font-mono">{einvoice.invoice_number}</span>
+                      <span className="block text-xs text-gray-500">
+                        {einvoice.kind === 'consolidated'
+                          ? `Consolidated · ${dayjs(einvoice.period).format('MMM YYYY')}`
+                          : 'Individual'}
+                      </span>
+                    </td>
+                    <td className="py-3">
+                      {einvoice.buyer.name}
+                      <span className="block text-xs text-gray-500 font-mono">{einvoice.buyer.tin}</span>
+                    </td>
+                    <td className="py-3 text-right">{Number(einvoice.total).toFixed(2)}</td>
+                    <td className="py-3">
+                      <EInvoiceStatusBadge status={einvoice.status} />
+                      {einvoice.status_reason && (
+                        <span className="block text-xs text-red-600 mt-1 max-w-xs">{einvoice.status_reason}</span>
+                      )}
+                    </td>
+                    <td className="py-3 text-gray-600">{dayjs(einvoice.created_at).format('D MMM YYYY')}</td>
+                    <td className="py-3">
+                      <EInvoiceActions einvoice={einvoice} onUpdated={handleUpdated} onError={setError} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,443 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabase';
+import Sidebar from '@/components/Sidebar';
+import { DiscountType, PromoCodeSummary, formatDiscount } from '@/lib/discounts';
+
+interface Service {
+  id: string;
+  name: string;
+}
+
+interface FormData {
+  code: string;
+  description: string;
+  discount_type: DiscountType;
+  discount_value: string;
+  eligible_service_ids: string[];
+  valid_from: string;
+  valid_until: string;
+  usage_limit: string;
+  active: boolean;
+}
+
+const emptyForm: FormData = {
+  code: '',
+  description: '',
+  discount_type: 'percent',
+  discount_value: '',
+  eligible_service_ids: [],
+  valid_from: '',
+  valid_until: '',
+  usage_limit: '',
+  active: true
+};
+
+const inputClass =
+  'w-full py-2 px-3 text-sm sm:text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-pink-500 transition';
+
+export default function PromotionsPage() {
+  const router = useRouter();
+  const [promoCodes, setPromoCodes] = useState<PromoCodeSummary[]>([]);
+  const [services, setServices] = useState<Service[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formData, setFormData] = useState<FormData>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPromoCodes();
+    supabase
+      .from('services')
+      .select('id, name')
+      .order('name')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching services:', error);
+        } else {
+          setServices(data || []);
+        }
+      });
+  }, []);
+
+  const fetchPromoCodes = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('promo_code_summaries')
+        .select('*')
+        .order('code');
+
+      if (error) {
+        console.error('Error fetching promo codes:', error);
+        setError(error.message);
+      } else {
+        setPromoCodes(data || []);
+      }
+    } catch (err) {
+      console.error('Unexpected error fetching promo codes:', err);
+      setError('Failed to load promo codes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    await supabase.auth.signOut();
+    router.push('/');
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
+    const checked = (e.target as HTMLInputElement).checked;
+    setFormData({ ...formData, [name]: type === 'checkbox' ? checked : value });
+  };
+
+  const toggleService = (serviceId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      eligible_service_ids: prev.eligible_service_ids.includes(serviceId)
+        ? prev.eligible_service_ids.filter(id => id !== serviceId)
+        : [...prev.eligible_service_ids, serviceId]
+    }));
+  };
+
+  const handleEdit = (promo: PromoCodeSummary) => {
+    setEditingId(promo.id);
+    setFormData({
+      code: promo.code,
+      description: promo.description || '',
+      discount_type: promo.discount_type,
+      discount_value: promo.discount_value.toString(),
+      eligible_service_ids: promo.eligible_service_ids,
+      valid_from: promo.valid_from || '',
+      valid_until: promo.valid_until || '',
+      usage_limit: promo.usage_limit?.toString() || '',
+      active: promo.active
+    });
+    setError(null);
+    setSuccessMessage(null);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setFormData(emptyForm);
+    setError(null);
+    setSuccessMessage(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSuccessMessage(null);
+
+    const value = parseFloat(formData.discount_value);
+    if (isNaN(value) || value <= 0) {
+      setError('Please enter a valid discount');
+      return;
+    }
+    if (formData.discount_type === 'percent' && value > 100) {
+      setError('A percentage discount cannot be more than 100%');
+      return;
+    }
+    if (formData.valid_from && formData.valid_until && formData.valid_until < formData.valid_from) {
+      setError('The end date must be on or after the start date');
+      return;
+    }
+
+    const promoData = {
+      code: formData.code.trim().toUpperCase(),
+      description: formData.description.trim() || null,
+      discount_type: formData.discount_type,
+      discount_value: value,
+      eligible_service_ids: formData.eligible_service_ids,
+      valid_from: formData.valid_from || null,
+      valid_until: formData.valid_until || null,
+      usage_limit: formData.usage_limit ? parseInt(formData.usage_limit) : null,
+      active: formData.active
+    };
+
+    setIsSubmitting(true);
+    try {
+      const { error: supabaseError } = editingId
+        ? await supabase.from('promo_codes').update(promoData).eq('id', editingId)
+        : await supabase.from('promo_codes').insert([promoData]);
+
+      if (supabaseError) {
+        setError(supabaseError.code === '23505'
+          ? `Promo code ${promoData.code} already exists`
+          : supabaseError.message);
+      } else {
+        setSuccessMessage(editingId ? 'Promo code updated' : 'Promo code created');
+        setFormData(emptyForm);
+        setEditingId(null);
+        await fetchPromoCodes();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const describeValidity = (promo: PromoCodeSummary) => {
+    if (promo.valid_from && promo.valid_until) return `${promo.valid_from} to ${promo.valid_until}`;
+    if (promo.valid_from) return `From ${promo.valid_from}`;
+    if (promo.valid_until) return `Until ${promo.valid_until}`;
+    return 'Always';
+  };
+
+  const describeServices = (promo: PromoCodeSummary) =>
+    promo.eligible_service_ids.length === 0
+      ? 'All services'
+      : promo.eligible_service_ids
+          .map(id => services.find(service => service.id === id)?.name)
+          .filter(Boolean)
+          .join(', ');
+
+  return (
+    <div className="flex min-h-screen bg-gray-100">
+      <Sidebar onLogout={handleLogout} />
+
+      <main className="flex-1 p-3 sm:p-4 md:p-6 w-full md:ml-20 lg:ml-80">
+        <div className="max-w-6xl mx-auto">
+          <div className="mb-4 sm:mb-6 md:mb-8 pt-16 md:pt-6">
+            <h1 className="text-xl sm:text-2xl md:text-3xl font-extrabold text-gray-800 mb-2">Promotions</h1>
+            <p className="text-sm sm:text-base text-gray-600">Promo codes customers can redeem at the counter</p>
+          </div>
+
+          {error && (
+            <div className="mb-4 sm:mb-6 bg-red-50 border-l-4 border-red-500 p-3 sm:p-4 rounded-md shadow-sm">
+              <p className="text-xs sm:text-sm font-medium text-red-800">{error}</p>
+            </div>
+          )}
+
+          {successMessage && (
+            <div className="mb-4 sm:mb-6 bg-green-50 border-l-4 border-green-500 p-3 sm:p-4 rounded-md shadow-sm">
+              <p className="text-xs sm:text-sm font-medium text-green-800">{successMessage}</p>
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow-md overflow-hidden mb-4 sm:mb-6 md:mb-8">
+            <div className="px-3 sm:px-4 md:px-6 py-3 md:py-4 bg-gradient-to-r from-pink-500 to-pink-600 border-b">
+              <h2 className="text-lg sm:text-xl font-semibold text-white">
+                {editingId ? 'Edit Promo Code' : 'New Promo Code'}
+              </h2>
+            </div>
+            <form onSubmit={handleSubmit} className="p-3 sm:p-4 md:p-6 space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4 md:gap-6">
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Code</label>
+                  <input
+                    type="text"
+                    name="code"
+                    placeholder="e.g. RAYA10"
+                    value={formData.code}
+                    onChange={handleChange}
+                    required
+                    className={`${inputClass} font-mono uppercase`}
+                    disabled={isSubmitting}
+                  />
+                </div>
+                <div className="sm:col-span-1 lg:col-span-2">
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Description</label>
+                  <input
+                    type="text"
+                    name="description"
+                    placeholder="e.g. Hari Raya promotion"
+                    value={formData.description}
+                    onChange={handleChange}
+                    className={inputClass}
+                    disabled={isSubmitting}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Discount</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      name="discount_value"
+                      placeholder={formData.discount_type === 'percent' ? 'e.g. 10' : 'e.g. 20.00'}
+                      value={formData.discount_value}
+                      onChange={handleChange}
+                      required
+                      min="0"
+                      step="0.01"
+                      className={inputClass}
+                      disabled={isSubmitting}
+                    />
+                    <select
+                      name="discount_type"
+                      value={formData.discount_type}
+                      onChange={handleChange}
+                      className="py-2 px-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500"
+                      disabled={isSubmitting}
+                    >
+                      <option value="percent">%</option>
+                      <option value="fixed">RM</option>
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Valid from</label>
+                  <input
+                    type="date"
+                    name="valid_from"
+                    value={formData.valid_from}
+                    onChange={handleChange}
+                    className={inputClass}
+                    disabled={isSubmitting}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Valid until</label>
+                  <input
+                    type="date"
+                    name="valid_until"
+                    value={formData.valid_until}
+                    onChange={handleChange}
+                    className={inputClass}
+                    disabled={isSubmitting}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Usage limit</label>
+                  <input
+                    type="number"
+                    name="usage_limit"
+                    placeholder="Unlimited"
+                    value={formData.usage_limit}
+                    onChange={handleChange}
+                    min="1"
+                    className={inputClass}
+                    disabled={isSubmitting}
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-xs sm:text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    name="active"
+                    checked={formData.active}
+                    onChange={handleChange}
+                    className="rounded text-pink-600 focus:ring-pink-500"
+                    disabled={isSubmitting}
+                  />
+                  Active
+                </label>
+              </div>
+
+              <div>
+                <p className="text-xs sm:text-sm font-medium text-gray-700 mb-2">
+                  Eligible services <span className="text-gray-500 font-normal">(none selected means all services)</span>
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {services.map(service => (
+                    <button
+                      key={service.id}
+                      type="button"
+                      onClick={() => toggleService(service.id)}
+                      className={`px-3 py-1 rounded-full text-xs sm:text-sm border transition ${
+                        formData.eligible_service_ids.includes(service.id)
+                          ? 'bg-pink-100 border-pink-400 text-pink-800'
+                          : 'bg-white border-gray-300 text-gray-700 hover:border-pink-300'
+                      }`}
+                      disabled={isSubmitting}
+                    >
+                      {service.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
+                <button
+                  type="submit"
+                  className="py-2 px-4 bg-gradient-to-r from-pink-500 to-pink-600 text-white rounded-md hover:from-pink-600 hover:to-pink-700 transition-all font-medium disabled:opacity-50 disabled:cursor-not-allowed w-full sm:w-auto"
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting ? 'Saving...' : editingId ? 'Update Promo Code' : 'Add Promo Code'}
+                </button>
+                {editingId && (
+                  <button
+                    type="button"
+                    onClick={cancelEdit}
+                    className="py-2 px-4 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 transition-all font-medium w-full sm:w-auto"
+                    disabled={isSubmitting}
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </form>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-md overflow-hidden">
+            <div className="px-3 sm:px-4 md:px-6 py-3 md:py-4 bg-gradient-to-r from-purple-500 to-indigo-600 border-b">
+              <h2 className="text-lg sm:text-xl font-semibold text-white">Promo Codes</h2>
+            </div>
+
+            {loading ? (
+              <div className="flex items-center justify-center h-48">
+                <div className="w-8 h-8 border-4 border-gray-200 border-t-indigo-500 rounded-full animate-spin"></div>
+              </div>
+            ) : promoCodes.length === 0 ? (
+              <p className="p-6 text-center text-sm text-gray-500">No promo codes yet</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider bg-gray-50">
+                      <th className="px-3 md:px-6 py-3">Code</th>
+                      <th className="px-3 md:px-6 py-3">Discount</th>
+                      <th className="px-3 md:px-6 py-3">Services</th>
+                      <th className="px-3 md:px-6 py-3">Valid</th>
+                      <th className="px-3 md:px-6 py-3 text-right">Used</th>
+                      <th className="px-3 md:px-6 py-3 text-right">Discount given</th>
+                      <th className="px-3 md:px-6 py-3 text-right">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {promoCodes.map(promo => (
+                      <tr key={promo.id} className={`hover:bg-gray-50 transition ${promo.active ? '' : 'text-gray-400'}`}>
+                        <td className="px-3 md:px-6 py-4">
+                          <div className="font-mono font-semibold">{promo.code}</div>
+                          {promo.description && <div className="text-xs text-gray-500">{promo.description}</div>}
+                          {!promo.active && <div className="text-xs text-gray-500">Inactive</div>}
+                        </td>
+                        <td className="px-3 md:px-6 py-4 whitespace-nowrap">
+                          {formatDiscount({ type: promo.discount_type, value: promo.discount_value })}
+                        </td>
+                        <td className="px-3 md:px-6 py-4 text-sm">{describeServices(promo)}</td>
+                        <td className="px-3 md:px-6 py-4 text-sm whitespace-nowrap">{describeValidity(promo)}</td>
+                        <td className="px-3 md:px-6 py-4 text-right whitespace-nowrap">
+                          {promo.times_used}{promo.usage_limit !== null && ` / ${promo.usage_limit}`}
+                        </td>
+                        <td className="px-3 md:px-6 py-4 text-right whitespace-nowrap">
+                          RM {Number(promo.discount_given).toFixed(2)}
+                        </td>
+                        <td className="px-3 md:px-6 py-4 text-right">
+                          <button
+                            onClick={() => handleEdit(promo)}
+                            className="text-blue-600 hover:text-blue-900 text-xs md:text-sm"
+                            disabled={isSubmitting}
+                          >
+                            Edit
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
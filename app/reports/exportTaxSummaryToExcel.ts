@@ -0,0 +1,25 @@
+import { utils, writeFile } from 'xlsx';
+import dayjs from 'dayjs';
+import { TaxPeriod, TaxSummaryRow } from '@/lib/tax';
+
+export function exportTaxSummaryToExcel(rows: TaxSummaryRow[], period: TaxPeriod, registrationNumber: string | null) {
+  const sheetRows = rows.map(row => ({
+    period: row.period,
+    sales: row.sales,
+    net_sales: row.subtotal.toFixed(2),
+    service_charge: row.serviceCharge.toFixed(2),
+    taxable_amount: row.taxableAmount.toFixed(2),
+    not_taxed_amount: row.exemptAmount.toFixed(2),
+    sst: row.tax.toFixed(2),
+    total_collected: row.total.toFixed(2)
+  }));
+
+  const worksheet = utils.json_to_sheet(sheetRows);
+  if (registrationNumber) {
+    utils.sheet_add_aoa(worksheet, [[`SST registration no. ${registrationNumber}`]], { origin: -1 });
+  }
+  const workbook = utils.book_new();
+  utils.book_append_sheet(workbook, worksheet, 'Tax Summary');
+  const label = period === 'month' ? 'monthly' : 'sst-period';
+  writeFile(workbook, `tax-summary-${label}-${dayjs().format('YYYY-MM-DD')}.xlsx`);
+}
@@ -3,8 +3,26 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import dayjs from 'dayjs';
 import { supabase } from '@/lib/supabase';
 import Sidebar from '@/components/Sidebar';
+import AppointmentStatusBadge from '@/components/AppointmentStatusBadge';
+import { ACTIVE_STATUSES, APPOINTMENT_STATUSES, AppointmentStatus, STATUS_LABELS } from '@/lib/appointments';
+import {
+  PAYMENT_METHOD_LABELS,
+  SALE_DETAILS_SELECT,
+  SaleItem,
+  SalePayment,
+  SaleRefund,
+  amountPaid,
+  describeSaleItems,
+  netSaleItems,
+  revenueByService,
+  saleNetAmount,
+  totalsByPaymentMethod
+} from '@/lib/sales';
+import { TaxPeriod, TaxSettings, fetchTaxSettings, summarizeTaxByPeriod } from '@/lib/tax';
+import { exportTaxSummaryToExcel } from './exportTaxSummaryToExcel';
 
 interface Service {
   id: string;
@@ -16,10 +34,23 @@ interface Service {
 interface Sale {
   id: string;
   customer_name: string;
-  services: string;
+  service: string;
   amount: number;
+  subtotal: number;
+  service_charge: number;
+  tax: number;
+  taxable_amount: number;
+  net_amount: number;
+  refunded_amount: number;
+  receipt_number: string;
+  voided_at: string | null;
+  voided_by_email: string | null;
+  void_reason: string | null;
   date: string;
   staff?: string;
+  sale_items?: SaleItem[];
+  sale_payments?: SalePayment[];
+  sale_refunds?: SaleRefund[];
 }
 
 interface Appointment {
@@ -31,7 +62,7 @@ interface Appointment {
   time: string;
   total_duration: number;
   total_price: number;
-  status: 'pending' | 'completed';
+  status: AppointmentStatus;
 }
 
 export default function ReportsPage() {
@@ -39,15 +70,21 @@ export default function ReportsPage() {
   const [sales, setSales] = useState<Sale[]>([]);
   const [appointments, setAppointments] = useState<Appointment[]>([]);
   const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<'all' | AppointmentStatus>('all');
+  const [taxPeriod, setTaxPeriod] = useState<TaxPeriod>('month');
+  const [taxSettings, setTaxSettings] = useState<TaxSettings | null>(null);
 
   useEffect(() => {
     fetchReports();
+    fetchTaxSettings()
+      .then(setTaxSettings)
+      .catch(err => console.error('Tax settings error:', err));
   }, []);
 
   const fetchReports = async () => {
     const { data: salesData, error: salesError } = await supabase
       .from('sales')
-      .select('*')
+      .select(SALE_DETAILS_SELECT)
       .order('date', { ascending: false });
       
     const { data: apptData, error: apptError } = await supabase
@@ -69,10 +106,27 @@ export default function ReportsPage() {
     router.push('/');
   };
 
-  const totalSales = sales.reduce((sum, s) => sum + s.amount, 0);
+  const liveSales = sales.filter(s => !s.voided_at);
+  const voidedSales = sales.filter(s => s.voided_at);
+  const grossSales = liveSales.reduce((sum, s) => sum + s.amount, 0);
+  const totalSales = sales.reduce((sum, s) => sum + saleNetAmount(s), 0);
+  const refunds = liveSales
+    .flatMap(s => (s.sale_refunds || []).map(refund => ({ ...refund, receipt_number: s.receipt_number })))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  const refundTotal = refunds.reduce((sum, refund) => sum + Number(refund.amount), 0);
+  const serviceRevenue = revenueByService(sales.flatMap(netSaleItems));
+  const paymentTotals = totalsByPaymentMethod(
+    liveSales.flatMap(s => s.sale_payments || []),
+    liveSales.flatMap(s => s.sale_refunds || [])
+  );
+  const taxSummary = summarizeTaxByPeriod(sales, taxPeriod);
+  const unpaidTotal = liveSales.reduce((sum, s) => sum + s.amount - amountPaid(s.sale_payments), 0);
   const appointmentCount = appointments.length;
-  const pendingAppointments = appointments.filter(a => a.status === 'pending').length;
-  const completedAppointments = appointments.filter(a => a.status === 'completed').length;
+  const upcomingAppointments = appointments.filter(a => ACTIVE_STATUSES.includes(a.status)).length;
+  const countByStatus = (status: AppointmentStatus) => appointments.filter(a => a.status === status).length;
+  const filteredAppointments = statusFilter === 'all'
+    ? appointments
+    : appointments.filter(a => a.status === statusFilter);
 
   return (
     <div className="flex min-h-screen">
@@ -86,12 +140,160 @@ export default function ReportsPage() {
           <div className="space-y-6">
             <div className="bg-white p-4 rounded shadow-sm">
               <h2 className="text-xl font-semibold mb-2">Summary</h2>
-              <p>Total Sales: <strong>RM {totalSales.toFixed(2)}</strong></p>
+              <p>Gross Sales: <strong>RM {grossSales.toFixed(2)}</strong></p>
+              <p>Refunds: <strong>RM {refundTotal.toFixed(2)}</strong></p>
+              <p>Net Sales: <strong>RM {totalSales.toFixed(2)}</strong></p>
+              <p>Voided Sales: <strong>{voidedSales.length}</strong></p>
               <p>Total Appointments: <strong>{appointmentCount}</strong></p>
-              <p>Pending Appointments: <strong>{pendingAppointments}</strong></p>
-              <p>Completed Appointments: <strong>{completedAppointments}</strong></p>
+              <p>Upcoming Appointments: <strong>{upcomingAppointments}</strong></p>
+              <p>Completed Appointments: <strong>{countByStatus('completed')}</strong></p>
+              <p>Cancelled Appointments: <strong>{countByStatus('cancelled')}</strong></p>
+              <p>No-shows: <strong>{countByStatus('no_show')}</strong></p>
+            </div>
+
+            <div className="bg-white p-4 rounded shadow-sm">
+              <h2 className="text-xl font-semibold mb-2">Revenue by Service</h2>
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="p-2 text-left">Service</th>
+                    <th className="p-2 text-left">Quantity</th>
+                    <th className="p-2 text-left">Revenue (RM)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {serviceRevenue.map(row => (
+                    <tr key={row.service} className="border-b hover:bg-gray-50">
+                      <td className="p-2">{row.service}</td>
+                      <td className="p-2">{row.quantity}</td>
+                      <td className="p-2">{row.amount.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="bg-white p-4 rounded shadow-sm">
+              <div className="flex items-center justify-between mb-2">
+                <div>
+                  <h2 className="text-xl font-semibold">Tax Summary</h2>
+                  {taxSettings?.sst_registration_number && (
+                    <p className="text-sm text-gray-500">SST registration no. {taxSettings.sst_registration_number}</p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <select
+                    className="p-2 border rounded"
+                    value={taxPeriod}
+                    onChange={(e) => setTaxPeriod(e.target.value as TaxPeriod)}
+                  >
+                    <option value="month">Monthly</option>
+                    <option value="sst_period">SST taxable period (2 months)</option>
+                  </select>
+                  <button
+                    onClick={() => exportTaxSummaryToExcel(taxSummary, taxPeriod, taxSettings?.sst_registration_number || null)}
+                    className="px-4 py-2 bg-pink-600 text-white rounded"
+                  >
+                    Export
+                  </button>
+                </div>
+              </div>
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="p-2 text-left">Period</th>
+                    <th className="p-2 text-left">Sales</th>
+                    <th className="p-2 text-left">Net (RM)</th>
+                    <th className="p-2 text-left">Service Charge (RM)</th>
+                    <th className="p-2 text-left">Taxable (RM)</th>
+                    <th className="p-2 text-left">Not Taxed (RM)</th>
+                    <th className="p-2 text-left">SST (RM)</th>
+                    <th className="p-2 text-left">Total (RM)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {taxSummary.map(row => (
+                    <tr key={row.period} className="border-b hover:bg-gray-50">
+                      <td className="p-2">{row.period}</td>
+                      <td className="p-2">{row.sales}</td>
+                      <td className="p-2">{row.subtotal.toFixed(2)}</td>
+                      <td className="p-2">{row.serviceCharge.toFixed(2)}</td>
+                      <td className="p-2">{row.taxableAmount.toFixed(2)}</td>
+                      <td className="p-2">{row.exemptAmount.toFixed(2)}</td>
+                      <td className="p-2">{row.tax.toFixed(2)}</td>
+                      <td className="p-2">{row.total.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="bg-white p-4 rounded shadow-sm">
+              <h2 className="text-xl font-semibold mb-2">Payments by Method</h2>
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="p-2 text-left">Method</th>
+                    <th className="p-2 text-left">Amount (RM)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {paymentTotals.map(({ method, amount }) => (
+                    <tr key={method} className="border-b hover:bg-gray-50">
+                      <td className="p-2">{PAYMENT_METHOD_LABELS[method]}</td>
+                      <td className="p-2">{amount.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                  {unpaidTotal > 0.005 && (
+                    <tr className="border-b hover:bg-gray-50">
+                      <td className="p-2 text-yellow-700">Unpaid</td>
+                      <td className="p-2 text-yellow-700">{unpaidTotal.toFixed(2)}</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
             </div>
 
+            {(refunds.length > 0 || voidedSales.length > 0) && (
+              <div className="bg-white p-4 rounded shadow-sm">
+                <h2 className="text-xl font-semibold mb-2">Refunds &amp; Voids</h2>
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="p-2 text-left">Date</th>
+                      <th className="p-2 text-left">Receipt</th>
+                      <th className="p-2 text-left">Type</th>
+                      <th className="p-2 text-left">Amount (RM)</th>
+                      <th className="p-2 text-left">Reason</th>
+                      <th className="p-2 text-left">Approved By</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {refunds.map(refund => (
+                      <tr key={refund.id} className="border-b hover:bg-gray-50">
+                        <td className="p-2">{dayjs(refund.created_at).format('YYYY-MM-DD')}</td>
+                        <td className="p-2 font-mono">{refund.receipt_number}</td>
+                        <td className="p-2">Refund ({PAYMENT_METHOD_LABELS[refund.method]})</td>
+                        <td className="p-2">{Number(refund.amount).toFixed(2)}</td>
+                        <td className="p-2">{refund.reason}</td>
+                        <td className="p-2">{refund.approved_by_email}</td>
+                      </tr>
+                    ))}
+                    {voidedSales.map(sale => (
+                      <tr key={sale.id} className="border-b hover:bg-gray-50">
+                        <td className="p-2">{sale.date}</td>
+                        <td className="p-2 font-mono">{sale.receipt_number}</td>
+                        <td className="p-2">Void</td>
+                        <td className="p-2">{Number(sale.amount).toFixed(2)}</td>
+                        <td className="p-2">{sale.void_reason}</td>
+                        <td className="p-2">{sale.voided_by_email || '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
             <div className="bg-white p-4 rounded shadow-sm">
               <h2 className="text-xl font-semibold mb-2">Recent Sales</h2>
               <table className="w-full">
@@ -109,8 +311,14 @@ export default function ReportsPage() {
                     <tr key={sale.id} className="border-b hover:bg-gray-50">
                       <td className="p-2">{sale.date}</td>
                       <td className="p-2">{sale.customer_name}</td>
-                      <td className="p-2">{sale.services || '-'}</td>
-                      <td className="p-2">{sale.amount.toFixed(2)}</td>
+                      <td className="p-2">{describeSaleItems(sale.sale_items) || sale.service || '-'}</td>
+                      <td className="p-2">
+                        {sale.voided_at ? (
+                          <span className="text-gray-400 line-through">{sale.amount.toFixed(2)}</span>
+                        ) : (
+                          saleNetAmount(sale).toFixed(2)
+                        )}
+                      </td>
                       <td className="p-2">{sale.staff || '-'}</td>
                     </tr>
                   ))}
@@ -119,7 +327,19 @@ export default function ReportsPage() {
             </div>
 
             <div className="bg-white p-4 rounded shadow-sm">
-              <h2 className="text-xl font-semibold mb-2">Recent Appointments</h2>
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="text-xl font-semibold">Recent Appointments</h2>
+                <select
+                  className="p-2 border rounded"
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}
+                >
+                  <option value="all">All statuses</option>
+                  {APPOINTMENT_STATUSES.map(status => (
+                    <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                  ))}
+                </select>
+              </div>
               <table className="w-full">
                 <thead>
                   <tr className="border-b">
@@ -132,20 +352,14 @@ export default function ReportsPage() {
                   </tr>
                 </thead>
                 <tbody>
-                  {appointments.slice(0, 5).map(appt => (
+                  {filteredAppointments.slice(0, 5).map(appt => (
                     <tr key={appt.id} className="border-b hover:bg-gray-50">
                       <td className="p-2">{appt.date}</td>
                       <td className="p-2">{appt.time}</td>
                       <td className="p-2">{appt.customer_name}</td>
                       <td className="p-2">{appt.services.map(s => s.name).join(', ')}</td>
                       <td className="p-2">
-                        <span className={`inline-flex items-center px-2 py-1 rounded text-sm ${
-                          appt.status === 'completed' 
-                            ? 'bg-green-100 text-green-800' 
-                            : 'bg-yellow-100 text-yellow-800'
-                        }`}>
-                          {appt.status === 'completed' ? 'Completed' : 'Pending'}
-                        </span>
+                        <AppointmentStatusBadge status={appt.status} />
                       </td>
                       <td className="p-2">{appt.staff || '-'}</td>
                     </tr>
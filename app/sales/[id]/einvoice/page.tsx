@@ -0,0 +1,227 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import dayjs from 'dayjs';
+import { supabase } from '@/lib/supabase';
+import Sidebar from '@/components/Sidebar';
+import BuyerDetailsForm from '@/components/BuyerDetailsForm';
+import EInvoiceActions from '@/components/EInvoiceActions';
+import EInvoiceStatusBadge from '@/components/EInvoiceStatusBadge';
+import {
+  BuyerDetails,
+  CUSTOMER_BUYER_SELECT,
+  CustomerBuyerRow,
+  EInvoice,
+  EINVOICE_SALE_SELECT,
+  EInvoiceSale,
+  EMPTY_BUYER,
+  buildSaleInvoice,
+  buyerFromCustomer,
+  fetchIssuerSettings,
+  saveCustomerBuyerDetails,
+  saveEInvoice
+} from '@/lib/einvoice';
+import { SchemaIssue, validateEInvoice } from '@/lib/einvoiceSchema';
+import { submitEInvoice } from '@/lib/einvoiceSubmitter';
+import { ArrowLeftIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+// An e-invoice for one sale, for buyers who ask for one at the counter.
+// Sales without one go on their month's consolidated invoice.
+export default function SaleEInvoicePage() {
+  const router = useRouter();
+  const { id } = useParams<{ id: string }>();
+  const [sale, setSale] = useState<EInvoiceSale | null>(null);
+  const [customerName, setCustomerName] = useState<string | null>(null);
+  const [einvoice, setEInvoice] = useState<EInvoice | null>(null);
+  const [buyer, setBuyer] = useState<BuyerDetails>(EMPTY_BUYER);
+  const [saveToCustomer, setSaveToCustomer] = useState(true);
+  const [issues, setIssues] = useState<SchemaIssue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isIssuing, setIsIssuing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSale = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error: saleError } = await supabase.from('sales').select(EINVOICE_SALE_SELECT).eq('id', id).single();
+      if (saleError) throw new Error(saleError.message);
+      const saleData = data as EInvoiceSale;
+      setSale(saleData);
+
+      if (saleData.einvoice_id) {
+        const { data: einvoiceData, error: einvoiceError } = await supabase
+          .from('einvoices')
+          .select('*')
+          .eq('id', saleData.einvoice_id)
+          .single();
+        if (einvoiceError) throw new Error(einvoiceError.message);
+        setEInvoice(einvoiceData as EInvoice);
+      } else if (saleData.customer_id) {
+        const { data: customer, error: customerError } = await supabase
+          .from('customers')
+          .select(CUSTOMER_BUYER_SELECT)
+          .eq('id', saleData.customer_id)
+          .single();
+        if (customerError) throw new Error(customerError.message);
+        setCustomerName(customer.name);
+        setBuyer(buyerFromCustomer(customer as CustomerBuyerRow));
+      } else {
+        setBuyer({ ...EMPTY_BUYER, name: saleData.customer_name });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sale');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchSale();
+  }, [fetchSale]);
+
+  const handleLogout = async () => {
+    await supabase.auth.signOut();
+    router.push('/');
+  };
+
+  const handleIssue = async () => {
+    if (!sale) return;
+    setError(null);
+    setIsIssuing(true);
+    try {
+      const document = buildSaleInvoice(sale, buyer, await fetchIssuerSettings());
+      const documentIssues = validateEInvoice(document);
+      setIssues(documentIssues);
+      if (documentIssues.length > 0) return;
+
+      if (saveToCustomer && sale.customer_id && customerName) {
+        await saveCustomerBuyerDetails(sale.customer_id, customerName, buyer);
+      }
+      const saved = await saveEInvoice('invoice', document, [sale.id], buyer);
+      setEInvoice(saved);
+      setEInvoice(await submitEInvoice(saved));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to issue e-invoice');
+    } finally {
+      setIsIssuing(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      <Sidebar onLogout={handleLogout} />
+      <main className="flex-1 p-8 max-w-4xl">
+        <Link href="/sales" className="inline-flex items-center text-sm text-gray-600 hover:text-pink-600 mb-6">
+          <ArrowLeftIcon className="h-4 w-4 mr-1" />
+          Back to sales
+        </Link>
+
+        {error && (
+          <div className="mb-6 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg shadow-sm flex items-center">
+            <XMarkIcon className="h-5 w-5 mr-2" />
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500"></div>
+          </div>
+        ) : !sale ? (
+          <p className="text-gray-600">Sale not found.</p>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <h1 className="text-4xl font-bold text-gray-900 mb-2">e-Invoice</h1>
+              <p className="text-gray-600">
+                Receipt <span className="font-mono">{sale.receipt_number}</span> · {sale.customer_name} ·{' '}
+                {dayjs(sale.date).format('D MMM YYYY')} · RM {Number(sale.amount).toFixed(2)}
+              </p>
+            </div>
+
+            {einvoice ? (
+              <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-200 space-y-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="font-semibold text-gray-900 flex items-center gap-2">
+                      <span className="font-mono">{einvoice.invoice_number}</span>
+                      <EInvoiceStatusBadge status={einvoice.status} />
+                    </p>
+                    <p className="text-sm text-gray-500 mt-1">
+                      {einvoice.kind === 'consolidated'
+                        ? `On the consolidated invoice for ${dayjs(einvoice.period).format('MMMM YYYY')}`
+                        : `Issued to ${einvoice.buyer.name} (${einvoice.buyer.tin})`}
+                    </p>
+                    {einvoice.document_uuid && (
+                      <p className="text-sm text-gray-500">
+                        LHDN UUID <span className="font-mono">{einvoice.document_uuid}</span>
+                      </p>
+                    )}
+                    {einvoice.status_reason && <p className="text-sm text-red-600 mt-1">{einvoice.status_reason}</p>}
+                  </div>
+                  <EInvoiceActions einvoice={einvoice} onUpdated={setEInvoice} onError={setError} />
+                </div>
+                {einvoice.status === 'invalid' && (
+                  <p className="text-sm text-gray-600">
+                    The sale has been released; correct the details and{' '}
+                    <button onClick={() => { setEInvoice(null); fetchSale(); }} className="text-pink-600 font-medium">
+                      issue it again
+                    </button>
+                    .
+                  </p>
+                )}
+              </div>
+            ) : sale.voided_at ? (
+              <p className="text-gray-600">This sale was voided and needs no e-invoice.</p>
+            ) : (
+              <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-200 space-y-4">
+                <h2 className="text-xl font-bold text-gray-900">Buyer</h2>
+                <BuyerDetailsForm value={buyer} onChange={setBuyer} />
+
+                {sale.customer_id && customerName && (
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={saveToCustomer}
+                      onChange={(e) => setSaveToCustomer(e.target.checked)}
+                      className="h-4 w-4 text-pink-600 border-gray-300 rounded"
+                    />
+                    Save these details to {customerName}&apos;s profile
+                  </label>
+                )}
+
+                {issues.length > 0 && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                    <p className="font-medium text-red-700 mb-2">Fix these before issuing:</p>
+                    <ul className="list-disc list-inside text-sm text-red-700 space-y-0.5">
+                      {issues.map(issue => (
+                        <li key={issue.path + issue.message}>{issue.message}</li>
+                      ))}
+                    </ul>
+                    {issues.some(issue => issue.path.startsWith('Supplier')) && (
+                      <p className="text-sm text-red-700 mt-2">
+                        Supplier details are set in <Link href="/settings" className="underline">Settings</Link>.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex justify-end">
+                  <button
+                    onClick={handleIssue}
+                    disabled={isIssuing}
+                    className="px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-600 text-white font-semibold rounded-lg shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50"
+                  >
+                    {isIssuing ? 'Issuing...' : 'Issue e-invoice'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
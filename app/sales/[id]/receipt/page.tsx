@@ -0,0 +1,256 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import dayjs from 'dayjs';
+import { supabase } from '@/lib/supabase';
+import { PAYMENT_METHOD_LABELS, SALE_DETAILS_SELECT, SaleItem, SalePayment, SaleRefund } from '@/lib/sales';
+import { ReceiptSettings, fetchReceiptSettings } from '@/lib/receipts';
+import { TaxSettings, fetchTaxSettings } from '@/lib/tax';
+import { ArrowLeftIcon, PrinterIcon } from '@heroicons/react/24/outline';
+
+interface ReceiptSale {
+  id: string;
+  receipt_number: string;
+  customer_name: string;
+  amount: number;
+  date: string;
+  created_at: string;
+  staff?: string | null;
+  subtotal: number;
+  service_charge: number;
+  service_charge_rate: number;
+  tax: number;
+  tax_rate: number;
+  prices_include_tax: boolean;
+  promo_discount: number;
+  bill_discount: number;
+  bill_discount_reason: string | null;
+  sale_items: SaleItem[];
+  sale_payments: SalePayment[];
+  sale_refunds: SaleRefund[];
+  voided_at: string | null;
+}
+
+const money = (value: number) => Number(value).toFixed(2);
+
+// Printable receipt sized for an A4 page or an 80mm roll. "Save as PDF" in the
+// print dialog downloads it; the page title becomes the file name.
+export default function ReceiptPage() {
+  const { id } = useParams<{ id: string }>();
+  const searchParams = useSearchParams();
+  const autoPrint = searchParams.get('print') === '1';
+  const [sale, setSale] = useState<ReceiptSale | null>(null);
+  const [settings, setSettings] = useState<ReceiptSettings | null>(null);
+  const [taxSettings, setTaxSettings] = useState<TaxSettings | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [saleResult, receiptSettings, tax] = await Promise.all([
+          supabase.from('sales').select(SALE_DETAILS_SELECT).eq('id', id).single(),
+          fetchReceiptSettings(),
+          fetchTaxSettings()
+        ]);
+        if (saleResult.error) {
+          throw new Error(`Failed to load sale: ${saleResult.error.message}`);
+        }
+        setSale(saleResult.data as ReceiptSale);
+        setSettings(receiptSettings);
+        setTaxSettings(tax);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load receipt');
+      }
+    };
+    load();
+  }, [id]);
+
+  useEffect(() => {
+    if (!sale) return;
+    document.title = `Receipt ${sale.receipt_number}`;
+    if (autoPrint) window.print();
+  }, [sale, autoPrint]);
+
+  if (error) {
+    return <p className="p-8 text-red-600">{error}</p>;
+  }
+
+  if (!sale || !settings) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="w-10 h-10 border-4 border-pink-200 border-t-pink-600 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  const items = sale.sale_items;
+  const payments = [...sale.sale_payments].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const itemsTotal = items.reduce((sum, item) => sum + Number(item.unit_price) * item.quantity - Number(item.discount), 0);
+  const paid = payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+  const changeGiven = payments.reduce((sum, payment) => sum + Number(payment.change_given), 0);
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8 print:bg-white print:py-0">
+      <div className="max-w-md mx-auto mb-4 flex justify-between print:hidden">
+        <Link href="/sales" className="inline-flex items-center text-gray-600 hover:text-gray-900">
+          <ArrowLeftIcon className="h-4 w-4 mr-1" />
+          Back to sales
+        </Link>
+        <button
+          onClick={() => window.print()}
+          className="inline-flex items-center px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700"
+        >
+          <PrinterIcon className="h-5 w-5 mr-2" />
+          Print / Save as PDF
+        </button>
+      </div>
+
+      <div className="max-w-md mx-auto bg-white p-8 shadow-lg print:shadow-none print:p-0 text-sm text-gray-900">
+        <div className="text-center mb-4">
+          <h1 className="text-xl font-bold">{settings.business_name || 'Receipt'}</h1>
+          {settings.address && <p className="whitespace-pre-line">{settings.address}</p>}
+          {(settings.phone_number || settings.email) && (
+            <p>{[settings.phone_number, settings.email].filter(Boolean).join(' · ')}</p>
+          )}
+          {taxSettings?.sst_registration_number && <p>SST No: {taxSettings.sst_registration_number}</p>}
+          {settings.header_text && <p className="mt-2 whitespace-pre-line">{settings.header_text}</p>}
+        </div>
+
+        {sale.voided_at && (
+          <p className="border-2 border-red-600 text-red-600 text-center font-bold tracking-widest py-1 mb-2">VOID</p>
+        )}
+
+        <div className="border-t border-dashed border-gray-400 py-2 space-y-0.5">
+          <div className="flex justify-between">
+            <span>Receipt No.</span>
+            <span className="font-mono font-semibold">{sale.receipt_number}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Date</span>
+            <span>{dayjs(sale.created_at || sale.date).format('DD/MM/YYYY h:mm A')}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Customer</span>
+            <span>{sale.customer_name}</span>
+          </div>
+          {sale.staff && (
+            <div className="flex justify-between">
+              <span>Served by</span>
+              <span>{sale.staff}</span>
+            </div>
+          )}
+        </div>
+
+        <table className="w-full border-t border-dashed border-gray-400">
+          <thead>
+            <tr className="text-left">
+              <th className="py-1 font-semibold">Item</th>
+              <th className="py-1 font-semibold text-right">Qty</th>
+              <th className="py-1 font-semibold text-right">Price</th>
+              <th className="py-1 font-semibold text-right">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(item => (
+              <tr key={item.id} className="align-top">
+                <td className="py-0.5">
+                  {item.service_name}
+                  {Number(item.discount) > 0 && (
+                    <div className="text-xs">Discount -{money(item.discount)}</div>
+                  )}
+                </td>
+                <td className="py-0.5 text-right">{item.quantity}</td>
+                <td className="py-0.5 text-right">{money(item.unit_price)}</td>
+                <td className="py-0.5 text-right">{money(Number(item.unit_price) * item.quantity - Number(item.discount))}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="border-t border-dashed border-gray-400 py-2 space-y-0.5">
+          {(sale.promo_discount > 0 || sale.bill_discount > 0) && (
+            <div className="flex justify-between">
+              <span>Items</span>
+              <span>{money(itemsTotal)}</span>
+            </div>
+          )}
+          {sale.promo_discount > 0 && (
+            <div className="flex justify-between">
+              <span>Promo discount</span>
+              <span>-{money(sale.promo_discount)}</span>
+            </div>
+          )}
+          {sale.bill_discount > 0 && (
+            <div className="flex justify-between">
+              <span>Discount{sale.bill_discount_reason && ` (${sale.bill_discount_reason})`}</span>
+              <span>-{money(sale.bill_discount)}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span>Subtotal</span>
+            <span>{money(sale.subtotal)}</span>
+          </div>
+          {sale.service_charge > 0 && (
+            <div className="flex justify-between">
+              <span>Service charge {sale.service_charge_rate}%</span>
+              <span>{money(sale.service_charge)}</span>
+            </div>
+          )}
+          {sale.tax > 0 && (
+            <div className="flex justify-between">
+              <span>SST {sale.tax_rate}%{sale.prices_include_tax && ' (included)'}</span>
+              <span>{money(sale.tax)}</span>
+            </div>
+          )}
+          <div className="flex justify-between text-base font-bold pt-1">
+            <span>Total (RM)</span>
+            <span>{money(sale.amount)}</span>
+          </div>
+        </div>
+
+        <div className="border-t border-dashed border-gray-400 py-2 space-y-0.5">
+          {payments.map(payment => (
+            <div key={payment.id} className="flex justify-between">
+              <span>
+                {PAYMENT_METHOD_LABELS[payment.method]}
+                {payment.reference && ` (${payment.reference})`}
+              </span>
+              <span>{money(payment.tendered ?? payment.amount)}</span>
+            </div>
+          ))}
+          {changeGiven > 0 && (
+            <div className="flex justify-between">
+              <span>Change</span>
+              <span>{money(changeGiven)}</span>
+            </div>
+          )}
+          {paid < sale.amount && (
+            <div className="flex justify-between font-semibold">
+              <span>Balance due</span>
+              <span>{money(sale.amount - paid)}</span>
+            </div>
+          )}
+        </div>
+
+        {sale.sale_refunds.length > 0 && (
+          <div className="border-t border-dashed border-gray-400 py-2 space-y-0.5">
+            {sale.sale_refunds.map(refund => (
+              <div key={refund.id} className="flex justify-between">
+                <span>Refund {dayjs(refund.created_at).format('DD/MM/YYYY')} ({PAYMENT_METHOD_LABELS[refund.method]})</span>
+                <span>-{money(refund.amount)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {settings.footer_text && (
+          <p className="border-t border-dashed border-gray-400 pt-3 text-center whitespace-pre-line">
+            {settings.footer_text}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,34 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { supabase } from '@/lib/supabase';
 import Sidebar from '@/components/Sidebar';
+import NewSaleForm from '@/components/NewSaleForm';
+import PaymentEntry, { PaymentDraft, draftsToPayments, newPaymentDraft, validatePaymentDrafts } from '@/components/PaymentEntry';
+import SaleCorrectionForm, { SaleCorrection } from '@/components/SaleCorrectionForm';
+import { StaffMember, fetchStaff } from '@/lib/staff';
+import { fetchReceiptSettings, receiptUrl } from '@/lib/receipts';
+import { DayClosure, fetchDayClosure } from '@/lib/closures';
+import { isCurrentUserManager } from '@/lib/auth';
+import {
+  PAYMENT_METHOD_LABELS,
+  SALE_DETAILS_SELECT,
+  SaleItem,
+  SalePayment,
+  SaleRefund,
+  SALES_SORTS,
+  SalesSort,
+  SalesSummary,
+  amountPaid,
+  amountRefunded,
+  fetchSalesSummary,
+  recordSalePayments,
+  saleNetAmount,
+  salesQueryParams
+} from '@/lib/sales';
+import { DATE_RANGE_PRESET_LABELS, DateRangePreset, describeRange, presetRange } from '@/lib/dateRanges';
 import dayjs from 'dayjs';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
@@ -15,19 +40,42 @@ import {
   ArrowTrendingUpIcon,
   XMarkIcon,
   FunnelIcon,
-  MagnifyingGlassIcon
+  MagnifyingGlassIcon,
+  PlusIcon,
+  PrinterIcon,
+  LockClosedIcon
 } from '@heroicons/react/24/outline';
 
 interface Sale {
   id: string;
+  receipt_number: string;
   customer_name: string;
   service: string;
   amount: number;
   date: string;
   created_at?: string;
   staff?: string;
+  staff_id?: string | null;
+  sale_items?: SaleItem[];
+  sale_payments?: SalePayment[];
+  sale_refunds?: SaleRefund[];
+  net_amount?: number;
+  voided_at?: string | null;
+  voided_by_email?: string | null;
+  void_reason?: string | null;
+  subtotal?: number;
+  service_charge?: number;
+  tax?: number;
+  tax_rate?: number;
+  service_charge_rate?: number;
+  promo_discount?: number;
+  bill_discount?: number;
+  bill_discount_reason?: string | null;
+  einvoice_id?: string | null;
 }
 
+const PAGE_SIZE = 20;
+
 const formatDate = (dateString: string) => {
   return new Date(dateString).toLocaleDateString();
 };
@@ -43,56 +91,139 @@ const formatDateTime = (dateString: string) => {
 export default function SalesPage() {
   const router = useRouter();
   const [sales, setSales] = useState<Sale[]>([]);
-  const [filteredSales, setFilteredSales] = useState<Sale[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [summary, setSummary] = useState<SalesSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [selectedDate, setSelectedDate] = useState(dayjs().format('YYYY-MM-DD'));
+  const [preset, setPreset] = useState<DateRangePreset>('today');
+  const [range, setRange] = useState(presetRange('today'));
+  const [sort, setSort] = useState<SalesSort>('newest');
+  const [page, setPage] = useState(0);
+  const [searchInput, setSearchInput] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
   const [staffFilter, setStaffFilter] = useState('all');
-
-  const staffList = [...new Set(sales.map(sale => sale.staff).filter(Boolean))];
+  const [staffList, setStaffList] = useState<StaffMember[]>([]);
+  const [showNewSale, setShowNewSale] = useState(false);
+  const [payingSaleId, setPayingSaleId] = useState<string | null>(null);
+  const [paymentDrafts, setPaymentDrafts] = useState<PaymentDraft[]>([]);
+  const [isRecordingPayment, setIsRecordingPayment] = useState(false);
+  const [correcting, setCorrecting] = useState<{ saleId: string; mode: SaleCorrection } | null>(null);
+  const [isManager, setIsManager] = useState(false);
+  const [outletCode, setOutletCode] = useState<string | null>(null);
+  const [dayClosure, setDayClosure] = useState<DayClosure | null>(null);
+  const [todayClosed, setTodayClosed] = useState(false);
 
   useEffect(() => {
-    fetchSales();
-  }, [selectedDate]);
+    fetchStaff()
+      .then(setStaffList)
+      .catch(err => console.error('Error fetching staff:', err));
+    isCurrentUserManager()
+      .then(setIsManager)
+      .catch(err => console.error('Error checking permissions:', err));
+    fetchReceiptSettings()
+      .then(settings => setOutletCode(settings.outlet_code))
+      .catch(err => console.error('Error fetching receipt settings:', err));
+  }, []);
 
+  // Search runs on the server, so wait for typing to pause.
   useEffect(() => {
-    // Filter sales based on search term and staff filter
-    let filtered = sales;
-
-    if (searchTerm) {
-      filtered = filtered.filter(sale =>
-        sale.customer_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        sale.service.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-    }
+    const timeout = setTimeout(() => {
+      setSearchTerm(searchInput);
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
 
-    if (staffFilter !== 'all') {
-      filtered = filtered.filter(sale => sale.staff === staffFilter);
-    }
-
-    setFilteredSales(filtered);
-  }, [sales, searchTerm, staffFilter]);
-
-  const fetchSales = async () => {
+  const fetchSales = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
-      
-      const { data, error: fetchError } = await supabase
-        .from('sales')
-        .select('*')
-        .eq('date', selectedDate)
-        .order('created_at', { ascending: false });
-
-      if (fetchError) throw new Error(fetchError.message);
-      setSales(data || []);
+
+      const query = { ...range, search: searchTerm, staffId: staffFilter === 'all' ? null : staffFilter };
+      const { column, ascending } = SALES_SORTS[sort];
+      const [listResult, rangeSummary] = await Promise.all([
+        supabase
+          .rpc('search_sales', salesQueryParams(query), { count: 'exact' })
+          .select(SALE_DETAILS_SELECT)
+          .order(column, { ascending, nullsFirst: false })
+          .order('created_at', { ascending: false })
+          .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1),
+        fetchSalesSummary(query)
+      ]);
+
+      if (listResult.error) throw new Error(listResult.error.message);
+      setSales(listResult.data || []);
+      setTotalCount(listResult.count || 0);
+      setSummary(rangeSummary);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch sales');
       console.error('Error fetching sales:', err);
     } finally {
       setLoading(false);
     }
+  }, [range, searchTerm, staffFilter, sort, page]);
+
+  useEffect(() => {
+    fetchSales();
+  }, [fetchSales]);
+
+  useEffect(() => {
+    if (!outletCode) return;
+    const today = dayjs().format('YYYY-MM-DD');
+    const singleDay = range.from === range.to ? range.from : null;
+    if (singleDay) {
+      fetchDayClosure(outletCode, singleDay)
+        .then(setDayClosure)
+        .catch(err => console.error('Error fetching day closure:', err));
+    } else {
+      setDayClosure(null);
+    }
+    fetchDayClosure(outletCode, today)
+      .then(closure => setTodayClosed(!!closure))
+      .catch(err => console.error('Error fetching day closure:', err));
+  }, [outletCode, range]);
+
+  const selectPreset = (value: DateRangePreset) => {
+    setPreset(value);
+    setPage(0);
+    if (value !== 'custom') setRange(presetRange(value));
+  };
+
+  const handleSaleSaved = () => {
+    setShowNewSale(false);
+    const today = dayjs().format('YYYY-MM-DD');
+    if (range.from <= today && today <= range.to) fetchSales();
+    else selectPreset('today');
+  };
+
+  const startPayment = (sale: Sale) => {
+    setPayingSaleId(sale.id);
+    setPaymentDrafts([newPaymentDraft(sale.amount - amountPaid(sale.sale_payments))]);
+  };
+
+  const handleRecordPayment = async (sale: Sale) => {
+    const paymentError = validatePaymentDrafts(paymentDrafts, sale.amount - amountPaid(sale.sale_payments));
+    if (paymentError) {
+      setError(paymentError);
+      return;
+    }
+
+    setIsRecordingPayment(true);
+    setError(null);
+    try {
+      await recordSalePayments(sale.id, draftsToPayments(paymentDrafts));
+      setPayingSaleId(null);
+      await fetchSales();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record payment');
+    } finally {
+      setIsRecordingPayment(false);
+    }
+  };
+
+  const handleCorrectionDone = async () => {
+    setCorrecting(null);
+    await fetchSales();
   };
 
   const handleLogout = async () => {
@@ -100,24 +231,50 @@ export default function SalesPage() {
     router.push('/');
   };
 
-  const totalSales = filteredSales.reduce((sum, sale) => sum + sale.amount, 0);
-  const salesCount = filteredSales.length;
+  const totalSales = summary?.netTotal || 0;
+  const salesCount = summary?.salesCount || 0;
   const averageSale = salesCount > 0 ? totalSales / salesCount : 0;
+  const paymentTotals = summary?.paymentTotals || [];
+  const outstanding = summary?.outstanding || 0;
 
-  const isToday = selectedDate === dayjs().format('YYYY-MM-DD');
+  const today = dayjs().format('YYYY-MM-DD');
+  const isToday = range.from === today && range.to === today;
+  const singleDay = range.from === range.to;
+  const rangeLabel = isToday ? 'today' : describeRange(range);
+  const pageCount = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+  const hasFilters = searchTerm.trim() !== '' || staffFilter !== 'all';
 
   return (
     <div className="flex min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
       <Sidebar onLogout={handleLogout} />
       <main className="flex-1 p-8">
         {/* Header */}
-        <div className="mb-8">
-          <h1 className="text-4xl font-bold text-gray-900 mb-2">
-            {isToday ? "Today's Sales" : `Sales for ${formatDate(selectedDate)}`}
-          </h1>
-          <p className="text-gray-600">Track your salon's daily performance</p>
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">
+              {isToday ? "Today's Sales" : `Sales for ${describeRange(range)}`}
+            </h1>
+            <p className="text-gray-600">Track your salon&apos;s daily performance</p>
+          </div>
+          {!showNewSale && !todayClosed && (
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => setShowNewSale(true)}
+              className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-600 text-white font-semibold rounded-lg shadow-lg hover:shadow-xl transition-all duration-200"
+            >
+              <PlusIcon className="h-5 w-5 mr-2" />
+              New sale
+            </motion.button>
+          )}
         </div>
 
+        {showNewSale && (
+          <div className="mb-8">
+            <NewSaleForm onSaved={handleSaleSaved} onCancel={() => setShowNewSale(false)} />
+          </div>
+        )}
+
         {/* Error Display */}
         <AnimatePresence>
           {error && (
@@ -135,23 +292,66 @@ export default function SalesPage() {
           )}
         </AnimatePresence>
 
-        {/* Date Selector and Filters */}
+        {dayClosure && (
+          <div className="mb-6 flex items-center justify-between bg-gray-100 border border-gray-300 text-gray-700 px-4 py-3 rounded-lg">
+            <div className="flex items-center">
+              <LockClosedIcon className="h-5 w-5 mr-2" />
+              This day was closed on {dayjs(dayClosure.closed_at).format('D MMM YYYY h:mm A')}
+              {isToday && '; no more sales, payments or refunds can be taken today'}
+            </div>
+            <Link href={`/cash-up/${dayClosure.id}`} className="text-pink-600 hover:text-pink-700 font-medium">
+              View Z-report
+            </Link>
+          </div>
+        )}
+
+        {/* Date Range and Filters */}
         <div className="mb-8 bg-white rounded-2xl shadow-lg p-6 border border-gray-200">
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-            {/* Date Selector */}
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            {/* Date Range */}
             <div className="relative">
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Select Date
+                Period
               </label>
               <div className="relative">
                 <CalendarDaysIcon className="h-5 w-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
-                <input
-                  type="date"
-                  value={selectedDate}
-                  onChange={(e) => setSelectedDate(e.target.value)}
-                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all"
-                />
+                <select
+                  value={preset}
+                  onChange={(e) => selectPreset(e.target.value as DateRangePreset)}
+                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all appearance-none bg-white"
+                >
+                  {(Object.keys(DATE_RANGE_PRESET_LABELS) as DateRangePreset[]).map(option => (
+                    <option key={option} value={option}>{DATE_RANGE_PRESET_LABELS[option]}</option>
+                  ))}
+                </select>
               </div>
+              {preset === 'custom' && (
+                <div className="mt-2 flex items-center gap-2">
+                  <input
+                    type="date"
+                    value={range.from}
+                    max={range.to}
+                    onChange={(e) => {
+                      if (!e.target.value) return;
+                      setRange(prev => ({ ...prev, from: e.target.value }));
+                      setPage(0);
+                    }}
+                    className="w-full px-2 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                  />
+                  <span className="text-gray-400">–</span>
+                  <input
+                    type="date"
+                    value={range.to}
+                    min={range.from}
+                    onChange={(e) => {
+                      if (!e.target.value) return;
+                      setRange(prev => ({ ...prev, to: e.target.value }));
+                      setPage(0);
+                    }}
+                    className="w-full px-2 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                  />
+                </div>
+              )}
             </div>
 
             {/* Search */}
@@ -163,9 +363,9 @@ export default function SalesPage() {
                 <MagnifyingGlassIcon className="h-5 w-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
                 <input
                   type="text"
-                  placeholder="Search customer or service..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  placeholder="Customer, service or receipt..."
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
                   className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all"
                 />
               </div>
@@ -180,26 +380,51 @@ export default function SalesPage() {
                 <FunnelIcon className="h-5 w-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
                 <select
                   value={staffFilter}
-                  onChange={(e) => setStaffFilter(e.target.value)}
+                  onChange={(e) => {
+                    setStaffFilter(e.target.value);
+                    setPage(0);
+                  }}
                   className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all appearance-none bg-white"
                 >
                   <option value="all">All Staff</option>
                   {staffList.map(staff => (
-                    <option key={staff} value={staff}>{staff}</option>
+                    <option key={staff.id} value={staff.id}>
+                      {staff.name}{staff.active ? '' : ' (inactive)'}
+                    </option>
                   ))}
                 </select>
               </div>
             </div>
 
+            {/* Sort */}
+            <div className="relative">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Sort by
+              </label>
+              <select
+                value={sort}
+                onChange={(e) => {
+                  setSort(e.target.value as SalesSort);
+                  setPage(0);
+                }}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all bg-white"
+              >
+                {(Object.keys(SALES_SORTS) as SalesSort[]).map(option => (
+                  <option key={option} value={option}>{SALES_SORTS[option].label}</option>
+                ))}
+              </select>
+            </div>
+
             {/* Quick Actions */}
             <div className="flex items-end gap-2">
               <motion.button
                 whileHover={{ scale: 1.02 }}
                 whileTap={{ scale: 0.98 }}
                 onClick={() => {
-                  setSelectedDate(dayjs().format('YYYY-MM-DD'));
-                  setSearchTerm('');
+                  selectPreset('today');
+                  setSearchInput('');
                   setStaffFilter('all');
+                  setSort('newest');
                 }}
                 className="px-4 py-3 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
               >
@@ -268,7 +493,7 @@ export default function SalesPage() {
           <div className="flex justify-center items-center h-64">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500"></div>
           </div>
-        ) : filteredSales.length === 0 ? (
+        ) : sales.length === 0 ? (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -276,18 +501,18 @@ export default function SalesPage() {
           >
             <ChartBarIcon className="mx-auto h-16 w-16 text-gray-400 mb-4" />
             <h3 className="text-xl font-medium text-gray-900 mb-2">
-              {sales.length === 0 ? 'No sales recorded' : 'No sales match your filters'}
+              {hasFilters ? 'No sales match your filters' : 'No sales recorded'}
             </h3>
             <p className="text-gray-500">
-              {sales.length === 0 
-                ? `No sales have been recorded for ${isToday ? 'today' : formatDate(selectedDate)} yet`
-                : 'Try adjusting your search or filter criteria'
+              {hasFilters
+                ? 'Try adjusting your search or filter criteria'
+                : `No sales have been recorded for ${rangeLabel} yet`
               }
             </p>
           </motion.div>
         ) : (
           <div className="grid gap-6">
-            {filteredSales.map((sale, index) => (
+            {sales.map((sale, index) => (
               <motion.div
                 key={sale.id}
                 initial={{ opacity: 0, y: 20 }}
@@ -303,12 +528,64 @@ export default function SalesPage() {
                           <UserIcon className="h-5 w-5 text-pink-500 mr-2" />
                           {sale.customer_name}
                         </h3>
-                        <p className="text-gray-600 mt-1">{sale.service}</p>
+                        {sale.sale_items && sale.sale_items.length > 0 ? (
+                          <ul className="mt-1 space-y-0.5">
+                            {sale.sale_items.map(item => (
+                              <li key={item.id} className="text-gray-600 text-sm">
+                                {item.service_name}
+                                {item.quantity > 1 && ` ×${item.quantity}`}
+                                <span className="text-gray-400"> · RM {Number(item.line_total).toFixed(2)}</span>
+                                {Number(item.discount) > 0 && (
+                                  <span className="text-green-700"> · -RM {Number(item.discount).toFixed(2)} discount</span>
+                                )}
+                                {item.override_reason && (
+                                  <span className="text-amber-700">
+                                    {' '}· price changed from RM {Number(item.list_price).toFixed(2)} ({item.override_reason})
+                                  </span>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <p className="text-gray-600 mt-1">{sale.service}</p>
+                        )}
                       </div>
                       <div className="text-right">
-                        <span className="text-3xl font-bold text-pink-600">
+                        <span className={`text-3xl font-bold ${sale.voided_at ? 'text-gray-400 line-through' : 'text-pink-600'}`}>
                           RM {sale.amount.toFixed(2)}
                         </span>
+                        {sale.voided_at ? (
+                          <p className="mt-1">
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">Voided</span>
+                          </p>
+                        ) : amountRefunded(sale.sale_refunds) > 0 && (
+                          <p className="mt-1">
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                              {saleNetAmount(sale) <= 0.005 ? 'Refunded' : 'Part refunded'} · RM{' '}
+                              {amountRefunded(sale.sale_refunds).toFixed(2)}
+                            </span>
+                          </p>
+                        )}
+                        {!!sale.promo_discount && (
+                          <p className="text-xs text-green-700 mt-1">
+                            Promo: -RM {Number(sale.promo_discount).toFixed(2)}
+                          </p>
+                        )}
+                        {!!sale.bill_discount && (
+                          <p className="text-xs text-green-700">
+                            Discount{sale.bill_discount_reason && ` (${sale.bill_discount_reason})`}: -RM {Number(sale.bill_discount).toFixed(2)}
+                          </p>
+                        )}
+                        {!!sale.service_charge && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            Service charge {sale.service_charge_rate}%: RM {Number(sale.service_charge).toFixed(2)}
+                          </p>
+                        )}
+                        {!!sale.tax && (
+                          <p className="text-xs text-gray-500">
+                            SST {sale.tax_rate}%: RM {Number(sale.tax).toFixed(2)}
+                          </p>
+                        )}
                       </div>
                     </div>
 
@@ -316,17 +593,142 @@ export default function SalesPage() {
                       <div className="flex items-center text-gray-600">
                         <ClockIcon className="h-5 w-5 text-purple-500 mr-2" />
                         <span className="text-sm">
-                          {sale.created_at ? formatDateTime(sale.created_at) : formatDate(sale.date)}
+                          {!singleDay && `${formatDate(sale.date)} `}
+                          {sale.created_at ? formatDateTime(sale.created_at) : singleDay && formatDate(sale.date)}
                         </span>
                       </div>
 
+                      <div className="flex items-center text-gray-600">
+                        <PrinterIcon className="h-5 w-5 text-gray-500 mr-2" />
+                        <span className="text-sm font-mono mr-3">{sale.receipt_number}</span>
+                        <Link
+                          href={receiptUrl(sale.id, true)}
+                          target="_blank"
+                          className="text-sm text-pink-600 hover:text-pink-700 font-medium"
+                        >
+                          Reprint receipt
+                        </Link>
+                        {!sale.voided_at && (
+                          <Link
+                            href={`/sales/${sale.id}/einvoice`}
+                            className="ml-3 text-sm text-pink-600 hover:text-pink-700 font-medium"
+                          >
+                            {sale.einvoice_id ? 'e-Invoiced' : 'e-Invoice'}
+                          </Link>
+                        )}
+                      </div>
+
                       {sale.staff && (
                         <div className="flex items-center text-gray-600">
                           <UserIcon className="h-5 w-5 text-blue-500 mr-2" />
                           <span className="text-sm">Served by {sale.staff}</span>
                         </div>
                       )}
+
+                      {(sale.sale_payments || []).map(payment => (
+                        <div key={payment.id} className="flex items-center text-gray-600">
+                          <CurrencyDollarIcon className="h-5 w-5 text-green-500 mr-2" />
+                          <span className="text-sm">
+                            {PAYMENT_METHOD_LABELS[payment.method]} RM {Number(payment.amount).toFixed(2)}
+                            {payment.change_given > 0 && ` · change RM ${Number(payment.change_given).toFixed(2)}`}
+                            {payment.reference && ` · ref ${payment.reference}`}
+                          </span>
+                        </div>
+                      ))}
                     </div>
+
+                    {(sale.voided_at || (sale.sale_refunds || []).length > 0) && (
+                      <div className="mt-4 pt-4 border-t border-gray-100 space-y-1 text-sm">
+                        {sale.voided_at && (
+                          <p className="text-red-700">
+                            Voided {formatDateTime(sale.voided_at)} by {sale.voided_by_email || 'unknown'}: {sale.void_reason}
+                          </p>
+                        )}
+                        {(sale.sale_refunds || []).map(refund => (
+                          <p key={refund.id} className="text-orange-700">
+                            Refunded RM {Number(refund.amount).toFixed(2)} by {PAYMENT_METHOD_LABELS[refund.method]}
+                            {' '}on {formatDate(refund.created_at)}, approved by {refund.approved_by_email}: {refund.reason}
+                          </p>
+                        ))}
+                      </div>
+                    )}
+
+                    {correcting?.saleId === sale.id && (
+                      <div className="mt-4 pt-4 border-t border-gray-100">
+                        <SaleCorrectionForm
+                          saleId={sale.id}
+                          receiptNumber={sale.receipt_number}
+                          mode={correcting.mode}
+                          refundable={amountPaid(sale.sale_payments) - amountRefunded(sale.sale_refunds)}
+                          defaultMethod={sale.sale_payments?.[0]?.method}
+                          onDone={handleCorrectionDone}
+                          onCancel={() => setCorrecting(null)}
+                        />
+                      </div>
+                    )}
+
+                    {isManager && !sale.voided_at && correcting?.saleId !== sale.id && (
+                      <div className="mt-4 flex justify-end gap-2">
+                        {amountPaid(sale.sale_payments) - amountRefunded(sale.sale_refunds) > 0.005 && (
+                          <button
+                            onClick={() => setCorrecting({ saleId: sale.id, mode: 'refund' })}
+                            className="px-3 py-1.5 text-sm text-orange-700 bg-orange-50 rounded-lg hover:bg-orange-100 transition-colors"
+                          >
+                            Refund
+                          </button>
+                        )}
+                        {sale.date === dayjs().format('YYYY-MM-DD') && amountRefunded(sale.sale_refunds) === 0 && (
+                          <button
+                            onClick={() => setCorrecting({ saleId: sale.id, mode: 'void' })}
+                            className="px-3 py-1.5 text-sm text-red-700 bg-red-50 rounded-lg hover:bg-red-100 transition-colors"
+                          >
+                            Void
+                          </button>
+                        )}
+                      </div>
+                    )}
+
+                    {!sale.voided_at && sale.amount - amountPaid(sale.sale_payments) > 0.005 && (
+                      <div className="mt-4 pt-4 border-t border-gray-100">
+                        {payingSaleId === sale.id ? (
+                          <div className="space-y-3">
+                            <PaymentEntry
+                              amountDue={sale.amount - amountPaid(sale.sale_payments)}
+                              drafts={paymentDrafts}
+                              onChange={setPaymentDrafts}
+                            />
+                            <div className="flex justify-end gap-2">
+                              <button
+                                onClick={() => setPayingSaleId(null)}
+                                className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                              >
+                                Cancel
+                              </button>
+                              <button
+                                onClick={() => handleRecordPayment(sale)}
+                                disabled={isRecordingPayment}
+                                className="px-4 py-2 text-sm bg-gradient-to-r from-pink-500 to-purple-600 text-white font-semibold rounded-lg shadow disabled:opacity-50"
+                              >
+                                {isRecordingPayment ? 'Saving...' : 'Record payment'}
+                              </button>
+                            </div>
+                          </div>
+                        ) : (
+                          <div className="flex items-center justify-between">
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                              {amountPaid(sale.sale_payments) > 0 ? 'Part paid' : 'Unpaid'} · RM{' '}
+                              {(sale.amount - amountPaid(sale.sale_payments)).toFixed(2)} due
+                            </span>
+                            <button
+                              onClick={() => startPayment(sale)}
+                              className="px-4 py-2 text-sm bg-pink-100 text-pink-700 rounded-lg hover:bg-pink-200 transition-colors"
+                            >
+                              Take payment
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
               </motion.div>
@@ -334,8 +736,34 @@ export default function SalesPage() {
           </div>
         )}
 
+        {/* Pagination */}
+        {!loading && totalCount > PAGE_SIZE && (
+          <div className="mt-6 flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              Showing {page * PAGE_SIZE + 1}–{Math.min((page + 1) * PAGE_SIZE, totalCount)} of {totalCount} sales
+            </p>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setPage(prev => prev - 1)}
+                disabled={page === 0}
+                className="px-4 py-2 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-600">Page {page + 1} of {pageCount}</span>
+              <button
+                onClick={() => setPage(prev => prev + 1)}
+                disabled={page + 1 >= pageCount}
+                className="px-4 py-2 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Summary Footer */}
-        {filteredSales.length > 0 && (
+        {totalCount > 0 && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -355,6 +783,21 @@ export default function SalesPage() {
                 <p className="text-2xl font-bold">RM {averageSale.toFixed(2)}</p>
               </div>
             </div>
+
+            <div className="mt-6 pt-6 border-t border-gray-700 flex flex-wrap justify-center gap-6 text-center">
+              {paymentTotals.map(({ method, amount }) => (
+                <div key={method}>
+                  <h4 className="text-gray-300 text-sm">{PAYMENT_METHOD_LABELS[method]}</h4>
+                  <p className="text-lg font-semibold">RM {amount.toFixed(2)}</p>
+                </div>
+              ))}
+              {outstanding > 0.005 && (
+                <div>
+                  <h4 className="text-yellow-300 text-sm">Unpaid</h4>
+                  <p className="text-lg font-semibold text-yellow-300">RM {outstanding.toFixed(2)}</p>
+                </div>
+              )}
+            </div>
           </motion.div>
         )}
       </main>
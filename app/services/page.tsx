@@ -10,23 +10,34 @@ interface Service {
   name: string;
   price: number;
   duration_minutes: number;
+  buffer_minutes: number;
+  category: string | null;
+  tax_exempt: boolean;
 }
 
 interface FormData {
   name: string;
   price: string;
   duration_minutes: string;
+  buffer_minutes: string;
+  category: string;
+  tax_exempt: boolean;
 }
 
+const emptyForm: FormData = {
+  name: '',
+  price: '',
+  duration_minutes: '',
+  buffer_minutes: '',
+  category: '',
+  tax_exempt: false
+};
+
 export default function ServicesPage() {
   const router = useRouter();
   const [services, setServices] = useState<Service[]>([]);
   const [loading, setLoading] = useState(true);
-  const [formData, setFormData] = useState<FormData>({ 
-    name: '', 
-    price: '', 
-    duration_minutes: '' 
-  });
+  const [formData, setFormData] = useState<FormData>(emptyForm);
   const [editingServiceId, setEditingServiceId] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -66,7 +77,8 @@ export default function ServicesPage() {
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setFormData({ ...formData, [e.target.name]: e.target.value });
+    const { name, value, type, checked } = e.target;
+    setFormData({ ...formData, [name]: type === 'checkbox' ? checked : value });
   };
 
   const handleDelete = async (serviceId: string) => {
@@ -102,7 +114,10 @@ export default function ServicesPage() {
     setFormData({
       name: service.name,
       price: service.price.toString(),
-      duration_minutes: service.duration_minutes.toString()
+      duration_minutes: service.duration_minutes.toString(),
+      buffer_minutes: service.buffer_minutes ? service.buffer_minutes.toString() : '',
+      category: service.category || '',
+      tax_exempt: service.tax_exempt
     });
     setSuccessMessage(null);
     window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -115,9 +130,10 @@ export default function ServicesPage() {
     setIsSubmitting(true);
 
     try {
-      const { name, price, duration_minutes } = formData;
+      const { name, price, duration_minutes, buffer_minutes, category, tax_exempt } = formData;
       const priceNumber = parseFloat(price);
       const durationNumber = parseInt(duration_minutes);
+      const bufferNumber = buffer_minutes === '' ? 0 : parseInt(buffer_minutes);
 
       if (isNaN(priceNumber)) {
         setError('Please enter a valid price');
@@ -131,10 +147,19 @@ export default function ServicesPage() {
         return;
       }
 
+      if (isNaN(bufferNumber) || bufferNumber < 0) {
+        setError('Please enter a valid buffer time');
+        setIsSubmitting(false);
+        return;
+      }
+
       const serviceData = {
         name,
         price: priceNumber,
         duration_minutes: durationNumber,
+        buffer_minutes: bufferNumber,
+        category: category.trim() || null,
+        tax_exempt,
       };
 
       if (editingServiceId) {
@@ -147,7 +172,7 @@ export default function ServicesPage() {
           setError(supabaseError.message || 'Failed to update service');
         } else {
           setSuccessMessage('Service updated successfully');
-          setFormData({ name: '', price: '', duration_minutes: '' });
+          setFormData(emptyForm);
           setEditingServiceId(null);
           await fetchServices();
         }
@@ -160,7 +185,7 @@ export default function ServicesPage() {
           setError(supabaseError.message || 'Failed to create service');
         } else {
           setSuccessMessage('Service created successfully');
-          setFormData({ name: '', price: '', duration_minutes: '' });
+          setFormData(emptyForm);
           await fetchServices();
         }
       }
@@ -173,7 +198,7 @@ export default function ServicesPage() {
 
   const cancelEdit = () => {
     setEditingServiceId(null);
-    setFormData({ name: '', price: '', duration_minutes: '' });
+    setFormData(emptyForm);
     setError(null);
     setSuccessMessage(null);
   };
@@ -183,6 +208,9 @@ export default function ServicesPage() {
     service.name.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  // Existing categories, offered as suggestions so spellings stay consistent.
+  const categories = [...new Set(services.map(service => service.category).filter((c): c is string => !!c))].sort();
+
   return (
     <div className="flex min-h-screen bg-gray-100">
       {/* Sidebar component with built-in mobile responsiveness */}
@@ -292,6 +320,52 @@ export default function ServicesPage() {
                     disabled={isSubmitting}
                   />
                 </div>
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">
+                    Buffer after (minutes)
+                  </label>
+                  <input
+                    type="number"
+                    name="buffer_minutes"
+                    placeholder="e.g. 10"
+                    value={formData.buffer_minutes}
+                    onChange={handleChange}
+                    className="w-full py-2 px-3 text-sm sm:text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-pink-500 transition"
+                    min="0"
+                    disabled={isSubmitting}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">
+                    Category
+                  </label>
+                  <input
+                    type="text"
+                    name="category"
+                    list="service-categories"
+                    placeholder="e.g. Hair, Nails"
+                    value={formData.category}
+                    onChange={handleChange}
+                    className="w-full py-2 px-3 text-sm sm:text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-pink-500 transition"
+                    disabled={isSubmitting}
+                  />
+                  <datalist id="service-categories">
+                    {categories.map(category => (
+                      <option key={category} value={category} />
+                    ))}
+                  </datalist>
+                </div>
+                <label className="flex items-center gap-2 text-xs sm:text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    name="tax_exempt"
+                    checked={formData.tax_exempt}
+                    onChange={handleChange}
+                    className="rounded text-pink-600 focus:ring-pink-500"
+                    disabled={isSubmitting}
+                  />
+                  SST exempt
+                </label>
               </div>
               <div className="flex flex-col sm:flex-row sm:justify-between gap-3">
                 <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
@@ -341,7 +415,7 @@ export default function ServicesPage() {
                 <button 
                   type="button" 
                   onClick={() => {
-                    setFormData({ name: '', price: '', duration_minutes: '' });
+                    setFormData(emptyForm);
                     setEditingServiceId(null);
                     setError(null);
                     setSuccessMessage(null);
@@ -431,6 +505,8 @@ export default function ServicesPage() {
                         <tr key={service.id} className="hover:bg-gray-50 transition">
                           <td className="px-3 md:px-6 py-4 whitespace-nowrap">
                             <div className="font-medium text-gray-900 text-sm md:text-base">{service.name}</div>
+                            {service.category && <div className="text-xs text-gray-500">{service.category}</div>}
+                            {service.tax_exempt && <div className="text-xs text-gray-500">SST exempt</div>}
                           </td>
                           <td className="px-3 md:px-6 py-4 whitespace-nowrap">
                             <div className="text-gray-900 font-medium text-sm md:text-base">RM {service.price.toFixed(2)}</div>
@@ -439,6 +515,9 @@ export default function ServicesPage() {
                             <div className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
                               {service.duration_minutes} minutes
                             </div>
+                            {service.buffer_minutes > 0 && (
+                              <div className="text-xs text-gray-500 mt-1">+ {service.buffer_minutes} min buffer</div>
+                            )}
                           </td>
                           <td className="px-3 md:px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                             <div className="flex justify-end space-x-2">
@@ -475,9 +554,13 @@ export default function ServicesPage() {
                   {filteredServices.map((service) => (
                     <div key={service.id} className="border-b border-gray-200 p-3">
                       <div className="flex justify-between items-start mb-2">
-                        <h3 className="font-medium text-gray-900 text-base">{service.name}</h3>
+                        <div>
+                          <h3 className="font-medium text-gray-900 text-base">{service.name}</h3>
+                          {service.category && <p className="text-xs text-gray-500">{service.category}</p>}
+                          {service.tax_exempt && <p className="text-xs text-gray-500">SST exempt</p>}
+                        </div>
                         <div className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
-                          {service.duration_minutes} min
+                          {service.duration_minutes} min{service.buffer_minutes > 0 && ` + ${service.buffer_minutes}`}
                         </div>
                       </div>
                       <p className="text-gray-900 font-medium mb-3 text-sm">RM {service.price.toFixed(2)}</p>
@@ -3,14 +3,47 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import dayjs from 'dayjs';
 import { supabase } from '@/lib/supabase';
 import Sidebar from '@/components/Sidebar';
+import { TaxSettings, fetchTaxSettings } from '@/lib/tax';
+import { ReceiptSettings, fetchReceiptSettings } from '@/lib/receipts';
+import { EInvoiceSettings, MALAYSIAN_STATES, fetchEInvoiceSettings } from '@/lib/einvoice';
+import { WEEKDAY_LABELS } from '@/lib/schedules';
+import {
+  BusinessClosure,
+  BusinessHours,
+  PublicHoliday,
+  addBusinessClosure,
+  addPublicHolidays,
+  deleteBusinessClosure,
+  deletePublicHoliday,
+  fetchBusinessClosures,
+  fetchBusinessHours,
+  fetchHolidayStateCode,
+  fetchPublicHolidays,
+  malaysianFixedHolidays,
+  saveBusinessHours,
+  saveHolidayStateCode
+} from '@/lib/businessHours';
 
 interface AdminUser {
   id: string;
   email: string;
 }
 
+// Rows the phone normalization migration left untouched.
+interface PhoneIssue {
+  id: string;
+  table_name: string;
+  row_id: string;
+  phone_number: string;
+  reason: 'unparseable' | 'duplicate';
+}
+
+const today = () => dayjs().format('YYYY-MM-DD');
+
 export default function SettingsPage() {
   const router = useRouter();
   const [email, setEmail] = useState('');
@@ -18,12 +51,58 @@ export default function SettingsPage() {
   const [status, setStatus] = useState('');
   const [admins, setAdmins] = useState<AdminUser[]>([]);
   const [newAdminEmail, setNewAdminEmail] = useState('');
+  const [phoneIssues, setPhoneIssues] = useState<PhoneIssue[]>([]);
+  const [taxSettings, setTaxSettings] = useState<TaxSettings | null>(null);
+  const [taxStatus, setTaxStatus] = useState('');
+  const [receiptSettings, setReceiptSettings] = useState<ReceiptSettings | null>(null);
+  const [receiptStatus, setReceiptStatus] = useState('');
+  const [einvoiceSettings, setEInvoiceSettings] = useState<EInvoiceSettings | null>(null);
+  const [einvoiceStatus, setEInvoiceStatus] = useState('');
+  const [businessHours, setBusinessHours] = useState<BusinessHours[] | null>(null);
+  const [closures, setClosures] = useState<BusinessClosure[]>([]);
+  const [newClosure, setNewClosure] = useState({ start_date: '', end_date: '', reason: '' });
+  const [hoursStatus, setHoursStatus] = useState('');
+  const [holidayStateCode, setHolidayStateCode] = useState('');
+  const [holidays, setHolidays] = useState<PublicHoliday[]>([]);
+  const [newHoliday, setNewHoliday] = useState({ date: '', name: '', state_code: '' });
+  const [holidayYear, setHolidayYear] = useState(dayjs().year());
+  const [holidayStatus, setHolidayStatus] = useState('');
 
   useEffect(() => {
     fetchUserEmail();
     fetchAdmins();
+    fetchPhoneIssues();
+    fetchTaxSettings()
+      .then(setTaxSettings)
+      .catch(err => setTaxStatus(`Error: ${err.message}`));
+    fetchReceiptSettings()
+      .then(setReceiptSettings)
+      .catch(err => setReceiptStatus(`Error: ${err.message}`));
+    fetchEInvoiceSettings()
+      .then(setEInvoiceSettings)
+      .catch(err => setEInvoiceStatus(`Error: ${err.message}`));
+    fetchBusinessHours()
+      .then(setBusinessHours)
+      .catch(err => setHoursStatus(`Error: ${err.message}`));
+    fetchClosures();
+    fetchHolidayStateCode()
+      .then(code => setHolidayStateCode(code || ''))
+      .catch(err => setHolidayStatus(`Error: ${err.message}`));
+    fetchHolidays();
   }, []);
 
+  const fetchClosures = () => {
+    fetchBusinessClosures(today())
+      .then(setClosures)
+      .catch(err => setHoursStatus(`Error: ${err.message}`));
+  };
+
+  const fetchHolidays = () => {
+    fetchPublicHolidays(today())
+      .then(setHolidays)
+      .catch(err => setHolidayStatus(`Error: ${err.message}`));
+  };
+
   const fetchUserEmail = async () => {
     const { data: { user } } = await supabase.auth.getUser();
     if (user) setEmail(user.email || '');
@@ -34,6 +113,154 @@ export default function SettingsPage() {
     if (!error) setAdmins(data || []);
   };
 
+  const fetchPhoneIssues = async () => {
+    const { data, error } = await supabase
+      .from('phone_normalization_issues')
+      .select('id, table_name, row_id, phone_number, reason')
+      .order('table_name');
+    if (!error) setPhoneIssues(data || []);
+  };
+
+  const updateTaxSettings = (changes: Partial<TaxSettings>) => {
+    setTaxSettings(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const handleSaveTaxSettings = async () => {
+    if (!taxSettings) return;
+    const { error } = await supabase
+      .from('tax_settings')
+      .update({ ...taxSettings, updated_at: new Date().toISOString() })
+      .eq('id', true);
+    setTaxStatus(error ? `Error: ${error.message}` : 'Tax settings saved. They apply to sales recorded from now on.');
+  };
+
+  const updateReceiptSettings = (changes: Partial<ReceiptSettings>) => {
+    setReceiptSettings(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const handleSaveReceiptSettings = async () => {
+    if (!receiptSettings) return;
+    const { error } = await supabase
+      .from('receipt_settings')
+      .update({ ...receiptSettings, updated_at: new Date().toISOString() })
+      .eq('id', true);
+    setReceiptStatus(error ? `Error: ${error.message}` : 'Receipt settings saved.');
+  };
+
+  const updateEInvoiceSettings = (changes: Partial<EInvoiceSettings>) => {
+    setEInvoiceSettings(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const handleSaveEInvoiceSettings = async () => {
+    if (!einvoiceSettings) return;
+    const { error } = await supabase
+      .from('einvoice_settings')
+      .update({ ...einvoiceSettings, updated_at: new Date().toISOString() })
+      .eq('id', true);
+    setEInvoiceStatus(error ? `Error: ${error.message}` : 'e-Invoice settings saved.');
+  };
+
+  const updateBusinessHours = (weekday: number, changes: Partial<BusinessHours>) => {
+    setBusinessHours(prev => prev && prev.map(day => (day.weekday === weekday ? { ...day, ...changes } : day)));
+  };
+
+  const handleSaveBusinessHours = async () => {
+    if (!businessHours) return;
+    const invalid = businessHours.find(day =>
+      day.is_open && (!day.open_time !== !day.close_time || (day.open_time && day.close_time && day.close_time <= day.open_time))
+    );
+    if (invalid) {
+      setHoursStatus(`Error: ${WEEKDAY_LABELS[invalid.weekday]} needs a closing time after its opening time`);
+      return;
+    }
+    try {
+      await saveBusinessHours(businessHours);
+      setHoursStatus('Opening hours saved. They apply to appointments booked from now on.');
+    } catch (err) {
+      setHoursStatus(`Error: ${(err as Error).message}`);
+    }
+  };
+
+  const handleAddClosure = async () => {
+    const { start_date, reason } = newClosure;
+    const end_date = newClosure.end_date || start_date;
+    if (!start_date || !reason.trim()) {
+      setHoursStatus('Error: Enter the closure dates and a reason');
+      return;
+    }
+    if (end_date < start_date) {
+      setHoursStatus('Error: The closure cannot end before it starts');
+      return;
+    }
+    try {
+      await addBusinessClosure({ start_date, end_date, reason: reason.trim() });
+      setNewClosure({ start_date: '', end_date: '', reason: '' });
+      setHoursStatus('Closure added.');
+      fetchClosures();
+    } catch (err) {
+      setHoursStatus(`Error: ${(err as Error).message}`);
+    }
+  };
+
+  const handleDeleteClosure = async (id: string) => {
+    try {
+      await deleteBusinessClosure(id);
+      fetchClosures();
+    } catch (err) {
+      setHoursStatus(`Error: ${(err as Error).message}`);
+    }
+  };
+
+  const handleSaveHolidayState = async (stateCode: string) => {
+    setHolidayStateCode(stateCode);
+    try {
+      await saveHolidayStateCode(stateCode || null);
+      setHolidayStatus('Holiday calendar saved.');
+    } catch (err) {
+      setHolidayStatus(`Error: ${(err as Error).message}`);
+    }
+  };
+
+  const handleAddHoliday = async () => {
+    if (!newHoliday.date || !newHoliday.name.trim()) {
+      setHolidayStatus('Error: Enter the holiday date and name');
+      return;
+    }
+    try {
+      await addPublicHolidays([{
+        date: newHoliday.date,
+        name: newHoliday.name.trim(),
+        state_codes: newHoliday.state_code ? [newHoliday.state_code] : null
+      }]);
+      setNewHoliday({ date: '', name: '', state_code: '' });
+      setHolidayStatus('Public holiday added.');
+      fetchHolidays();
+    } catch (err) {
+      setHolidayStatus(`Error: ${(err as Error).message}`);
+    }
+  };
+
+  const handleLoadFixedHolidays = async () => {
+    try {
+      await addPublicHolidays(malaysianFixedHolidays(holidayYear));
+      setHolidayStatus(`Fixed-date holidays for ${holidayYear} added. Add lunar and Islamic holidays by hand.`);
+      fetchHolidays();
+    } catch (err) {
+      setHolidayStatus(`Error: ${(err as Error).message}`);
+    }
+  };
+
+  const handleDeleteHoliday = async (id: string) => {
+    try {
+      await deletePublicHoliday(id);
+      fetchHolidays();
+    } catch (err) {
+      setHolidayStatus(`Error: ${(err as Error).message}`);
+    }
+  };
+
+  const stateName = (code: string) => MALAYSIAN_STATES.find(([stateCode]) => stateCode === code)?.[1] || code;
+
   const handleLogout = async () => {
     await supabase.auth.signOut();
     router.push('/');
@@ -118,6 +345,454 @@ export default function SettingsPage() {
             ))}
           </ul>
         </div>
+
+        {taxSettings && (
+          <div className="bg-white p-4 rounded shadow-sm max-w-md mt-6">
+            <h2 className="text-xl font-semibold mb-4">Tax &amp; Service Charge</h2>
+
+            <label className="flex items-center gap-2 mb-2">
+              <input
+                type="checkbox"
+                checked={taxSettings.sst_enabled}
+                onChange={(e) => updateTaxSettings({ sst_enabled: e.target.checked })}
+              />
+              Charge SST
+            </label>
+            <div className="mb-4 flex items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                className="p-2 border rounded w-24"
+                value={taxSettings.sst_rate}
+                onChange={(e) => updateTaxSettings({ sst_rate: parseFloat(e.target.value) || 0 })}
+                disabled={!taxSettings.sst_enabled}
+              />
+              <span>% SST</span>
+            </div>
+
+            <label className="flex items-center gap-2 mb-2">
+              <input
+                type="checkbox"
+                checked={taxSettings.service_charge_enabled}
+                onChange={(e) => updateTaxSettings({ service_charge_enabled: e.target.checked })}
+              />
+              Charge service charge
+            </label>
+            <div className="mb-4 flex items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                className="p-2 border rounded w-24"
+                value={taxSettings.service_charge_rate}
+                onChange={(e) => updateTaxSettings({ service_charge_rate: parseFloat(e.target.value) || 0 })}
+                disabled={!taxSettings.service_charge_enabled}
+              />
+              <span>% service charge</span>
+            </div>
+
+            <label className="flex items-center gap-2 mb-4">
+              <input
+                type="checkbox"
+                checked={taxSettings.prices_include_tax}
+                onChange={(e) => updateTaxSettings({ prices_include_tax: e.target.checked })}
+              />
+              Service prices already include SST and service charge
+            </label>
+
+            <div className="mb-4">
+              <label className="block mb-1 font-medium">SST Registration No.</label>
+              <input
+                type="text"
+                className="p-2 border rounded w-full"
+                value={taxSettings.sst_registration_number || ''}
+                onChange={(e) => updateTaxSettings({ sst_registration_number: e.target.value || null })}
+              />
+            </div>
+
+            <p className="text-sm text-gray-500 mb-4">
+              Individual services can be marked SST exempt on the Services page.
+            </p>
+
+            <button
+              onClick={handleSaveTaxSettings}
+              className="px-4 py-2 bg-pink-600 text-white rounded"
+            >
+              Save Tax Settings
+            </button>
+
+            {taxStatus && <p className="mt-3 text-sm text-gray-700">{taxStatus}</p>}
+          </div>
+        )}
+
+        {receiptSettings && (
+          <div className="bg-white p-4 rounded shadow-sm max-w-md mt-6">
+            <h2 className="text-xl font-semibold mb-4">Receipts</h2>
+
+            {([
+              ['business_name', 'Business Name'],
+              ['phone_number', 'Phone'],
+              ['email', 'Email']
+            ] as const).map(([field, label]) => (
+              <div key={field} className="mb-4">
+                <label className="block mb-1 font-medium">{label}</label>
+                <input
+                  type="text"
+                  className="p-2 border rounded w-full"
+                  value={receiptSettings[field] || ''}
+                  onChange={(e) => updateReceiptSettings({ [field]: e.target.value || null })}
+                />
+              </div>
+            ))}
+
+            {([
+              ['address', 'Address'],
+              ['header_text', 'Header Text'],
+              ['footer_text', 'Footer Text']
+            ] as const).map(([field, label]) => (
+              <div key={field} className="mb-4">
+                <label className="block mb-1 font-medium">{label}</label>
+                <textarea
+                  rows={2}
+                  className="p-2 border rounded w-full"
+                  value={receiptSettings[field] || ''}
+                  onChange={(e) => updateReceiptSettings({ [field]: e.target.value || null })}
+                />
+              </div>
+            ))}
+
+            <div className="mb-4">
+              <label className="block mb-1 font-medium">Outlet Code</label>
+              <input
+                type="text"
+                maxLength={10}
+                className="p-2 border rounded w-32 font-mono"
+                value={receiptSettings.outlet_code}
+                onChange={(e) => updateReceiptSettings({ outlet_code: e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, '') })}
+              />
+              <p className="text-sm text-gray-500 mt-1">
+                Receipt numbers start with this code. Each outlet has its own numbering.
+              </p>
+            </div>
+
+            <button
+              onClick={handleSaveReceiptSettings}
+              className="px-4 py-2 bg-pink-600 text-white rounded"
+            >
+              Save Receipt Settings
+            </button>
+
+            {receiptStatus && <p className="mt-3 text-sm text-gray-700">{receiptStatus}</p>}
+          </div>
+        )}
+
+        {einvoiceSettings && (
+          <div className="bg-white p-4 rounded shadow-sm max-w-md mt-6">
+            <h2 className="text-xl font-semibold mb-2">e-Invoice (MyInvois)</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Supplier details on e-invoices. The business name, phone and email come from the receipt settings,
+              and the SST number from the tax settings.
+            </p>
+
+            {([
+              ['supplier_tin', 'TIN'],
+              ['supplier_brn', 'Business Registration No. (BRN)'],
+              ['msic_code', 'MSIC Code'],
+              ['business_activity', 'Business Activity'],
+              ['address_line', 'Address'],
+              ['city', 'City'],
+              ['postcode', 'Postcode']
+            ] as const).map(([field, label]) => (
+              <div key={field} className="mb-4">
+                <label className="block mb-1 font-medium">{label}</label>
+                <input
+                  type="text"
+                  className="p-2 border rounded w-full"
+                  value={einvoiceSettings[field] || ''}
+                  onChange={(e) => updateEInvoiceSettings({ [field]: e.target.value || null })}
+                />
+              </div>
+            ))}
+
+            <div className="mb-4">
+              <label className="block mb-1 font-medium">State</label>
+              <select
+                className="p-2 border rounded w-full"
+                value={einvoiceSettings.state_code || ''}
+                onChange={(e) => updateEInvoiceSettings({ state_code: e.target.value || null })}
+              >
+                <option value="">Select state</option>
+                {MALAYSIAN_STATES.map(([code, name]) => (
+                  <option key={code} value={code}>{name}</option>
+                ))}
+              </select>
+            </div>
+
+            <button
+              onClick={handleSaveEInvoiceSettings}
+              className="px-4 py-2 bg-pink-600 text-white rounded"
+            >
+              Save e-Invoice Settings
+            </button>
+
+            {einvoiceStatus && <p className="mt-3 text-sm text-gray-700">{einvoiceStatus}</p>}
+          </div>
+        )}
+
+        {businessHours && (
+          <div className="bg-white p-4 rounded shadow-sm max-w-2xl mt-6">
+            <h2 className="text-xl font-semibold mb-2">Opening Hours</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Appointments must start and finish within these hours. Leave the times empty to take bookings all day.
+            </p>
+
+            <table className="w-full text-sm mb-4">
+              <tbody className="divide-y divide-gray-100">
+                {businessHours.map(day => (
+                  <tr key={day.weekday}>
+                    <td className="py-2 font-medium w-32">{WEEKDAY_LABELS[day.weekday]}</td>
+                    <td className="py-2 w-24">
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={day.is_open}
+                          onChange={(e) => updateBusinessHours(day.weekday, { is_open: e.target.checked })}
+                        />
+                        Open
+                      </label>
+                    </td>
+                    <td className="py-2">
+                      {day.is_open ? (
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="time"
+                            className="p-1 border rounded"
+                            value={day.open_time?.slice(0, 5) || ''}
+                            onChange={(e) => updateBusinessHours(day.weekday, { open_time: e.target.value || null })}
+                          />
+                          <span>to</span>
+                          <input
+                            type="time"
+                            className="p-1 border rounded"
+                            value={day.close_time?.slice(0, 5) || ''}
+                            onChange={(e) => updateBusinessHours(day.weekday, { close_time: e.target.value || null })}
+                          />
+                        </div>
+                      ) : (
+                        <span className="text-gray-400">Closed</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <button
+              onClick={handleSaveBusinessHours}
+              className="px-4 py-2 bg-pink-600 text-white rounded"
+            >
+              Save Opening Hours
+            </button>
+
+            <h3 className="mt-6 mb-2 font-semibold">Closures</h3>
+            <p className="text-sm text-gray-500 mb-3">One-off days the salon is closed, such as renovations or staff events.</p>
+            {closures.length === 0 ? (
+              <p className="text-sm text-gray-500 mb-3">No upcoming closures.</p>
+            ) : (
+              <ul className="text-sm divide-y divide-gray-100 mb-3">
+                {closures.map(closure => (
+                  <li key={closure.id} className="py-1 flex items-center justify-between">
+                    <span>
+                      {dayjs(closure.start_date).format('D MMM YYYY')}
+                      {closure.end_date !== closure.start_date && ` – ${dayjs(closure.end_date).format('D MMM YYYY')}`}
+                      {' · '}{closure.reason}
+                    </span>
+                    <button onClick={() => handleDeleteClosure(closure.id)} className="text-red-600 hover:underline">
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex flex-wrap items-end gap-2">
+              <div>
+                <label className="block mb-1 text-sm font-medium">From</label>
+                <input
+                  type="date"
+                  className="p-2 border rounded"
+                  value={newClosure.start_date}
+                  onChange={(e) => setNewClosure({ ...newClosure, start_date: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block mb-1 text-sm font-medium">To</label>
+                <input
+                  type="date"
+                  className="p-2 border rounded"
+                  min={newClosure.start_date || undefined}
+                  value={newClosure.end_date}
+                  onChange={(e) => setNewClosure({ ...newClosure, end_date: e.target.value })}
+                />
+              </div>
+              <div className="flex-1">
+                <label className="block mb-1 text-sm font-medium">Reason</label>
+                <input
+                  type="text"
+                  className="p-2 border rounded w-full"
+                  value={newClosure.reason}
+                  onChange={(e) => setNewClosure({ ...newClosure, reason: e.target.value })}
+                  placeholder="e.g. Renovation"
+                />
+              </div>
+              <button onClick={handleAddClosure} className="px-4 py-2 bg-green-600 text-white rounded">
+                Add Closure
+              </button>
+            </div>
+
+            {hoursStatus && <p className="mt-3 text-sm text-gray-700">{hoursStatus}</p>}
+          </div>
+        )}
+
+        <div className="bg-white p-4 rounded shadow-sm max-w-2xl mt-6">
+          <h2 className="text-xl font-semibold mb-2">Public Holidays</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            The salon is closed on nationwide holidays and on the holidays of the state chosen here.
+            Delete a holiday from the list to open on it.
+          </p>
+
+          <div className="mb-4">
+            <label className="block mb-1 font-medium">Holiday calendar</label>
+            <select
+              className="p-2 border rounded w-full"
+              value={holidayStateCode}
+              onChange={(e) => handleSaveHolidayState(e.target.value)}
+            >
+              <option value="">Nationwide holidays only</option>
+              {MALAYSIAN_STATES.filter(([code]) => code !== '17').map(([code, name]) => (
+                <option key={code} value={code}>{name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="mb-4 flex items-center gap-2">
+            <input
+              type="number"
+              className="p-2 border rounded w-24"
+              value={holidayYear}
+              onChange={(e) => setHolidayYear(parseInt(e.target.value) || dayjs().year())}
+            />
+            <button onClick={handleLoadFixedHolidays} className="px-4 py-2 bg-pink-600 text-white rounded">
+              Load Fixed-Date Malaysian Holidays
+            </button>
+          </div>
+          <p className="text-sm text-gray-500 mb-4">
+            This adds holidays that fall on the same date every year. Hari Raya, Chinese New Year, Deepavali and
+            other holidays that move each year need to be added below from the gazetted list.
+          </p>
+
+          {holidays.length === 0 ? (
+            <p className="text-sm text-gray-500 mb-3">No upcoming public holidays.</p>
+          ) : (
+            <table className="w-full text-sm mb-4">
+              <tbody className="divide-y divide-gray-100">
+                {holidays.map(holiday => (
+                  <tr
+                    key={holiday.id}
+                    className={
+                      holiday.state_codes && !holiday.state_codes.includes(holidayStateCode) ? 'text-gray-400' : ''
+                    }
+                  >
+                    <td className="py-1 w-32">{dayjs(holiday.date).format('ddd D MMM YYYY')}</td>
+                    <td className="py-1">{holiday.name}</td>
+                    <td className="py-1 text-gray-500">
+                      {holiday.state_codes ? holiday.state_codes.map(stateName).join(', ') : 'Nationwide'}
+                    </td>
+                    <td className="py-1 text-right">
+                      <button onClick={() => handleDeleteHoliday(holiday.id)} className="text-red-600 hover:underline">
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="flex flex-wrap items-end gap-2">
+            <div>
+              <label className="block mb-1 text-sm font-medium">Date</label>
+              <input
+                type="date"
+                className="p-2 border rounded"
+                value={newHoliday.date}
+                onChange={(e) => setNewHoliday({ ...newHoliday, date: e.target.value })}
+              />
+            </div>
+            <div className="flex-1">
+              <label className="block mb-1 text-sm font-medium">Name</label>
+              <input
+                type="text"
+                className="p-2 border rounded w-full"
+                value={newHoliday.name}
+                onChange={(e) => setNewHoliday({ ...newHoliday, name: e.target.value })}
+                placeholder="e.g. Hari Raya Aidilfitri"
+              />
+            </div>
+            <div>
+              <label className="block mb-1 text-sm font-medium">Observed in</label>
+              <select
+                className="p-2 border rounded"
+                value={newHoliday.state_code}
+                onChange={(e) => setNewHoliday({ ...newHoliday, state_code: e.target.value })}
+              >
+                <option value="">Nationwide</option>
+                {MALAYSIAN_STATES.filter(([code]) => code !== '17').map(([code, name]) => (
+                  <option key={code} value={code}>{name}</option>
+                ))}
+              </select>
+            </div>
+            <button onClick={handleAddHoliday} className="px-4 py-2 bg-green-600 text-white rounded">
+              Add Holiday
+            </button>
+          </div>
+
+          {holidayStatus && <p className="mt-3 text-sm text-gray-700">{holidayStatus}</p>}
+        </div>
+
+        {phoneIssues.length > 0 && (
+          <div className="bg-white p-4 rounded shadow-sm max-w-2xl mt-6">
+            <h2 className="text-xl font-semibold mb-2">Phone Numbers Needing Review</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              These numbers could not be converted to the standard format. Fix them by editing the record,
+              or merge duplicate customers.
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-1">Record</th>
+                  <th className="py-1">Phone</th>
+                  <th className="py-1">Problem</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {phoneIssues.map(issue => (
+                  <tr key={issue.id}>
+                    <td className="py-1">
+                      {issue.table_name === 'customers' ? (
+                        <Link href={`/customers/${issue.row_id}`} className="text-pink-600 hover:underline">Customer</Link>
+                      ) : issue.table_name === 'staff' ? 'Staff' : 'Appointment'}
+                    </td>
+                    <td className="py-1 font-mono">{issue.phone_number}</td>
+                    <td className="py-1 text-gray-700">
+                      {issue.reason === 'duplicate' ? 'Same number as another customer' : 'Not a valid number'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,486 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { supabase } from '@/lib/supabase';
+import Sidebar from '@/components/Sidebar';
+import { StaffMember, fetchStaff } from '@/lib/staff';
+import { PHONE_VALIDATION_MESSAGE, formatPhoneNumber, parsePhoneNumber } from '@/lib/phone';
+
+interface FormData {
+  name: string;
+  role: string;
+  color: string;
+  phone_number: string;
+  email: string;
+  weekly_hours: string;
+  active: boolean;
+}
+
+const emptyForm: FormData = {
+  name: '',
+  role: '',
+  color: '#ec4899',
+  phone_number: '',
+  email: '',
+  weekly_hours: '',
+  active: true
+};
+
+export default function StaffPage() {
+  const router = useRouter();
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formData, setFormData] = useState<FormData>(emptyForm);
+  const [editingStaffId, setEditingStaffId] = useState<string | null>(null);
+  const [mergingStaffId, setMergingStaffId] = useState<string | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [showInactive, setShowInactive] = useState(false);
+
+  useEffect(() => {
+    loadStaff();
+  }, []);
+
+  const loadStaff = async () => {
+    setLoading(true);
+    try {
+      setStaff(await fetchStaff());
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching staff:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load staff');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    await supabase.auth.signOut();
+    router.push('/');
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value, type, checked } = e.target;
+    setFormData({ ...formData, [name]: type === 'checkbox' ? checked : value });
+  };
+
+  const handleEdit = (member: StaffMember) => {
+    setEditingStaffId(member.id);
+    setFormData({
+      name: member.name,
+      role: member.role || '',
+      color: member.color,
+      phone_number: formatPhoneNumber(member.phone_number),
+      email: member.email || '',
+      weekly_hours: member.weekly_hours === null ? '' : String(member.weekly_hours),
+      active: member.active
+    });
+    setSuccessMessage(null);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const cancelEdit = () => {
+    setEditingStaffId(null);
+    setFormData(emptyForm);
+    setError(null);
+    setSuccessMessage(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSuccessMessage(null);
+
+    const name = formData.name.trim();
+    if (!name) {
+      setError('Please enter a name');
+      return;
+    }
+
+    const duplicate = staff.find(member =>
+      member.id !== editingStaffId && member.name.trim().toLowerCase() === name.toLowerCase()
+    );
+    if (duplicate) {
+      setError(`${duplicate.name} already exists`);
+      return;
+    }
+
+    const phone = formData.phone_number.trim();
+    const parsedPhone = phone ? parsePhoneNumber(phone) : null;
+    if (phone && !parsedPhone) {
+      setError(PHONE_VALIDATION_MESSAGE);
+      return;
+    }
+
+    const weeklyHours = formData.weekly_hours.trim() ? parseFloat(formData.weekly_hours) : null;
+    if (weeklyHours !== null && (isNaN(weeklyHours) || weeklyHours <= 0 || weeklyHours > 168)) {
+      setError('Please enter valid weekly hours');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const staffData = {
+        name,
+        role: formData.role.trim() || null,
+        color: formData.color,
+        phone_number: parsedPhone?.e164 || null,
+        email: formData.email.trim() || null,
+        weekly_hours: weeklyHours,
+        active: formData.active
+      };
+
+      const { error: supabaseError } = editingStaffId
+        ? await supabase.from('staff').update(staffData).eq('id', editingStaffId)
+        : await supabase.from('staff').insert([staffData]);
+
+      if (supabaseError) {
+        setError(supabaseError.message || 'Failed to save staff member');
+      } else {
+        setSuccessMessage(editingStaffId ? 'Staff member updated successfully' : 'Staff member added successfully');
+        setFormData(emptyForm);
+        setEditingStaffId(null);
+        await loadStaff();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggleActive = async (member: StaffMember) => {
+    setError(null);
+    setSuccessMessage(null);
+    const { error: supabaseError } = await supabase
+      .from('staff')
+      .update({ active: !member.active })
+      .eq('id', member.id);
+
+    if (supabaseError) {
+      setError(supabaseError.message);
+    } else {
+      setSuccessMessage(`${member.name} ${member.active ? 'deactivated' : 'reactivated'}`);
+      await loadStaff();
+    }
+  };
+
+  const handleMerge = async (member: StaffMember) => {
+    const target = staff.find(s => s.id === mergeTargetId);
+    if (!target) return;
+    if (!confirm(`Move all appointments and sales from ${member.name} to ${target.name} and remove ${member.name}?`)) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    setSuccessMessage(null);
+    try {
+      const { error: mergeError } = await supabase.rpc('merge_staff', { p_from: member.id, p_into: target.id });
+      if (mergeError) {
+        setError(mergeError.message);
+      } else {
+        setSuccessMessage(`${member.name} merged into ${target.name}`);
+        setMergingStaffId(null);
+        setMergeTargetId('');
+        await loadStaff();
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const visibleStaff = staff.filter(member => showInactive || member.active);
+
+  return (
+    <div className="flex min-h-screen bg-gray-100">
+      <Sidebar onLogout={handleLogout} />
+
+      <main className="flex-1 p-3 sm:p-4 md:p-6 w-full">
+        <div className="max-w-6xl mx-auto">
+          {/* Page Header */}
+          <div className="mb-4 sm:mb-6 md:mb-8 pt-16 md:pt-6 flex flex-wrap items-end justify-between gap-3">
+            <div>
+              <h1 className="text-xl sm:text-2xl md:text-3xl font-extrabold text-gray-800 mb-2">
+                {editingStaffId ? 'Edit Staff Member' : 'Staff Management'}
+              </h1>
+              <p className="text-sm sm:text-base text-gray-600">
+                {editingStaffId
+                  ? 'Update staff details'
+                  : 'Manage the people who take appointments and make sales'
+                }
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Link
+                href="/staff/schedule"
+                className="py-2 px-4 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-all font-medium text-sm"
+              >
+                Working hours &amp; leave
+              </Link>
+              <Link
+                href="/staff/performance"
+                className="py-2 px-4 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-all font-medium text-sm"
+              >
+                Performance &amp; commission
+              </Link>
+            </div>
+          </div>
+
+          {/* Alerts */}
+          {error && (
+            <div className="mb-4 sm:mb-6 bg-red-50 border-l-4 border-red-500 p-3 sm:p-4 rounded-md shadow-sm">
+              <p className="text-xs sm:text-sm font-medium text-red-800">{error}</p>
+            </div>
+          )}
+
+          {successMessage && (
+            <div className="mb-4 sm:mb-6 bg-green-50 border-l-4 border-green-500 p-3 sm:p-4 rounded-md shadow-sm">
+              <p className="text-xs sm:text-sm font-medium text-green-800">{successMessage}</p>
+            </div>
+          )}
+
+          {/* Staff Form Card */}
+          <div className="bg-white rounded-lg shadow-md overflow-hidden mb-4 sm:mb-6 md:mb-8">
+            <div className="px-3 sm:px-4 md:px-6 py-3 md:py-4 bg-gradient-to-r from-pink-500 to-pink-600 border-b">
+              <h2 className="text-lg sm:text-xl font-semibold text-white">
+                {editingStaffId ? 'Update Staff Details' : 'Add Staff Member'}
+              </h2>
+            </div>
+            <form onSubmit={handleSubmit} className="p-3 sm:p-4 md:p-6">
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4 md:gap-6 mb-4 sm:mb-6">
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    type="text"
+                    name="name"
+                    placeholder="e.g. Aina"
+                    value={formData.name}
+                    onChange={handleChange}
+                    required
+                    className="w-full py-2 px-3 text-sm sm:text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-pink-500 transition"
+                    disabled={isSubmitting}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Role</label>
+                  <input
+                    type="text"
+                    name="role"
+                    placeholder="e.g. Nail Technician"
+                    value={formData.role}
+                    onChange={handleChange}
+                    className="w-full py-2 px-3 text-sm sm:text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-pink-500 transition"
+                    disabled={isSubmitting}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Colour</label>
+                  <input
+                    type="color"
+                    name="color"
+                    value={formData.color}
+                    onChange={handleChange}
+                    className="w-full h-10 py-1 px-1 border border-gray-300 rounded-md"
+                    disabled={isSubmitting}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Phone Number</label>
+                  <input
+                    type="tel"
+                    name="phone_number"
+                    placeholder="e.g. 012-345 6789"
+                    value={formData.phone_number}
+                    onChange={handleChange}
+                    className="w-full py-2 px-3 text-sm sm:text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-pink-500 transition"
+                    disabled={isSubmitting}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Email</label>
+                  <input
+                    type="email"
+                    name="email"
+                    placeholder="e.g. aina@example.com"
+                    value={formData.email}
+                    onChange={handleChange}
+                    className="w-full py-2 px-3 text-sm sm:text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-pink-500 transition"
+                    disabled={isSubmitting}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">Weekly Hours</label>
+                  <input
+                    type="number"
+                    name="weekly_hours"
+                    placeholder="e.g. 40"
+                    min="0.5"
+                    max="168"
+                    step="0.5"
+                    value={formData.weekly_hours}
+                    onChange={handleChange}
+                    className="w-full py-2 px-3 text-sm sm:text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-pink-500 transition"
+                    disabled={isSubmitting}
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700 sm:mt-6">
+                  <input
+                    type="checkbox"
+                    name="active"
+                    checked={formData.active}
+                    onChange={handleChange}
+                    className="rounded border-gray-300 text-pink-600 focus:ring-pink-500"
+                    disabled={isSubmitting}
+                  />
+                  Active (available for new bookings)
+                </label>
+              </div>
+              <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
+                <button
+                  type="submit"
+                  className="py-2 px-4 bg-gradient-to-r from-pink-500 to-pink-600 text-white rounded-md hover:from-pink-600 hover:to-pink-700 focus:outline-none focus:ring-2 focus:ring-pink-500 focus:ring-offset-2 transition-all font-medium disabled:opacity-50 disabled:cursor-not-allowed w-full sm:w-auto"
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting ? 'Processing...' : editingStaffId ? 'Update Staff Member' : 'Add Staff Member'}
+                </button>
+                {editingStaffId && (
+                  <button
+                    type="button"
+                    onClick={cancelEdit}
+                    className="py-2 px-4 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 transition-all font-medium w-full sm:w-auto"
+                    disabled={isSubmitting}
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </form>
+          </div>
+
+          {/* Staff List Card */}
+          <div className="bg-white rounded-lg shadow-md overflow-hidden">
+            <div className="px-3 sm:px-4 md:px-6 py-3 md:py-4 bg-gradient-to-r from-purple-500 to-indigo-600 border-b flex justify-between items-center gap-3">
+              <h2 className="text-lg sm:text-xl font-semibold text-white">Your Team</h2>
+              <label className="flex items-center gap-2 text-sm text-white">
+                <input
+                  type="checkbox"
+                  checked={showInactive}
+                  onChange={(e) => setShowInactive(e.target.checked)}
+                  className="rounded border-white text-indigo-600"
+                />
+                Show inactive
+              </label>
+            </div>
+
+            {loading ? (
+              <div className="flex items-center justify-center h-48 sm:h-64">
+                <p className="text-sm sm:text-base text-gray-500">Loading staff...</p>
+              </div>
+            ) : visibleStaff.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-48 sm:h-64 p-4 sm:p-6 text-center">
+                <h3 className="text-base sm:text-lg font-medium text-gray-900 mb-1">No staff yet</h3>
+                <p className="text-sm text-gray-500">Add your first staff member using the form above</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider bg-gray-50">
+                      <th className="px-3 md:px-6 py-3">Name</th>
+                      <th className="px-3 md:px-6 py-3">Role</th>
+                      <th className="px-3 md:px-6 py-3">Contact</th>
+                      <th className="px-3 md:px-6 py-3">Status</th>
+                      <th className="px-3 md:px-6 py-3 text-right">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {visibleStaff.map(member => (
+                      <tr key={member.id} className="hover:bg-gray-50 transition">
+                        <td className="px-3 md:px-6 py-4 whitespace-nowrap">
+                          <div className="flex items-center gap-2 font-medium text-gray-900 text-sm md:text-base">
+                            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: member.color }} />
+                            {member.name}
+                          </div>
+                        </td>
+                        <td className="px-3 md:px-6 py-4 whitespace-nowrap text-sm text-gray-700">{member.role || '-'}</td>
+                        <td className="px-3 md:px-6 py-4 text-sm text-gray-700">
+                          <div>{formatPhoneNumber(member.phone_number) || '-'}</div>
+                          {member.email && <div className="text-gray-500">{member.email}</div>}
+                        </td>
+                        <td className="px-3 md:px-6 py-4 whitespace-nowrap">
+                          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                            member.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                          }`}>
+                            {member.active ? 'Active' : 'Inactive'}
+                          </span>
+                        </td>
+                        <td className="px-3 md:px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                          {mergingStaffId === member.id ? (
+                            <div className="flex justify-end items-center gap-2">
+                              <select
+                                value={mergeTargetId}
+                                onChange={(e) => setMergeTargetId(e.target.value)}
+                                className="py-1 px-2 border border-gray-300 rounded-md text-xs md:text-sm"
+                              >
+                                <option value="">Merge into...</option>
+                                {staff.filter(s => s.id !== member.id).map(s => (
+                                  <option key={s.id} value={s.id}>{s.name}</option>
+                                ))}
+                              </select>
+                              <button
+                                onClick={() => handleMerge(member)}
+                                className="text-purple-600 hover:text-purple-900 text-xs md:text-sm disabled:opacity-50"
+                                disabled={isSubmitting || !mergeTargetId}
+                              >
+                                Merge
+                              </button>
+                              <button
+                                onClick={() => { setMergingStaffId(null); setMergeTargetId(''); }}
+                                className="text-gray-600 hover:text-gray-900 text-xs md:text-sm"
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          ) : (
+                            <div className="flex justify-end space-x-3">
+                              <button
+                                onClick={() => handleEdit(member)}
+                                className="text-blue-600 hover:text-blue-900 text-xs md:text-sm"
+                                disabled={isSubmitting}
+                              >
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => handleToggleActive(member)}
+                                className="text-gray-600 hover:text-gray-900 text-xs md:text-sm"
+                                disabled={isSubmitting}
+                              >
+                                {member.active ? 'Deactivate' : 'Reactivate'}
+                              </button>
+                              <button
+                                onClick={() => setMergingStaffId(member.id)}
+                                className="text-purple-600 hover:text-purple-900 text-xs md:text-sm"
+                                disabled={isSubmitting}
+                              >
+                                Merge
+                              </button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
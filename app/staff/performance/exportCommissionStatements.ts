@@ -0,0 +1,31 @@
+import { utils, writeFile } from 'xlsx';
+import { CommissionStatement, describeCommissionRule } from '@/lib/commission';
+
+// A summary sheet and one row per category line. Pass a single statement to
+// export one staff member's statement on its own.
+export function exportCommissionStatements(statements: CommissionStatement[], month: string) {
+  const summaryRows = statements.map(statement => ({
+    staff: statement.staff,
+    month,
+    revenue: statement.revenue,
+    commission: statement.commission
+  }));
+
+  const lineRows = statements.flatMap(statement =>
+    statement.lines.map(line => ({
+      staff: statement.staff,
+      category: line.category || 'Uncategorised',
+      services: line.serviceCount,
+      revenue: line.revenue,
+      rule: describeCommissionRule(line.rule),
+      rate: line.rate,
+      commission: line.commission
+    }))
+  );
+
+  const workbook = utils.book_new();
+  utils.book_append_sheet(workbook, utils.json_to_sheet(summaryRows), 'Summary');
+  utils.book_append_sheet(workbook, utils.json_to_sheet(lineRows), 'Lines');
+  const who = statements.length === 1 ? `-${statements[0].staff.toLowerCase().replace(/[^a-z0-9]+/g, '-')}` : '';
+  writeFile(workbook, `commission-${month}${who}.xlsx`);
+}
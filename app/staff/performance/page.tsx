@@ -0,0 +1,539 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import dayjs from 'dayjs';
+import { supabase } from '@/lib/supabase';
+import Sidebar from '@/components/Sidebar';
+import { isCurrentUserManager } from '@/lib/auth';
+import { StaffMember, StaffPerformance, fetchStaff, fetchStaffPerformance } from '@/lib/staff';
+import {
+  COMMISSION_RULE_KIND_LABELS,
+  CommissionRule,
+  CommissionRuleKind,
+  CommissionStatement,
+  CommissionTier,
+  buildCommissionStatements,
+  deleteCommissionRule,
+  describeCommissionRule,
+  fetchCategoryRevenue,
+  fetchCommissionRules,
+  saveCommissionRule
+} from '@/lib/commission';
+import { exportCommissionStatements } from './exportCommissionStatements';
+import { ArrowLeftIcon, DocumentArrowDownIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface RuleForm {
+  staff_id: string;
+  category: string;
+  kind: CommissionRuleKind;
+  rate: string;
+  tiers: { target: string; rate: string }[];
+}
+
+const emptyRuleForm: RuleForm = {
+  staff_id: '',
+  category: '',
+  kind: 'flat',
+  rate: '',
+  tiers: [{ target: '', rate: '' }]
+};
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all';
+
+const percent = (value: number | null) => (value === null ? '-' : `${(value * 100).toFixed(0)}%`);
+
+export default function StaffPerformancePage() {
+  const router = useRouter();
+  const [month, setMonth] = useState(dayjs().format('YYYY-MM'));
+  const [performance, setPerformance] = useState<StaffPerformance[]>([]);
+  const [statements, setStatements] = useState<CommissionStatement[]>([]);
+  const [rules, setRules] = useState<CommissionRule[]>([]);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [expandedStaffId, setExpandedStaffId] = useState<string | null>(null);
+  const [isManager, setIsManager] = useState(false);
+  const [ruleForm, setRuleForm] = useState<RuleForm>(emptyRuleForm);
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const start = dayjs(`${month}-01`);
+  const from = start.format('YYYY-MM-DD');
+  const to = start.endOf('month').format('YYYY-MM-DD');
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [performanceRows, categoryRevenue, commissionRules] = await Promise.all([
+        fetchStaffPerformance(from, to),
+        fetchCategoryRevenue(from, to),
+        fetchCommissionRules()
+      ]);
+      setPerformance(performanceRows);
+      setRules(commissionRules);
+      setStatements(buildCommissionStatements(categoryRevenue, commissionRules));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load staff performance');
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  useEffect(() => {
+    fetchStaff()
+      .then(setStaff)
+      .catch(err => console.error('Error fetching staff:', err));
+    isCurrentUserManager()
+      .then(setIsManager)
+      .catch(err => console.error('Error checking manager:', err));
+    supabase
+      .from('services')
+      .select('category')
+      .not('category', 'is', null)
+      .then(({ data, error: fetchError }) => {
+        if (fetchError) {
+          console.error('Error fetching service categories:', fetchError);
+        } else {
+          setCategories([...new Set((data || []).map(row => row.category as string))].sort());
+        }
+      });
+  }, []);
+
+  const handleLogout = async () => {
+    await supabase.auth.signOut();
+    router.push('/');
+  };
+
+  const staffName = (staffId: string | null) =>
+    staffId ? staff.find(member => member.id === staffId)?.name || 'Former staff' : 'Everyone';
+
+  const editRule = (rule: CommissionRule) => {
+    setEditingRuleId(rule.id);
+    setRuleForm({
+      staff_id: rule.staff_id || '',
+      category: rule.category || '',
+      kind: rule.kind,
+      rate: rule.rate === null ? '' : String(rule.rate),
+      tiers: rule.tiers.length > 0
+        ? rule.tiers.map(tier => ({ target: String(tier.target), rate: String(tier.rate) }))
+        : emptyRuleForm.tiers
+    });
+  };
+
+  const cancelRuleEdit = () => {
+    setEditingRuleId(null);
+    setRuleForm(emptyRuleForm);
+  };
+
+  const handleSaveRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const rate = parseFloat(ruleForm.rate);
+    const tiers: CommissionTier[] = ruleForm.tiers
+      .filter(tier => tier.target !== '' || tier.rate !== '')
+      .map(tier => ({ target: parseFloat(tier.target), rate: parseFloat(tier.rate) }));
+    const validRate = (value: number) => !isNaN(value) && value >= 0 && value <= 100;
+
+    if (ruleForm.kind === 'flat' && !validRate(rate)) {
+      setError('Enter a commission rate between 0 and 100%');
+      return;
+    }
+    if (ruleForm.kind === 'tiered') {
+      if (tiers.length === 0 || tiers.some(tier => isNaN(tier.target) || tier.target < 0 || !validRate(tier.rate))) {
+        setError('Each tier needs a monthly target and a rate between 0 and 100%');
+        return;
+      }
+      if (new Set(tiers.map(tier => tier.target)).size !== tiers.length) {
+        setError('Each tier needs a different target');
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      await saveCommissionRule(
+        {
+          staff_id: ruleForm.staff_id || null,
+          category: ruleForm.category || null,
+          kind: ruleForm.kind,
+          rate: ruleForm.kind === 'flat' ? rate : null,
+          tiers: [...tiers].sort((a, b) => a.target - b.target)
+        },
+        editingRuleId || undefined
+      );
+      cancelRuleEdit();
+      await fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save commission rule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteRule = async (rule: CommissionRule) => {
+    if (!confirm(`Delete the commission rule for ${staffName(rule.staff_id)} · ${rule.category || 'all categories'}?`)) {
+      return;
+    }
+    try {
+      await deleteCommissionRule(rule.id);
+      if (editingRuleId === rule.id) cancelRuleEdit();
+      await fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete commission rule');
+    }
+  };
+
+  const updateTier = (index: number, changes: Partial<RuleForm['tiers'][number]>) =>
+    setRuleForm({
+      ...ruleForm,
+      tiers: ruleForm.tiers.map((tier, i) => (i === index ? { ...tier, ...changes } : tier))
+    });
+
+  const totalCommission = statements.reduce((sum, statement) => sum + statement.commission, 0);
+
+  return (
+    <div className="flex min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      <Sidebar onLogout={handleLogout} />
+      <main className="flex-1 p-8">
+        <Link href="/staff" className="inline-flex items-center text-sm text-gray-600 hover:text-pink-600 mb-6">
+          <ArrowLeftIcon className="h-4 w-4 mr-1" />
+          Back to staff
+        </Link>
+
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">Staff Performance</h1>
+            <p className="text-gray-600">Revenue, rebooking, utilization and commission for the month</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Month</label>
+            <input
+              type="month"
+              value={month}
+              max={dayjs().format('YYYY-MM')}
+              onChange={(e) => e.target.value && setMonth(e.target.value)}
+              className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg shadow-sm flex items-center">
+            <XMarkIcon className="h-5 w-5 mr-2" />
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500"></div>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-200">
+              <h2 className="text-xl font-bold text-gray-900 mb-1">Performance</h2>
+              <p className="text-sm text-gray-500 mb-4">
+                Rebooking counts completed visits followed by another booking within 90 days. Utilization is booked
+                time over contracted weekly hours, set on the staff page.
+              </p>
+              {performance.length === 0 ? (
+                <p className="text-gray-500">No staff activity this month</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2">Staff</th>
+                        <th className="py-2 text-right">Revenue (RM)</th>
+                        <th className="py-2 text-right">Sales</th>
+                        <th className="py-2 text-right">Services</th>
+                        <th className="py-2 text-right">Avg ticket (RM)</th>
+                        <th className="py-2 text-right">Visits</th>
+                        <th className="py-2 text-right">Rebooking</th>
+                        <th className="py-2 text-right">Utilization</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {performance.map(row => (
+                        <tr key={row.staffId}>
+                          <td className="py-2 font-medium text-gray-900">{row.staff}</td>
+                          <td className="py-2 text-right font-semibold text-pink-600">{row.revenue.toFixed(2)}</td>
+                          <td className="py-2 text-right text-gray-700">{row.salesCount}</td>
+                          <td className="py-2 text-right text-gray-700">{row.serviceCount}</td>
+                          <td className="py-2 text-right text-gray-700">{row.averageTicket.toFixed(2)}</td>
+                          <td className="py-2 text-right text-gray-700">{row.visits}</td>
+                          <td className="py-2 text-right text-gray-700">{percent(row.rebookingRate)}</td>
+                          <td className="py-2 text-right text-gray-700">{percent(row.utilization)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-200">
+              <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                <div>
+                  <h2 className="text-xl font-bold text-gray-900">Commission Statements</h2>
+                  <p className="text-sm text-gray-500">
+                    {start.format('MMMM YYYY')} · RM {totalCommission.toFixed(2)} in total
+                  </p>
+                </div>
+                <button
+                  onClick={() => exportCommissionStatements(statements, month)}
+                  disabled={statements.length === 0}
+                  className="inline-flex items-center px-4 py-2 bg-gradient-to-r from-pink-500 to-purple-600 text-white font-semibold rounded-lg shadow hover:shadow-lg transition-all disabled:opacity-50"
+                >
+                  <DocumentArrowDownIcon className="h-5 w-5 mr-2" />
+                  Export all
+                </button>
+              </div>
+              {statements.length === 0 ? (
+                <p className="text-gray-500">No sales with staff assigned this month</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2">Staff</th>
+                      <th className="py-2 text-right">Revenue (RM)</th>
+                      <th className="py-2 text-right">Commission (RM)</th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {statements.map(statement => (
+                      <Fragment key={statement.staffId}>
+                        <tr>
+                          <td className="py-2">
+                            <button
+                              onClick={() => setExpandedStaffId(expandedStaffId === statement.staffId ? null : statement.staffId)}
+                              className="font-medium text-gray-900 hover:text-pink-600"
+                            >
+                              {expandedStaffId === statement.staffId ? '▾' : '▸'} {statement.staff}
+                            </button>
+                          </td>
+                          <td className="py-2 text-right text-gray-700">{statement.revenue.toFixed(2)}</td>
+                          <td className="py-2 text-right font-semibold text-pink-600">{statement.commission.toFixed(2)}</td>
+                          <td className="py-2 text-right">
+                            <button
+                              onClick={() => exportCommissionStatements([statement], month)}
+                              className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+                            >
+                              Export
+                            </button>
+                          </td>
+                        </tr>
+                        {expandedStaffId === statement.staffId && statement.lines.map(line => (
+                          <tr key={`${statement.staffId}-${line.category}`} className="bg-gray-50 text-gray-600">
+                            <td className="py-2 pl-6">
+                              {line.category || 'Uncategorised'}
+                              <span className="block text-xs text-gray-500">
+                                {line.serviceCount} services · {describeCommissionRule(line.rule)}
+                              </span>
+                            </td>
+                            <td className="py-2 text-right">{line.revenue.toFixed(2)}</td>
+                            <td className="py-2 text-right">
+                              {line.commission.toFixed(2)}
+                              <span className="block text-xs text-gray-500">at {line.rate}%</span>
+                            </td>
+                            <td></td>
+                          </tr>
+                        ))}
+                      </Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-200">
+              <h2 className="text-xl font-bold text-gray-900 mb-1">Commission Rules</h2>
+              <p className="text-sm text-gray-500 mb-4">
+                The most specific rule applies: a staff member&apos;s rule for a category, then their rule for all
+                categories, then the rule for everyone. Tiered rules pay the rate of the highest monthly revenue
+                target reached on the whole month.
+              </p>
+
+              {rules.length === 0 ? (
+                <p className="text-gray-500 mb-4">No commission rules yet</p>
+              ) : (
+                <table className="w-full text-sm mb-6">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2">Staff</th>
+                      <th className="py-2">Category</th>
+                      <th className="py-2">Type</th>
+                      <th className="py-2">Rate</th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {rules.map(rule => (
+                      <tr key={rule.id}>
+                        <td className="py-2 text-gray-900">{staffName(rule.staff_id)}</td>
+                        <td className="py-2 text-gray-700">{rule.category || 'All categories'}</td>
+                        <td className="py-2 text-gray-700">{COMMISSION_RULE_KIND_LABELS[rule.kind]}</td>
+                        <td className="py-2 text-gray-700">{describeCommissionRule(rule)}</td>
+                        <td className="py-2 text-right space-x-3">
+                          {isManager && (
+                            <>
+                              <button onClick={() => editRule(rule)} className="text-blue-600 hover:text-blue-900">
+                                Edit
+                              </button>
+                              <button onClick={() => handleDeleteRule(rule)} className="text-red-600 hover:text-red-900">
+                                Delete
+                              </button>
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              {isManager ? (
+                <form onSubmit={handleSaveRule} className="border-t pt-4 space-y-4">
+                  <h3 className="font-semibold text-gray-900">{editingRuleId ? 'Edit rule' : 'Add rule'}</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Staff</label>
+                      <select
+                        value={ruleForm.staff_id}
+                        onChange={(e) => setRuleForm({ ...ruleForm, staff_id: e.target.value })}
+                        className={inputClass}
+                      >
+                        <option value="">Everyone</option>
+                        {staff.map(member => (
+                          <option key={member.id} value={member.id}>{member.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Service category</label>
+                      <select
+                        value={ruleForm.category}
+                        onChange={(e) => setRuleForm({ ...ruleForm, category: e.target.value })}
+                        className={inputClass}
+                      >
+                        <option value="">All categories</option>
+                        {categories.map(category => (
+                          <option key={category} value={category}>{category}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                      <select
+                        value={ruleForm.kind}
+                        onChange={(e) => setRuleForm({ ...ruleForm, kind: e.target.value as CommissionRuleKind })}
+                        className={inputClass}
+                      >
+                        {(Object.keys(COMMISSION_RULE_KIND_LABELS) as CommissionRuleKind[]).map(kind => (
+                          <option key={kind} value={kind}>{COMMISSION_RULE_KIND_LABELS[kind]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {ruleForm.kind === 'flat' && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Rate (%)</label>
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.01"
+                          value={ruleForm.rate}
+                          onChange={(e) => setRuleForm({ ...ruleForm, rate: e.target.value })}
+                          className={inputClass}
+                        />
+                      </div>
+                    )}
+                  </div>
+
+                  {ruleForm.kind === 'tiered' && (
+                    <div className="space-y-2">
+                      {ruleForm.tiers.map((tier, index) => (
+                        <div key={index} className="flex items-center gap-2 text-sm text-gray-700">
+                          <span>From RM</span>
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={tier.target}
+                            onChange={(e) => updateTier(index, { target: e.target.value })}
+                            placeholder="Monthly target"
+                            className={`${inputClass} w-40`}
+                          />
+                          <span>pay</span>
+                          <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="0.01"
+                            value={tier.rate}
+                            onChange={(e) => updateTier(index, { rate: e.target.value })}
+                            placeholder="Rate"
+                            className={`${inputClass} w-24`}
+                          />
+                          <span>%</span>
+                          {ruleForm.tiers.length > 1 && (
+                            <button
+                              type="button"
+                              onClick={() => setRuleForm({ ...ruleForm, tiers: ruleForm.tiers.filter((_, i) => i !== index) })}
+                              className="text-red-600 hover:text-red-900"
+                            >
+                              Remove
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                      <button
+                        type="button"
+                        onClick={() => setRuleForm({ ...ruleForm, tiers: [...ruleForm.tiers, { target: '', rate: '' }] })}
+                        className="text-sm text-pink-600 font-medium"
+                      >
+                        Add tier
+                      </button>
+                    </div>
+                  )}
+
+                  <div className="flex gap-2">
+                    <button
+                      type="submit"
+                      disabled={isSaving}
+                      className="px-4 py-2 bg-gradient-to-r from-pink-500 to-purple-600 text-white font-semibold rounded-lg shadow hover:shadow-lg transition-all disabled:opacity-50"
+                    >
+                      {isSaving ? 'Saving...' : editingRuleId ? 'Update rule' : 'Add rule'}
+                    </button>
+                    {editingRuleId && (
+                      <button
+                        type="button"
+                        onClick={cancelRuleEdit}
+                        className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                </form>
+              ) : (
+                <p className="text-sm text-gray-500">Only managers can change commission rules.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
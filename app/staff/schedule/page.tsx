@@ -0,0 +1,572 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import dayjs from 'dayjs';
+import { supabase } from '@/lib/supabase';
+import Sidebar from '@/components/Sidebar';
+import { isCurrentUserManager } from '@/lib/auth';
+import { StaffMember, fetchStaff } from '@/lib/staff';
+import {
+  LEAVE_STATUS_LABELS,
+  LEAVE_TYPE_LABELS,
+  LeaveRequest,
+  LeaveStatus,
+  LeaveType,
+  ShiftOverride,
+  StaffShift,
+  WEEKDAY_LABELS,
+  addShiftOverride,
+  decideLeaveRequest,
+  deleteShiftOverride,
+  fetchLeaveRequests,
+  fetchShiftOverrides,
+  fetchStaffShifts,
+  formatShiftTime,
+  requestLeave,
+  saveStaffShifts
+} from '@/lib/schedules';
+import { ArrowLeftIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface ShiftDraft {
+  start_time: string;
+  end_time: string;
+}
+
+// Shift drafts per weekday, Sunday first.
+type WeekDraft = ShiftDraft[][];
+
+const emptyOverrideForm = { date: '', working: false, start_time: '10:00', end_time: '19:00', note: '' };
+const emptyLeaveForm = { staff_id: '', start_date: '', end_date: '', type: 'annual' as LeaveType, reason: '' };
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all';
+
+const buttonClass =
+  'px-4 py-2 bg-gradient-to-r from-pink-500 to-purple-600 text-white font-semibold rounded-lg shadow hover:shadow-lg transition-all disabled:opacity-50';
+
+const LEAVE_STATUS_STYLES: Record<LeaveStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-600'
+};
+
+const weekDraftFor = (shifts: StaffShift[], staffId: string): WeekDraft =>
+  WEEKDAY_LABELS.map((_, weekday) =>
+    shifts
+      .filter(shift => shift.staff_id === staffId && shift.weekday === weekday)
+      .map(shift => ({ start_time: formatShiftTime(shift.start_time), end_time: formatShiftTime(shift.end_time) }))
+  );
+
+const formatDateRange = (from: string, to: string) =>
+  from === to
+    ? dayjs(from).format('ddd D MMM YYYY')
+    : `${dayjs(from).format('D MMM')} – ${dayjs(to).format('D MMM YYYY')}`;
+
+export default function StaffSchedulePage() {
+  const router = useRouter();
+  const today = dayjs().format('YYYY-MM-DD');
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [shifts, setShifts] = useState<StaffShift[]>([]);
+  const [overrides, setOverrides] = useState<ShiftOverride[]>([]);
+  const [leave, setLeave] = useState<LeaveRequest[]>([]);
+  const [selectedStaffId, setSelectedStaffId] = useState('');
+  const [weekDraft, setWeekDraft] = useState<WeekDraft>(WEEKDAY_LABELS.map(() => []));
+  const [overrideForm, setOverrideForm] = useState(emptyOverrideForm);
+  const [leaveForm, setLeaveForm] = useState(emptyLeaveForm);
+  const [isManager, setIsManager] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setError(null);
+      const [staffRows, shiftRows, overrideRows, leaveRows] = await Promise.all([
+        fetchStaff({ activeOnly: true }),
+        fetchStaffShifts(),
+        fetchShiftOverrides(today),
+        fetchLeaveRequests(today)
+      ]);
+      setStaff(staffRows);
+      setShifts(shiftRows);
+      setOverrides(overrideRows);
+      setLeave(leaveRows);
+      setSelectedStaffId(current => current || staffRows[0]?.id || '');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load schedules');
+    } finally {
+      setLoading(false);
+    }
+  }, [today]);
+
+  useEffect(() => {
+    fetchData();
+    isCurrentUserManager()
+      .then(setIsManager)
+      .catch(err => console.error('Error checking manager:', err));
+  }, [fetchData]);
+
+  useEffect(() => {
+    setWeekDraft(weekDraftFor(shifts, selectedStaffId));
+  }, [shifts, selectedStaffId]);
+
+  useEffect(() => {
+    if (!successMessage) return;
+    const timer = setTimeout(() => setSuccessMessage(null), 3000);
+    return () => clearTimeout(timer);
+  }, [successMessage]);
+
+  const handleLogout = async () => {
+    await supabase.auth.signOut();
+    router.push('/');
+  };
+
+  const staffName = (staffId: string) => staff.find(member => member.id === staffId)?.name || 'Former staff';
+
+  // Runs a change, reports its error or success, and reloads everything.
+  const runChange = async (change: () => Promise<void>, success: string) => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await change();
+      setSuccessMessage(success);
+      await fetchData();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateDraftShift = (weekday: number, index: number, changes: Partial<ShiftDraft>) =>
+    setWeekDraft(weekDraft.map((day, d) =>
+      d === weekday ? day.map((shift, i) => (i === index ? { ...shift, ...changes } : shift)) : day
+    ));
+
+  const addDraftShift = (weekday: number) =>
+    setWeekDraft(weekDraft.map((day, d) => (d === weekday ? [...day, { start_time: '10:00', end_time: '19:00' }] : day)));
+
+  const removeDraftShift = (weekday: number, index: number) =>
+    setWeekDraft(weekDraft.map((day, d) => (d === weekday ? day.filter((_, i) => i !== index) : day)));
+
+  const copyToWeekdays = (weekday: number) =>
+    setWeekDraft(weekDraft.map((day, d) => (d >= 1 && d <= 5 ? weekDraft[weekday].map(shift => ({ ...shift })) : day)));
+
+  const handleSaveWeek = async () => {
+    for (const [weekday, day] of weekDraft.entries()) {
+      if (day.some(shift => !shift.start_time || !shift.end_time || shift.end_time <= shift.start_time)) {
+        setError(`Each ${WEEKDAY_LABELS[weekday]} shift needs to end after it starts`);
+        return;
+      }
+      const sorted = [...day].sort((a, b) => a.start_time.localeCompare(b.start_time));
+      if (sorted.some((shift, i) => i > 0 && shift.start_time < sorted[i - 1].end_time)) {
+        setError(`${WEEKDAY_LABELS[weekday]} shifts overlap`);
+        return;
+      }
+    }
+    await runChange(
+      () => saveStaffShifts(
+        selectedStaffId,
+        weekDraft.flatMap((day, weekday) => day.map(shift => ({ weekday, ...shift })))
+      ),
+      `Working hours saved for ${staffName(selectedStaffId)}`
+    );
+  };
+
+  const handleAddOverride = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!overrideForm.date) {
+      setError('Choose a date for the shift change');
+      return;
+    }
+    if (overrideForm.working && overrideForm.end_time <= overrideForm.start_time) {
+      setError('The shift needs to end after it starts');
+      return;
+    }
+    const saved = await runChange(
+      () => addShiftOverride({
+        staff_id: selectedStaffId,
+        date: overrideForm.date,
+        start_time: overrideForm.working ? overrideForm.start_time : null,
+        end_time: overrideForm.working ? overrideForm.end_time : null,
+        note: overrideForm.note.trim() || null
+      }),
+      'Shift change added'
+    );
+    if (saved) setOverrideForm(emptyOverrideForm);
+  };
+
+  const handleRequestLeave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!leaveForm.staff_id || !leaveForm.start_date || !leaveForm.end_date) {
+      setError('Choose the staff member and leave dates');
+      return;
+    }
+    if (leaveForm.end_date < leaveForm.start_date) {
+      setError('Leave cannot end before it starts');
+      return;
+    }
+    const saved = await runChange(() => requestLeave(leaveForm), 'Leave requested');
+    if (saved) setLeaveForm(emptyLeaveForm);
+  };
+
+  const handleDecideLeave = (request: LeaveRequest, status: Exclude<LeaveStatus, 'pending'>) => {
+    if (status === 'cancelled' && !confirm(`Cancel ${staffName(request.staff_id)}'s leave?`)) return;
+    runChange(() => decideLeaveRequest(request.id, status), `Leave ${LEAVE_STATUS_LABELS[status].toLowerCase()}`);
+  };
+
+  const staffOverrides = overrides.filter(override => override.staff_id === selectedStaffId);
+
+  return (
+    <div className="flex min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      <Sidebar onLogout={handleLogout} />
+      <main className="flex-1 p-8">
+        <Link href="/staff" className="inline-flex items-center text-sm text-gray-600 hover:text-pink-600 mb-6">
+          <ArrowLeftIcon className="h-4 w-4 mr-1" />
+          Back to staff
+        </Link>
+
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">Working Hours &amp; Leave</h1>
+          <p className="text-gray-600">
+            Staff can only be booked while they are on shift. Shift changes replace the weekly hours for that date,
+            and approved leave always applies. Opening hours, closures and public holidays are set in{' '}
+            <Link href="/settings" className="text-pink-600 hover:underline">Settings</Link>.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg shadow-sm flex items-center">
+            <XMarkIcon className="h-5 w-5 mr-2" />
+            {error}
+          </div>
+        )}
+
+        {successMessage && (
+          <div className="mb-6 bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded-lg shadow-sm">
+            {successMessage}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500"></div>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-200">
+              <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+                <div>
+                  <h2 className="text-xl font-bold text-gray-900 mb-1">Weekly hours</h2>
+                  <p className="text-sm text-gray-500">Leave a day empty for a regular day off.</p>
+                </div>
+                <select
+                  value={selectedStaffId}
+                  onChange={(e) => setSelectedStaffId(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                >
+                  {staff.map(member => (
+                    <option key={member.id} value={member.id}>{member.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              {staff.length === 0 ? (
+                <p className="text-gray-500">Add staff members first</p>
+              ) : (
+                <>
+                  <div className="divide-y">
+                    {weekDraft.map((day, weekday) => (
+                      <div key={weekday} className="py-3 flex flex-wrap items-center gap-3">
+                        <span className="w-28 font-medium text-gray-900">{WEEKDAY_LABELS[weekday]}</span>
+                        {day.length === 0 && <span className="text-sm text-gray-400">Day off</span>}
+                        {day.map((shift, index) => (
+                          <div key={index} className="flex items-center gap-1 text-sm">
+                            <input
+                              type="time"
+                              value={shift.start_time}
+                              onChange={(e) => updateDraftShift(weekday, index, { start_time: e.target.value })}
+                              className="px-2 py-1 border border-gray-300 rounded-lg"
+                            />
+                            <span>–</span>
+                            <input
+                              type="time"
+                              value={shift.end_time}
+                              onChange={(e) => updateDraftShift(weekday, index, { end_time: e.target.value })}
+                              className="px-2 py-1 border border-gray-300 rounded-lg"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => removeDraftShift(weekday, index)}
+                              className="text-gray-400 hover:text-red-600"
+                              title="Remove shift"
+                            >
+                              <XMarkIcon className="h-4 w-4" />
+                            </button>
+                          </div>
+                        ))}
+                        <button
+                          type="button"
+                          onClick={() => addDraftShift(weekday)}
+                          className="text-sm text-pink-600 font-medium"
+                        >
+                          Add shift
+                        </button>
+                        {day.length > 0 && (
+                          <button
+                            type="button"
+                            onClick={() => copyToWeekdays(weekday)}
+                            className="text-sm text-gray-500 hover:text-gray-700"
+                          >
+                            Copy to Mon–Fri
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex gap-2 mt-4">
+                    <button type="button" onClick={handleSaveWeek} disabled={isSaving} className={buttonClass}>
+                      {isSaving ? 'Saving...' : 'Save weekly hours'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setWeekDraft(weekDraftFor(shifts, selectedStaffId))}
+                      className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+                    >
+                      Reset
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {staff.length > 0 && (
+              <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-200">
+                <h2 className="text-xl font-bold text-gray-900 mb-1">Shift changes for {staffName(selectedStaffId)}</h2>
+                <p className="text-sm text-gray-500 mb-4">
+                  One-off hours or days off. Add several on the same date for a split shift.
+                </p>
+                {staffOverrides.length === 0 ? (
+                  <p className="text-gray-500 mb-4">No upcoming shift changes</p>
+                ) : (
+                  <table className="w-full text-sm mb-4">
+                    <tbody>
+                      {staffOverrides.map(override => (
+                        <tr key={override.id} className="border-b last:border-0">
+                          <td className="py-2">{dayjs(override.date).format('ddd D MMM YYYY')}</td>
+                          <td className="py-2">
+                            {override.start_time && override.end_time
+                              ? `${formatShiftTime(override.start_time)} – ${formatShiftTime(override.end_time)}`
+                              : 'Day off'}
+                          </td>
+                          <td className="py-2 text-gray-500">{override.note}</td>
+                          <td className="py-2 text-right">
+                            <button
+                              onClick={() => runChange(() => deleteShiftOverride(override.id), 'Shift change removed')}
+                              className="text-red-600 hover:text-red-900"
+                            >
+                              Remove
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                <form onSubmit={handleAddOverride} className="border-t pt-4 grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+                    <input
+                      type="date"
+                      min={today}
+                      value={overrideForm.date}
+                      onChange={(e) => setOverrideForm({ ...overrideForm, date: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Change</label>
+                    <select
+                      value={overrideForm.working ? 'working' : 'off'}
+                      onChange={(e) => setOverrideForm({ ...overrideForm, working: e.target.value === 'working' })}
+                      className={inputClass}
+                    >
+                      <option value="off">Day off</option>
+                      <option value="working">Working</option>
+                    </select>
+                  </div>
+                  {overrideForm.working ? (
+                    <div className="flex items-center gap-1">
+                      <input
+                        type="time"
+                        value={overrideForm.start_time}
+                        onChange={(e) => setOverrideForm({ ...overrideForm, start_time: e.target.value })}
+                        className={inputClass}
+                      />
+                      <span>–</span>
+                      <input
+                        type="time"
+                        value={overrideForm.end_time}
+                        onChange={(e) => setOverrideForm({ ...overrideForm, end_time: e.target.value })}
+                        className={inputClass}
+                      />
+                    </div>
+                  ) : (
+                    <div />
+                  )}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+                    <input
+                      type="text"
+                      value={overrideForm.note}
+                      onChange={(e) => setOverrideForm({ ...overrideForm, note: e.target.value })}
+                      placeholder="Optional"
+                      className={inputClass}
+                    />
+                  </div>
+                  <button type="submit" disabled={isSaving} className={buttonClass}>
+                    Add change
+                  </button>
+                </form>
+              </div>
+            )}
+
+            <div className="bg-white rounded-2xl shadow-lg p-6 border border-gray-200">
+              <h2 className="text-xl font-bold text-gray-900 mb-1">Leave</h2>
+              <p className="text-sm text-gray-500 mb-4">
+                Anyone can request leave; a manager approves or rejects it. Only approved leave blocks bookings.
+              </p>
+              {leave.length === 0 ? (
+                <p className="text-gray-500 mb-4">No current or upcoming leave</p>
+              ) : (
+                <div className="overflow-x-auto mb-4">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2">Staff</th>
+                        <th className="py-2">Dates</th>
+                        <th className="py-2">Type</th>
+                        <th className="py-2">Reason</th>
+                        <th className="py-2">Status</th>
+                        <th className="py-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {leave.map(request => (
+                        <tr key={request.id} className="border-b last:border-0">
+                          <td className="py-2 font-medium text-gray-900">{staffName(request.staff_id)}</td>
+                          <td className="py-2">{formatDateRange(request.start_date, request.end_date)}</td>
+                          <td className="py-2">{LEAVE_TYPE_LABELS[request.type]}</td>
+                          <td className="py-2 text-gray-500">{request.reason}</td>
+                          <td className="py-2">
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${LEAVE_STATUS_STYLES[request.status]}`}>
+                              {LEAVE_STATUS_LABELS[request.status]}
+                            </span>
+                            {request.decided_by_email && (
+                              <span className="block text-xs text-gray-400 mt-1">by {request.decided_by_email}</span>
+                            )}
+                          </td>
+                          <td className="py-2 text-right space-x-3 whitespace-nowrap">
+                            {isManager && request.status === 'pending' && (
+                              <>
+                                <button
+                                  onClick={() => handleDecideLeave(request, 'approved')}
+                                  className="text-green-600 hover:text-green-900"
+                                >
+                                  Approve
+                                </button>
+                                <button
+                                  onClick={() => handleDecideLeave(request, 'rejected')}
+                                  className="text-red-600 hover:text-red-900"
+                                >
+                                  Reject
+                                </button>
+                              </>
+                            )}
+                            {(request.status === 'pending' || (isManager && request.status === 'approved')) && (
+                              <button
+                                onClick={() => handleDecideLeave(request, 'cancelled')}
+                                className="text-gray-500 hover:text-gray-700"
+                              >
+                                Cancel
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              <form onSubmit={handleRequestLeave} className="border-t pt-4 grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Staff</label>
+                  <select
+                    value={leaveForm.staff_id}
+                    onChange={(e) => setLeaveForm({ ...leaveForm, staff_id: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">Select staff</option>
+                    {staff.map(member => (
+                      <option key={member.id} value={member.id}>{member.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                  <input
+                    type="date"
+                    value={leaveForm.start_date}
+                    onChange={(e) => setLeaveForm({ ...leaveForm, start_date: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                  <input
+                    type="date"
+                    min={leaveForm.start_date || undefined}
+                    value={leaveForm.end_date}
+                    onChange={(e) => setLeaveForm({ ...leaveForm, end_date: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                  <select
+                    value={leaveForm.type}
+                    onChange={(e) => setLeaveForm({ ...leaveForm, type: e.target.value as LeaveType })}
+                    className={inputClass}
+                  >
+                    {(Object.keys(LEAVE_TYPE_LABELS) as LeaveType[]).map(type => (
+                      <option key={type} value={type}>{LEAVE_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                  <input
+                    type="text"
+                    value={leaveForm.reason}
+                    onChange={(e) => setLeaveForm({ ...leaveForm, reason: e.target.value })}
+                    placeholder="Optional"
+                    className={inputClass}
+                  />
+                </div>
+                <button type="submit" disabled={isSaving} className={buttonClass}>
+                  Request leave
+                </button>
+              </form>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
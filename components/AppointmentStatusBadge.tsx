@@ -0,0 +1,13 @@
+import { AppointmentStatus, STATUS_BADGE_CLASSES, STATUS_LABELS } from '@/lib/appointments';
+
+interface AppointmentStatusBadgeProps {
+  status: AppointmentStatus;
+}
+
+export default function AppointmentStatusBadge({ status }: AppointmentStatusBadgeProps) {
+  return (
+    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGE_CLASSES[status]}`}>
+      {STATUS_LABELS[status]}
+    </span>
+  );
+}
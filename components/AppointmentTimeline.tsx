@@ -0,0 +1,445 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import dayjs from 'dayjs';
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import {
+  AppointmentStatus,
+  STATUS_LABELS,
+  findStaffConflicts,
+  rescheduleAppointment,
+  timeToMinutes
+} from '@/lib/appointments';
+import { BusinessDay, businessHoursProblem, fetchBusinessCalendar } from '@/lib/businessHours';
+import { STAFF_AVAILABILITY_LABELS, fetchStaffAvailability, isBookableAvailability } from '@/lib/schedules';
+import { StaffMember } from '@/lib/staff';
+
+export type TimelineView = 'day' | 'week';
+
+export interface TimelineAppointment {
+  id: string;
+  customer_name: string;
+  services: { name: string }[];
+  staff?: string | null;
+  staff_id?: string | null;
+  date: string;
+  time: string;
+  total_duration: number;
+  status: AppointmentStatus;
+}
+
+// The dates a view shows around `date`.
+export function timelineRange(view: TimelineView, date: string) {
+  if (view === 'day') return { from: date, to: date };
+  const start = dayjs(date).startOf('week');
+  return { from: start.format('YYYY-MM-DD'), to: start.add(6, 'day').format('YYYY-MM-DD') };
+}
+
+const SNAP_MINUTES = 15;
+const UNASSIGNED_COLOR = '#9ca3af';
+// Only bookings that have not started can be dragged.
+const MOVABLE_STATUSES: AppointmentStatus[] = ['booked', 'confirmed'];
+
+interface Column {
+  key: string;
+  date: string;
+  staff: StaffMember | null;
+}
+
+interface DragState {
+  appointmentId: string;
+  // Minutes between the top of the block and where it was grabbed.
+  grabOffset: number;
+}
+
+interface DropTarget {
+  columnKey: string;
+  minute: number;
+}
+
+const minutesToTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const nowInMinutes = () => timeToMinutes(dayjs().format('HH:mm'));
+
+// Side-by-side lanes for appointments that overlap in one column.
+function layoutLanes<T extends TimelineAppointment>(items: T[]) {
+  const laneEnds: number[] = [];
+  const placed = [...items]
+    .sort((a, b) => timeToMinutes(a.time) - timeToMinutes(b.time))
+    .map(item => {
+      const start = timeToMinutes(item.time);
+      let lane = laneEnds.findIndex(end => end <= start);
+      if (lane === -1) {
+        lane = laneEnds.length;
+        laneEnds.push(0);
+      }
+      laneEnds[lane] = start + item.total_duration;
+      return { item, lane };
+    });
+  return { placed, lanes: Math.max(laneEnds.length, 1) };
+}
+
+interface AppointmentTimelineProps<T extends TimelineAppointment> {
+  view: TimelineView;
+  date: string;
+  appointments: T[];
+  staff: StaffMember[];
+  onDateChange: (date: string) => void;
+  onEdit: (appointment: T) => void;
+  onChanged: () => void | Promise<void>;
+}
+
+// Appointments drawn on a time grid with one column per staff member (per
+// day in the week view). Dragging a booking to another time or column moves
+// it after checking opening hours, shifts and clashes.
+export default function AppointmentTimeline<T extends TimelineAppointment>({
+  view,
+  date,
+  appointments,
+  staff,
+  onDateChange,
+  onEdit,
+  onChanged
+}: AppointmentTimelineProps<T>) {
+  const { from, to } = timelineRange(view, date);
+  const [businessDays, setBusinessDays] = useState<BusinessDay[]>([]);
+  const [nowMinutes, setNowMinutes] = useState(nowInMinutes);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  useEffect(() => {
+    fetchBusinessCalendar(from, to)
+      .then(setBusinessDays)
+      .catch(err => console.error('Error fetching opening hours:', err));
+  }, [from, to]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNowMinutes(nowInMinutes()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!message) return;
+    const timer = setTimeout(() => setMessage(null), 3000);
+    return () => clearTimeout(timer);
+  }, [message]);
+
+  const today = dayjs().format('YYYY-MM-DD');
+  const pixelsPerMinute = view === 'day' ? 1.5 : 1;
+  const days = Array.from({ length: view === 'day' ? 1 : 7 }, (_, i) => dayjs(from).add(i, 'day').format('YYYY-MM-DD'));
+
+  // Active staff, plus anyone who has since left but still has bookings shown.
+  const staffById = new Map(staff.map(member => [member.id, member]));
+  const columnStaff = staff.filter(member => member.active || appointments.some(a => a.staff_id === member.id));
+  const isUnassigned = (appointment: T) => !appointment.staff_id || !staffById.has(appointment.staff_id);
+  const showUnassigned = appointments.some(isUnassigned);
+  const columnsFor = (day: string): Column[] => [
+    ...columnStaff.map(member => ({ key: `${day}|${member.id}`, date: day, staff: member })),
+    ...(showUnassigned ? [{ key: `${day}|unassigned`, date: day, staff: null }] : [])
+  ];
+  const appointmentsIn = (column: Column) =>
+    appointments.filter(appointment =>
+      appointment.date === column.date &&
+      (column.staff ? appointment.staff_id === column.staff.id : isUnassigned(appointment))
+    );
+
+  // Hours shown: opening hours, stretched to fit any booking outside them.
+  const openDays = businessDays.filter(day => day.isOpen);
+  const opens = openDays.filter(day => day.openTime).map(day => timeToMinutes(day.openTime!));
+  const closes = openDays.filter(day => day.closeTime).map(day => timeToMinutes(day.closeTime!));
+  const starts = appointments.map(appointment => timeToMinutes(appointment.time));
+  const ends = appointments.map(appointment => timeToMinutes(appointment.time) + appointment.total_duration);
+  const dayStart = Math.floor(Math.min(opens.length > 0 ? Math.min(...opens) : 9 * 60, ...starts) / 60) * 60;
+  const dayEnd = Math.min(24 * 60, Math.ceil(Math.max(closes.length > 0 ? Math.max(...closes) : 21 * 60, ...ends) / 60) * 60);
+  const bodyHeight = (dayEnd - dayStart) * pixelsPerMinute;
+  const hours = Array.from({ length: (dayEnd - dayStart) / 60 }, (_, i) => dayStart + i * 60);
+
+  const draggedAppointment = drag
+    ? appointments.find(appointment => appointment.id === drag.appointmentId)
+    : undefined;
+
+  const dropMinute = (e: React.DragEvent<HTMLDivElement>, duration: number) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const pointer = dayStart + (e.clientY - rect.top) / pixelsPerMinute - (drag?.grabOffset || 0);
+    const snapped = Math.round(pointer / SNAP_MINUTES) * SNAP_MINUTES;
+    return Math.max(dayStart, Math.min(snapped, dayEnd - duration));
+  };
+
+  const moveAppointment = async (appointment: T, column: Column, minute: number) => {
+    const time = minutesToTime(minute);
+    const member = column.staff;
+    if (
+      appointment.date === column.date &&
+      timeToMinutes(appointment.time) === minute &&
+      (appointment.staff_id || null) === (member?.id || null)
+    ) {
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (dayjs(`${column.date}T${time}`).isBefore(dayjs())) {
+        throw new Error('Choose a time that has not passed');
+      }
+
+      const [businessDay] = await fetchBusinessCalendar(column.date, column.date);
+      const hoursProblem = businessDay && businessHoursProblem(businessDay, time, appointment.total_duration);
+      if (hoursProblem) {
+        throw new Error(hoursProblem);
+      }
+
+      let allowOverlap = false;
+      if (member) {
+        if (!member.active) {
+          throw new Error(`${member.name} is no longer taking bookings`);
+        }
+        const availability = await fetchStaffAvailability(column.date, time, appointment.total_duration);
+        const status = availability.get(member.id);
+        if (!isBookableAvailability(status)) {
+          throw new Error(`${member.name} is not working at this time (${STAFF_AVAILABILITY_LABELS[status!].toLowerCase()})`);
+        }
+        const conflicts = await findStaffConflicts({
+          staffId: member.id,
+          date: column.date,
+          time,
+          duration: appointment.total_duration,
+          excludeId: appointment.id
+        });
+        if (conflicts.length > 0) {
+          const names = conflicts.map(conflict => conflict.customer_name).join(', ');
+          if (!window.confirm(`${member.name} is already booked at ${time} on ${dayjs(column.date).format('D MMM')} (${names}). Double-book anyway?`)) {
+            return;
+          }
+          allowOverlap = true;
+        }
+      }
+
+      await rescheduleAppointment(appointment.id, {
+        date: column.date,
+        time,
+        staffId: member?.id || null,
+        staffName: member?.name || null,
+        allowOverlap
+      });
+      setMessage(
+        `${appointment.customer_name} moved to ${dayjs(column.date).format('ddd D MMM')} at ${time}` +
+        (member ? ` with ${member.name}` : '')
+      );
+      await onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to move appointment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const step = view === 'day' ? 1 : 7;
+  const title = view === 'day'
+    ? dayjs(date).format('dddd, D MMMM YYYY')
+    : `${dayjs(from).format('D MMM')} – ${dayjs(to).format('D MMM YYYY')}`;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => onDateChange(dayjs(date).subtract(step, 'day').format('YYYY-MM-DD'))}
+            className="p-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+            title={view === 'day' ? 'Previous day' : 'Previous week'}
+          >
+            <ChevronLeftIcon className="h-4 w-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => onDateChange(today)}
+            className="px-3 py-2 rounded-lg border border-gray-200 text-sm hover:bg-gray-50"
+          >
+            Today
+          </button>
+          <button
+            type="button"
+            onClick={() => onDateChange(dayjs(date).add(step, 'day').format('YYYY-MM-DD'))}
+            className="p-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+            title={view === 'day' ? 'Next day' : 'Next week'}
+          >
+            <ChevronRightIcon className="h-4 w-4" />
+          </button>
+          <h3 className="ml-2 text-lg font-semibold text-gray-900">{title}</h3>
+        </div>
+        <div className="flex items-center gap-3">
+          {isSaving && <span className="text-sm text-gray-500">Saving...</span>}
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => e.target.value && onDateChange(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-3 bg-red-50 border border-red-300 text-red-700 px-3 py-2 rounded-lg text-sm">{error}</div>
+      )}
+      {message && (
+        <div className="mb-3 bg-green-50 border border-green-300 text-green-700 px-3 py-2 rounded-lg text-sm">{message}</div>
+      )}
+
+      <p className="mb-3 text-xs text-gray-500">
+        Drag a booked or confirmed appointment to move it to another time or staff member. Click one to edit it.
+      </p>
+
+      <div className="overflow-x-auto">
+        <div className="flex w-max min-w-full">
+          {/* Time gutter */}
+          <div className="w-14 shrink-0">
+            <div className="h-16" />
+            <div className="relative" style={{ height: bodyHeight }}>
+              {hours.map(hour => (
+                <div
+                  key={hour}
+                  className="absolute right-2 -translate-y-2 text-xs text-gray-400"
+                  style={{ top: (hour - dayStart) * pixelsPerMinute }}
+                >
+                  {dayjs().startOf('day').add(hour, 'minute').format('h A')}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {days.map(day => {
+            const businessDay = businessDays.find(d => d.date === day);
+            const closed = businessDay && !businessDay.isOpen;
+            return (
+              <div key={day} className="flex flex-col flex-1 border-l border-gray-200">
+                <div
+                  className={`h-8 px-2 flex items-center justify-center gap-2 text-sm font-medium ${
+                    day === today ? 'text-pink-600' : 'text-gray-800'
+                  } ${closed ? 'bg-gray-100' : ''}`}
+                  title={closed ? `Closed: ${businessDay?.reason}` : undefined}
+                >
+                  {dayjs(day).format(view === 'day' ? 'ddd D MMM' : 'ddd D')}
+                  {closed && <span className="text-xs font-normal text-gray-500 truncate">Closed</span>}
+                </div>
+                <div className="flex flex-1">
+                  {columnsFor(day).map(column => {
+                    const { placed, lanes } = layoutLanes(appointmentsIn(column));
+                    const color = column.staff?.color || UNASSIGNED_COLOR;
+                    const isDropTarget = dropTarget?.columnKey === column.key;
+                    return (
+                      <div
+                        key={column.key}
+                        className={`flex-1 border-l border-gray-100 ${view === 'day' ? 'min-w-[160px]' : 'min-w-[96px]'}`}
+                      >
+                        <div className="h-8 px-1 flex items-center justify-center gap-1 text-xs text-gray-600 border-b border-gray-200">
+                          <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: color }} />
+                          <span className="truncate">{column.staff?.name || 'Unassigned'}</span>
+                        </div>
+                        <div
+                          className={`relative ${closed ? 'bg-gray-50' : ''} ${isDropTarget ? 'bg-pink-50/60' : ''}`}
+                          style={{ height: bodyHeight }}
+                          onDragOver={(e) => {
+                            if (!draggedAppointment || isSaving) return;
+                            e.preventDefault();
+                            const minute = dropMinute(e, draggedAppointment.total_duration);
+                            if (dropTarget?.columnKey !== column.key || dropTarget.minute !== minute) {
+                              setDropTarget({ columnKey: column.key, minute });
+                            }
+                          }}
+                          onDrop={(e) => {
+                            e.preventDefault();
+                            const appointment = draggedAppointment;
+                            const minute = appointment ? dropMinute(e, appointment.total_duration) : 0;
+                            setDrag(null);
+                            setDropTarget(null);
+                            if (appointment) moveAppointment(appointment, column, minute);
+                          }}
+                        >
+                          {hours.map(hour => (
+                            <div
+                              key={hour}
+                              className="absolute inset-x-0 border-t border-gray-100"
+                              style={{ top: (hour - dayStart) * pixelsPerMinute }}
+                            />
+                          ))}
+
+                          {day === today && nowMinutes >= dayStart && nowMinutes <= dayEnd && (
+                            <div
+                              className="absolute inset-x-0 z-20 h-0.5 bg-red-500 pointer-events-none"
+                              style={{ top: (nowMinutes - dayStart) * pixelsPerMinute }}
+                            />
+                          )}
+
+                          {placed.map(({ item, lane }) => {
+                            const movable = MOVABLE_STATUSES.includes(item.status) && !isSaving;
+                            const faded = item.status === 'cancelled' || item.status === 'no_show';
+                            return (
+                              <div
+                                key={item.id}
+                                draggable={movable}
+                                onDragStart={(e) => {
+                                  const rect = e.currentTarget.getBoundingClientRect();
+                                  setDrag({
+                                    appointmentId: item.id,
+                                    grabOffset: (e.clientY - rect.top) / pixelsPerMinute
+                                  });
+                                  e.dataTransfer.effectAllowed = 'move';
+                                  e.dataTransfer.setData('text/plain', item.id);
+                                }}
+                                onDragEnd={() => {
+                                  setDrag(null);
+                                  setDropTarget(null);
+                                }}
+                                onClick={() => onEdit(item)}
+                                title={`${item.time.slice(0, 5)} · ${item.total_duration} mins · ${item.customer_name} · ${STATUS_LABELS[item.status]}`}
+                                className={`absolute z-10 overflow-hidden rounded-md border-l-4 px-1.5 py-1 text-xs shadow-sm ${
+                                  movable ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'
+                                } ${faded ? 'opacity-50 line-through' : ''}`}
+                                style={{
+                                  top: (timeToMinutes(item.time) - dayStart) * pixelsPerMinute,
+                                  height: Math.max(item.total_duration * pixelsPerMinute, 18),
+                                  left: `calc(${(lane / lanes) * 100}% + 2px)`,
+                                  width: `calc(${100 / lanes}% - 4px)`,
+                                  borderLeftColor: color,
+                                  backgroundColor: `${color}22`
+                                }}
+                              >
+                                <div className="font-semibold text-gray-900 truncate">
+                                  {item.time.slice(0, 5)} {item.customer_name}
+                                </div>
+                                <div className="text-gray-600 truncate">
+                                  {item.services.map(service => service.name).join(', ')}
+                                </div>
+                              </div>
+                            );
+                          })}
+
+                          {isDropTarget && draggedAppointment && (
+                            <div
+                              className="absolute inset-x-1 z-30 rounded-md border-2 border-dashed border-pink-500 bg-pink-100/60 pointer-events-none text-xs text-pink-700 px-1"
+                              style={{
+                                top: (dropTarget.minute - dayStart) * pixelsPerMinute,
+                                height: Math.max(draggedAppointment.total_duration * pixelsPerMinute, 18)
+                              }}
+                            >
+                              {minutesToTime(dropTarget.minute)}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { BUYER_ID_TYPE_LABELS, BuyerDetails, BuyerIdType, MALAYSIAN_STATES } from '@/lib/einvoice';
+
+interface BuyerDetailsFormProps {
+  value: BuyerDetails;
+  onChange: (value: BuyerDetails) => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all';
+
+// The buyer fields LHDN requires on an individual e-invoice.
+export default function BuyerDetailsForm({ value, onChange }: BuyerDetailsFormProps) {
+  const update = (changes: Partial<BuyerDetails>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="md:col-span-2">
+        <label className="block text-sm font-medium text-gray-700 mb-1">Name (as registered) *</label>
+        <input type="text" value={value.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">TIN *</label>
+        <input
+          type="text"
+          value={value.tin}
+          onChange={(e) => update({ tin: e.target.value.toUpperCase().replace(/\s/g, '') })}
+          placeholder="e.g. IG12345678090"
+          className={`${inputClass} font-mono`}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">SST registration no.</label>
+        <input
+          type="text"
+          value={value.sst_number || ''}
+          onChange={(e) => update({ sst_number: e.target.value || null })}
+          className={`${inputClass} font-mono`}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">ID type *</label>
+        <select
+          value={value.id_type}
+          onChange={(e) => update({ id_type: e.target.value as BuyerIdType })}
+          className={inputClass}
+        >
+          {(Object.keys(BUYER_ID_TYPE_LABELS) as BuyerIdType[]).map(type => (
+            <option key={type} value={type}>{BUYER_ID_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">ID number *</label>
+        <input
+          type="text"
+          value={value.id_number}
+          onChange={(e) => update({ id_number: e.target.value.toUpperCase().replace(/[\s-]/g, '') })}
+          className={`${inputClass} font-mono`}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Phone *</label>
+        <input type="tel" value={value.phone_number} onChange={(e) => update({ phone_number: e.target.value })} className={inputClass} />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+        <input
+          type="email"
+          value={value.email || ''}
+          onChange={(e) => update({ email: e.target.value || null })}
+          className={inputClass}
+        />
+      </div>
+      <div className="md:col-span-2">
+        <label className="block text-sm font-medium text-gray-700 mb-1">Address *</label>
+        <input
+          type="text"
+          value={value.address_line}
+          onChange={(e) => update({ address_line: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">City *</label>
+        <input type="text" value={value.city} onChange={(e) => update({ city: e.target.value })} className={inputClass} />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Postcode</label>
+        <input
+          type="text"
+          value={value.postcode || ''}
+          onChange={(e) => update({ postcode: e.target.value || null })}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">State *</label>
+        <select value={value.state_code} onChange={(e) => update({ state_code: e.target.value })} className={inputClass}>
+          <option value="">Select state</option>
+          {MALAYSIAN_STATES.map(([code, name]) => (
+            <option key={code} value={code}>{name}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Country *</label>
+        <input
+          type="text"
+          maxLength={3}
+          value={value.country_code}
+          onChange={(e) => update({ country_code: e.target.value.toUpperCase() })}
+          className={`${inputClass} font-mono w-24`}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Customer, searchCustomers } from '@/lib/customers';
+
+interface CustomerSuggestionsProps {
+  query: string;
+  onSelect: (customer: Customer) => void;
+}
+
+// Dropdown of existing customers whose name or phone number matches `query`.
+export default function CustomerSuggestions({ query, onSelect }: CustomerSuggestionsProps) {
+  const [matches, setMatches] = useState<Customer[]>([]);
+
+  useEffect(() => {
+    if (query.trim().length < 2) {
+      setMatches([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchCustomers(query)
+        .then(result => {
+          if (!cancelled) setMatches(result);
+        })
+        .catch(err => console.error('Error searching customers:', err));
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="border border-gray-200 rounded-lg shadow-sm bg-white divide-y divide-gray-100">
+      <p className="px-4 py-2 text-xs font-medium text-gray-500 uppercase tracking-wider">Existing customers</p>
+      {matches.map(customer => (
+        <button
+          key={customer.id}
+          type="button"
+          onClick={() => onSelect(customer)}
+          className="w-full flex justify-between px-4 py-2 text-left text-sm hover:bg-pink-50 transition-colors"
+        >
+          <span className="font-medium text-gray-900">{customer.name}</span>
+          <span className="text-gray-500">{customer.phone_number || 'No phone'}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { DiscountType } from '@/lib/discounts';
+
+export interface DiscountDraft {
+  type: DiscountType;
+  value: string;
+}
+
+export const emptyDiscount: DiscountDraft = { type: 'percent', value: '' };
+
+export const parseDiscountDraft = (draft: DiscountDraft) => {
+  const value = parseFloat(draft.value) || 0;
+  return value > 0 ? { type: draft.type, value } : null;
+};
+
+interface DiscountInputProps {
+  discount: DiscountDraft;
+  onChange: (discount: DiscountDraft) => void;
+  disabled?: boolean;
+}
+
+// Amount field with a % / RM toggle.
+export default function DiscountInput({ discount, onChange, disabled }: DiscountInputProps) {
+  return (
+    <div className="flex">
+      <input
+        type="number"
+        min={0}
+        step="0.01"
+        max={discount.type === 'percent' ? 100 : undefined}
+        value={discount.value}
+        onChange={(e) => onChange({ ...discount, value: e.target.value })}
+        placeholder="0"
+        disabled={disabled}
+        className="w-full min-w-0 px-3 py-2 border border-gray-300 rounded-l-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all"
+      />
+      <button
+        type="button"
+        onClick={() => onChange({ ...discount, type: discount.type === 'percent' ? 'fixed' : 'percent' })}
+        disabled={disabled}
+        className="px-3 py-2 border border-l-0 border-gray-300 rounded-r-lg bg-gray-50 text-gray-700 text-sm hover:bg-gray-100"
+        title="Switch between percentage and fixed amount"
+      >
+        {discount.type === 'percent' ? '%' : 'RM'}
+      </button>
+    </div>
+  );
+}
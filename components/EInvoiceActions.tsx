@@ -0,0 +1,62 @@
+'use client';
+
+import { useState } from 'react';
+import { EInvoice, downloadEInvoice } from '@/lib/einvoice';
+import { refreshEInvoiceStatus, submitEInvoice } from '@/lib/einvoiceSubmitter';
+
+interface EInvoiceActionsProps {
+  einvoice: EInvoice;
+  onUpdated: (einvoice: EInvoice) => void;
+  onError: (message: string) => void;
+}
+
+// Submit, status refresh and downloads for a stored e-invoice.
+export default function EInvoiceActions({ einvoice, onUpdated, onError }: EInvoiceActionsProps) {
+  const [isWorking, setIsWorking] = useState(false);
+
+  const run = async (action: () => Promise<EInvoice>) => {
+    setIsWorking(true);
+    try {
+      onUpdated(await action());
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'E-invoice request failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {(einvoice.status === 'pending' || einvoice.status === 'stubbed') && (
+        <button
+          onClick={() => run(() => submitEInvoice(einvoice))}
+          disabled={isWorking}
+          className="px-3 py-1.5 text-sm bg-pink-600 text-white rounded-lg hover:bg-pink-700 disabled:opacity-50"
+        >
+          {isWorking ? 'Submitting...' : 'Submit to MyInvois'}
+        </button>
+      )}
+      {einvoice.status === 'submitted' && (
+        <button
+          onClick={() => run(() => refreshEInvoiceStatus(einvoice))}
+          disabled={isWorking}
+          className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+        >
+          {isWorking ? 'Checking...' : 'Check status'}
+        </button>
+      )}
+      <button
+        onClick={() => downloadEInvoice(einvoice, 'json')}
+        className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+      >
+        JSON
+      </button>
+      <button
+        onClick={() => downloadEInvoice(einvoice, 'xml')}
+        className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+      >
+        XML
+      </button>
+    </div>
+  );
+}
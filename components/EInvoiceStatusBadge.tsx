@@ -0,0 +1,13 @@
+import { EINVOICE_STATUS_BADGE_CLASSES, EINVOICE_STATUS_LABELS, EInvoiceStatus } from '@/lib/einvoice';
+
+interface EInvoiceStatusBadgeProps {
+  status: EInvoiceStatus;
+}
+
+export default function EInvoiceStatusBadge({ status }: EInvoiceStatusBadgeProps) {
+  return (
+    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${EINVOICE_STATUS_BADGE_CLASSES[status]}`}>
+      {EINVOICE_STATUS_LABELS[status]}
+    </span>
+  );
+}
@@ -0,0 +1,507 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import CustomerSuggestions from '@/components/CustomerSuggestions';
+import DiscountInput, { DiscountDraft, emptyDiscount, parseDiscountDraft } from '@/components/DiscountInput';
+import PaymentEntry, {
+  PaymentDraft,
+  draftTotal,
+  draftsToPayments,
+  newPaymentDraft,
+  validatePaymentDrafts
+} from '@/components/PaymentEntry';
+import { Customer, findOrCreateCustomer } from '@/lib/customers';
+import { StaffMember, fetchStaff } from '@/lib/staff';
+import { PHONE_VALIDATION_MESSAGE, formatPhoneNumber, parsePhoneNumber } from '@/lib/phone';
+import { createWalkInSale } from '@/lib/sales';
+import { TaxSettings, calculateCharges, fetchTaxSettings } from '@/lib/tax';
+import { PromoCodeSummary, applyBillDiscounts, discountAmount, findPromoCode, formatDiscount } from '@/lib/discounts';
+import { isCurrentUserManager } from '@/lib/auth';
+import { PlusIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface Service {
+  id: string;
+  name: string;
+  price: number;
+  tax_exempt: boolean;
+}
+
+interface SaleLine {
+  key: number;
+  service: Service;
+  quantity: number;
+  discount: DiscountDraft;
+  staffId: string;
+  // Manager price override; empty means the list price.
+  overridePrice: string;
+  overrideReason: string;
+  showOverride: boolean;
+}
+
+interface NewSaleFormProps {
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all';
+
+const unitPrice = (line: SaleLine) =>
+  line.overridePrice === '' ? line.service.price : parseFloat(line.overridePrice) || 0;
+
+const lineDiscount = (line: SaleLine) =>
+  discountAmount(unitPrice(line) * line.quantity, parseDiscountDraft(line.discount));
+
+const lineAmount = (line: SaleLine) => unitPrice(line) * line.quantity - lineDiscount(line);
+
+// Walk-in and retail sales entered at the counter.
+export default function NewSaleForm({ onSaved, onCancel }: NewSaleFormProps) {
+  const [services, setServices] = useState<Service[]>([]);
+  const [staffMembers, setStaffMembers] = useState<StaffMember[]>([]);
+  const [customerName, setCustomerName] = useState('');
+  const [customerPhone, setCustomerPhone] = useState('');
+  const [customerId, setCustomerId] = useState<string | null>(null);
+  const [staffId, setStaffId] = useState('');
+  const [paymentDrafts, setPaymentDrafts] = useState<PaymentDraft[]>([newPaymentDraft(0)]);
+  const [lines, setLines] = useState<SaleLine[]>([]);
+  const [serviceToAdd, setServiceToAdd] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [taxSettings, setTaxSettings] = useState<TaxSettings | null>(null);
+  const [isManager, setIsManager] = useState(false);
+  const [billDiscount, setBillDiscount] = useState<DiscountDraft>(emptyDiscount);
+  const [billDiscountReason, setBillDiscountReason] = useState('');
+  const [promoInput, setPromoInput] = useState('');
+  const [promo, setPromo] = useState<PromoCodeSummary | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase
+      .from('services')
+      .select('id, name, price, tax_exempt')
+      .order('name')
+      .then(({ data, error: fetchError }) => {
+        if (fetchError) setError(`Failed to load services: ${fetchError.message}`);
+        else setServices(data || []);
+      });
+
+    fetchStaff({ activeOnly: true })
+      .then(setStaffMembers)
+      .catch(err => console.error('Error fetching staff:', err));
+
+    fetchTaxSettings()
+      .then(setTaxSettings)
+      .catch(err => console.error('Error fetching tax settings:', err));
+
+    isCurrentUserManager()
+      .then(setIsManager)
+      .catch(err => console.error('Error checking permissions:', err));
+  }, []);
+
+  const handleCustomerSelect = (customer: Customer) => {
+    setCustomerId(customer.id);
+    setCustomerName(customer.name);
+    setCustomerPhone(formatPhoneNumber(customer.phone_number));
+  };
+
+  const handleAddLine = () => {
+    const service = services.find(s => s.id === serviceToAdd);
+    if (!service) return;
+    setLines(prev => [
+      ...prev,
+      {
+        key: Date.now(),
+        service,
+        quantity: 1,
+        discount: emptyDiscount,
+        staffId: '',
+        overridePrice: '',
+        overrideReason: '',
+        showOverride: false
+      }
+    ]);
+    setServiceToAdd('');
+  };
+
+  const updateLine = (key: number, changes: Partial<SaleLine>) => {
+    setLines(prev => prev.map(line => (line.key === key ? { ...line, ...changes } : line)));
+  };
+
+  const handleApplyPromo = async () => {
+    setPromoError(null);
+    try {
+      setPromo(await findPromoCode(promoInput));
+    } catch (err) {
+      setPromo(null);
+      setPromoError(err instanceof Error ? err.message : 'Promo code could not be checked');
+    }
+  };
+
+  const subtotal = lines.reduce((sum, line) => sum + unitPrice(line) * line.quantity, 0);
+  const { promoDiscount, billDiscount: billDiscountAmount, netAmounts } = applyBillDiscounts(
+    lines.map(line => ({ serviceId: line.service.id, amount: lineAmount(line) })),
+    promo,
+    parseDiscountDraft(billDiscount)
+  );
+  const lineDiscountTotal = lines.reduce((sum, line) => sum + lineDiscount(line), 0);
+  const charges = calculateCharges(
+    lines.map((line, index) => ({ amount: netAmounts[index], taxExempt: line.service.tax_exempt })),
+    taxSettings
+  );
+  const total = charges.total;
+
+  // A single tender follows the sale total until the cashier splits it.
+  useEffect(() => {
+    setPaymentDrafts(prev => (prev.length === 1 ? [{ ...prev[0], amount: total > 0 ? total.toFixed(2) : '' }] : prev));
+  }, [total]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (lines.length === 0) {
+      setError('Add at least one service');
+      return;
+    }
+    if (lines.some(line => line.overridePrice !== '' && !line.overrideReason.trim())) {
+      setError('Give a reason for each price override');
+      return;
+    }
+    if (parseDiscountDraft(billDiscount) && !billDiscountReason.trim()) {
+      setError('Give a reason for the bill discount');
+      return;
+    }
+
+    const paymentError = validatePaymentDrafts(paymentDrafts, total);
+    if (paymentError) {
+      setError(paymentError);
+      return;
+    }
+    if (total - draftTotal(paymentDrafts) > 0.005) {
+      setError(`RM ${(total - draftTotal(paymentDrafts)).toFixed(2)} is still owing`);
+      return;
+    }
+
+    const phone = customerPhone.trim();
+    const parsedPhone = phone ? parsePhoneNumber(phone) : null;
+    if (phone && !parsedPhone) {
+      setError(PHONE_VALIDATION_MESSAGE);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const name = customerName.trim();
+      await createWalkInSale({
+        customerName: name,
+        customerId: customerId || (name && parsedPhone ? await findOrCreateCustomer(name, parsedPhone.e164) : null),
+        staffId: staffId || null,
+        items: lines.map(line => ({
+          service_id: line.service.id,
+          quantity: line.quantity,
+          staff_id: line.staffId || null,
+          discount_type: line.discount.type,
+          discount_value: parseDiscountDraft(line.discount)?.value || 0,
+          ...(line.overridePrice !== '' && {
+            unit_price: unitPrice(line),
+            override_reason: line.overrideReason.trim()
+          })
+        })),
+        payments: draftsToPayments(paymentDrafts),
+        billDiscount: parseDiscountDraft(billDiscount)
+          ? { ...billDiscount, value: parseFloat(billDiscount.value), reason: billDiscountReason.trim() }
+          : null,
+        promoCode: promo?.code || null
+      });
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record sale');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-lg p-6 border border-gray-200 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-900">New Sale</h2>
+        <button type="button" onClick={onCancel} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+          <XMarkIcon className="h-6 w-6" />
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+      )}
+
+      {/* Customer and Staff */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Customer</label>
+          <input
+            type="text"
+            value={customerName}
+            onChange={(e) => {
+              setCustomerName(e.target.value);
+              setCustomerId(null);
+            }}
+            placeholder="Walk-in"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Phone (optional)</label>
+          <input
+            type="tel"
+            value={customerPhone}
+            onChange={(e) => {
+              setCustomerPhone(e.target.value);
+              setCustomerId(null);
+            }}
+            placeholder="e.g. 012-345 6789"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Staff</label>
+          <select value={staffId} onChange={(e) => setStaffId(e.target.value)} className={`${inputClass} bg-white`}>
+            <option value="">Unassigned</option>
+            {staffMembers.map(member => (
+              <option key={member.id} value={member.id}>{member.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {!customerId && (
+        <CustomerSuggestions query={customerName || customerPhone} onSelect={handleCustomerSelect} />
+      )}
+
+      {/* Line Items */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Services</label>
+        <div className="flex gap-2 mb-4">
+          <select value={serviceToAdd} onChange={(e) => setServiceToAdd(e.target.value)} className={`${inputClass} bg-white`}>
+            <option value="">Choose a service...</option>
+            {services.map(service => (
+              <option key={service.id} value={service.id}>
+                {service.name} — RM {service.price.toFixed(2)}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleAddLine}
+            disabled={!serviceToAdd}
+            className="inline-flex items-center px-4 py-2 bg-pink-100 text-pink-700 rounded-lg hover:bg-pink-200 transition-colors disabled:opacity-50"
+          >
+            <PlusIcon className="h-5 w-5 mr-1" />
+            Add
+          </button>
+        </div>
+
+        {lines.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <th className="py-2">Service</th>
+                <th className="py-2">Price</th>
+                <th className="py-2 w-20">Qty</th>
+                <th className="py-2 w-32">Discount</th>
+                <th className="py-2">Staff</th>
+                <th className="py-2 text-right">Amount</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {lines.map(line => (
+                <tr key={line.key}>
+                  <td className="py-2 font-medium text-gray-900">
+                    {line.service.name}
+                    {line.showOverride && (
+                      <div className="mt-2 flex gap-2">
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={line.overridePrice}
+                          onChange={(e) => updateLine(line.key, { overridePrice: e.target.value })}
+                          placeholder="New price"
+                          className={`${inputClass} w-28`}
+                        />
+                        <input
+                          type="text"
+                          value={line.overrideReason}
+                          onChange={(e) => updateLine(line.key, { overrideReason: e.target.value })}
+                          placeholder="Reason"
+                          className={inputClass}
+                        />
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-2 text-gray-700">
+                    {line.overridePrice !== '' ? (
+                      <>
+                        <span className="line-through text-gray-400 mr-1">RM {line.service.price.toFixed(2)}</span>
+                        RM {unitPrice(line).toFixed(2)}
+                      </>
+                    ) : (
+                      <>RM {line.service.price.toFixed(2)}</>
+                    )}
+                    {isManager && (
+                      <button
+                        type="button"
+                        onClick={() => updateLine(line.key, line.showOverride
+                          ? { showOverride: false, overridePrice: '', overrideReason: '' }
+                          : { showOverride: true })}
+                        className="block text-xs text-pink-600 hover:text-pink-700"
+                      >
+                        {line.showOverride ? 'Use list price' : 'Override price'}
+                      </button>
+                    )}
+                  </td>
+                  <td className="py-2 pr-2">
+                    <input
+                      type="number"
+                      min={1}
+                      value={line.quantity}
+                      onChange={(e) => updateLine(line.key, { quantity: Math.max(1, parseInt(e.target.value) || 1) })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <DiscountInput
+                      discount={line.discount}
+                      onChange={(discount) => updateLine(line.key, { discount })}
+                    />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <select
+                      value={line.staffId}
+                      onChange={(e) => updateLine(line.key, { staffId: e.target.value })}
+                      className={`${inputClass} bg-white`}
+                    >
+                      <option value="">Same as sale</option>
+                      {staffMembers.map(member => (
+                        <option key={member.id} value={member.id}>{member.name}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-2 text-right font-semibold text-gray-900">RM {lineAmount(line).toFixed(2)}</td>
+                  <td className="py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => setLines(prev => prev.filter(l => l.key !== line.key))}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                    >
+                      <TrashIcon className="h-5 w-5" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Bill Discount and Promo Code */}
+      {lines.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Bill discount</label>
+            <div className="flex gap-2">
+              <div className="w-40">
+                <DiscountInput discount={billDiscount} onChange={setBillDiscount} />
+              </div>
+              <input
+                type="text"
+                value={billDiscountReason}
+                onChange={(e) => setBillDiscountReason(e.target.value)}
+                placeholder="Reason"
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Promo code</label>
+            {promo ? (
+              <div className="flex items-center justify-between px-3 py-2 bg-green-50 border border-green-200 rounded-lg">
+                <span className="text-green-800">
+                  <span className="font-mono font-semibold">{promo.code}</span>
+                  {' · '}
+                  {formatDiscount({ type: promo.discount_type, value: promo.discount_value })} off
+                  {promo.eligible_service_ids.length > 0 && ' selected services'}
+                </span>
+                <button type="button" onClick={() => setPromo(null)} className="text-sm text-gray-600 hover:text-red-600">
+                  Remove
+                </button>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={promoInput}
+                  onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                  placeholder="e.g. RAYA10"
+                  className={`${inputClass} font-mono`}
+                />
+                <button
+                  type="button"
+                  onClick={handleApplyPromo}
+                  disabled={!promoInput.trim()}
+                  className="px-4 py-2 bg-pink-100 text-pink-700 rounded-lg hover:bg-pink-200 transition-colors disabled:opacity-50"
+                >
+                  Apply
+                </button>
+              </div>
+            )}
+            {promoError && <p className="mt-1 text-sm text-red-600">{promoError}</p>}
+          </div>
+        </div>
+      )}
+
+      {/* Payment and Totals */}
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-6">
+        <div className="flex-1 max-w-2xl">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Payment</label>
+          <PaymentEntry amountDue={total} drafts={paymentDrafts} onChange={setPaymentDrafts} />
+        </div>
+        <div className="text-right space-y-1">
+          <p className="text-gray-600">Subtotal: RM {subtotal.toFixed(2)}</p>
+          {lineDiscountTotal > 0 && <p className="text-gray-600">Line discounts: -RM {lineDiscountTotal.toFixed(2)}</p>}
+          {promoDiscount > 0 && <p className="text-gray-600">Promo {promo?.code}: -RM {promoDiscount.toFixed(2)}</p>}
+          {billDiscountAmount > 0 && <p className="text-gray-600">Bill discount: -RM {billDiscountAmount.toFixed(2)}</p>}
+          {charges.serviceCharge > 0 && (
+            <p className="text-gray-600">
+              Service charge ({taxSettings?.service_charge_rate}%): RM {charges.serviceCharge.toFixed(2)}
+            </p>
+          )}
+          {charges.tax > 0 && (
+            <p className="text-gray-600">
+              SST ({taxSettings?.sst_rate}%{taxSettings?.prices_include_tax && ', included'}): RM {charges.tax.toFixed(2)}
+            </p>
+          )}
+          <p className="text-2xl font-bold text-pink-600">Total: RM {total.toFixed(2)}</p>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-6 py-3 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting || lines.length === 0}
+          className="px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-600 text-white font-semibold rounded-lg shadow-lg disabled:opacity-50"
+        >
+          {isSubmitting ? 'Saving...' : 'Record sale'}
+        </button>
+      </div>
+    </form>
+  );
+}
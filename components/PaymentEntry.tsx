@@ -0,0 +1,149 @@
+'use client';
+
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS, PaymentInput, PaymentMethod } from '@/lib/sales';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+export interface PaymentDraft {
+  key: number;
+  method: PaymentMethod;
+  amount: string;
+  tendered: string;
+  reference: string;
+}
+
+export const newPaymentDraft = (amount: number, method: PaymentMethod = 'cash'): PaymentDraft => ({
+  key: Date.now() + Math.random(),
+  method,
+  amount: amount > 0 ? amount.toFixed(2) : '',
+  tendered: '',
+  reference: ''
+});
+
+export const draftTotal = (drafts: PaymentDraft[]) =>
+  drafts.reduce((sum, draft) => sum + (parseFloat(draft.amount) || 0), 0);
+
+export const draftsToPayments = (drafts: PaymentDraft[]): PaymentInput[] =>
+  drafts
+    .filter(draft => (parseFloat(draft.amount) || 0) > 0)
+    .map(draft => ({
+      method: draft.method,
+      amount: parseFloat(draft.amount),
+      tendered: draft.method === 'cash' && draft.tendered ? parseFloat(draft.tendered) : null,
+      reference: draft.method === 'cash' ? null : draft.reference.trim() || null
+    }));
+
+// Returns a message for the first tender that cannot be accepted, or null.
+export function validatePaymentDrafts(drafts: PaymentDraft[], amountDue: number) {
+  const total = draftTotal(drafts);
+  if (total - amountDue > 0.005) {
+    return `Payments total RM ${total.toFixed(2)}, more than the RM ${amountDue.toFixed(2)} due`;
+  }
+  const shortCash = drafts.find(draft =>
+    draft.method === 'cash' && draft.tendered && parseFloat(draft.tendered) < (parseFloat(draft.amount) || 0)
+  );
+  if (shortCash) {
+    return 'Cash received is less than the cash amount';
+  }
+  return null;
+}
+
+interface PaymentEntryProps {
+  amountDue: number;
+  drafts: PaymentDraft[];
+  onChange: (drafts: PaymentDraft[]) => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all';
+
+// One row per tender. Cash rows take the amount handed over and show the change.
+export default function PaymentEntry({ amountDue, drafts, onChange }: PaymentEntryProps) {
+  const remaining = amountDue - draftTotal(drafts);
+
+  const updateDraft = (key: number, changes: Partial<PaymentDraft>) => {
+    onChange(drafts.map(draft => (draft.key === key ? { ...draft, ...changes } : draft)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {drafts.map(draft => {
+        const amount = parseFloat(draft.amount) || 0;
+        const change = draft.tendered ? parseFloat(draft.tendered) - amount : 0;
+        return (
+          <div key={draft.key} className="grid grid-cols-12 gap-2 items-center">
+            <select
+              value={draft.method}
+              onChange={(e) => updateDraft(draft.key, { method: e.target.value as PaymentMethod })}
+              className={`${inputClass} bg-white col-span-4`}
+            >
+              {PAYMENT_METHODS.map(method => (
+                <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={draft.amount}
+              onChange={(e) => updateDraft(draft.key, { amount: e.target.value })}
+              placeholder="Amount"
+              className={`${inputClass} col-span-3`}
+            />
+            {draft.method === 'cash' ? (
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={draft.tendered}
+                onChange={(e) => updateDraft(draft.key, { tendered: e.target.value })}
+                placeholder="Cash received"
+                className={`${inputClass} col-span-3`}
+              />
+            ) : (
+              <input
+                type="text"
+                value={draft.reference}
+                onChange={(e) => updateDraft(draft.key, { reference: e.target.value })}
+                placeholder="Reference no."
+                className={`${inputClass} col-span-3`}
+              />
+            )}
+            <div className="col-span-2 flex items-center justify-end gap-2">
+              {draft.method === 'cash' && change > 0 && (
+                <span className="text-sm text-green-700 whitespace-nowrap">Change RM {change.toFixed(2)}</span>
+              )}
+              {drafts.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => onChange(drafts.filter(d => d.key !== draft.key))}
+                  className="p-1 text-gray-400 hover:text-red-600"
+                >
+                  <TrashIcon className="h-5 w-5" />
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          onClick={() => onChange([...drafts, newPaymentDraft(remaining, 'card')])}
+          disabled={remaining <= 0}
+          className="inline-flex items-center text-pink-600 hover:text-pink-700 disabled:opacity-50"
+        >
+          <PlusIcon className="h-4 w-4 mr-1" />
+          Split payment
+        </button>
+        {remaining > 0.005 ? (
+          <span className="text-gray-600">Remaining: RM {remaining.toFixed(2)}</span>
+        ) : remaining < -0.005 ? (
+          <span className="text-red-600">Over by RM {(-remaining).toFixed(2)}</span>
+        ) : (
+          <span className="text-green-700">Fully paid</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useState } from 'react';
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS, PaymentMethod, refundSale, voidSale } from '@/lib/sales';
+
+export type SaleCorrection = 'refund' | 'void';
+
+interface SaleCorrectionFormProps {
+  saleId: string;
+  receiptNumber: string;
+  mode: SaleCorrection;
+  // Paid and not yet refunded.
+  refundable: number;
+  defaultMethod?: PaymentMethod;
+  onDone: () => void;
+  onCancel: () => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent transition-all';
+
+// Refund or void form shown on a sale card. The database checks the manager
+// permission; this form only collects the details.
+export default function SaleCorrectionForm({
+  saleId,
+  receiptNumber,
+  mode,
+  refundable,
+  defaultMethod = 'cash',
+  onDone,
+  onCancel
+}: SaleCorrectionFormProps) {
+  const [amount, setAmount] = useState(refundable.toFixed(2));
+  const [method, setMethod] = useState<PaymentMethod>(defaultMethod);
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    setError(null);
+    if (!reason.trim()) {
+      setError(`Give a reason for the ${mode}`);
+      return;
+    }
+
+    const refundAmount = parseFloat(amount);
+    if (mode === 'refund' && (isNaN(refundAmount) || refundAmount <= 0 || refundAmount > refundable + 0.005)) {
+      setError(`Enter an amount up to RM ${refundable.toFixed(2)}`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      if (mode === 'refund') {
+        await refundSale(saleId, refundAmount, method, reason.trim());
+      } else {
+        await voidSale(saleId, reason.trim());
+      }
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${mode} sale`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-semibold text-gray-900">
+        {mode === 'refund' ? 'Refund' : 'Void'} receipt <span className="font-mono">{receiptNumber}</span>
+      </h4>
+      {mode === 'void' && (
+        <p className="text-sm text-gray-600">
+          The sale stays on record with its receipt number but no longer counts towards revenue.
+        </p>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {mode === 'refund' && (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Amount (RM)</label>
+              <input
+                type="number"
+                min={0}
+                max={refundable}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Refund by</label>
+              <select
+                value={method}
+                onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+                className={inputClass}
+              >
+                {PAYMENT_METHODS.map(option => (
+                  <option key={option} value={option}>{PAYMENT_METHOD_LABELS[option]}</option>
+                ))}
+              </select>
+            </div>
+          </>
+        )}
+        <div className={mode === 'refund' ? '' : 'md:col-span-3'}>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Reason *</label>
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={mode === 'refund' ? 'e.g. Customer unhappy with colour' : 'e.g. Wrong amount entered'}
+            className={inputClass}
+          />
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={isSubmitting}
+          className="px-4 py-2 text-sm bg-red-600 text-white font-semibold rounded-lg shadow hover:bg-red-700 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Saving...' : mode === 'refund' ? 'Refund' : 'Void sale'}
+        </button>
+      </div>
+    </div>
+  );
+}
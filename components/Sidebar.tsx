@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { LogOut, LayoutDashboard, Calendar, ShoppingCart, ListChecks, BarChart, Menu, X } from 'lucide-react';
+import { LogOut, LayoutDashboard, Calendar, ShoppingCart, Wallet, FileText, ListChecks, Users, Contact, BarChart, Tag, Menu, X } from 'lucide-react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -29,12 +29,42 @@ const navigationItems = [
     label: 'Sales',
     description: 'Daily transactions'
   },
+  {
+    href: '/cash-up',
+    icon: Wallet,
+    label: 'Cash-up',
+    description: 'Close the day & Z-reports'
+  },
+  {
+    href: '/einvoices',
+    icon: FileText,
+    label: 'e-Invoices',
+    description: 'LHDN MyInvois documents'
+  },
+  {
+    href: '/customers',
+    icon: Contact,
+    label: 'Customers',
+    description: 'Profiles & visit history'
+  },
   {
     href: '/services',
     icon: ListChecks,
     label: 'Services',
     description: 'Manage services'
   },
+  {
+    href: '/promotions',
+    icon: Tag,
+    label: 'Promotions',
+    description: 'Promo codes & discounts'
+  },
+  {
+    href: '/staff',
+    icon: Users,
+    label: 'Staff',
+    description: 'Manage your team'
+  },
   {
     href: '/analytics',
     icon: BarChart,
@@ -0,0 +1,189 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import dayjs from 'dayjs';
+import { AvailableSlot, findAvailableSlots } from '@/lib/appointments';
+import { StaffMember } from '@/lib/staff';
+
+// Longest range searched at once, to keep the list readable.
+const MAX_RANGE_DAYS = 14;
+
+export interface SlotChoice {
+  date: string;
+  time: string;
+  staffId: string;
+}
+
+interface SlotFinderProps {
+  duration: number;
+  buffer: number;
+  staff: StaffMember[];
+  initialStaffId: string;
+  initialDate: string;
+  excludeId?: string | null;
+  onSelect: (choice: SlotChoice) => void;
+}
+
+// Open start times for the selected services, by day, for one staff member
+// or anyone. Picking a time (and, for anyone, a staff member) fills the form.
+export default function SlotFinder({
+  duration,
+  buffer,
+  staff,
+  initialStaffId,
+  initialDate,
+  excludeId,
+  onSelect
+}: SlotFinderProps) {
+  const today = dayjs().format('YYYY-MM-DD');
+  const start = initialDate && initialDate >= today ? initialDate : today;
+  const [staffId, setStaffId] = useState(initialStaffId);
+  const [from, setFrom] = useState(start);
+  const [to, setTo] = useState(dayjs(start).add(6, 'day').format('YYYY-MM-DD'));
+  const [slots, setSlots] = useState<AvailableSlot[]>([]);
+  const [pickedSlot, setPickedSlot] = useState<AvailableSlot | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const rangeError =
+    !from || !to || to < from
+      ? 'Choose a date range'
+      : dayjs(to).diff(dayjs(from), 'day') >= MAX_RANGE_DAYS
+        ? `Search up to ${MAX_RANGE_DAYS} days at a time`
+        : null;
+
+  useEffect(() => {
+    setPickedSlot(null);
+    if (rangeError || duration <= 0) {
+      setSlots([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    findAvailableSlots({ from, to, duration, buffer, staffId, excludeId })
+      .then(result => {
+        if (!cancelled) setSlots(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to find available slots');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [from, to, duration, buffer, staffId, excludeId, rangeError]);
+
+  const staffName = (id: string) => staff.find(member => member.id === id)?.name || 'Staff';
+
+  const handlePick = (slot: AvailableSlot) => {
+    if (slot.staffIds.length === 1 || staffId) {
+      onSelect({ date: slot.date, time: slot.time, staffId: staffId || slot.staffIds[0] });
+    } else {
+      setPickedSlot(slot);
+    }
+  };
+
+  const days = [...new Set(slots.map(slot => slot.date))];
+
+  return (
+    <div className="border border-pink-200 bg-pink-50/40 rounded-xl p-4 space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Staff</label>
+          <select
+            value={staffId}
+            onChange={(e) => setStaffId(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+          >
+            <option value="">Any staff member</option>
+            {staff.filter(member => member.active).map(member => (
+              <option key={member.id} value={member.id}>{member.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">From</label>
+          <input
+            type="date"
+            value={from}
+            min={today}
+            onChange={(e) => setFrom(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">To</label>
+          <input
+            type="date"
+            value={to}
+            min={from}
+            onChange={(e) => setTo(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {duration} mins{buffer > 0 ? ` plus ${buffer} mins buffer` : ''}, within opening hours and staff shifts.
+      </p>
+
+      {rangeError ? (
+        <p className="text-sm text-red-600">{rangeError}</p>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : loading ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-pink-500"></div>
+        </div>
+      ) : days.length === 0 ? (
+        <p className="text-sm text-gray-500">No open slots in this range. Try other dates or another staff member.</p>
+      ) : (
+        <div className="space-y-3 max-h-80 overflow-y-auto">
+          {days.map(day => (
+            <div key={day}>
+              <h5 className="text-sm font-semibold text-gray-800 mb-2">{dayjs(day).format('ddd, D MMM')}</h5>
+              <div className="flex flex-wrap gap-2">
+                {slots.filter(slot => slot.date === day).map(slot => (
+                  <button
+                    key={slot.time}
+                    type="button"
+                    onClick={() => handlePick(slot)}
+                    title={slot.staffIds.map(staffName).join(', ')}
+                    className={`px-3 py-1 rounded-lg border text-sm transition-colors ${
+                      pickedSlot === slot
+                        ? 'border-pink-500 bg-pink-500 text-white'
+                        : 'border-gray-300 bg-white hover:border-pink-400 hover:bg-pink-50'
+                    }`}
+                  >
+                    {slot.time}
+                    {!staffId && <span className="ml-1 text-xs opacity-70">({slot.staffIds.length})</span>}
+                  </button>
+                ))}
+              </div>
+              {pickedSlot?.date === day && (
+                <div className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-gray-600">Book {pickedSlot.time} with</span>
+                  {pickedSlot.staffIds.map(id => (
+                    <button
+                      key={id}
+                      type="button"
+                      onClick={() => onSelect({ date: pickedSlot.date, time: pickedSlot.time, staffId: id })}
+                      className="px-3 py-1 rounded-full bg-purple-100 text-purple-800 hover:bg-purple-200"
+                    >
+                      {staffName(id)}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import dayjs from 'dayjs';
+import { supabase } from '@/lib/supabase';
+import { DateRange } from '@/lib/dateRanges';
+import { PaymentMethod, SALE_DETAILS_SELECT } from '@/lib/sales';
+import { DiscountType } from '@/lib/discounts';
+
+// Aggregates computed in SQL (see the sales_analytics and analytics_filters
+// migrations). Revenue is net of refunds and voids. Omitting a bound leaves
+// that side open; the other filters pick sales with a matching line or
+// payment.
+export interface AnalyticsFilters {
+  from?: string | null;
+  to?: string | null;
+  staffId?: string | null;
+  serviceId?: string | null;
+  paymentMethod?: PaymentMethod | null;
+}
+
+export type RevenueBucket = 'day' | 'week' | 'month';
+
+export interface PeriodRevenue {
+  period: string;
+  salesCount: number;
+  revenue: number;
+  discounts: number;
+}
+
+export interface ServiceRevenueTotal {
+  serviceId: string | null;
+  service: string;
+  quantity: number;
+  revenue: number;
+}
+
+export interface StaffRevenueTotal {
+  staffId: string | null;
+  staff: string;
+  salesCount: number;
+  quantity: number;
+  revenue: number;
+}
+
+export interface SalesTotals {
+  salesCount: number;
+  voidedCount: number;
+  revenue: number;
+  refunded: number;
+  discountTotal: number;
+  lineDiscounts: number;
+  promoDiscounts: number;
+  billDiscounts: number;
+  overrideCount: number;
+  overrideAmount: number;
+  firstSaleDate: string | null;
+}
+
+export interface PromoCodeUsage {
+  id: string;
+  code: string;
+  discount_type: DiscountType;
+  discount_value: number;
+  times_used: number;
+  discount_given: number;
+}
+
+const filterParams = (filters: AnalyticsFilters) => ({
+  p_from: filters.from || null,
+  p_to: filters.to || null,
+  p_staff_id: filters.staffId || null,
+  p_service_id: filters.serviceId || null,
+  p_payment_method: filters.paymentMethod || null
+});
+
+// One row per bucket between from and to, empty buckets included.
+export async function fetchRevenueByPeriod(
+  range: DateRange,
+  bucket: RevenueBucket = 'day',
+  filters: AnalyticsFilters = {}
+): Promise<PeriodRevenue[]> {
+  const { data, error } = await supabase.rpc('revenue_by_period', {
+    ...filterParams({ ...filters, ...range }),
+    p_bucket: bucket
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch revenue by ${bucket}: ${error.message}`);
+  }
+
+  return (data || []).map((row: { period: string; sales_count: number; revenue: number; discounts: number }) => ({
+    period: row.period,
+    salesCount: Number(row.sales_count),
+    revenue: Number(row.revenue),
+    discounts: Number(row.discounts)
+  }));
+}
+
+export async function fetchRevenueByService(filters: AnalyticsFilters = {}): Promise<ServiceRevenueTotal[]> {
+  const { data, error } = await supabase.rpc('revenue_by_service', filterParams(filters));
+
+  if (error) {
+    throw new Error(`Failed to fetch revenue by service: ${error.message}`);
+  }
+
+  return (data || []).map((row: { service_id: string | null; service: string; quantity: number; revenue: number }) => ({
+    serviceId: row.service_id,
+    service: row.service,
+    quantity: Number(row.quantity),
+    revenue: Number(row.revenue)
+  }));
+}
+
+export async function fetchRevenueByStaff(filters: AnalyticsFilters = {}): Promise<StaffRevenueTotal[]> {
+  const { data, error } = await supabase.rpc('revenue_by_staff', filterParams(filters));
+
+  if (error) {
+    throw new Error(`Failed to fetch revenue by staff: ${error.message}`);
+  }
+
+  return (data || []).map(
+    (row: { staff_id: string | null; staff: string | null; sales_count: number; quantity: number; revenue: number }) => ({
+      staffId: row.staff_id,
+      staff: row.staff || 'Unassigned',
+      salesCount: Number(row.sales_count),
+      quantity: Number(row.quantity),
+      revenue: Number(row.revenue)
+    })
+  );
+}
+
+export async function fetchSalesTotals(filters: AnalyticsFilters = {}): Promise<SalesTotals> {
+  const { data, error } = await supabase.rpc('sales_totals', filterParams(filters)).single();
+
+  if (error) {
+    throw new Error(`Failed to fetch sales totals: ${error.message}`);
+  }
+
+  const row = data as Record<string, number | string | null>;
+  return {
+    salesCount: Number(row.sales_count),
+    voidedCount: Number(row.voided_count),
+    revenue: Number(row.revenue),
+    refunded: Number(row.refunded),
+    discountTotal: Number(row.discount_total),
+    lineDiscounts: Number(row.line_discounts),
+    promoDiscounts: Number(row.promo_discounts),
+    billDiscounts: Number(row.bill_discounts),
+    overrideCount: Number(row.override_count),
+    overrideAmount: Number(row.override_amount),
+    firstSaleDate: row.first_sale_date as string | null
+  };
+}
+
+export async function fetchPromoCodeUsage(filters: AnalyticsFilters = {}): Promise<PromoCodeUsage[]> {
+  const { data, error } = await supabase.rpc('promo_code_usage', filterParams(filters));
+
+  if (error) {
+    throw new Error(`Failed to fetch promo code usage: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+export type ComparisonBaseline = 'previous_period' | 'previous_year';
+
+export const COMPARISON_BASELINE_LABELS: Record<ComparisonBaseline, string> = {
+  previous_period: 'Previous period',
+  previous_year: 'Same period last year'
+};
+
+// The range to compare against. The previous period is the same number of
+// days immediately before, except for whole months, which compare with the
+// months before, and month-to-date, which compares with the same dates last
+// month (clamped to the end of shorter months).
+export function comparisonRange(range: DateRange, baseline: ComparisonBaseline): DateRange {
+  const from = dayjs(range.from);
+  const to = dayjs(range.to);
+  const shift = (amount: number, unit: 'day' | 'month' | 'year') => ({
+    from: from.subtract(amount, unit).format('YYYY-MM-DD'),
+    to: to.subtract(amount, unit).format('YYYY-MM-DD')
+  });
+
+  if (baseline === 'previous_year') return shift(1, 'year');
+  if (from.date() === 1 && to.isSame(to.endOf('month'), 'day')) {
+    const months = to.diff(from, 'month') + 1;
+    return {
+      from: from.subtract(months, 'month').format('YYYY-MM-DD'),
+      to: to.subtract(months, 'month').endOf('month').format('YYYY-MM-DD')
+    };
+  }
+  if (from.date() === 1 && to.isSame(from, 'month') && to.isSame(dayjs(), 'day')) return shift(1, 'month');
+  return shift(to.diff(from, 'day') + 1, 'day');
+}
+
+export const comparisonLabel = (baseline: ComparisonBaseline) =>
+  baseline === 'previous_year' ? 'vs last year' : 'vs previous period';
+
+// Percentage change from previous to current, or null when there is
+// nothing to compare against.
+export const growthPercent = (current: number, previous: number) =>
+  previous > 0 ? ((current - previous) / previous) * 100 : null;
+
+// The sales behind the aggregates, with their lines, payments and refunds,
+// for export.
+export async function fetchAnalyticsSales(filters: AnalyticsFilters) {
+  const { data, error } = await supabase
+    .rpc('analytics_sales', filterParams(filters))
+    .select(SALE_DETAILS_SELECT)
+    .order('date')
+    .order('created_at');
+
+  if (error) {
+    throw new Error(`Failed to fetch sales: ${error.message}`);
+  }
+
+  return data || [];
+}
@@ -0,0 +1,239 @@
+import dayjs from 'dayjs';
+import { supabase } from '@/lib/supabase';
+
+export type AppointmentStatus =
+  | 'booked'
+  | 'confirmed'
+  | 'checked_in'
+  | 'in_service'
+  | 'completed'
+  | 'cancelled'
+  | 'no_show';
+
+export const APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  'booked',
+  'confirmed',
+  'checked_in',
+  'in_service',
+  'completed',
+  'cancelled',
+  'no_show',
+];
+
+// Appointments that are still expected to take place.
+export const ACTIVE_STATUSES: AppointmentStatus[] = ['booked', 'confirmed', 'checked_in', 'in_service'];
+
+export const STATUS_LABELS: Record<AppointmentStatus, string> = {
+  booked: 'Booked',
+  confirmed: 'Confirmed',
+  checked_in: 'Checked in',
+  in_service: 'In service',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  no_show: 'No-show',
+};
+
+export const STATUS_BADGE_CLASSES: Record<AppointmentStatus, string> = {
+  booked: 'bg-gray-100 text-gray-800',
+  confirmed: 'bg-blue-100 text-blue-800',
+  checked_in: 'bg-yellow-100 text-yellow-800',
+  in_service: 'bg-purple-100 text-purple-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+  no_show: 'bg-orange-100 text-orange-800',
+};
+
+// Button text for moving an appointment into each status.
+export const STATUS_ACTION_LABELS: Record<AppointmentStatus, string> = {
+  booked: 'Rebook',
+  confirmed: 'Confirm',
+  checked_in: 'Check in',
+  in_service: 'Start service',
+  completed: 'Complete',
+  cancelled: 'Cancel',
+  no_show: 'Mark no-show',
+};
+
+// Column on `appointments` that records when each status was entered.
+const STATUS_TIMESTAMP_COLUMNS: Record<AppointmentStatus, string> = {
+  booked: 'booked_at',
+  confirmed: 'confirmed_at',
+  checked_in: 'checked_in_at',
+  in_service: 'in_service_at',
+  completed: 'completed_at',
+  cancelled: 'cancelled_at',
+  no_show: 'no_show_at',
+};
+
+// Completion is not listed here: it has to go through completeAppointment so
+// that a sale is recorded alongside it.
+const STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  booked: ['confirmed', 'checked_in', 'cancelled', 'no_show'],
+  confirmed: ['checked_in', 'cancelled', 'no_show'],
+  checked_in: ['in_service', 'cancelled'],
+  in_service: [],
+  completed: [],
+  cancelled: [],
+  no_show: [],
+};
+
+export const getNextStatuses = (status: AppointmentStatus) => STATUS_TRANSITIONS[status];
+
+export const canComplete = (status: AppointmentStatus) => ACTIVE_STATUSES.includes(status);
+
+export async function updateAppointmentStatus(id: string, from: AppointmentStatus, to: AppointmentStatus) {
+  if (!STATUS_TRANSITIONS[from].includes(to)) {
+    throw new Error(`Cannot change appointment from ${STATUS_LABELS[from]} to ${STATUS_LABELS[to]}`);
+  }
+
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('appointments')
+    .update({ status: to, status_changed_at: now, [STATUS_TIMESTAMP_COLUMNS[to]]: now })
+    .eq('id', id)
+    .eq('status', from);
+
+  if (error) {
+    throw new Error(`Failed to update appointment status: ${error.message}`);
+  }
+}
+
+// Completes the appointment and records its sale in one database transaction
+// (see the complete_appointment function). Safe to call twice for the same
+// appointment: the second call returns the existing sale.
+export async function completeAppointment(appointmentId: string) {
+  const { data: sale, error } = await supabase
+    .rpc('complete_appointment', { p_appointment_id: appointmentId })
+    .single();
+
+  if (error) {
+    throw new Error(
+      error.code === '42501' || error.code === 'P0001' ? error.message : `Failed to complete appointment: ${error.message}`
+    );
+  }
+
+  return sale;
+}
+
+export const timeToMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':');
+  return parseInt(hours) * 60 + parseInt(minutes);
+};
+
+export interface StaffBooking {
+  id: string;
+  customer_name: string;
+  time: string;
+  total_duration: number;
+  status: AppointmentStatus;
+}
+
+interface ConflictQuery {
+  staffId: string;
+  date: string;
+  time: string;
+  duration: number;
+  excludeId?: string | null;
+}
+
+// Active appointments for the same staff member whose time span overlaps the
+// requested one. The database enforces the same rule with an exclusion
+// constraint unless the booking is saved with allow_overlap.
+export async function findStaffConflicts({ staffId, date, time, duration, excludeId }: ConflictQuery) {
+  let query = supabase
+    .from('appointments')
+    .select('id, customer_name, time, total_duration, status')
+    .eq('staff_id', staffId)
+    .eq('date', date)
+    .in('status', ACTIVE_STATUSES);
+
+  if (excludeId) {
+    query = query.neq('id', excludeId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to check staff availability: ${error.message}`);
+  }
+
+  const start = timeToMinutes(time);
+  const end = start + duration;
+  return ((data || []) as StaffBooking[]).filter(booking => {
+    const bookingStart = timeToMinutes(booking.time);
+    return bookingStart < end && start < bookingStart + booking.total_duration;
+  });
+}
+
+// Postgres exclusion_violation, raised by appointments_no_staff_overlap.
+export const isStaffOverlapError = (error: { code?: string } | null) => error?.code === '23P01';
+
+export interface AvailableSlot {
+  date: string;
+  time: string;
+  // Ids of the staff free at this time, in order of their names.
+  staffIds: string[];
+}
+
+interface SlotQuery {
+  from: string;
+  to: string;
+  duration: number;
+  buffer?: number;
+  staffId?: string | null;
+  excludeId?: string | null;
+}
+
+// Open start times for a booking, from find_available_slots. Times already
+// past today are left out.
+export async function findAvailableSlots({ from, to, duration, buffer = 0, staffId, excludeId }: SlotQuery) {
+  const { data, error } = await supabase.rpc('find_available_slots', {
+    p_from: from,
+    p_to: to,
+    p_duration: duration,
+    p_buffer: buffer,
+    p_staff_id: staffId || null,
+    p_exclude_appointment_id: excludeId || null
+  });
+
+  if (error) {
+    throw new Error(`Failed to find available slots: ${error.message}`);
+  }
+
+  const today = dayjs().format('YYYY-MM-DD');
+  const nowMinutes = timeToMinutes(dayjs().format('HH:mm'));
+
+  return ((data || []) as { date: string; time: string; staff_ids: string[] }[])
+    .filter(slot => slot.date > today || (slot.date === today && timeToMinutes(slot.time) > nowMinutes))
+    .map(slot => ({ date: slot.date, time: slot.time.slice(0, 5), staffIds: slot.staff_ids }));
+}
+
+export interface RescheduleChanges {
+  date: string;
+  time: string;
+  staffId: string | null;
+  staffName: string | null;
+  allowOverlap: boolean;
+}
+
+// Moves an appointment to another time or staff member. Callers check
+// opening hours, shifts and conflicts first; the database still rejects
+// clashes and bookings outside opening hours.
+export async function rescheduleAppointment(appointmentId: string, changes: RescheduleChanges) {
+  const { error } = await supabase
+    .from('appointments')
+    .update({
+      date: changes.date,
+      time: changes.time,
+      staff_id: changes.staffId,
+      staff: changes.staffName,
+      allow_overlap: changes.allowOverlap
+    })
+    .eq('id', appointmentId);
+
+  if (isStaffOverlapError(error)) {
+    throw new Error('Another booking for this staff member was just saved at an overlapping time');
+  }
+  if (error) {
+    throw new Error(error.code === 'P0001' ? error.message : `Failed to reschedule appointment: ${error.message}`);
+  }
+}
@@ -0,0 +1,11 @@
+import { supabase } from '@/lib/supabase';
+
+// Managers are the users listed as admins on the Settings page. The database
+// enforces this too; this is only for showing or hiding manager controls.
+export async function isCurrentUserManager() {
+  const { data, error } = await supabase.rpc('is_manager');
+  if (error) {
+    throw new Error(`Failed to check permissions: ${error.message}`);
+  }
+  return data === true;
+}
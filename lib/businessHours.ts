@@ -0,0 +1,215 @@
+import dayjs from 'dayjs';
+import { supabase } from '@/lib/supabase';
+import { timeToMinutes } from '@/lib/appointments';
+
+// Opening hours for one weekday (0 is Sunday). No times means open all day.
+export interface BusinessHours {
+  weekday: number;
+  is_open: boolean;
+  open_time: string | null;
+  close_time: string | null;
+}
+
+export interface BusinessClosure {
+  id: string;
+  start_date: string;
+  end_date: string;
+  reason: string;
+}
+
+export type BusinessClosureInput = Omit<BusinessClosure, 'id'>;
+
+// Null state_codes means a nationwide holiday.
+export interface PublicHoliday {
+  id: string;
+  date: string;
+  name: string;
+  state_codes: string[] | null;
+}
+
+export type PublicHolidayInput = Omit<PublicHoliday, 'id'>;
+
+export interface BusinessDay {
+  date: string;
+  isOpen: boolean;
+  openTime: string | null;
+  closeTime: string | null;
+  // Why the outlet is closed, when it is.
+  reason: string | null;
+}
+
+export async function fetchBusinessHours(): Promise<BusinessHours[]> {
+  const { data, error } = await supabase
+    .from('business_hours')
+    .select('weekday, is_open, open_time, close_time')
+    .order('weekday');
+
+  if (error) {
+    throw new Error(`Failed to fetch opening hours: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+export async function saveBusinessHours(hours: BusinessHours[]) {
+  const { error } = await supabase
+    .from('business_hours')
+    .upsert(hours.map(day => ({ ...day, updated_at: new Date().toISOString() })));
+
+  if (error) {
+    throw new Error(`Failed to save opening hours: ${error.message}`);
+  }
+}
+
+export async function fetchBusinessClosures(from: string): Promise<BusinessClosure[]> {
+  const { data, error } = await supabase
+    .from('business_closures')
+    .select('id, start_date, end_date, reason')
+    .gte('end_date', from)
+    .order('start_date');
+
+  if (error) {
+    throw new Error(`Failed to fetch closures: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+export async function addBusinessClosure(closure: BusinessClosureInput) {
+  const { error } = await supabase.from('business_closures').insert([closure]);
+
+  if (error) {
+    throw new Error(`Failed to add closure: ${error.message}`);
+  }
+}
+
+export async function deleteBusinessClosure(id: string) {
+  const { error } = await supabase.from('business_closures').delete().eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to delete closure: ${error.message}`);
+  }
+}
+
+export async function fetchHolidayStateCode(): Promise<string | null> {
+  const { data, error } = await supabase.from('holiday_settings').select('state_code').single();
+
+  if (error) {
+    throw new Error(`Failed to fetch holiday settings: ${error.message}`);
+  }
+
+  return data.state_code;
+}
+
+export async function saveHolidayStateCode(stateCode: string | null) {
+  const { error } = await supabase
+    .from('holiday_settings')
+    .update({ state_code: stateCode, updated_at: new Date().toISOString() })
+    .eq('id', true);
+
+  if (error) {
+    throw new Error(`Failed to save holiday settings: ${error.message}`);
+  }
+}
+
+export async function fetchPublicHolidays(from: string): Promise<PublicHoliday[]> {
+  const { data, error } = await supabase
+    .from('public_holidays')
+    .select('id, date, name, state_codes')
+    .gte('date', from)
+    .order('date');
+
+  if (error) {
+    throw new Error(`Failed to fetch public holidays: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+// Holidays already on the list (same date and name) are left alone, so a
+// calendar can be loaded more than once.
+export async function addPublicHolidays(holidays: PublicHolidayInput[]) {
+  const { error } = await supabase
+    .from('public_holidays')
+    .upsert(holidays, { onConflict: 'date,name', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to add public holidays: ${error.message}`);
+  }
+}
+
+export async function deletePublicHoliday(id: string) {
+  const { error } = await supabase.from('public_holidays').delete().eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to delete public holiday: ${error.message}`);
+  }
+}
+
+// Malaysian holidays that fall on the same date every year, with the states
+// that observe them (codes as in MALAYSIAN_STATES). Holidays that follow the
+// lunar or Islamic calendars, and rulers' birthdays, move from year to year
+// and are added by hand from the gazetted list.
+const MALAYSIAN_FIXED_HOLIDAYS: { month: number; day: number; name: string; states: string[] | null }[] = [
+  { month: 1, day: 1, name: "New Year's Day", states: ['04', '05', '06', '07', '08', '10', '12', '13', '14', '15', '16'] },
+  { month: 2, day: 1, name: 'Federal Territory Day', states: ['14', '15', '16'] },
+  { month: 5, day: 1, name: 'Labour Day', states: null },
+  { month: 5, day: 30, name: 'Pesta Kaamatan', states: ['12', '15'] },
+  { month: 5, day: 31, name: 'Pesta Kaamatan (second day)', states: ['12', '15'] },
+  { month: 6, day: 1, name: 'Hari Gawai', states: ['13'] },
+  { month: 6, day: 2, name: 'Hari Gawai (second day)', states: ['13'] },
+  { month: 7, day: 7, name: 'George Town World Heritage City Day', states: ['07'] },
+  { month: 7, day: 22, name: 'Sarawak Day', states: ['13'] },
+  { month: 8, day: 31, name: 'National Day', states: null },
+  { month: 9, day: 16, name: 'Malaysia Day', states: null },
+  { month: 12, day: 25, name: 'Christmas Day', states: null }
+];
+
+export function malaysianFixedHolidays(year: number): PublicHolidayInput[] {
+  const date = (month: number, day: number) => dayjs(new Date(year, month - 1, day)).format('YYYY-MM-DD');
+  // The Agong's official birthday is the first Monday of June.
+  const firstOfJune = dayjs(new Date(year, 5, 1));
+  const agongBirthday = firstOfJune.add((8 - firstOfJune.day()) % 7, 'day');
+
+  return [
+    ...MALAYSIAN_FIXED_HOLIDAYS.map(holiday => ({
+      date: date(holiday.month, holiday.day),
+      name: holiday.name,
+      state_codes: holiday.states
+    })),
+    { date: agongBirthday.format('YYYY-MM-DD'), name: "Agong's Birthday", state_codes: null }
+  ].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export async function fetchBusinessCalendar(from: string, to: string): Promise<BusinessDay[]> {
+  const { data, error } = await supabase.rpc('business_calendar', { p_from: from, p_to: to });
+
+  if (error) {
+    throw new Error(`Failed to fetch opening hours: ${error.message}`);
+  }
+
+  return (data || []).map(
+    (row: { date: string; is_open: boolean; open_time: string | null; close_time: string | null; reason: string | null }) => ({
+      date: row.date,
+      isOpen: row.is_open,
+      openTime: row.open_time,
+      closeTime: row.close_time,
+      reason: row.reason
+    })
+  );
+}
+
+// Why a booking does not fit the outlet's day, or null when it does. Mirrors
+// check_appointment_business_hours() in the database.
+export function businessHoursProblem(day: BusinessDay, time: string, duration: number) {
+  if (!day.isOpen) {
+    return `The salon is closed on ${dayjs(day.date).format('D MMM YYYY')} (${day.reason})`;
+  }
+  if (day.openTime && day.closeTime && time) {
+    const start = timeToMinutes(time);
+    if (start < timeToMinutes(day.openTime) || start + duration > timeToMinutes(day.closeTime)) {
+      return `Appointments on ${dayjs(day.date).format('D MMM YYYY')} must fit within opening hours (${day.openTime.slice(0, 5)} to ${day.closeTime.slice(0, 5)})`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,93 @@
+import { supabase } from '@/lib/supabase';
+import { PAYMENT_METHODS, PaymentMethod } from '@/lib/sales';
+
+export interface DayClosureCount {
+  closure_id: string;
+  method: PaymentMethod;
+  expected: number;
+  counted: number;
+  variance: number;
+}
+
+// A closed day and its Z-report figures, as stored when it was closed.
+export interface DayClosure {
+  id: string;
+  outlet_code: string;
+  business_date: string;
+  opening_float: number;
+  sales_count: number;
+  first_receipt_number: string | null;
+  last_receipt_number: string | null;
+  gross_sales: number;
+  discounts: number;
+  service_charge: number;
+  tax: number;
+  voids_count: number;
+  voids_amount: number;
+  refunds_count: number;
+  refunds_amount: number;
+  net_sales: number;
+  notes: string | null;
+  closed_by_email: string | null;
+  closed_at: string;
+  day_closure_counts?: DayClosureCount[];
+}
+
+export interface ExpectedTaking {
+  method: PaymentMethod;
+  amount: number;
+}
+
+export interface CountInput {
+  method: PaymentMethod;
+  counted: number;
+}
+
+export const DAY_CLOSURE_SELECT = '*, day_closure_counts(*)';
+
+// Counts in PAYMENT_METHODS order.
+export const sortCounts = (counts: DayClosureCount[] | undefined) =>
+  [...(counts || [])].sort((a, b) => PAYMENT_METHODS.indexOf(a.method) - PAYMENT_METHODS.indexOf(b.method));
+
+export const totalVariance = (counts: DayClosureCount[] | undefined) =>
+  (counts || []).reduce((sum, count) => sum + Number(count.variance), 0);
+
+// Payments less refunds taken on the day, by method. Excludes the float.
+export async function fetchExpectedTakings(date: string) {
+  const { data, error } = await supabase.rpc('expected_takings', { p_date: date });
+
+  if (error) {
+    throw new Error(`Failed to fetch takings: ${error.message}`);
+  }
+
+  return (data || []) as ExpectedTaking[];
+}
+
+export async function fetchDayClosure(outletCode: string, date: string) {
+  const { data, error } = await supabase
+    .from('day_closures')
+    .select(DAY_CLOSURE_SELECT)
+    .eq('outlet_code', outletCode)
+    .eq('business_date', date)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch day closure: ${error.message}`);
+  }
+
+  return data as DayClosure | null;
+}
+
+export async function closeDay(date: string, openingFloat: number, counts: CountInput[], notes: string) {
+  const { data, error } = await supabase
+    .rpc('close_day', { p_date: date, p_opening_float: openingFloat, p_counts: counts, p_notes: notes })
+    .single();
+
+  if (error) {
+    throw new Error(
+      error.code === '42501' || error.code === 'P0001' ? error.message : `Failed to close the day: ${error.message}`
+    );
+  }
+
+  return data as DayClosure;
+}
@@ -0,0 +1,184 @@
+import { supabase } from '@/lib/supabase';
+
+export type CommissionRuleKind = 'flat' | 'tiered';
+
+export const COMMISSION_RULE_KIND_LABELS: Record<CommissionRuleKind, string> = {
+  flat: 'Flat percentage',
+  tiered: 'Tiered by monthly target'
+};
+
+export interface CommissionTier {
+  target: number;
+  rate: number;
+}
+
+// Null staff_id applies to everyone; null category to every category.
+export interface CommissionRule {
+  id: string;
+  staff_id: string | null;
+  category: string | null;
+  kind: CommissionRuleKind;
+  rate: number | null;
+  tiers: CommissionTier[];
+}
+
+export type CommissionRuleInput = Omit<CommissionRule, 'id'>;
+
+// Net revenue for one staff member in one service category.
+export interface CategoryRevenue {
+  staffId: string;
+  staff: string;
+  category: string | null;
+  serviceCount: number;
+  revenue: number;
+}
+
+export interface CommissionLine {
+  category: string | null;
+  serviceCount: number;
+  revenue: number;
+  rule: CommissionRule | null;
+  rate: number;
+  commission: number;
+}
+
+export interface CommissionStatement {
+  staffId: string;
+  staff: string;
+  revenue: number;
+  commission: number;
+  lines: CommissionLine[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const sameCategory = (a: string | null, b: string | null) =>
+  (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+// The most specific rule for the staff member and category: their own rule
+// for the category, then their own catch-all, then everyone's rule for the
+// category, then everyone's catch-all.
+export function resolveCommissionRule(rules: CommissionRule[], staffId: string, category: string | null) {
+  const candidates: [string | null, string | null][] = [
+    [staffId, category],
+    [staffId, null],
+    [null, category],
+    [null, null]
+  ];
+  for (const [ruleStaff, ruleCategory] of candidates) {
+    if (ruleCategory !== null && !category) continue;
+    const rule = rules.find(r =>
+      r.staff_id === ruleStaff &&
+      (ruleCategory === null ? !r.category : sameCategory(r.category, ruleCategory))
+    );
+    if (rule) return rule;
+  }
+  return null;
+}
+
+// The rate of the highest target reached, or 0 below the first target.
+export function tierRate(tiers: CommissionTier[], monthRevenue: number) {
+  return [...tiers]
+    .sort((a, b) => a.target - b.target)
+    .reduce((rate, tier) => (monthRevenue >= tier.target ? tier.rate : rate), 0);
+}
+
+export function describeCommissionRule(rule: CommissionRule | null) {
+  if (!rule) return 'No rule';
+  if (rule.kind === 'flat') return `${Number(rule.rate)}%`;
+  return [...rule.tiers]
+    .sort((a, b) => a.target - b.target)
+    .map(tier => `${tier.rate}% from RM ${tier.target.toLocaleString()}`)
+    .join(', ');
+}
+
+// One statement per staff member for a month of category revenue. Tiered
+// targets are measured against the staff member's whole month, across
+// categories.
+export function buildCommissionStatements(revenue: CategoryRevenue[], rules: CommissionRule[]): CommissionStatement[] {
+  const byStaff = new Map<string, CategoryRevenue[]>();
+  revenue.forEach(row => byStaff.set(row.staffId, [...(byStaff.get(row.staffId) || []), row]));
+
+  return [...byStaff.values()].map(rows => {
+    const monthRevenue = rows.reduce((sum, row) => sum + row.revenue, 0);
+    const lines = rows.map(row => {
+      const rule = resolveCommissionRule(rules, row.staffId, row.category);
+      const rate = !rule ? 0 : rule.kind === 'flat' ? Number(rule.rate) : tierRate(rule.tiers, monthRevenue);
+      return {
+        category: row.category,
+        serviceCount: row.serviceCount,
+        revenue: row.revenue,
+        rule,
+        rate,
+        commission: round2((row.revenue * rate) / 100)
+      };
+    });
+    return {
+      staffId: rows[0].staffId,
+      staff: rows[0].staff,
+      revenue: round2(monthRevenue),
+      commission: round2(lines.reduce((sum, line) => sum + line.commission, 0)),
+      lines
+    };
+  });
+}
+
+export async function fetchCategoryRevenue(from: string, to: string): Promise<CategoryRevenue[]> {
+  const { data, error } = await supabase.rpc('staff_category_revenue', { p_from: from, p_to: to });
+
+  if (error) {
+    throw new Error(`Failed to fetch staff revenue: ${error.message}`);
+  }
+
+  return (data || []).map(
+    (row: { staff_id: string; staff: string; category: string | null; service_count: number; revenue: number }) => ({
+      staffId: row.staff_id,
+      staff: row.staff,
+      category: row.category,
+      serviceCount: Number(row.service_count),
+      revenue: Number(row.revenue)
+    })
+  );
+}
+
+export async function fetchCommissionRules(): Promise<CommissionRule[]> {
+  const { data, error } = await supabase.from('commission_rules').select('*').order('created_at');
+
+  if (error) {
+    throw new Error(`Failed to fetch commission rules: ${error.message}`);
+  }
+
+  return (data || []).map(rule => ({
+    ...rule,
+    rate: rule.rate === null ? null : Number(rule.rate),
+    tiers: (rule.tiers || []).map((tier: CommissionTier) => ({ target: Number(tier.target), rate: Number(tier.rate) }))
+  }));
+}
+
+export async function saveCommissionRule(rule: CommissionRuleInput, id?: string) {
+  const row = {
+    ...rule,
+    category: rule.category?.trim() || null,
+    rate: rule.kind === 'flat' ? rule.rate : null,
+    tiers: rule.kind === 'tiered' ? rule.tiers : []
+  };
+  const { error } = id
+    ? await supabase.from('commission_rules').update(row).eq('id', id)
+    : await supabase.from('commission_rules').insert([row]);
+
+  if (error) {
+    throw new Error(
+      error.code === '23505'
+        ? 'There is already a rule for that staff member and category'
+        : `Failed to save commission rule: ${error.message}`
+    );
+  }
+}
+
+export async function deleteCommissionRule(id: string) {
+  const { error } = await supabase.from('commission_rules').delete().eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to delete commission rule: ${error.message}`);
+  }
+}
@@ -0,0 +1,121 @@
+import { parsePhoneNumber } from '@/lib/phone';
+
+// Groups customer records that probably belong to the same person so an admin
+// can review and merge them.
+
+export interface DuplicateCandidate {
+  id: string;
+  name: string;
+  phone_number: string | null;
+}
+
+export interface DuplicateCluster<T extends DuplicateCandidate> {
+  customers: T[];
+  reasons: string[];
+}
+
+// Minimum name similarity (0-1) for two records to be grouped on name alone.
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+// E.164 where the number parses, otherwise its digits, so "+60 12-345 6789"
+// and "012 345 6789" compare equal.
+export const normalizePhoneForMatching = (phone: string | null) => {
+  if (!phone) return '';
+  return parsePhoneNumber(phone)?.e164 || phone.replace(/\D/g, '');
+};
+
+export const normalizeName = (name: string) =>
+  name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 1 for identical names. A name that is the other plus extra words
+// ("Aina" / "Aina K") also scores as a match.
+export const nameSimilarity = (a: string, b: string) => {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftTokens = left.split(' ');
+  const rightTokens = right.split(' ');
+  const [shorter, longer] = leftTokens.length <= rightTokens.length
+    ? [leftTokens, rightTokens]
+    : [rightTokens, leftTokens];
+  if (shorter.every((token, index) => longer[index] === token)) {
+    return NAME_SIMILARITY_THRESHOLD;
+  }
+
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+};
+
+export function findDuplicateClusters<T extends DuplicateCandidate>(customers: T[]): DuplicateCluster<T>[] {
+  const parent = customers.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const reasons = new Map<number, Set<string>>();
+  const link = (a: number, b: number, reason: string) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const merged = new Set([...(reasons.get(rootA) || []), ...(reasons.get(rootB) || []), reason]);
+    parent[rootB] = rootA;
+    reasons.set(rootA, merged);
+  };
+
+  const phones = customers.map(customer => normalizePhoneForMatching(customer.phone_number));
+  const byPhone = new Map<string, number>();
+  phones.forEach((phone, index) => {
+    if (!phone) return;
+    const existing = byPhone.get(phone);
+    if (existing === undefined) {
+      byPhone.set(phone, index);
+    } else {
+      link(existing, index, 'Same phone number');
+    }
+  });
+
+  // Different phone numbers mean different people even if the names match.
+  for (let i = 0; i < customers.length; i++) {
+    for (let j = i + 1; j < customers.length; j++) {
+      if (phones[i] && phones[j] && phones[i] !== phones[j]) continue;
+      if (find(i) === find(j)) continue;
+      if (nameSimilarity(customers[i].name, customers[j].name) >= NAME_SIMILARITY_THRESHOLD) {
+        link(i, j, 'Similar name');
+      }
+    }
+  }
+
+  const clusters = new Map<number, T[]>();
+  customers.forEach((customer, index) => {
+    const root = find(index);
+    clusters.set(root, [...(clusters.get(root) || []), customer]);
+  });
+
+  return [...clusters.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({ customers: members, reasons: [...(reasons.get(root) || [])] }));
+}
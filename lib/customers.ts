@@ -0,0 +1,78 @@
+import { supabase } from '@/lib/supabase';
+
+export interface Customer {
+  id: string;
+  name: string;
+  phone_number: string | null;
+  email: string | null;
+  birthday: string | null;
+  notes: string | null;
+  created_at: string;
+  merged_into: string | null;
+}
+
+export interface CustomerSummary extends Customer {
+  visit_count: number;
+  lifetime_spend: number;
+  last_visit: string | null;
+}
+
+// Commas and parentheses would break the PostgREST `or` filter syntax.
+const sanitizeSearchTerm = (term: string) => term.replace(/[,()]/g, ' ').trim();
+
+export async function searchCustomers(term: string, limit = 8) {
+  const search = sanitizeSearchTerm(term);
+  if (!search) return [];
+
+  // Phones are stored as +60..., so "012 345" should match on "12345".
+  const phoneDigits = search.replace(/\D/g, '').replace(/^(60|0)/, '');
+  const phoneSearch = phoneDigits.length >= 3 ? phoneDigits : search;
+
+  const { data, error } = await supabase
+    .from('customers')
+    .select('id, name, phone_number, email, birthday, notes, created_at, merged_into')
+    .is('merged_into', null)
+    .or(`name.ilike.%${search}%,phone_number.ilike.%${phoneSearch}%`)
+    .order('name')
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to search customers: ${error.message}`);
+  }
+
+  return (data || []) as Customer[];
+}
+
+// Returns the customer with this phone number, creating one if none exists.
+// Bookings without a phone number are left without a profile (null): names
+// alone are not unique, and a new profile each time would pile up duplicates.
+export async function findOrCreateCustomer(name: string, phoneNumber: string): Promise<string | null> {
+  const phone = phoneNumber.trim();
+
+  if (!phone) return null;
+
+  const { data: existing, error: findError } = await supabase
+    .from('customers')
+    .select('id, merged_into')
+    .eq('phone_number', phone)
+    .order('merged_into', { nullsFirst: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (findError) {
+    throw new Error(`Failed to look up customer: ${findError.message}`);
+  }
+  if (existing) return (existing.merged_into || existing.id) as string;
+
+  const { data: created, error: insertError } = await supabase
+    .from('customers')
+    .insert([{ name: name.trim(), phone_number: phone }])
+    .select('id')
+    .single();
+
+  if (insertError) {
+    throw new Error(`Failed to create customer: ${insertError.message}`);
+  }
+
+  return created.id as string;
+}
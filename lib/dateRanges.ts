@@ -0,0 +1,51 @@
+import dayjs from 'dayjs';
+
+export type DateRangePreset = 'today' | 'yesterday' | 'this_week' | 'last_week' | 'this_month' | 'last_month' | 'custom';
+
+export const DATE_RANGE_PRESET_LABELS: Record<DateRangePreset, string> = {
+  today: 'Today',
+  yesterday: 'Yesterday',
+  this_week: 'This week',
+  last_week: 'Last week',
+  this_month: 'This month',
+  last_month: 'Last month',
+  custom: 'Custom range',
+};
+
+// Inclusive, as YYYY-MM-DD.
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+const format = (date: dayjs.Dayjs) => date.format('YYYY-MM-DD');
+
+// The dates a preset covers as of today. Weeks start on Sunday, as elsewhere
+// in the app. `custom` has no dates of its own and falls back to today.
+export function presetRange(preset: DateRangePreset, today = dayjs()): DateRange {
+  switch (preset) {
+    case 'yesterday':
+      return { from: format(today.subtract(1, 'day')), to: format(today.subtract(1, 'day')) };
+    case 'this_week':
+      return { from: format(today.startOf('week')), to: format(today) };
+    case 'last_week': {
+      const lastWeek = today.subtract(1, 'week');
+      return { from: format(lastWeek.startOf('week')), to: format(lastWeek.endOf('week')) };
+    }
+    case 'this_month':
+      return { from: format(today.startOf('month')), to: format(today) };
+    case 'last_month': {
+      const lastMonth = today.subtract(1, 'month');
+      return { from: format(lastMonth.startOf('month')), to: format(lastMonth.endOf('month')) };
+    }
+    default:
+      return { from: format(today), to: format(today) };
+  }
+}
+
+// "19 Oct 2026" or "1 Oct – 19 Oct 2026".
+export function describeRange({ from, to }: DateRange) {
+  if (from === to) return dayjs(from).format('D MMM YYYY');
+  const sameYear = dayjs(from).year() === dayjs(to).year();
+  return `${dayjs(from).format(sameYear ? 'D MMM' : 'D MMM YYYY')} – ${dayjs(to).format('D MMM YYYY')}`;
+}
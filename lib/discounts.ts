@@ -0,0 +1,107 @@
+import dayjs from 'dayjs';
+import { supabase } from '@/lib/supabase';
+
+export type DiscountType = 'percent' | 'fixed';
+
+export interface Discount {
+  type: DiscountType;
+  value: number;
+}
+
+export interface BillDiscount extends Discount {
+  reason?: string | null;
+}
+
+export interface PromoCode {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: DiscountType;
+  discount_value: number;
+  eligible_service_ids: string[];
+  valid_from: string | null;
+  valid_until: string | null;
+  usage_limit: number | null;
+  active: boolean;
+}
+
+export interface PromoCodeSummary extends PromoCode {
+  times_used: number;
+  discount_given: number;
+}
+
+export interface DiscountableLine {
+  serviceId: string | null;
+  amount: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const formatDiscount = ({ type, value }: Discount) =>
+  type === 'percent' ? `${value}%` : `RM ${value.toFixed(2)}`;
+
+// Amount taken off `amount` by a discount, never more than the amount itself.
+export const discountAmount = (amount: number, discount: Discount | null) => {
+  if (!discount || discount.value <= 0) return 0;
+  const raw = discount.type === 'percent' ? round2((amount * discount.value) / 100) : discount.value;
+  return Math.min(raw, amount);
+};
+
+export const isPromoEligible = (promo: PromoCode, serviceId: string | null) =>
+  promo.eligible_service_ids.length === 0 || (!!serviceId && promo.eligible_service_ids.includes(serviceId));
+
+// Looks up a promo code and checks it can be used today. Throws with a
+// message suitable for the cashier when it cannot. A code already on a
+// booking is honoured as it is, like complete_appointment does.
+export async function findPromoCode(code: string, { booked = false } = {}) {
+  const { data, error } = await supabase
+    .from('promo_code_summaries')
+    .select('*')
+    // Codes are matched case-insensitively; escape LIKE wildcards.
+    .ilike('code', code.trim().replace(/[%_\\]/g, '\\$&'))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check promo code: ${error.message}`);
+  }
+
+  const promo = data as PromoCodeSummary | null;
+  const label = code.trim().toUpperCase();
+  const today = dayjs().format('YYYY-MM-DD');
+  if (!promo) throw new Error(`Promo code ${label} is not valid`);
+  if (booked) return promo;
+  if (!promo.active) throw new Error(`Promo code ${label} is not valid`);
+  if ((promo.valid_from && promo.valid_from > today) || (promo.valid_until && promo.valid_until < today)) {
+    throw new Error(`Promo code ${label} is not valid today`);
+  }
+  if (promo.usage_limit !== null && promo.times_used >= promo.usage_limit) {
+    throw new Error(`Promo code ${label} has been fully redeemed`);
+  }
+  return promo;
+}
+
+// Net amount of each line after the promo and then the bill discount, spread in
+// proportion to each line's amount. Mirrors apply_sale_discounts() in the
+// database closely enough for previews; the database figures are recorded.
+export function applyBillDiscounts(lines: DiscountableLine[], promo: PromoCode | null, bill: Discount | null) {
+  const gross = lines.reduce((sum, line) => sum + line.amount, 0);
+  const eligibleTotal = promo
+    ? lines.filter(line => isPromoEligible(promo, line.serviceId)).reduce((sum, line) => sum + line.amount, 0)
+    : 0;
+  const promoDiscount = promo
+    ? discountAmount(eligibleTotal, { type: promo.discount_type, value: promo.discount_value })
+    : 0;
+
+  const afterPromo = lines.map(line =>
+    promo && eligibleTotal > 0 && isPromoEligible(promo, line.serviceId)
+      ? line.amount - (promoDiscount * line.amount) / eligibleTotal
+      : line.amount
+  );
+  const billDiscount = discountAmount(gross - promoDiscount, bill);
+  const remaining = gross - promoDiscount;
+  const netAmounts = afterPromo.map(amount =>
+    remaining > 0 ? round2(amount - (billDiscount * amount) / remaining) : amount
+  );
+
+  return { promoDiscount, billDiscount, netAmounts };
+}
@@ -0,0 +1,703 @@
+import dayjs from 'dayjs';
+import { supabase } from '@/lib/supabase';
+import { SaleItem } from '@/lib/sales';
+import { ReceiptSettings, fetchReceiptSettings } from '@/lib/receipts';
+import { TaxSettings, fetchTaxSettings } from '@/lib/tax';
+
+export interface EInvoiceSettings {
+  supplier_tin: string | null;
+  supplier_brn: string | null;
+  msic_code: string;
+  business_activity: string;
+  address_line: string | null;
+  city: string | null;
+  postcode: string | null;
+  state_code: string | null;
+  country_code: string;
+}
+
+export type BuyerIdType = 'NRIC' | 'BRN' | 'PASSPORT' | 'ARMY';
+
+export const BUYER_ID_TYPE_LABELS: Record<BuyerIdType, string> = {
+  NRIC: 'MyKad / MyTentera (NRIC)',
+  BRN: 'Business registration (BRN)',
+  PASSPORT: 'Passport',
+  ARMY: 'Army number',
+};
+
+// LHDN state codes.
+export const MALAYSIAN_STATES: [string, string][] = [
+  ['01', 'Johor'],
+  ['02', 'Kedah'],
+  ['03', 'Kelantan'],
+  ['04', 'Melaka'],
+  ['05', 'Negeri Sembilan'],
+  ['06', 'Pahang'],
+  ['07', 'Pulau Pinang'],
+  ['08', 'Perak'],
+  ['09', 'Perlis'],
+  ['10', 'Selangor'],
+  ['11', 'Terengganu'],
+  ['12', 'Sabah'],
+  ['13', 'Sarawak'],
+  ['14', 'Wilayah Persekutuan Kuala Lumpur'],
+  ['15', 'Wilayah Persekutuan Labuan'],
+  ['16', 'Wilayah Persekutuan Putrajaya'],
+  ['17', 'Not applicable'],
+];
+
+// Who an e-invoice is issued to. Mirrors the buyer columns on customers.
+export interface BuyerDetails {
+  name: string;
+  tin: string;
+  id_type: BuyerIdType;
+  id_number: string;
+  sst_number: string | null;
+  email: string | null;
+  phone_number: string;
+  address_line: string;
+  city: string;
+  postcode: string | null;
+  state_code: string;
+  country_code: string;
+}
+
+// LHDN's placeholder buyer for consolidated B2C invoices.
+export const GENERAL_PUBLIC_TIN = 'EI00000000010';
+
+export const GENERAL_PUBLIC_BUYER: BuyerDetails = {
+  name: 'General Public',
+  tin: GENERAL_PUBLIC_TIN,
+  id_type: 'BRN',
+  id_number: 'NA',
+  sst_number: null,
+  email: null,
+  phone_number: 'NA',
+  address_line: 'NA',
+  city: 'NA',
+  postcode: null,
+  state_code: '17',
+  country_code: 'MYS',
+};
+
+export const EMPTY_BUYER: BuyerDetails = {
+  name: '',
+  tin: '',
+  id_type: 'NRIC',
+  id_number: '',
+  sst_number: null,
+  email: null,
+  phone_number: '',
+  address_line: '',
+  city: '',
+  postcode: null,
+  state_code: '',
+  country_code: 'MYS',
+};
+
+export const CUSTOMER_BUYER_SELECT =
+  'name, billing_name, email, phone_number, tin, id_type, id_number, sst_number, address_line, city, postcode, state_code, country_code';
+
+export interface CustomerBuyerRow {
+  name: string;
+  billing_name: string | null;
+  email: string | null;
+  phone_number: string | null;
+  tin: string | null;
+  id_type: BuyerIdType | null;
+  id_number: string | null;
+  sst_number: string | null;
+  address_line: string | null;
+  city: string | null;
+  postcode: string | null;
+  state_code: string | null;
+  country_code: string;
+}
+
+export const buyerFromCustomer = (customer: CustomerBuyerRow): BuyerDetails => ({
+  name: customer.billing_name || customer.name,
+  tin: customer.tin || '',
+  id_type: customer.id_type || 'NRIC',
+  id_number: customer.id_number || '',
+  sst_number: customer.sst_number,
+  email: customer.email,
+  phone_number: customer.phone_number || '',
+  address_line: customer.address_line || '',
+  city: customer.city || '',
+  postcode: customer.postcode,
+  state_code: customer.state_code || '',
+  country_code: customer.country_code || 'MYS',
+});
+
+// Keeps the buyer details on the customer for next time. Phone and email stay
+// as they are; they belong to the customer's contact details.
+export async function saveCustomerBuyerDetails(customerId: string, customerName: string, buyer: BuyerDetails) {
+  const { error } = await supabase
+    .from('customers')
+    .update({
+      billing_name: buyer.name.trim() && buyer.name.trim() !== customerName ? buyer.name.trim() : null,
+      tin: buyer.tin || null,
+      id_type: buyer.id_type,
+      id_number: buyer.id_number || null,
+      sst_number: buyer.sst_number,
+      address_line: buyer.address_line || null,
+      city: buyer.city || null,
+      postcode: buyer.postcode,
+      state_code: buyer.state_code || null,
+      country_code: buyer.country_code || 'MYS',
+    })
+    .eq('id', customerId);
+
+  if (error) {
+    throw new Error(`Failed to save buyer details: ${error.message}`);
+  }
+}
+
+// `stubbed` documents went through the offline submitter and never reached LHDN.
+export type EInvoiceStatus = 'pending' | 'stubbed' | 'submitted' | 'valid' | 'invalid' | 'cancelled';
+
+export const EINVOICE_STATUS_LABELS: Record<EInvoiceStatus, string> = {
+  pending: 'Not submitted',
+  stubbed: 'Not submitted (offline stub)',
+  submitted: 'Submitted',
+  valid: 'Valid',
+  invalid: 'Rejected',
+  cancelled: 'Cancelled',
+};
+
+export const EINVOICE_STATUS_BADGE_CLASSES: Record<EInvoiceStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  stubbed: 'bg-amber-100 text-amber-800',
+  submitted: 'bg-blue-100 text-blue-700',
+  valid: 'bg-green-100 text-green-700',
+  invalid: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-500 line-through',
+};
+
+export interface EInvoice {
+  id: string;
+  kind: 'invoice' | 'consolidated';
+  invoice_number: string;
+  period: string | null;
+  buyer: BuyerDetails;
+  document: UblDocument;
+  total: number;
+  status: EInvoiceStatus;
+  submitter: string | null;
+  submission_uid: string | null;
+  document_uuid: string | null;
+  long_id: string | null;
+  status_reason: string | null;
+  submitted_at: string | null;
+  status_changed_at: string;
+  created_by_email: string | null;
+  created_at: string;
+}
+
+// The sale fields a document is built from.
+export interface EInvoiceSale {
+  id: string;
+  receipt_number: string;
+  customer_name: string;
+  customer_id: string | null;
+  date: string;
+  created_at: string;
+  amount: number;
+  net_amount: number;
+  subtotal: number;
+  service_charge: number;
+  tax: number;
+  taxable_amount: number;
+  tax_rate: number;
+  prices_include_tax: boolean;
+  voided_at: string | null;
+  einvoice_id: string | null;
+  sale_items: SaleItem[];
+}
+
+export const EINVOICE_SALE_SELECT =
+  'id, receipt_number, customer_name, customer_id, date, created_at, amount, net_amount, subtotal, service_charge, tax, taxable_amount, tax_rate, prices_include_tax, voided_at, einvoice_id, sale_items(*)';
+
+// UBL 2.1 in the JSON form MyInvois accepts: every element is an array of
+// objects, `_` holds the value and other scalar keys are attributes.
+export interface UblElement {
+  _?: string | number | boolean;
+  [key: string]: UblElement[] | string | number | boolean | undefined;
+}
+
+export interface UblDocument {
+  _D: string;
+  _A: string;
+  _B: string;
+  Invoice: UblElement[];
+}
+
+// Classification codes from the LHDN code list.
+const CLASSIFICATION_CONSOLIDATED = '004';
+const CLASSIFICATION_OTHERS = '022';
+
+// Tax types from the LHDN code list.
+const TAX_TYPE_SERVICE = '02';
+const TAX_TYPE_NOT_APPLICABLE = '06';
+const TAX_TYPE_EXEMPT = 'E';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Splits a total across weights to the cent; the last share takes the rounding.
+function distribute(total: number, weights: number[]) {
+  const sum = weights.reduce((acc, weight) => acc + weight, 0);
+  let remaining = round2(total);
+  return weights.map((weight, index) => {
+    if (index === weights.length - 1) return round2(remaining);
+    const share = sum > 0 ? round2((total * weight) / sum) : 0;
+    remaining -= share;
+    return share;
+  });
+}
+
+const value = (content: string | number | boolean, attributes: Record<string, string> = {}): UblElement[] => [
+  { _: content, ...attributes },
+];
+
+const amount = (content: number) => value(round2(content), { currencyID: 'MYR' });
+
+interface PartyDetails {
+  name: string;
+  tin: string;
+  idType: BuyerIdType;
+  idNumber: string;
+  sstNumber: string | null;
+  email: string | null;
+  phoneNumber: string;
+  addressLine: string;
+  city: string;
+  postcode: string | null;
+  stateCode: string;
+  countryCode: string;
+}
+
+function party(details: PartyDetails, industry?: { code: string; name: string }): UblElement[] {
+  const address: UblElement = {
+    CityName: value(details.city),
+    CountrySubentityCode: value(details.stateCode),
+    AddressLine: [{ Line: value(details.addressLine) }],
+    Country: [{ IdentificationCode: value(details.countryCode, { listID: 'ISO3166-1', listAgencyID: '6' }) }],
+  };
+  if (details.postcode) address.PostalZone = value(details.postcode);
+
+  const contact: UblElement = { Telephone: value(details.phoneNumber) };
+  if (details.email) contact.ElectronicMail = value(details.email);
+
+  const element: UblElement = {
+    PartyIdentification: [
+      { ID: value(details.tin, { schemeID: 'TIN' }) },
+      { ID: value(details.idNumber, { schemeID: details.idType }) },
+      { ID: value(details.sstNumber || 'NA', { schemeID: 'SST' }) },
+      { ID: value('NA', { schemeID: 'TTX' }) },
+    ],
+    PostalAddress: [address],
+    PartyLegalEntity: [{ RegistrationName: value(details.name) }],
+    Contact: [contact],
+  };
+  if (industry) element.IndustryClassificationCode = value(industry.code, { name: industry.name });
+
+  return [{ Party: [element] }];
+}
+
+function supplierParty(settings: EInvoiceSettings, receipt: ReceiptSettings, tax: TaxSettings | null) {
+  return party(
+    {
+      name: receipt.business_name || '',
+      tin: settings.supplier_tin || '',
+      idType: 'BRN',
+      idNumber: settings.supplier_brn || '',
+      sstNumber: tax?.sst_registration_number || null,
+      email: receipt.email,
+      phoneNumber: receipt.phone_number || '',
+      addressLine: settings.address_line || '',
+      city: settings.city || '',
+      postcode: settings.postcode,
+      stateCode: settings.state_code || '',
+      countryCode: settings.country_code,
+    },
+    { code: settings.msic_code, name: settings.business_activity }
+  );
+}
+
+const buyerParty = (buyer: BuyerDetails) =>
+  party({
+    name: buyer.name,
+    tin: buyer.tin,
+    idType: buyer.id_type,
+    idNumber: buyer.id_number,
+    sstNumber: buyer.sst_number,
+    email: buyer.email,
+    phoneNumber: buyer.phone_number,
+    addressLine: buyer.address_line,
+    city: buyer.city,
+    postcode: buyer.postcode,
+    stateCode: buyer.state_code,
+    countryCode: buyer.country_code,
+  });
+
+interface TaxPortion {
+  taxable: number;
+  tax: number;
+  rate: number;
+  type: string;
+}
+
+function taxTotal(portions: TaxPortion[]): UblElement[] {
+  return [{
+    TaxAmount: amount(portions.reduce((sum, portion) => sum + portion.tax, 0)),
+    TaxSubtotal: portions.map(portion => {
+      const category: UblElement = {
+        ID: value(portion.type),
+        TaxScheme: [{ ID: value('OTH', { schemeID: 'UN/ECE 5153', schemeAgencyID: '6' }) }],
+      };
+      if (portion.type === TAX_TYPE_EXEMPT) category.TaxExemptionReason = value('Exempt from service tax');
+      return {
+        TaxableAmount: amount(portion.taxable),
+        TaxAmount: amount(portion.tax),
+        Percent: value(portion.rate),
+        TaxCategory: [category],
+      };
+    }),
+  }];
+}
+
+// Service tax on the taxable part, exempt or not applicable for the rest.
+function taxPortions(taxExclusive: number, taxable: number, tax: number, rate: number): TaxPortion[] {
+  if (rate <= 0) return [{ taxable: taxExclusive, tax: 0, rate: 0, type: TAX_TYPE_NOT_APPLICABLE }];
+  const portions: TaxPortion[] = [];
+  if (taxable > 0) portions.push({ taxable, tax, rate, type: TAX_TYPE_SERVICE });
+  if (round2(taxExclusive - taxable) > 0) {
+    portions.push({ taxable: round2(taxExclusive - taxable), tax: 0, rate: 0, type: TAX_TYPE_EXEMPT });
+  }
+  return portions;
+}
+
+interface LineInput {
+  id: string;
+  description: string;
+  classification: string;
+  quantity: number;
+  unitPrice: number;
+  allowance: number;
+  lineExtension: number;
+  serviceCharge: number;
+  taxable: number;
+  tax: number;
+  taxRate: number;
+}
+
+function invoiceLine(line: LineInput): UblElement {
+  const element: UblElement = {
+    ID: value(line.id),
+    InvoicedQuantity: value(line.quantity, { unitCode: 'C62' }),
+    LineExtensionAmount: amount(line.lineExtension),
+    TaxTotal: taxTotal(taxPortions(line.lineExtension + line.serviceCharge, line.taxable, line.tax, line.taxRate)),
+    Item: [{
+      CommodityClassification: [{ ItemClassificationCode: value(line.classification, { listID: 'CLASS' }) }],
+      Description: value(line.description),
+    }],
+    Price: [{ PriceAmount: amount(line.unitPrice) }],
+    ItemPriceExtension: [{ Amount: amount(line.unitPrice * line.quantity) }],
+  };
+  if (line.allowance > 0) {
+    element.AllowanceCharge = [{
+      ChargeIndicator: value(false),
+      AllowanceChargeReason: value('Discount'),
+      Amount: amount(line.allowance),
+    }];
+  }
+  return element;
+}
+
+interface DocumentInput {
+  invoiceNumber: string;
+  issuedAt: Date;
+  period?: { start: string; end: string };
+  supplier: UblElement[];
+  buyer: BuyerDetails;
+  lines: LineInput[];
+  taxRate: number;
+}
+
+function invoiceDocument(input: DocumentInput): UblDocument {
+  const iso = input.issuedAt.toISOString();
+  const lineExtension = round2(input.lines.reduce((sum, line) => sum + line.lineExtension, 0));
+  const serviceCharge = round2(input.lines.reduce((sum, line) => sum + line.serviceCharge, 0));
+  const taxable = round2(input.lines.reduce((sum, line) => sum + line.taxable, 0));
+  const tax = round2(input.lines.reduce((sum, line) => sum + line.tax, 0));
+  const allowance = round2(input.lines.reduce((sum, line) => sum + line.allowance, 0));
+  const taxExclusive = round2(lineExtension + serviceCharge);
+
+  const invoice: UblElement = {
+    ID: value(input.invoiceNumber),
+    IssueDate: value(iso.slice(0, 10)),
+    IssueTime: value(`${iso.slice(11, 19)}Z`),
+    InvoiceTypeCode: value('01', { listVersionID: '1.0' }),
+    DocumentCurrencyCode: value('MYR'),
+    TaxCurrencyCode: value('MYR'),
+    AccountingSupplierParty: input.supplier,
+    AccountingCustomerParty: buyerParty(input.buyer),
+    TaxTotal: taxTotal(taxPortions(taxExclusive, taxable, tax, input.taxRate)),
+    LegalMonetaryTotal: [{
+      LineExtensionAmount: amount(lineExtension),
+      TaxExclusiveAmount: amount(taxExclusive),
+      TaxInclusiveAmount: amount(taxExclusive + tax),
+      AllowanceTotalAmount: amount(allowance),
+      ChargeTotalAmount: amount(serviceCharge),
+      PayableAmount: amount(taxExclusive + tax),
+    }],
+    InvoiceLine: input.lines.map(invoiceLine),
+  };
+  if (input.period) {
+    invoice.InvoicePeriod = [{
+      StartDate: value(input.period.start),
+      EndDate: value(input.period.end),
+      Description: value('Monthly'),
+    }];
+  }
+  if (serviceCharge > 0) {
+    invoice.AllowanceCharge = [{
+      ChargeIndicator: value(true),
+      AllowanceChargeReason: value('Service charge'),
+      Amount: amount(serviceCharge),
+    }];
+  }
+
+  return {
+    _D: 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2',
+    _A: 'urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2',
+    _B: 'urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2',
+    Invoice: [invoice],
+  };
+}
+
+export interface IssuerSettings {
+  einvoice: EInvoiceSettings;
+  receipt: ReceiptSettings;
+  tax: TaxSettings | null;
+}
+
+// An e-invoice for one sale, as charged. Later refunds need a credit note.
+// With tax-inclusive prices, line amounts are shown net of SST and service
+// charge so the document totals add up the same way as for exclusive prices.
+export function buildSaleInvoice(sale: EInvoiceSale, buyer: BuyerDetails, issuer: IssuerSettings, issuedAt = new Date()) {
+  const items = sale.sale_items;
+  const weights = items.map(item => Number(item.line_total));
+  const taxableWeights = items.map(item => (item.tax_exempt ? 0 : Number(item.line_total)));
+  const lineExtensions = distribute(Number(sale.subtotal), weights);
+  const serviceCharges = distribute(Number(sale.service_charge), weights);
+  const taxables = distribute(Number(sale.taxable_amount), taxableWeights);
+  const taxes = distribute(Number(sale.tax), taxableWeights);
+  const gross = weights.reduce((sum, weight) => sum + weight, 0);
+  const scale = gross > 0 ? Number(sale.subtotal) / gross : 1;
+
+  const lines = items.map((item, index) => {
+    const unitPrice = round2(Number(item.unit_price) * scale);
+    return {
+      id: String(index + 1),
+      description: item.service_name,
+      classification: CLASSIFICATION_OTHERS,
+      quantity: item.quantity,
+      unitPrice,
+      allowance: Math.max(0, round2(unitPrice * item.quantity - lineExtensions[index])),
+      lineExtension: lineExtensions[index],
+      serviceCharge: serviceCharges[index],
+      taxable: taxables[index],
+      tax: taxes[index],
+      taxRate: item.tax_exempt ? 0 : Number(sale.tax_rate),
+    };
+  });
+
+  return invoiceDocument({
+    invoiceNumber: sale.receipt_number,
+    issuedAt,
+    supplier: supplierParty(issuer.einvoice, issuer.receipt, issuer.tax),
+    buyer,
+    lines,
+    taxRate: Number(sale.tax_rate),
+  });
+}
+
+export const consolidatedInvoiceNumber = (outletCode: string, month: string) =>
+  `CONS-${outletCode}-${dayjs(month).format('YYYYMM')}`;
+
+// A month's consolidated B2C invoice: one line per receipt, net of refunds
+// made before it was issued. Fully refunded sales are left out.
+export function buildConsolidatedInvoice(sales: EInvoiceSale[], month: string, issuer: IssuerSettings, issuedAt = new Date()) {
+  const lines = sales
+    .filter(sale => !sale.voided_at && Number(sale.net_amount) > 0)
+    .map(sale => {
+      const ratio = Number(sale.amount) > 0 ? Number(sale.net_amount) / Number(sale.amount) : 1;
+      const lineExtension = round2(Number(sale.subtotal) * ratio);
+      const tax = round2(Number(sale.tax) * ratio);
+      return {
+        id: sale.receipt_number,
+        description: `Receipt ${sale.receipt_number}`,
+        classification: CLASSIFICATION_CONSOLIDATED,
+        quantity: 1,
+        unitPrice: lineExtension,
+        allowance: 0,
+        lineExtension,
+        serviceCharge: round2(Number(sale.net_amount) - lineExtension - tax),
+        taxable: round2(Number(sale.taxable_amount) * ratio),
+        tax,
+        taxRate: Number(sale.tax_rate),
+      };
+    });
+
+  return invoiceDocument({
+    invoiceNumber: consolidatedInvoiceNumber(issuer.receipt.outlet_code, month),
+    issuedAt,
+    period: {
+      start: dayjs(month).startOf('month').format('YYYY-MM-DD'),
+      end: dayjs(month).endOf('month').format('YYYY-MM-DD'),
+    },
+    supplier: supplierParty(issuer.einvoice, issuer.receipt, issuer.tax),
+    buyer: GENERAL_PUBLIC_BUYER,
+    lines,
+    taxRate: Math.max(0, ...lines.map(line => line.taxRate)),
+  });
+}
+
+// The value at a path of element names, following the first of each array.
+export function ublValue(element: UblElement | undefined, ...path: string[]) {
+  let current = element;
+  for (const name of path) {
+    const next = current?.[name];
+    current = Array.isArray(next) ? next[0] : undefined;
+  }
+  return current?._;
+}
+
+export const documentTotal = (document: UblDocument) =>
+  Number(ublValue(document.Invoice[0], 'LegalMonetaryTotal', 'PayableAmount'));
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// The same document as UBL XML. Elements with children are aggregate (cac)
+// components and the rest basic (cbc) ones, which holds for every element
+// this module produces.
+export function toUblXml(document: UblDocument) {
+  const attributes = (element: UblElement) =>
+    Object.entries(element)
+      .filter(([key, content]) => key !== '_' && !Array.isArray(content) && content !== undefined)
+      .map(([key, content]) => ` ${key}="${escapeXml(String(content))}"`)
+      .join('');
+  const children = (element: UblElement) =>
+    Object.entries(element).filter((entry): entry is [string, UblElement[]] => Array.isArray(entry[1]));
+  const render = (name: string, element: UblElement): string => {
+    const nested = children(element);
+    if (nested.length === 0) {
+      return `<cbc:${name}${attributes(element)}>${escapeXml(String(element._ ?? ''))}</cbc:${name}>`;
+    }
+    return `<cac:${name}${attributes(element)}>${renderChildren(nested)}</cac:${name}>`;
+  };
+  const renderChildren = (nested: [string, UblElement[]][]) =>
+    nested.map(([name, list]) => list.map(child => render(name, child)).join('')).join('');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<Invoice xmlns="${document._D}" xmlns:cac="${document._A}" xmlns:cbc="${document._B}">`,
+    renderChildren(children(document.Invoice[0])),
+    '</Invoice>',
+  ].join('');
+}
+
+export async function fetchEInvoiceSettings() {
+  const { data, error } = await supabase
+    .from('einvoice_settings')
+    .select('supplier_tin, supplier_brn, msic_code, business_activity, address_line, city, postcode, state_code, country_code')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to fetch e-invoice settings: ${error.message}`);
+  }
+
+  return data as EInvoiceSettings;
+}
+
+export async function fetchIssuerSettings(): Promise<IssuerSettings> {
+  const [einvoice, receipt, tax] = await Promise.all([
+    fetchEInvoiceSettings(),
+    fetchReceiptSettings(),
+    fetchTaxSettings(),
+  ]);
+  return { einvoice, receipt, tax };
+}
+
+export async function saveEInvoice(
+  kind: EInvoice['kind'],
+  document: UblDocument,
+  saleIds: string[],
+  buyer: BuyerDetails,
+  period: string | null = null
+) {
+  const { data, error } = await supabase
+    .rpc('save_einvoice', {
+      p_kind: kind,
+      p_invoice_number: ublValue(document.Invoice[0], 'ID'),
+      p_period: period,
+      p_sale_ids: saleIds,
+      p_buyer: buyer,
+      p_document: document,
+      p_total: documentTotal(document),
+    })
+    .single();
+
+  if (error) {
+    throw new Error(
+      error.code === '42501' || error.code === 'P0001' ? error.message : `Failed to save e-invoice: ${error.message}`
+    );
+  }
+
+  return data as EInvoice;
+}
+
+export interface EInvoiceStatusUpdate {
+  status: EInvoiceStatus;
+  submitter?: string;
+  submissionUid?: string | null;
+  documentUuid?: string | null;
+  longId?: string | null;
+  reason?: string | null;
+}
+
+export async function recordEInvoiceStatus(einvoiceId: string, update: EInvoiceStatusUpdate) {
+  const { data, error } = await supabase
+    .rpc('record_einvoice_status', {
+      p_einvoice_id: einvoiceId,
+      p_status: update.status,
+      p_submitter: update.submitter ?? null,
+      p_submission_uid: update.submissionUid ?? null,
+      p_document_uuid: update.documentUuid ?? null,
+      p_long_id: update.longId ?? null,
+      p_reason: update.reason ?? null,
+    })
+    .single();
+
+  if (error) {
+    throw new Error(
+      error.code === '42501' || error.code === 'P0001' ? error.message : `Failed to update e-invoice: ${error.message}`
+    );
+  }
+
+  return data as EInvoice;
+}
+
+// Saves the document as a file, for the accountant or a manual upload.
+export function downloadEInvoice(einvoice: Pick<EInvoice, 'invoice_number' | 'document'>, format: 'json' | 'xml') {
+  const content = format === 'json' ? JSON.stringify(einvoice.document, null, 2) : toUblXml(einvoice.document);
+  const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'application/xml' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${einvoice.invoice_number}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,185 @@
+import { GENERAL_PUBLIC_TIN, UblDocument, UblElement, ublValue } from '@/lib/einvoice';
+
+// Local checks against the MyInvois invoice (v1.0) field rules, so a document
+// is fixed before it is stored rather than rejected by LHDN later. Covers the
+// mandatory fields, their formats and the document arithmetic; LHDN still
+// checks TINs against its register on submission.
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+interface FieldRule {
+  path: string[];
+  label: string;
+  pattern?: RegExp;
+  maxLength?: number;
+  optional?: boolean;
+}
+
+const TIN_PATTERN = /^(C|CS|D|E|F|FA|PT|TA|TC|TN|TR|TP|J|LE|IG|EI)[0-9]{9,12}$/;
+const ID_PATTERNS: Record<string, RegExp> = {
+  NRIC: /^[0-9]{12}$/,
+  BRN: /^[A-Z0-9-]{1,20}$/,
+  PASSPORT: /^[A-Z0-9]{1,12}$/,
+  ARMY: /^[A-Z0-9]{1,12}$/,
+};
+const STATE_PATTERN = /^(0[1-9]|1[0-7])$/;
+const TAX_TYPES = ['01', '02', '03', '04', '05', '06', 'E'];
+
+const HEADER_RULES: FieldRule[] = [
+  { path: ['ID'], label: 'Invoice number', maxLength: 50 },
+  { path: ['IssueDate'], label: 'Issue date', pattern: /^[0-9]{4}-[0-9]{2}-[0-9]{2}$/ },
+  { path: ['IssueTime'], label: 'Issue time', pattern: /^[0-9]{2}:[0-9]{2}:[0-9]{2}Z$/ },
+  { path: ['InvoiceTypeCode'], label: 'Invoice type', pattern: /^(0[1-4]|1[1-4])$/ },
+  { path: ['DocumentCurrencyCode'], label: 'Currency', pattern: /^[A-Z]{3}$/ },
+];
+
+const PARTY_RULES: FieldRule[] = [
+  { path: ['PartyLegalEntity', 'RegistrationName'], label: 'name', maxLength: 300 },
+  { path: ['PostalAddress', 'AddressLine', 'Line'], label: 'address', maxLength: 150 },
+  { path: ['PostalAddress', 'CityName'], label: 'city', maxLength: 50 },
+  { path: ['PostalAddress', 'PostalZone'], label: 'postcode', maxLength: 50, optional: true },
+  { path: ['PostalAddress', 'CountrySubentityCode'], label: 'state code', pattern: STATE_PATTERN },
+  { path: ['PostalAddress', 'Country', 'IdentificationCode'], label: 'country code', pattern: /^[A-Z]{3}$/ },
+  { path: ['Contact', 'Telephone'], label: 'phone number', pattern: /^(\+?[0-9 -]{8,20}|NA)$/ },
+  { path: ['Contact', 'ElectronicMail'], label: 'email', pattern: /^[^@\s]+@[^@\s]+\.[^@\s]+$/, optional: true },
+];
+
+const SUPPLIER_RULES: FieldRule[] = [
+  { path: ['IndustryClassificationCode'], label: 'MSIC code', pattern: /^[0-9]{5}$/ },
+];
+
+const LINE_RULES: FieldRule[] = [
+  { path: ['ID'], label: 'number', maxLength: 50 },
+  { path: ['Item', 'CommodityClassification', 'ItemClassificationCode'], label: 'classification', pattern: /^[0-9]{3}$/ },
+  { path: ['Item', 'Description'], label: 'description', maxLength: 300 },
+];
+
+function checkFields(element: UblElement | undefined, rules: FieldRule[], prefix: string, issues: SchemaIssue[]) {
+  rules.forEach(rule => {
+    const content = ublValue(element, ...rule.path);
+    const path = [prefix, ...rule.path].join('.');
+    const text = content === undefined ? '' : String(content).trim();
+    if (!text) {
+      if (!rule.optional) issues.push({ path, message: `${prefix} ${rule.label} is missing` });
+      return;
+    }
+    if (rule.pattern && !rule.pattern.test(text)) {
+      issues.push({ path, message: `${prefix} ${rule.label} "${text}" is not in the expected format` });
+    }
+    if (rule.maxLength && text.length > rule.maxLength) {
+      issues.push({ path, message: `${prefix} ${rule.label} is longer than ${rule.maxLength} characters` });
+    }
+  });
+}
+
+const children = (element: UblElement | undefined, name: string) =>
+  (Array.isArray(element?.[name]) ? element?.[name] : []) as UblElement[];
+
+function checkIdentification(party: UblElement | undefined, label: string, issues: SchemaIssue[]) {
+  const ids = children(party, 'PartyIdentification').map(identification => children(identification, 'ID')[0] || {});
+  const byScheme = (scheme: string) => ids.find(id => id.schemeID === scheme);
+
+  const tin = String(byScheme('TIN')?._ ?? '');
+  if (!TIN_PATTERN.test(tin)) {
+    issues.push({ path: `${label}.TIN`, message: `${label} TIN "${tin}" is not a valid LHDN TIN` });
+  }
+
+  const registration = ids.find(id => typeof id.schemeID === 'string' && id.schemeID in ID_PATTERNS);
+  const registrationNumber = String(registration?._ ?? '');
+  const generalPublic = tin === GENERAL_PUBLIC_TIN && registrationNumber === 'NA';
+  if (!registration) {
+    issues.push({ path: `${label}.ID`, message: `${label} needs an NRIC, BRN, passport or army number` });
+  } else if (!generalPublic && !ID_PATTERNS[String(registration.schemeID)].test(registrationNumber)) {
+    issues.push({
+      path: `${label}.${registration.schemeID}`,
+      message: `${label} ${registration.schemeID} "${registrationNumber}" is not in the expected format`,
+    });
+  }
+
+  const sst = String(byScheme('SST')?._ ?? '');
+  if (!sst || sst.length > 35) {
+    issues.push({ path: `${label}.SST`, message: `${label} SST number must be given, or NA` });
+  }
+}
+
+function checkTaxTotal(taxTotal: UblElement | undefined, prefix: string, issues: SchemaIssue[]) {
+  const subtotals = children(taxTotal, 'TaxSubtotal');
+  if (subtotals.length === 0) {
+    issues.push({ path: `${prefix}.TaxTotal`, message: `${prefix} has no tax breakdown` });
+    return;
+  }
+  subtotals.forEach(subtotal => {
+    const type = String(ublValue(subtotal, 'TaxCategory', 'ID') ?? '');
+    if (!TAX_TYPES.includes(type)) {
+      issues.push({ path: `${prefix}.TaxCategory`, message: `${prefix} tax type "${type}" is not an LHDN tax type` });
+    }
+    if (type === 'E' && !ublValue(subtotal, 'TaxCategory', 'TaxExemptionReason')) {
+      issues.push({ path: `${prefix}.TaxExemptionReason`, message: `${prefix} exemption needs a reason` });
+    }
+  });
+  const sum = subtotals.reduce((total, subtotal) => total + Number(ublValue(subtotal, 'TaxAmount') || 0), 0);
+  if (Math.abs(sum - Number(ublValue(taxTotal, 'TaxAmount') || 0)) > 0.005) {
+    issues.push({ path: `${prefix}.TaxTotal`, message: `${prefix} tax breakdown does not add up to its tax amount` });
+  }
+}
+
+const differs = (a: number, b: number) => Math.abs(a - b) > 0.005;
+
+export function validateEInvoice(document: UblDocument): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const invoice = document.Invoice?.[0];
+  if (!invoice) return [{ path: 'Invoice', message: 'The document has no invoice' }];
+
+  checkFields(invoice, HEADER_RULES, 'Invoice', issues);
+
+  const supplier = children(children(invoice, 'AccountingSupplierParty')[0], 'Party')[0];
+  const buyer = children(children(invoice, 'AccountingCustomerParty')[0], 'Party')[0];
+  checkFields(supplier, [...PARTY_RULES, ...SUPPLIER_RULES], 'Supplier', issues);
+  checkIdentification(supplier, 'Supplier', issues);
+  if (!children(supplier, 'IndustryClassificationCode')[0]?.name) {
+    issues.push({ path: 'Supplier.IndustryClassificationCode', message: 'Supplier business activity is missing' });
+  }
+  checkFields(buyer, PARTY_RULES, 'Buyer', issues);
+  checkIdentification(buyer, 'Buyer', issues);
+
+  const lines = children(invoice, 'InvoiceLine');
+  if (lines.length === 0) {
+    issues.push({ path: 'Invoice.InvoiceLine', message: 'The invoice has no lines' });
+  }
+  lines.forEach((line, index) => {
+    const prefix = `Line ${index + 1}`;
+    checkFields(line, LINE_RULES, prefix, issues);
+    if (!(Number(ublValue(line, 'InvoicedQuantity')) > 0)) {
+      issues.push({ path: `${prefix}.InvoicedQuantity`, message: `${prefix} quantity must be more than zero` });
+    }
+    if (Number(ublValue(line, 'Price', 'PriceAmount')) < 0) {
+      issues.push({ path: `${prefix}.Price`, message: `${prefix} price cannot be negative` });
+    }
+    checkTaxTotal(children(line, 'TaxTotal')[0], prefix, issues);
+  });
+
+  checkTaxTotal(children(invoice, 'TaxTotal')[0], 'Invoice', issues);
+
+  const totals = children(invoice, 'LegalMonetaryTotal')[0];
+  const total = (name: string) => Number(ublValue(totals, name) || 0);
+  const lineSum = lines.reduce((sum, line) => sum + Number(ublValue(line, 'LineExtensionAmount') || 0), 0);
+  const tax = Number(ublValue(invoice, 'TaxTotal', 'TaxAmount') || 0);
+
+  if (differs(lineSum, total('LineExtensionAmount'))) {
+    issues.push({ path: 'LegalMonetaryTotal.LineExtensionAmount', message: 'Line amounts do not add up to the invoice total' });
+  }
+  if (differs(total('LineExtensionAmount') + total('ChargeTotalAmount'), total('TaxExclusiveAmount'))) {
+    issues.push({ path: 'LegalMonetaryTotal.TaxExclusiveAmount', message: 'Total excluding tax does not match lines plus charges' });
+  }
+  if (differs(total('TaxExclusiveAmount') + tax, total('TaxInclusiveAmount'))) {
+    issues.push({ path: 'LegalMonetaryTotal.TaxInclusiveAmount', message: 'Total including tax does not match total plus tax' });
+  }
+  if (differs(total('TaxInclusiveAmount'), total('PayableAmount'))) {
+    issues.push({ path: 'LegalMonetaryTotal.PayableAmount', message: 'Amount payable does not match the total including tax' });
+  }
+
+  return issues;
+}
@@ -0,0 +1,174 @@
+import { EInvoice, EInvoiceStatus, UblDocument, recordEInvoiceStatus } from '@/lib/einvoice';
+
+export interface SubmissionResult {
+  invoiceNumber: string;
+  status: EInvoiceStatus;
+  documentUuid: string | null;
+  longId: string | null;
+  reason: string | null;
+}
+
+export interface SubmissionDocument {
+  invoiceNumber: string;
+  document: UblDocument;
+}
+
+// Where documents go once they pass local validation. The app talks to this
+// interface only, so the LHDN API can be swapped for the offline stub in
+// development or for another intermediary.
+export interface EInvoiceSubmitter {
+  name: string;
+  submit(documents: SubmissionDocument[]): Promise<{ submissionUid: string; results: SubmissionResult[] }>;
+  fetchStatus(documentUuid: string): Promise<Omit<SubmissionResult, 'invoiceNumber'>>;
+}
+
+const randomId = (length: number) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(length)), byte => (byte % 36).toString(36)).join('').toUpperCase();
+
+// Accepts every document without leaving the app, for development only. Its
+// results are recorded as `stubbed` so they never pass for LHDN validation.
+export const offlineSubmitter: EInvoiceSubmitter = {
+  name: 'offline',
+  async submit(documents) {
+    return {
+      submissionUid: `OFFLINE-${randomId(12)}`,
+      results: documents.map(({ invoiceNumber }) => ({
+        invoiceNumber,
+        status: 'stubbed' as const,
+        documentUuid: null,
+        longId: null,
+        reason: 'Not sent to LHDN: recorded by the offline submitter',
+      })),
+    };
+  },
+  async fetchStatus() {
+    return { status: 'stubbed', documentUuid: null, longId: null, reason: null };
+  },
+};
+
+const MYINVOIS_STATUSES: Record<string, EInvoiceStatus> = {
+  Submitted: 'submitted',
+  Valid: 'valid',
+  Invalid: 'invalid',
+  Cancelled: 'cancelled',
+};
+
+async function sha256Hex(bytes: Uint8Array) {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function toBase64(bytes: Uint8Array) {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+interface MyInvoisSubmissionResponse {
+  submissionUid: string;
+  acceptedDocuments: { uuid: string; invoiceCodeNumber: string }[];
+  rejectedDocuments: { invoiceCodeNumber: string; error: { message: string; details?: { message: string }[] } }[];
+}
+
+// The MyInvois document submission API, reached through `baseUrl`. The client
+// secret must not reach the browser, so `baseUrl` is a proxy that obtains the
+// access token and forwards to the sandbox or production API.
+export function createMyInvoisSubmitter(baseUrl: string): EInvoiceSubmitter {
+  const request = async (path: string, init?: RequestInit) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json', ...init?.headers },
+    });
+    if (!response.ok) {
+      throw new Error(`MyInvois responded ${response.status}: ${await response.text()}`);
+    }
+    return response.json();
+  };
+
+  return {
+    name: 'myinvois',
+    async submit(documents) {
+      const payload = await Promise.all(documents.map(async ({ invoiceNumber, document }) => {
+        const bytes = new TextEncoder().encode(JSON.stringify(document));
+        return {
+          format: 'JSON',
+          codeNumber: invoiceNumber,
+          documentHash: await sha256Hex(bytes),
+          document: toBase64(bytes),
+        };
+      }));
+
+      const response: MyInvoisSubmissionResponse = await request('/api/v1.0/documentsubmissions', {
+        method: 'POST',
+        body: JSON.stringify({ documents: payload }),
+      });
+
+      return {
+        submissionUid: response.submissionUid,
+        results: documents.map(({ invoiceNumber }) => {
+          const accepted = response.acceptedDocuments.find(doc => doc.invoiceCodeNumber === invoiceNumber);
+          const rejected = response.rejectedDocuments.find(doc => doc.invoiceCodeNumber === invoiceNumber);
+          return {
+            invoiceNumber,
+            status: accepted ? 'submitted' as const : 'invalid' as const,
+            documentUuid: accepted?.uuid ?? null,
+            longId: null,
+            reason: rejected
+              ? [rejected.error.message, ...(rejected.error.details || []).map(detail => detail.message)].join('; ')
+              : null,
+          };
+        }),
+      };
+    },
+    async fetchStatus(documentUuid) {
+      const details = await request(`/api/v1.0/documents/${encodeURIComponent(documentUuid)}/details`);
+      const errors = details.validationResults?.validationSteps
+        ?.filter((step: { status: string }) => step.status === 'Invalid')
+        .map((step: { name: string; error?: { error?: string } }) => step.error?.error || step.name);
+      return {
+        status: MYINVOIS_STATUSES[details.status] || 'submitted',
+        documentUuid,
+        longId: details.longId || null,
+        reason: errors?.length ? errors.join('; ') : null,
+      };
+    },
+  };
+}
+
+// The MyInvois API through the configured proxy. The offline stub is only
+// used when NEXT_PUBLIC_EINVOICE_OFFLINE_SUBMITTER is "true", for development.
+export function getEInvoiceSubmitter(): EInvoiceSubmitter {
+  const proxyUrl = process.env.NEXT_PUBLIC_MYINVOIS_PROXY_URL;
+  if (proxyUrl) return createMyInvoisSubmitter(proxyUrl.replace(/\/$/, ''));
+  if (process.env.NEXT_PUBLIC_EINVOICE_OFFLINE_SUBMITTER === 'true') return offlineSubmitter;
+  throw new Error('E-invoice submission is not set up: configure NEXT_PUBLIC_MYINVOIS_PROXY_URL');
+}
+
+export async function submitEInvoice(einvoice: EInvoice, submitter = getEInvoiceSubmitter()) {
+  const { submissionUid, results } = await submitter.submit([
+    { invoiceNumber: einvoice.invoice_number, document: einvoice.document },
+  ]);
+  const result = results[0];
+
+  return recordEInvoiceStatus(einvoice.id, {
+    status: result.status,
+    submitter: submitter.name,
+    submissionUid,
+    documentUuid: result.documentUuid,
+    longId: result.longId,
+    reason: result.reason,
+  });
+}
+
+// Asks the submitter for the latest status of a submitted document.
+export async function refreshEInvoiceStatus(einvoice: EInvoice, submitter = getEInvoiceSubmitter()) {
+  if (!einvoice.document_uuid) return einvoice;
+  const result = await submitter.fetchStatus(einvoice.document_uuid);
+  return recordEInvoiceStatus(einvoice.id, {
+    status: result.status,
+    longId: result.longId,
+    reason: result.reason,
+  });
+}
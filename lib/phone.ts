@@ -0,0 +1,73 @@
+// Malaysian phone number parsing. Numbers are stored in E.164 ("+60123456789")
+// and formatted the local way for display ("012-345 6789").
+// Keep in sync with normalize_my_phone() in the database.
+
+export type PhoneType = 'mobile' | 'landline' | 'international';
+
+export interface ParsedPhone {
+  e164: string;
+  type: PhoneType;
+}
+
+const MOBILE_PATTERN = /^(11\d{8}|1[02-46-9]\d{7})$/;
+const LANDLINE_PATTERN = /^(3\d{8}|[4-79]\d{7}|8\d{7})$/;
+
+export function parsePhoneNumber(input: string): ParsedPhone | null {
+  const compact = input.replace(/[\s\-.()]/g, '');
+  if (!/^\+?\d+$/.test(compact)) return null;
+
+  let nationalNumber: string;
+  if (compact.startsWith('+')) {
+    if (!compact.startsWith('+60')) {
+      // Foreign numbers are accepted as-is when they look like E.164.
+      return compact.length >= 9 && compact.length <= 16 ? { e164: compact, type: 'international' } : null;
+    }
+    nationalNumber = compact.slice(3);
+  } else if (compact.startsWith('60') && compact.length >= 10 && compact.length <= 12) {
+    nationalNumber = compact.slice(2);
+  } else if (compact.startsWith('0')) {
+    nationalNumber = compact.slice(1);
+  } else if (compact.startsWith('1')) {
+    // Mobile number typed without the leading zero.
+    nationalNumber = compact;
+  } else {
+    return null;
+  }
+
+  if (MOBILE_PATTERN.test(nationalNumber)) return { e164: `+60${nationalNumber}`, type: 'mobile' };
+  if (LANDLINE_PATTERN.test(nationalNumber)) return { e164: `+60${nationalNumber}`, type: 'landline' };
+  return null;
+}
+
+export const PHONE_TYPE_LABELS: Record<PhoneType, string> = {
+  mobile: 'Mobile',
+  landline: 'Landline',
+  international: 'International',
+};
+
+export const PHONE_VALIDATION_MESSAGE = 'Enter a valid Malaysian phone number, e.g. 012-345 6789 or 03-1234 5678';
+
+// Formats a stored number for display. Values that cannot be parsed (legacy
+// rows) are shown unchanged.
+export function formatPhoneNumber(phone: string | null | undefined) {
+  if (!phone) return '';
+  const parsed = parsePhoneNumber(phone);
+  if (!parsed) return phone;
+  if (parsed.type === 'international') return parsed.e164;
+
+  const national = `0${parsed.e164.slice(3)}`;
+  if (parsed.type === 'mobile') {
+    // 012-345 6789, 011-2345 6789
+    return `${national.slice(0, 3)}-${national.slice(3, national.length - 4)} ${national.slice(-4)}`;
+  }
+  if (national.startsWith('03')) {
+    // 03-1234 5678
+    return `${national.slice(0, 2)}-${national.slice(2, 6)} ${national.slice(6)}`;
+  }
+  if (national.startsWith('08')) {
+    // 088-123 456
+    return `${national.slice(0, 3)}-${national.slice(3, 6)} ${national.slice(6)}`;
+  }
+  // 04-123 4567
+  return `${national.slice(0, 2)}-${national.slice(2, 5)} ${national.slice(5)}`;
+}
@@ -0,0 +1,27 @@
+import { supabase } from '@/lib/supabase';
+
+export interface ReceiptSettings {
+  outlet_code: string;
+  business_name: string | null;
+  address: string | null;
+  phone_number: string | null;
+  email: string | null;
+  header_text: string | null;
+  footer_text: string | null;
+}
+
+export async function fetchReceiptSettings() {
+  const { data, error } = await supabase
+    .from('receipt_settings')
+    .select('outlet_code, business_name, address, phone_number, email, header_text, footer_text')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to fetch receipt settings: ${error.message}`);
+  }
+
+  return data as ReceiptSettings;
+}
+
+export const receiptUrl = (saleId: string, print = false) =>
+  `/sales/${saleId}/receipt${print ? '?print=1' : ''}`;
@@ -0,0 +1,291 @@
+import { supabase } from '@/lib/supabase';
+import { BillDiscount, DiscountType } from '@/lib/discounts';
+
+export interface SaleItem {
+  id: string;
+  sale_id: string;
+  service_id: string | null;
+  service_name: string;
+  list_price: number;
+  unit_price: number;
+  override_reason: string | null;
+  quantity: number;
+  staff_id: string | null;
+  staff: string | null;
+  discount: number;
+  bill_discount_share: number;
+  line_total: number;
+  tax_exempt: boolean;
+}
+
+export type PaymentMethod =
+  | 'cash'
+  | 'card'
+  | 'touch_n_go'
+  | 'grabpay'
+  | 'duitnow_qr'
+  | 'ewallet'
+  | 'bank_transfer';
+
+export const PAYMENT_METHODS: PaymentMethod[] = [
+  'cash',
+  'card',
+  'touch_n_go',
+  'grabpay',
+  'duitnow_qr',
+  'ewallet',
+  'bank_transfer',
+];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  touch_n_go: "Touch 'n Go",
+  grabpay: 'GrabPay',
+  duitnow_qr: 'DuitNow QR',
+  ewallet: 'Other e-wallet',
+  bank_transfer: 'Bank transfer',
+};
+
+export interface SalePayment {
+  id: string;
+  sale_id: string;
+  method: PaymentMethod;
+  amount: number;
+  tendered: number | null;
+  change_given: number;
+  reference: string | null;
+  created_at: string;
+}
+
+export interface SaleRefund {
+  id: string;
+  sale_id: string;
+  amount: number;
+  method: PaymentMethod;
+  reason: string;
+  approved_by_email: string;
+  created_at: string;
+}
+
+// A tender being entered at the counter. `tendered` only applies to cash.
+export interface PaymentInput {
+  method: PaymentMethod;
+  amount: number;
+  tendered?: number | null;
+  reference?: string | null;
+}
+
+// PostgREST embed for reading sales together with their line items, payments and refunds.
+export const SALE_DETAILS_SELECT = '*, sale_items(*), sale_payments(*), sale_refunds(*)';
+
+// Fields needed to net a sale's refunds and voids against revenue.
+export interface NettableSale {
+  amount: number;
+  net_amount?: number;
+  voided_at?: string | null;
+  sale_items?: SaleItem[];
+}
+
+// What the sale counts for in revenue after refunds; nothing if voided.
+export const saleNetAmount = (sale: NettableSale) =>
+  sale.voided_at ? 0 : Number(sale.net_amount ?? sale.amount);
+
+// Line items with their totals scaled down by the share of the sale that was
+// refunded. Refunds are not tied to lines, so they are spread in proportion.
+export function netSaleItems(sale: NettableSale): SaleItem[] {
+  if (sale.voided_at) return [];
+  const ratio = Number(sale.amount) > 0 ? saleNetAmount(sale) / Number(sale.amount) : 1;
+  return (sale.sale_items || []).map(item =>
+    ratio === 1 ? item : { ...item, line_total: Math.round(Number(item.line_total) * ratio * 100) / 100 }
+  );
+}
+
+export interface ServiceRevenue {
+  service: string;
+  amount: number;
+  quantity: number;
+}
+
+// Revenue per service across the given line items, highest first. Items are
+// grouped by service id so a renamed service is still counted once.
+export function revenueByService(items: SaleItem[]): ServiceRevenue[] {
+  const totals = new Map<string, ServiceRevenue>();
+  items.forEach(item => {
+    const key = item.service_id || `name:${item.service_name.toLowerCase()}`;
+    const current = totals.get(key) || { service: item.service_name, amount: 0, quantity: 0 };
+    totals.set(key, {
+      ...current,
+      amount: current.amount + Number(item.line_total),
+      quantity: current.quantity + item.quantity
+    });
+  });
+  return [...totals.values()].sort((a, b) => b.amount - a.amount);
+}
+
+export const amountPaid = (payments: SalePayment[] | undefined) =>
+  (payments || []).reduce((sum, payment) => sum + Number(payment.amount), 0);
+
+export const amountRefunded = (refunds: SaleRefund[] | undefined) =>
+  (refunds || []).reduce((sum, refund) => sum + Number(refund.amount), 0);
+
+// Total taken per payment method less refunds paid out by that method, in
+// PAYMENT_METHODS order, skipping unused methods.
+export function totalsByPaymentMethod(payments: SalePayment[], refunds: SaleRefund[] = []) {
+  const totals = new Map<PaymentMethod, number>();
+  payments.forEach(payment => {
+    totals.set(payment.method, (totals.get(payment.method) || 0) + Number(payment.amount));
+  });
+  refunds.forEach(refund => {
+    totals.set(refund.method, (totals.get(refund.method) || 0) - Number(refund.amount));
+  });
+  return PAYMENT_METHODS
+    .filter(method => totals.has(method))
+    .map(method => ({ method, amount: totals.get(method) || 0 }));
+}
+
+// "Facial, Manicure ×2" for lists and tables.
+export const describeSaleItems = (items: SaleItem[] | undefined) =>
+  (items || [])
+    .map(item => (item.quantity > 1 ? `${item.service_name} ×${item.quantity}` : item.service_name))
+    .join(', ');
+
+// Filters shared by the sales list and its summary.
+export interface SalesQuery {
+  from: string;
+  to: string;
+  search?: string;
+  staffId?: string | null;
+}
+
+export const salesQueryParams = (query: SalesQuery) => ({
+  p_from: query.from,
+  p_to: query.to,
+  p_search: query.search?.trim() || null,
+  p_staff_id: query.staffId || null
+});
+
+export type SalesSort = 'newest' | 'oldest' | 'amount_desc' | 'amount_asc' | 'customer' | 'staff';
+
+export const SALES_SORTS: Record<SalesSort, { label: string; column: string; ascending: boolean }> = {
+  newest: { label: 'Newest first', column: 'created_at', ascending: false },
+  oldest: { label: 'Oldest first', column: 'created_at', ascending: true },
+  amount_desc: { label: 'Amount: high to low', column: 'amount', ascending: false },
+  amount_asc: { label: 'Amount: low to high', column: 'amount', ascending: true },
+  customer: { label: 'Customer A–Z', column: 'customer_name', ascending: true },
+  staff: { label: 'Staff A–Z', column: 'staff', ascending: true }
+};
+
+export interface SalesSummary {
+  salesCount: number;
+  voidedCount: number;
+  netTotal: number;
+  outstanding: number;
+  paymentTotals: { method: PaymentMethod; amount: number }[];
+}
+
+// Totals for every sale matching the query, not just the page on screen.
+export async function fetchSalesSummary(query: SalesQuery): Promise<SalesSummary> {
+  const { data, error } = await supabase.rpc('sales_summary', salesQueryParams(query)).single();
+
+  if (error) {
+    throw new Error(`Failed to fetch sales summary: ${error.message}`);
+  }
+
+  const row = data as {
+    sales_count: number;
+    voided_count: number;
+    net_total: number;
+    outstanding: number;
+    payment_totals: Partial<Record<PaymentMethod, number>>;
+  };
+  return {
+    salesCount: Number(row.sales_count),
+    voidedCount: Number(row.voided_count),
+    netTotal: Number(row.net_total),
+    outstanding: Number(row.outstanding),
+    paymentTotals: PAYMENT_METHODS
+      .filter(method => row.payment_totals[method] !== undefined)
+      .map(method => ({ method, amount: Number(row.payment_totals[method]) }))
+  };
+}
+
+export interface WalkInSaleItem {
+  service_id: string;
+  quantity: number;
+  staff_id?: string | null;
+  discount_type?: DiscountType | null;
+  discount_value?: number;
+  // Manager price override; omit to charge the list price.
+  unit_price?: number;
+  override_reason?: string | null;
+}
+
+export interface WalkInSale {
+  customerName: string;
+  customerId: string | null;
+  staffId: string | null;
+  items: WalkInSaleItem[];
+  payments: PaymentInput[];
+  billDiscount?: BillDiscount | null;
+  promoCode?: string | null;
+}
+
+// Records a sale that did not come from an appointment. Prices are looked up
+// from the services table by the database.
+export async function createWalkInSale(sale: WalkInSale) {
+  const { data, error } = await supabase
+    .rpc('create_walk_in_sale', {
+      p_customer_name: sale.customerName,
+      p_customer_id: sale.customerId,
+      p_staff_id: sale.staffId,
+      p_items: sale.items,
+      p_payments: sale.payments,
+      p_bill_discount: sale.billDiscount || null,
+      p_promo_code: sale.promoCode || null
+    })
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to record sale: ${error.message}`);
+  }
+
+  return data;
+}
+
+export async function refundSale(saleId: string, amount: number, method: PaymentMethod, reason: string) {
+  const { data, error } = await supabase
+    .rpc('refund_sale', { p_sale_id: saleId, p_amount: amount, p_method: method, p_reason: reason })
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to refund sale: ${error.message}`);
+  }
+
+  return data;
+}
+
+export async function voidSale(saleId: string, reason: string) {
+  const { data, error } = await supabase
+    .rpc('void_sale', { p_sale_id: saleId, p_reason: reason })
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to void sale: ${error.message}`);
+  }
+
+  return data;
+}
+
+// Settles all or part of an existing sale, e.g. a completed appointment.
+export async function recordSalePayments(saleId: string, payments: PaymentInput[]) {
+  const { data, error } = await supabase
+    .rpc('record_sale_payments', { p_sale_id: saleId, p_payments: payments })
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to record payment: ${error.message}`);
+  }
+
+  return data;
+}
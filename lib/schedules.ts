@@ -0,0 +1,207 @@
+import { supabase } from '@/lib/supabase';
+
+// 0 is Sunday, matching dayjs().day() and Postgres extract(dow ...).
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface StaffShift {
+  id: string;
+  staff_id: string;
+  weekday: number;
+  start_time: string;
+  end_time: string;
+}
+
+export type StaffShiftInput = Omit<StaffShift, 'id' | 'staff_id'>;
+
+// Replaces the staff member's weekly template for that date. No times means
+// a day off.
+export interface ShiftOverride {
+  id: string;
+  staff_id: string;
+  date: string;
+  start_time: string | null;
+  end_time: string | null;
+  note: string | null;
+}
+
+export type ShiftOverrideInput = Omit<ShiftOverride, 'id'>;
+
+export type LeaveType = 'annual' | 'medical' | 'unpaid' | 'other';
+
+export const LEAVE_TYPE_LABELS: Record<LeaveType, string> = {
+  annual: 'Annual leave',
+  medical: 'Medical leave',
+  unpaid: 'Unpaid leave',
+  other: 'Other'
+};
+
+export type LeaveStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export const LEAVE_STATUS_LABELS: Record<LeaveStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled'
+};
+
+export interface LeaveRequest {
+  id: string;
+  staff_id: string;
+  start_date: string;
+  end_date: string;
+  type: LeaveType;
+  reason: string | null;
+  status: LeaveStatus;
+  requested_by_email: string | null;
+  decided_by_email: string | null;
+  decided_at: string | null;
+  created_at: string;
+}
+
+export type LeaveRequestInput = Pick<LeaveRequest, 'staff_id' | 'start_date' | 'end_date' | 'type' | 'reason'>;
+
+export interface WorkingHours {
+  staffId: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+}
+
+export type StaffAvailabilityStatus = 'on_shift' | 'no_schedule' | 'outside_shift' | 'day_off' | 'holiday' | 'on_leave';
+
+export const STAFF_AVAILABILITY_LABELS: Record<StaffAvailabilityStatus, string> = {
+  on_shift: 'On shift',
+  no_schedule: 'No working hours set',
+  outside_shift: 'Outside shift',
+  day_off: 'Day off',
+  holiday: 'Public holiday',
+  on_leave: 'On leave'
+};
+
+// Statuses the appointment form lets you book.
+export const isBookableAvailability = (status: StaffAvailabilityStatus | undefined) =>
+  status === undefined || status === 'on_shift' || status === 'no_schedule';
+
+// "10:00:00" -> "10:00"
+export const formatShiftTime = (time: string) => time.slice(0, 5);
+
+export async function fetchStaffShifts(): Promise<StaffShift[]> {
+  const { data, error } = await supabase
+    .from('staff_shifts')
+    .select('id, staff_id, weekday, start_time, end_time')
+    .order('weekday')
+    .order('start_time');
+
+  if (error) {
+    throw new Error(`Failed to fetch shifts: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+export async function saveStaffShifts(staffId: string, shifts: StaffShiftInput[]) {
+  const { error } = await supabase.rpc('set_staff_shifts', { p_staff_id: staffId, p_shifts: shifts });
+
+  if (error) {
+    throw new Error(`Failed to save shifts: ${error.message}`);
+  }
+}
+
+export async function fetchShiftOverrides(from: string): Promise<ShiftOverride[]> {
+  const { data, error } = await supabase
+    .from('staff_shift_overrides')
+    .select('id, staff_id, date, start_time, end_time, note')
+    .gte('date', from)
+    .order('date')
+    .order('start_time');
+
+  if (error) {
+    throw new Error(`Failed to fetch shift changes: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+export async function addShiftOverride(override: ShiftOverrideInput) {
+  const { error } = await supabase.from('staff_shift_overrides').insert([override]);
+
+  if (error) {
+    throw new Error(`Failed to add shift change: ${error.message}`);
+  }
+}
+
+export async function deleteShiftOverride(id: string) {
+  const { error } = await supabase.from('staff_shift_overrides').delete().eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to delete shift change: ${error.message}`);
+  }
+}
+
+export async function fetchLeaveRequests(from: string): Promise<LeaveRequest[]> {
+  const { data, error } = await supabase
+    .from('leave_requests')
+    .select('*')
+    .gte('end_date', from)
+    .order('start_date');
+
+  if (error) {
+    throw new Error(`Failed to fetch leave requests: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+export async function requestLeave(leave: LeaveRequestInput) {
+  const { error } = await supabase.from('leave_requests').insert([{ ...leave, reason: leave.reason?.trim() || null }]);
+
+  if (error) {
+    throw new Error(`Failed to request leave: ${error.message}`);
+  }
+}
+
+export async function decideLeaveRequest(id: string, status: Exclude<LeaveStatus, 'pending'>) {
+  const { error } = await supabase.rpc('decide_leave_request', { p_leave_id: id, p_status: status });
+
+  if (error) {
+    throw new Error(
+      error.code === '42501' || error.code === 'P0001' ? error.message : `Failed to update leave request: ${error.message}`
+    );
+  }
+}
+
+export async function fetchWorkingHours(from: string, to: string): Promise<WorkingHours[]> {
+  const { data, error } = await supabase.rpc('staff_working_hours', { p_from: from, p_to: to });
+
+  if (error) {
+    throw new Error(`Failed to fetch working hours: ${error.message}`);
+  }
+
+  return (data || []).map((row: { staff_id: string; date: string; start_time: string; end_time: string }) => ({
+    staffId: row.staff_id,
+    date: row.date,
+    startTime: row.start_time,
+    endTime: row.end_time
+  }));
+}
+
+// Availability of every active staff member for a booking, keyed by staff id.
+export async function fetchStaffAvailability(
+  date: string,
+  time: string,
+  duration: number
+): Promise<Map<string, StaffAvailabilityStatus>> {
+  const { data, error } = await supabase.rpc('staff_availability', {
+    p_date: date,
+    p_time: time,
+    p_duration: duration
+  });
+
+  if (error) {
+    throw new Error(`Failed to check staff availability: ${error.message}`);
+  }
+
+  return new Map(
+    (data || []).map((row: { staff_id: string; status: StaffAvailabilityStatus }) => [row.staff_id, row.status])
+  );
+}
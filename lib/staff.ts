@@ -0,0 +1,73 @@
+import { supabase } from '@/lib/supabase';
+
+export interface StaffMember {
+  id: string;
+  name: string;
+  role: string | null;
+  color: string;
+  phone_number: string | null;
+  email: string | null;
+  active: boolean;
+  weekly_hours: number | null;
+}
+
+export async function fetchStaff({ activeOnly = false } = {}) {
+  let query = supabase
+    .from('staff')
+    .select('id, name, role, color, phone_number, email, active, weekly_hours')
+    .order('name');
+
+  if (activeOnly) {
+    query = query.eq('active', true);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch staff: ${error.message}`);
+  }
+
+  return (data || []) as StaffMember[];
+}
+
+export interface StaffPerformance {
+  staffId: string;
+  staff: string;
+  salesCount: number;
+  serviceCount: number;
+  revenue: number;
+  averageTicket: number;
+  visits: number;
+  // Share of completed visits followed by another booking, or null without visits.
+  rebookingRate: number | null;
+  bookedMinutes: number;
+  // Booked time over contracted hours, or null when no hours are set.
+  utilization: number | null;
+}
+
+export async function fetchStaffPerformance(from: string, to: string): Promise<StaffPerformance[]> {
+  const { data, error } = await supabase.rpc('staff_performance', { p_from: from, p_to: to });
+
+  if (error) {
+    throw new Error(`Failed to fetch staff performance: ${error.message}`);
+  }
+
+  return (data || []).map((row: Record<string, string | number | null>) => {
+    const salesCount = Number(row.sales_count);
+    const revenue = Number(row.revenue);
+    const visits = Number(row.visits);
+    const bookedMinutes = Number(row.booked_minutes);
+    const availableMinutes = row.available_minutes === null ? null : Number(row.available_minutes);
+    return {
+      staffId: row.staff_id as string,
+      staff: row.staff as string,
+      salesCount,
+      serviceCount: Number(row.service_count),
+      revenue,
+      averageTicket: salesCount > 0 ? revenue / salesCount : 0,
+      visits,
+      rebookingRate: visits > 0 ? Number(row.rebooked_visits) / visits : null,
+      bookedMinutes,
+      utilization: availableMinutes ? bookedMinutes / availableMinutes : null
+    };
+  });
+}
@@ -0,0 +1,137 @@
+import { supabase } from '@/lib/supabase';
+
+export interface TaxSettings {
+  sst_enabled: boolean;
+  sst_rate: number;
+  service_charge_enabled: boolean;
+  service_charge_rate: number;
+  prices_include_tax: boolean;
+  sst_registration_number: string | null;
+}
+
+export interface ChargeableLine {
+  amount: number;
+  taxExempt: boolean;
+}
+
+export interface SaleCharges {
+  subtotal: number;
+  serviceCharge: number;
+  taxableAmount: number;
+  tax: number;
+  total: number;
+}
+
+export async function fetchTaxSettings() {
+  const { data, error } = await supabase
+    .from('tax_settings')
+    .select('sst_enabled, sst_rate, service_charge_enabled, service_charge_rate, prices_include_tax, sst_registration_number')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to fetch tax settings: ${error.message}`);
+  }
+
+  return data as TaxSettings;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Preview of the charges on a sale. Mirrors apply_sale_charges() in the
+// database, which is what is actually recorded.
+export function calculateCharges(lines: ChargeableLine[], settings: TaxSettings | null): SaleCharges {
+  const serviceChargeRate = settings?.service_charge_enabled ? settings.service_charge_rate / 100 : 0;
+  const taxRate = settings?.sst_enabled ? settings.sst_rate / 100 : 0;
+  const gross = lines.reduce((sum, line) => sum + line.amount, 0);
+  const taxableGross = lines.filter(line => !line.taxExempt).reduce((sum, line) => sum + line.amount, 0);
+
+  if (settings?.prices_include_tax) {
+    const taxableAmount = round2(taxableGross / (1 + taxRate));
+    const tax = round2(taxableGross - taxableAmount);
+    const subtotal = round2((gross - tax) / (1 + serviceChargeRate));
+    return {
+      subtotal,
+      serviceCharge: round2(gross - tax - subtotal),
+      taxableAmount: taxRate > 0 ? taxableAmount : 0,
+      tax,
+      total: round2(gross)
+    };
+  }
+
+  const serviceCharge = round2(gross * serviceChargeRate);
+  const taxableAmount = round2(taxableGross * (1 + serviceChargeRate));
+  const tax = round2(taxableAmount * taxRate);
+  return {
+    subtotal: round2(gross),
+    serviceCharge,
+    taxableAmount: taxRate > 0 ? taxableAmount : 0,
+    tax,
+    total: round2(gross + serviceCharge + tax)
+  };
+}
+
+export type TaxPeriod = 'month' | 'sst_period';
+
+export interface TaxableSale {
+  date: string;
+  amount: number;
+  net_amount?: number;
+  voided_at?: string | null;
+  subtotal: number;
+  service_charge: number;
+  tax: number;
+  taxable_amount: number;
+}
+
+export interface TaxSummaryRow {
+  period: string;
+  sales: number;
+  subtotal: number;
+  serviceCharge: number;
+  taxableAmount: number;
+  exemptAmount: number;
+  tax: number;
+  total: number;
+}
+
+// Label for the period a sale date falls in. SST returns cover two calendar
+// months (Jan-Feb, Mar-Apr, ...).
+const periodLabel = (date: string, period: TaxPeriod) => {
+  const [year, month] = date.split('-').map(Number);
+  if (period === 'month') return `${year}-${String(month).padStart(2, '0')}`;
+  const first = month % 2 === 0 ? month - 1 : month;
+  return `${year}-${String(first).padStart(2, '0')} to ${year}-${String(first + 1).padStart(2, '0')}`;
+};
+
+// Totals per period, newest first. Voided sales are left out and refunded
+// sales count in proportion to what was kept.
+export function summarizeTaxByPeriod(sales: TaxableSale[], period: TaxPeriod): TaxSummaryRow[] {
+  const rows = new Map<string, TaxSummaryRow>();
+  sales.filter(sale => !sale.voided_at).forEach(sale => {
+    const ratio = Number(sale.amount) > 0 ? Number(sale.net_amount ?? sale.amount) / Number(sale.amount) : 1;
+    const scaled = (value: number) => Number(value) * ratio;
+    const label = periodLabel(sale.date, period);
+    const row = rows.get(label) || {
+      period: label,
+      sales: 0,
+      subtotal: 0,
+      serviceCharge: 0,
+      taxableAmount: 0,
+      exemptAmount: 0,
+      tax: 0,
+      total: 0
+    };
+    const chargeable = scaled(sale.subtotal) + scaled(sale.service_charge);
+    rows.set(label, {
+      ...row,
+      sales: row.sales + 1,
+      subtotal: row.subtotal + scaled(sale.subtotal),
+      serviceCharge: row.serviceCharge + scaled(sale.service_charge),
+      taxableAmount: row.taxableAmount + scaled(sale.taxable_amount),
+      exemptAmount: row.exemptAmount + chargeable - scaled(sale.taxable_amount),
+      tax: row.tax + scaled(sale.tax),
+      total: row.total + scaled(sale.amount)
+    });
+  });
+  return [...rows.values()].sort((a, b) => b.period.localeCompare(a.period));
+}
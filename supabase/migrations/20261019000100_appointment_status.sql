@@ -0,0 +1,32 @@
+-- Appointment status lifecycle.
+-- Completed appointments are kept (instead of deleted) and linked to the sale
+-- that was recorded for them.
+
+alter table appointments add column if not exists status text;
+
+update appointments
+set status = case when status = 'completed' then 'completed' else 'booked' end
+where status is null or status not in (
+  'booked', 'confirmed', 'checked_in', 'in_service', 'completed', 'cancelled', 'no_show'
+);
+
+alter table appointments
+  alter column status set default 'booked',
+  alter column status set not null,
+  add constraint appointments_status_check check (
+    status in ('booked', 'confirmed', 'checked_in', 'in_service', 'completed', 'cancelled', 'no_show')
+  ),
+  add column booked_at timestamptz not null default now(),
+  add column confirmed_at timestamptz,
+  add column checked_in_at timestamptz,
+  add column in_service_at timestamptz,
+  add column completed_at timestamptz,
+  add column cancelled_at timestamptz,
+  add column no_show_at timestamptz,
+  add column status_changed_at timestamptz not null default now(),
+  add column sale_id uuid references sales(id) on delete set null;
+
+alter table sales
+  add column appointment_id uuid references appointments(id) on delete set null;
+
+create index appointments_status_date_idx on appointments (status, date);
@@ -0,0 +1,57 @@
+-- Completes an appointment and records its sale in a single transaction.
+-- Calling it again for an appointment that is already completed returns the
+-- sale created the first time instead of charging twice.
+
+create unique index sales_appointment_id_key on sales (appointment_id) where appointment_id is not null;
+
+create or replace function complete_appointment(p_appointment_id uuid)
+returns sales
+language plpgsql
+as $$
+declare
+  v_appointment appointments%rowtype;
+  v_sale sales%rowtype;
+  v_now timestamptz := now();
+begin
+  select * into v_appointment
+  from appointments
+  where id = p_appointment_id
+  for update;
+
+  if not found then
+    raise exception 'Appointment % not found', p_appointment_id using errcode = 'P0002';
+  end if;
+
+  if v_appointment.status = 'completed' then
+    select * into v_sale from sales where appointment_id = p_appointment_id;
+    if found then
+      return v_sale;
+    end if;
+  elsif v_appointment.status not in ('booked', 'confirmed', 'checked_in', 'in_service') then
+    raise exception 'A % appointment cannot be completed', replace(v_appointment.status, '_', '-')
+      using errcode = 'P0001';
+  end if;
+
+  insert into sales (customer_name, service, amount, date, staff, appointment_id)
+  values (
+    v_appointment.customer_name,
+    (select string_agg(s->>'name', ', ') from jsonb_array_elements(coalesce(v_appointment.services, '[]'::jsonb)) s),
+    v_appointment.total_price,
+    (v_now at time zone 'Asia/Kuala_Lumpur')::date,
+    v_appointment.staff,
+    v_appointment.id
+  )
+  returning * into v_sale;
+
+  update appointments
+  set status = 'completed',
+      status_changed_at = v_now,
+      completed_at = coalesce(completed_at, v_now),
+      sale_id = v_sale.id
+  where id = p_appointment_id;
+
+  return v_sale;
+end;
+$$;
+
+grant execute on function complete_appointment(uuid) to authenticated;
@@ -0,0 +1,31 @@
+-- Prevent two active appointments for the same staff member from overlapping.
+-- Front desk can still double-book deliberately by saving with allow_overlap.
+
+create extension if not exists btree_gist;
+
+alter table appointments add column allow_overlap boolean not null default false;
+
+-- Existing clashes predate the constraint; keep them as explicit overrides.
+update appointments a
+set allow_overlap = true
+where a.staff is not null
+  and a.status in ('booked', 'confirmed', 'checked_in', 'in_service')
+  and exists (
+    select 1
+    from appointments b
+    where b.id <> a.id
+      and b.staff = a.staff
+      and b.status in ('booked', 'confirmed', 'checked_in', 'in_service')
+      and tsrange(b.date + b.time, b.date + b.time + b.total_duration * interval '1 minute')
+        && tsrange(a.date + a.time, a.date + a.time + a.total_duration * interval '1 minute')
+  );
+
+alter table appointments
+  add constraint appointments_no_staff_overlap exclude using gist (
+    staff with =,
+    tsrange(date + time, date + time + total_duration * interval '1 minute') with &&
+  ) where (
+    staff is not null
+    and not allow_overlap
+    and status in ('booked', 'confirmed', 'checked_in', 'in_service')
+  );
@@ -0,0 +1,166 @@
+-- Staff as first-class records. Appointments and sales reference staff by id;
+-- their `staff` text column is kept as the display name and follows renames.
+
+create table staff (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  role text,
+  color text not null default '#ec4899',
+  phone_number text,
+  email text,
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create unique index staff_name_key on staff (lower(btrim(name)));
+
+alter table staff enable row level security;
+create policy "Authenticated users manage staff" on staff
+  for all to authenticated using (true) with check (true);
+
+-- One staff record per distinct name, ignoring case and surrounding spaces.
+insert into staff (name)
+select distinct on (lower(btrim(name))) btrim(name)
+from (
+  select staff as name from appointments
+  union all
+  select staff as name from sales
+) names
+where name is not null and btrim(name) <> ''
+order by lower(btrim(name)), btrim(name);
+
+alter table appointments add column staff_id uuid references staff(id) on delete set null;
+alter table sales add column staff_id uuid references staff(id) on delete set null;
+
+-- Overlap detection moves from the name to the staff record (re-added below).
+-- Dropped first: names folding into one record can clash once renamed.
+alter table appointments drop constraint appointments_no_staff_overlap;
+
+update appointments a
+set staff_id = s.id, staff = s.name
+from staff s
+where lower(btrim(a.staff)) = lower(btrim(s.name));
+
+update sales sa
+set staff_id = s.id, staff = s.name
+from staff s
+where lower(btrim(sa.staff)) = lower(btrim(s.name));
+
+create index appointments_staff_id_date_idx on appointments (staff_id, date);
+create index sales_staff_id_idx on sales (staff_id);
+
+create or replace function sync_staff_name()
+returns trigger
+language plpgsql
+as $$
+begin
+  update appointments set staff = new.name where staff_id = new.id;
+  update sales set staff = new.name where staff_id = new.id;
+  return new;
+end;
+$$;
+
+create trigger staff_name_changed
+  after update of name on staff
+  for each row
+  when (old.name is distinct from new.name)
+  execute function sync_staff_name();
+
+-- Re-points every appointment and sale from one staff record to another and
+-- removes the old record. Used to fold near-duplicates such as "Aina K" into "Aina".
+create or replace function merge_staff(p_from uuid, p_into uuid)
+returns void
+language plpgsql
+as $$
+declare
+  v_name text;
+begin
+  select name into v_name from staff where id = p_into;
+  if not found then
+    raise exception 'Staff member % not found', p_into using errcode = 'P0002';
+  end if;
+
+  update appointments set staff_id = p_into, staff = v_name where staff_id = p_from;
+  update sales set staff_id = p_into, staff = v_name where staff_id = p_from;
+  delete from staff where id = p_from;
+end;
+$$;
+
+grant execute on function merge_staff(uuid, uuid) to authenticated;
+
+-- Spellings that now share a staff record ("Aina", "aina ") can have
+-- overlapping bookings; keep those as explicit overrides too.
+update appointments a
+set allow_overlap = true
+where a.staff_id is not null
+  and a.status in ('booked', 'confirmed', 'checked_in', 'in_service')
+  and exists (
+    select 1
+    from appointments b
+    where b.id <> a.id
+      and b.staff_id = a.staff_id
+      and b.status in ('booked', 'confirmed', 'checked_in', 'in_service')
+      and tsrange(b.date + b.time, b.date + b.time + b.total_duration * interval '1 minute')
+        && tsrange(a.date + a.time, a.date + a.time + a.total_duration * interval '1 minute')
+  );
+
+alter table appointments
+  add constraint appointments_no_staff_overlap exclude using gist (
+    staff_id with =,
+    tsrange(date + time, date + time + total_duration * interval '1 minute') with &&
+  ) where (
+    staff_id is not null
+    and not allow_overlap
+    and status in ('booked', 'confirmed', 'checked_in', 'in_service')
+  );
+
+create or replace function complete_appointment(p_appointment_id uuid)
+returns sales
+language plpgsql
+as $$
+declare
+  v_appointment appointments%rowtype;
+  v_sale sales%rowtype;
+  v_now timestamptz := now();
+begin
+  select * into v_appointment
+  from appointments
+  where id = p_appointment_id
+  for update;
+
+  if not found then
+    raise exception 'Appointment % not found', p_appointment_id using errcode = 'P0002';
+  end if;
+
+  if v_appointment.status = 'completed' then
+    select * into v_sale from sales where appointment_id = p_appointment_id;
+    if found then
+      return v_sale;
+    end if;
+  elsif v_appointment.status not in ('booked', 'confirmed', 'checked_in', 'in_service') then
+    raise exception 'A % appointment cannot be completed', replace(v_appointment.status, '_', '-')
+      using errcode = 'P0001';
+  end if;
+
+  insert into sales (customer_name, service, amount, date, staff, staff_id, appointment_id)
+  values (
+    v_appointment.customer_name,
+    (select string_agg(s->>'name', ', ') from jsonb_array_elements(coalesce(v_appointment.services, '[]'::jsonb)) s),
+    v_appointment.total_price,
+    (v_now at time zone 'Asia/Kuala_Lumpur')::date,
+    v_appointment.staff,
+    v_appointment.staff_id,
+    v_appointment.id
+  )
+  returning * into v_sale;
+
+  update appointments
+  set status = 'completed',
+      status_changed_at = v_now,
+      completed_at = coalesce(completed_at, v_now),
+      sale_id = v_sale.id
+  where id = p_appointment_id;
+
+  return v_sale;
+end;
+$$;
@@ -0,0 +1,137 @@
+-- Customer profiles. Appointments and sales reference a customer record while
+-- keeping their customer_name / phone_number columns as a snapshot.
+
+create table customers (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  phone_number text,
+  email text,
+  birthday date,
+  notes text,
+  created_at timestamptz not null default now()
+);
+
+create unique index customers_phone_number_key on customers (phone_number) where phone_number is not null;
+create index customers_name_idx on customers (lower(name));
+
+alter table customers enable row level security;
+create policy "Authenticated users manage customers" on customers
+  for all to authenticated using (true) with check (true);
+
+alter table appointments add column customer_id uuid references customers(id) on delete set null;
+alter table sales add column customer_id uuid references customers(id) on delete set null;
+
+-- One customer per phone number, named after their most recent booking.
+insert into customers (name, phone_number)
+select distinct on (btrim(phone_number)) btrim(customer_name), btrim(phone_number)
+from appointments
+where phone_number is not null and btrim(phone_number) <> ''
+order by btrim(phone_number), date desc, time desc;
+
+update appointments a
+set customer_id = c.id
+from customers c
+where btrim(a.phone_number) = c.phone_number;
+
+update sales s
+set customer_id = a.customer_id
+from appointments a
+where s.appointment_id = a.id;
+
+-- Sales and appointments without a phone number are matched by name when
+-- exactly one customer has that name, otherwise a phone-less customer is created.
+update sales s
+set customer_id = c.id
+from customers c
+where s.customer_id is null
+  and lower(btrim(s.customer_name)) = lower(c.name)
+  and (select count(*) from customers c2 where lower(c2.name) = lower(c.name)) = 1;
+
+insert into customers (name)
+select distinct on (lower(btrim(customer_name))) btrim(customer_name)
+from (
+  select customer_name from sales where customer_id is null
+  union all
+  select customer_name from appointments where customer_id is null
+) unmatched
+where customer_name is not null and btrim(customer_name) <> ''
+order by lower(btrim(customer_name)), btrim(customer_name);
+
+update sales s
+set customer_id = c.id
+from customers c
+where s.customer_id is null
+  and c.phone_number is null
+  and lower(btrim(s.customer_name)) = lower(c.name);
+
+update appointments a
+set customer_id = c.id
+from customers c
+where a.customer_id is null
+  and c.phone_number is null
+  and lower(btrim(a.customer_name)) = lower(c.name);
+
+create index appointments_customer_id_idx on appointments (customer_id);
+create index sales_customer_id_idx on sales (customer_id);
+
+create view customer_summaries with (security_invoker = true) as
+select
+  c.*,
+  count(s.id) as visit_count,
+  coalesce(sum(s.amount), 0) as lifetime_spend,
+  max(s.date) as last_visit
+from customers c
+left join sales s on s.customer_id = c.id
+group by c.id;
+
+create or replace function complete_appointment(p_appointment_id uuid)
+returns sales
+language plpgsql
+as $$
+declare
+  v_appointment appointments%rowtype;
+  v_sale sales%rowtype;
+  v_now timestamptz := now();
+begin
+  select * into v_appointment
+  from appointments
+  where id = p_appointment_id
+  for update;
+
+  if not found then
+    raise exception 'Appointment % not found', p_appointment_id using errcode = 'P0002';
+  end if;
+
+  if v_appointment.status = 'completed' then
+    select * into v_sale from sales where appointment_id = p_appointment_id;
+    if found then
+      return v_sale;
+    end if;
+  elsif v_appointment.status not in ('booked', 'confirmed', 'checked_in', 'in_service') then
+    raise exception 'A % appointment cannot be completed', replace(v_appointment.status, '_', '-')
+      using errcode = 'P0001';
+  end if;
+
+  insert into sales (customer_name, customer_id, service, amount, date, staff, staff_id, appointment_id)
+  values (
+    v_appointment.customer_name,
+    v_appointment.customer_id,
+    (select string_agg(s->>'name', ', ') from jsonb_array_elements(coalesce(v_appointment.services, '[]'::jsonb)) s),
+    v_appointment.total_price,
+    (v_now at time zone 'Asia/Kuala_Lumpur')::date,
+    v_appointment.staff,
+    v_appointment.staff_id,
+    v_appointment.id
+  )
+  returning * into v_sale;
+
+  update appointments
+  set status = 'completed',
+      status_changed_at = v_now,
+      completed_at = coalesce(completed_at, v_now),
+      sale_id = v_sale.id
+  where id = p_appointment_id;
+
+  return v_sale;
+end;
+$$;
@@ -0,0 +1,147 @@
+-- Merging duplicate customers. Merged records are kept (pointing at the
+-- surviving customer through merged_into) and every merge is logged with the
+-- appointments and sales it moved so it can be undone.
+
+alter table customers add column merged_into uuid references customers(id);
+
+drop index customers_phone_number_key;
+create unique index customers_phone_number_key on customers (phone_number)
+  where phone_number is not null and merged_into is null;
+
+drop view customer_summaries;
+create view customer_summaries with (security_invoker = true) as
+select
+  c.*,
+  count(s.id) as visit_count,
+  coalesce(sum(s.amount), 0) as lifetime_spend,
+  max(s.date) as last_visit
+from customers c
+left join sales s on s.customer_id = c.id
+group by c.id;
+
+create table customer_merges (
+  id uuid primary key default gen_random_uuid(),
+  survivor_id uuid not null references customers(id),
+  -- [{ "customer_id": ..., "appointment_ids": [...], "sale_ids": [...] }, ...]
+  merged jsonb not null,
+  merged_by uuid default auth.uid(),
+  created_at timestamptz not null default now(),
+  undone_at timestamptz,
+  undone_by uuid
+);
+
+alter table customer_merges enable row level security;
+create policy "Authenticated users read customer merges" on customer_merges
+  for select to authenticated using (true);
+
+-- Merges are only logged and undone through the two functions below, which
+-- run as the owner.
+create or replace function merge_customers(p_survivor_id uuid, p_merged_ids uuid[])
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_customer_id uuid;
+  v_appointment_ids uuid[];
+  v_sale_ids uuid[];
+  v_merged jsonb := '[]'::jsonb;
+  v_merge_id uuid;
+begin
+  if p_survivor_id = any(p_merged_ids) then
+    raise exception 'A customer cannot be merged into itself' using errcode = 'P0001';
+  end if;
+
+  perform 1 from customers where id = p_survivor_id and merged_into is null for update;
+  if not found then
+    raise exception 'Customer % not found or already merged', p_survivor_id using errcode = 'P0002';
+  end if;
+
+  foreach v_customer_id in array p_merged_ids loop
+    perform 1 from customers where id = v_customer_id and merged_into is null for update;
+    if not found then
+      raise exception 'Customer % not found or already merged', v_customer_id using errcode = 'P0002';
+    end if;
+
+    with moved as (
+      update appointments set customer_id = p_survivor_id
+      where customer_id = v_customer_id
+      returning id
+    )
+    select coalesce(array_agg(id), '{}') into v_appointment_ids from moved;
+
+    with moved as (
+      update sales set customer_id = p_survivor_id
+      where customer_id = v_customer_id
+      returning id
+    )
+    select coalesce(array_agg(id), '{}') into v_sale_ids from moved;
+
+    update customers set merged_into = p_survivor_id where id = v_customer_id;
+
+    v_merged := v_merged || jsonb_build_array(jsonb_build_object(
+      'customer_id', v_customer_id,
+      'appointment_ids', to_jsonb(v_appointment_ids),
+      'sale_ids', to_jsonb(v_sale_ids)
+    ));
+  end loop;
+
+  insert into customer_merges (survivor_id, merged)
+  values (p_survivor_id, v_merged)
+  returning id into v_merge_id;
+
+  return v_merge_id;
+end;
+$$;
+
+-- Moves the appointments and sales recorded in the merge back to the
+-- customers they came from and reinstates those customers. Not possible once
+-- the survivor has itself been merged away: undo that merge first.
+create or replace function undo_customer_merge(p_merge_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_merge customer_merges%rowtype;
+  v_entry jsonb;
+  v_customer_id uuid;
+begin
+  select * into v_merge from customer_merges where id = p_merge_id for update;
+  if not found then
+    raise exception 'Merge % not found', p_merge_id using errcode = 'P0002';
+  end if;
+  if v_merge.undone_at is not null then
+    raise exception 'This merge has already been undone' using errcode = 'P0001';
+  end if;
+
+  perform 1 from customers where id = v_merge.survivor_id and merged_into is null for update;
+  if not found then
+    raise exception 'The surviving customer has since been merged into another; undo that merge first'
+      using errcode = 'P0001';
+  end if;
+
+  for v_entry in select * from jsonb_array_elements(v_merge.merged) loop
+    v_customer_id := (v_entry->>'customer_id')::uuid;
+
+    update customers set merged_into = null where id = v_customer_id;
+
+    update appointments set customer_id = v_customer_id
+    where customer_id = v_merge.survivor_id
+      and id in (select jsonb_array_elements_text(v_entry->'appointment_ids')::uuid);
+
+    update sales set customer_id = v_customer_id
+    where customer_id = v_merge.survivor_id
+      and id in (select jsonb_array_elements_text(v_entry->'sale_ids')::uuid);
+  end loop;
+
+  update customer_merges
+  set undone_at = now(), undone_by = auth.uid()
+  where id = p_merge_id;
+end;
+$$;
+
+grant execute on function merge_customers(uuid, uuid[]) to authenticated;
+grant execute on function undo_customer_merge(uuid) to authenticated;
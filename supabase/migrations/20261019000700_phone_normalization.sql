@@ -0,0 +1,120 @@
+-- Normalize stored phone numbers to E.164 with Malaysian defaults.
+-- Rows that cannot be parsed, or whose normalized number already belongs to
+-- another customer, are left unchanged and listed in phone_normalization_issues.
+
+-- Mirrors parsePhoneNumber() in lib/phone.ts.
+create or replace function normalize_my_phone(p_phone text)
+returns text
+language plpgsql
+immutable
+as $$
+declare
+  v_compact text;
+  v_national text;
+begin
+  if p_phone is null then
+    return null;
+  end if;
+
+  v_compact := regexp_replace(p_phone, '[\s\-.()]', '', 'g');
+  if v_compact !~ '^\+?[0-9]+$' then
+    return null;
+  end if;
+
+  if v_compact like '+%' then
+    if v_compact not like '+60%' then
+      return case when length(v_compact) between 9 and 16 then v_compact end;
+    end if;
+    v_national := substr(v_compact, 4);
+  elsif v_compact like '60%' and length(v_compact) between 10 and 12 then
+    v_national := substr(v_compact, 3);
+  elsif v_compact like '0%' then
+    v_national := substr(v_compact, 2);
+  elsif v_compact like '1%' then
+    v_national := v_compact;
+  else
+    return null;
+  end if;
+
+  if v_national ~ '^(11[0-9]{8}|1[02-46-9][0-9]{7})$'
+    or v_national ~ '^(3[0-9]{8}|[4-79][0-9]{7}|8[0-9]{7})$' then
+    return '+60' || v_national;
+  end if;
+
+  return null;
+end;
+$$;
+
+create table phone_normalization_issues (
+  id uuid primary key default gen_random_uuid(),
+  table_name text not null,
+  row_id uuid not null,
+  phone_number text not null,
+  reason text not null,
+  created_at timestamptz not null default now()
+);
+
+alter table phone_normalization_issues enable row level security;
+create policy "Authenticated users read phone issues" on phone_normalization_issues
+  for select to authenticated using (true);
+
+insert into phone_normalization_issues (table_name, row_id, phone_number, reason)
+select 'appointments', id, phone_number, 'unparseable'
+from appointments
+where btrim(coalesce(phone_number, '')) <> '' and normalize_my_phone(phone_number) is null
+union all
+select 'customers', id, phone_number, 'unparseable'
+from customers
+where btrim(coalesce(phone_number, '')) <> '' and normalize_my_phone(phone_number) is null
+union all
+select 'staff', id, phone_number, 'unparseable'
+from staff
+where btrim(coalesce(phone_number, '')) <> '' and normalize_my_phone(phone_number) is null;
+
+update appointments
+set phone_number = normalize_my_phone(phone_number)
+where normalize_my_phone(phone_number) is not null;
+
+update staff
+set phone_number = normalize_my_phone(phone_number)
+where normalize_my_phone(phone_number) is not null;
+
+-- Several customers can normalize to the same number ("012-345 6789" and
+-- "+60123456789"). A customer already storing the normalized number keeps
+-- it, otherwise the oldest does; the rest are reported so they can be merged
+-- from the duplicate customers screen.
+with ranked as (
+  select
+    id,
+    phone_number,
+    normalize_my_phone(phone_number) as normalized,
+    row_number() over (
+      partition by normalize_my_phone(phone_number)
+      order by phone_number = normalize_my_phone(phone_number) desc, created_at, id
+    ) as position
+  from customers
+  where merged_into is null and normalize_my_phone(phone_number) is not null
+)
+insert into phone_normalization_issues (table_name, row_id, phone_number, reason)
+select 'customers', id, phone_number, 'duplicate'
+from ranked
+where position > 1;
+
+update customers c
+set phone_number = normalize_my_phone(c.phone_number)
+where c.merged_into is null
+  and normalize_my_phone(c.phone_number) is not null
+  and c.phone_number <> normalize_my_phone(c.phone_number)
+  and not exists (
+    select 1 from phone_normalization_issues i
+    where i.table_name = 'customers' and i.row_id = c.id
+  );
+
+do $$
+declare
+  v_count integer;
+begin
+  select count(*) into v_count from phone_normalization_issues;
+  raise notice '% phone number(s) could not be normalized; see phone_normalization_issues', v_count;
+end;
+$$;
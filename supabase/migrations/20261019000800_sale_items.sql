@@ -0,0 +1,157 @@
+-- Line items for sales. `sales.service` stays as a readable summary, but
+-- per-service reporting reads sale_items.
+
+create table sale_items (
+  id uuid primary key default gen_random_uuid(),
+  sale_id uuid not null references sales(id) on delete cascade,
+  service_id uuid references services(id) on delete set null,
+  service_name text not null,
+  unit_price numeric(10, 2) not null check (unit_price >= 0),
+  quantity integer not null default 1 check (quantity > 0),
+  staff_id uuid references staff(id) on delete set null,
+  staff text,
+  discount numeric(10, 2) not null default 0 check (discount >= 0),
+  line_total numeric(10, 2) generated always as (unit_price * quantity - discount) stored,
+  created_at timestamptz not null default now()
+);
+
+create index sale_items_sale_id_idx on sale_items (sale_id);
+create index sale_items_service_id_idx on sale_items (service_id);
+
+alter table sale_items enable row level security;
+create policy "Authenticated users manage sale items" on sale_items
+  for all to authenticated using (true) with check (true);
+
+-- Sales from completed appointments: one line per booked service, priced as booked.
+insert into sale_items (sale_id, service_id, service_name, unit_price, staff_id, staff, created_at)
+select
+  sa.id,
+  sv.id,
+  s.item->>'name',
+  coalesce((s.item->>'price')::numeric, 0),
+  sa.staff_id,
+  sa.staff,
+  sa.created_at
+from sales sa
+join appointments a on a.id = sa.appointment_id
+cross join lateral jsonb_array_elements(coalesce(a.services, '[]'::jsonb)) as s(item)
+left join services sv on sv.id::text = s.item->>'id'
+where coalesce(s.item->>'name', '') <> '';
+
+-- Other sales only have the comma-joined names. Use catalogue prices when every
+-- name matches a service and they add up to the sale amount; otherwise split the
+-- amount evenly and put the rounding difference on the last line.
+with parts as (
+  select
+    sa.id as sale_id,
+    sa.amount,
+    sa.staff_id,
+    sa.staff,
+    sa.created_at,
+    btrim(p.name) as service_name,
+    p.position,
+    count(*) over (partition by sa.id) as part_count
+  from sales sa
+  cross join lateral unnest(string_to_array(sa.service, ',')) with ordinality as p(name, position)
+  where not exists (select 1 from sale_items i where i.sale_id = sa.id)
+    and btrim(p.name) <> ''
+),
+matched as (
+  select
+    parts.*,
+    sv.id as service_id,
+    sv.price as catalogue_price,
+    bool_and(sv.id is not null) over (partition by parts.sale_id) as all_matched,
+    sum(sv.price) over (partition by parts.sale_id) as catalogue_total
+  from parts
+  left join lateral (
+    select id, price from services
+    where lower(btrim(name)) = lower(parts.service_name)
+    order by id
+    limit 1
+  ) sv on true
+),
+priced as (
+  select
+    matched.*,
+    case
+      when all_matched and catalogue_total = amount then catalogue_price
+      when position = part_count then amount - round(amount / part_count, 2) * (part_count - 1)
+      else round(amount / part_count, 2)
+    end as unit_price
+  from matched
+)
+insert into sale_items (sale_id, service_id, service_name, unit_price, staff_id, staff, created_at)
+select sale_id, service_id, service_name, unit_price, staff_id, staff, created_at
+from priced
+order by sale_id, position;
+
+-- Sales with no service text at all still get a line so totals reconcile.
+insert into sale_items (sale_id, service_name, unit_price, staff_id, staff, created_at)
+select sa.id, 'Unspecified', sa.amount, sa.staff_id, sa.staff, sa.created_at
+from sales sa
+where not exists (select 1 from sale_items i where i.sale_id = sa.id);
+
+create or replace function complete_appointment(p_appointment_id uuid)
+returns sales
+language plpgsql
+as $$
+declare
+  v_appointment appointments%rowtype;
+  v_sale sales%rowtype;
+  v_now timestamptz := now();
+begin
+  select * into v_appointment
+  from appointments
+  where id = p_appointment_id
+  for update;
+
+  if not found then
+    raise exception 'Appointment % not found', p_appointment_id using errcode = 'P0002';
+  end if;
+
+  if v_appointment.status = 'completed' then
+    select * into v_sale from sales where appointment_id = p_appointment_id;
+    if found then
+      return v_sale;
+    end if;
+  elsif v_appointment.status not in ('booked', 'confirmed', 'checked_in', 'in_service') then
+    raise exception 'A % appointment cannot be completed', replace(v_appointment.status, '_', '-')
+      using errcode = 'P0001';
+  end if;
+
+  insert into sales (customer_name, customer_id, service, amount, date, staff, staff_id, appointment_id)
+  values (
+    v_appointment.customer_name,
+    v_appointment.customer_id,
+    (select string_agg(s->>'name', ', ') from jsonb_array_elements(coalesce(v_appointment.services, '[]'::jsonb)) s),
+    v_appointment.total_price,
+    (v_now at time zone 'Asia/Kuala_Lumpur')::date,
+    v_appointment.staff,
+    v_appointment.staff_id,
+    v_appointment.id
+  )
+  returning * into v_sale;
+
+  insert into sale_items (sale_id, service_id, service_name, unit_price, staff_id, staff)
+  select
+    v_sale.id,
+    sv.id,
+    s.item->>'name',
+    coalesce((s.item->>'price')::numeric, 0),
+    v_appointment.staff_id,
+    v_appointment.staff
+  from jsonb_array_elements(coalesce(v_appointment.services, '[]'::jsonb)) with ordinality as s(item, position)
+  left join services sv on sv.id::text = s.item->>'id'
+  order by s.position;
+
+  update appointments
+  set status = 'completed',
+      status_changed_at = v_now,
+      completed_at = coalesce(completed_at, v_now),
+      sale_id = v_sale.id
+  where id = p_appointment_id;
+
+  return v_sale;
+end;
+$$;
@@ -0,0 +1,85 @@
+-- Sales entered directly on the Sales page, without an appointment.
+
+alter table sales
+  add column payment_method text
+    check (payment_method in ('cash', 'card', 'ewallet', 'bank_transfer'));
+
+-- p_items: [{ "service_id": uuid, "quantity": int, "discount": numeric, "staff_id": uuid|null }]
+-- Names and prices come from the services table, not the client. Lines without
+-- their own staff_id use p_staff_id.
+create or replace function create_walk_in_sale(
+  p_customer_name text,
+  p_customer_id uuid,
+  p_staff_id uuid,
+  p_payment_method text,
+  p_items jsonb
+)
+returns sales
+language plpgsql
+as $$
+declare
+  v_sale sales%rowtype;
+  v_staff_name text;
+  v_invalid text;
+begin
+  if jsonb_typeof(p_items) is distinct from 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A sale needs at least one item' using errcode = 'P0001';
+  end if;
+
+  if p_staff_id is not null then
+    select name into v_staff_name from staff where id = p_staff_id;
+    if not found then
+      raise exception 'Staff member % not found', p_staff_id using errcode = 'P0002';
+    end if;
+  end if;
+
+  create temporary table walk_in_lines on commit drop as
+  select
+    l.position,
+    sv.id as service_id,
+    sv.name as service_name,
+    sv.price as unit_price,
+    coalesce((l.item->>'quantity')::integer, 1) as quantity,
+    coalesce((l.item->>'discount')::numeric, 0) as discount,
+    coalesce((l.item->>'staff_id')::uuid, p_staff_id) as staff_id,
+    l.item->>'service_id' as requested_service_id
+  from jsonb_array_elements(p_items) with ordinality as l(item, position)
+  left join services sv on sv.id = (l.item->>'service_id')::uuid;
+
+  select requested_service_id into v_invalid from walk_in_lines where service_id is null limit 1;
+  if found then
+    raise exception 'Service % not found', v_invalid using errcode = 'P0002';
+  end if;
+
+  if exists (select 1 from walk_in_lines where quantity < 1) then
+    raise exception 'Quantity must be at least 1' using errcode = 'P0001';
+  end if;
+
+  if exists (select 1 from walk_in_lines where discount < 0 or discount > unit_price * quantity) then
+    raise exception 'A discount cannot be negative or more than the line price' using errcode = 'P0001';
+  end if;
+
+  insert into sales (customer_name, customer_id, service, amount, date, staff, staff_id, payment_method)
+  select
+    coalesce(nullif(btrim(p_customer_name), ''), 'Walk-in'),
+    p_customer_id,
+    string_agg(service_name, ', ' order by position),
+    sum(unit_price * quantity - discount),
+    (now() at time zone 'Asia/Kuala_Lumpur')::date,
+    v_staff_name,
+    p_staff_id,
+    p_payment_method
+  from walk_in_lines
+  returning * into v_sale;
+
+  insert into sale_items (sale_id, service_id, service_name, unit_price, quantity, staff_id, staff, discount)
+  select v_sale.id, l.service_id, l.service_name, l.unit_price, l.quantity, l.staff_id, st.name, l.discount
+  from walk_in_lines l
+  left join staff st on st.id = l.staff_id
+  order by l.position;
+
+  drop table walk_in_lines;
+
+  return v_sale;
+end;
+$$;
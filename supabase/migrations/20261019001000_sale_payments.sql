@@ -0,0 +1,171 @@
+-- Payments against a sale. A sale can be settled with several tenders; cash
+-- tenders record what was handed over so the change is known at cash-up.
+
+create table sale_payments (
+  id uuid primary key default gen_random_uuid(),
+  sale_id uuid not null references sales(id) on delete cascade,
+  method text not null
+    check (method in ('cash', 'card', 'touch_n_go', 'grabpay', 'duitnow_qr', 'ewallet', 'bank_transfer')),
+  amount numeric(10, 2) not null check (amount > 0),
+  tendered numeric(10, 2),
+  change_given numeric(10, 2) generated always as (coalesce(tendered, amount) - amount) stored,
+  reference text,
+  created_at timestamptz not null default now(),
+  constraint sale_payments_tendered_check check (
+    tendered is null or (method = 'cash' and tendered >= amount)
+  )
+);
+
+create index sale_payments_sale_id_idx on sale_payments (sale_id);
+
+alter table sale_payments enable row level security;
+create policy "Authenticated users manage sale payments" on sale_payments
+  for all to authenticated using (true) with check (true);
+
+-- Walk-in sales recorded a single method on the sale itself.
+insert into sale_payments (sale_id, method, amount, created_at)
+select id, payment_method, amount, created_at
+from sales
+where payment_method is not null and amount > 0;
+
+alter table sales drop column payment_method;
+
+-- p_payments: [{ "method": text, "amount": numeric, "tendered": numeric|null, "reference": text|null }]
+-- Payments may not take the total paid past the sale amount.
+create or replace function add_sale_payments(p_sale_id uuid, p_payments jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  v_amount numeric;
+  v_paid numeric;
+begin
+  select amount into v_amount from sales where id = p_sale_id for update;
+  if not found then
+    raise exception 'Sale % not found', p_sale_id using errcode = 'P0002';
+  end if;
+
+  if jsonb_typeof(p_payments) is distinct from 'array' or jsonb_array_length(p_payments) = 0 then
+    raise exception 'Enter at least one payment' using errcode = 'P0001';
+  end if;
+
+  insert into sale_payments (sale_id, method, amount, tendered, reference)
+  select
+    p_sale_id,
+    p->>'method',
+    (p->>'amount')::numeric,
+    case when p->>'method' = 'cash' then (p->>'tendered')::numeric end,
+    nullif(btrim(p->>'reference'), '')
+  from jsonb_array_elements(p_payments) p;
+
+  select coalesce(sum(amount), 0) into v_paid from sale_payments where sale_id = p_sale_id;
+  if v_paid > v_amount then
+    raise exception 'Payments of RM % exceed the sale total of RM %', v_paid, v_amount
+      using errcode = 'P0001';
+  end if;
+end;
+$$;
+
+-- For sales settled after the fact, e.g. appointments completed before paying.
+create or replace function record_sale_payments(p_sale_id uuid, p_payments jsonb)
+returns sales
+language plpgsql
+as $$
+declare
+  v_sale sales%rowtype;
+begin
+  perform add_sale_payments(p_sale_id, p_payments);
+  select * into v_sale from sales where id = p_sale_id;
+  return v_sale;
+end;
+$$;
+
+drop function create_walk_in_sale(text, uuid, uuid, text, jsonb);
+
+-- p_items: [{ "service_id": uuid, "quantity": int, "discount": numeric, "staff_id": uuid|null }]
+-- Names and prices come from the services table, not the client. Lines without
+-- their own staff_id use p_staff_id. Walk-ins are paid in full at the counter.
+create or replace function create_walk_in_sale(
+  p_customer_name text,
+  p_customer_id uuid,
+  p_staff_id uuid,
+  p_items jsonb,
+  p_payments jsonb
+)
+returns sales
+language plpgsql
+as $$
+declare
+  v_sale sales%rowtype;
+  v_staff_name text;
+  v_invalid text;
+  v_paid numeric;
+begin
+  if jsonb_typeof(p_items) is distinct from 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A sale needs at least one item' using errcode = 'P0001';
+  end if;
+
+  if p_staff_id is not null then
+    select name into v_staff_name from staff where id = p_staff_id;
+    if not found then
+      raise exception 'Staff member % not found', p_staff_id using errcode = 'P0002';
+    end if;
+  end if;
+
+  create temporary table walk_in_lines on commit drop as
+  select
+    l.position,
+    sv.id as service_id,
+    sv.name as service_name,
+    sv.price as unit_price,
+    coalesce((l.item->>'quantity')::integer, 1) as quantity,
+    coalesce((l.item->>'discount')::numeric, 0) as discount,
+    coalesce((l.item->>'staff_id')::uuid, p_staff_id) as staff_id,
+    l.item->>'service_id' as requested_service_id
+  from jsonb_array_elements(p_items) with ordinality as l(item, position)
+  left join services sv on sv.id = (l.item->>'service_id')::uuid;
+
+  select requested_service_id into v_invalid from walk_in_lines where service_id is null limit 1;
+  if found then
+    raise exception 'Service % not found', v_invalid using errcode = 'P0002';
+  end if;
+
+  if exists (select 1 from walk_in_lines where quantity < 1) then
+    raise exception 'Quantity must be at least 1' using errcode = 'P0001';
+  end if;
+
+  if exists (select 1 from walk_in_lines where discount < 0 or discount > unit_price * quantity) then
+    raise exception 'A discount cannot be negative or more than the line price' using errcode = 'P0001';
+  end if;
+
+  insert into sales (customer_name, customer_id, service, amount, date, staff, staff_id)
+  select
+    coalesce(nullif(btrim(p_customer_name), ''), 'Walk-in'),
+    p_customer_id,
+    string_agg(service_name, ', ' order by position),
+    sum(unit_price * quantity - discount),
+    (now() at time zone 'Asia/Kuala_Lumpur')::date,
+    v_staff_name,
+    p_staff_id
+  from walk_in_lines
+  returning * into v_sale;
+
+  insert into sale_items (sale_id, service_id, service_name, unit_price, quantity, staff_id, staff, discount)
+  select v_sale.id, l.service_id, l.service_name, l.unit_price, l.quantity, l.staff_id, st.name, l.discount
+  from walk_in_lines l
+  left join staff st on st.id = l.staff_id
+  order by l.position;
+
+  drop table walk_in_lines;
+
+  if v_sale.amount > 0 then
+    perform add_sale_payments(v_sale.id, p_payments);
+    select sum(amount) into v_paid from sale_payments where sale_id = v_sale.id;
+    if v_paid < v_sale.amount then
+      raise exception 'RM % is still owing', v_sale.amount - v_paid using errcode = 'P0001';
+    end if;
+  end if;
+
+  return v_sale;
+end;
+$$;
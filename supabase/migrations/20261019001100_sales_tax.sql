@@ -0,0 +1,264 @@
+-- SST and service charge. Rates live in a single settings row and are copied
+-- onto each sale when it is created, so later rate changes do not rewrite
+-- history.
+
+create table tax_settings (
+  id boolean primary key default true check (id),
+  sst_enabled boolean not null default false,
+  sst_rate numeric(5, 2) not null default 8 check (sst_rate >= 0),
+  service_charge_enabled boolean not null default false,
+  service_charge_rate numeric(5, 2) not null default 10 check (service_charge_rate >= 0),
+  -- Listed service prices already include SST and service charge.
+  prices_include_tax boolean not null default false,
+  sst_registration_number text,
+  updated_at timestamptz not null default now()
+);
+
+insert into tax_settings (id) values (true);
+
+alter table tax_settings enable row level security;
+create policy "Authenticated users manage tax settings" on tax_settings
+  for all to authenticated using (true) with check (true);
+
+alter table services add column tax_exempt boolean not null default false;
+
+alter table sale_items add column tax_exempt boolean not null default false;
+
+update sale_items i
+set tax_exempt = s.tax_exempt
+from services s
+where s.id = i.service_id;
+
+-- `amount` remains the total charged. Sales before this migration had no
+-- charges, so their subtotal is the amount.
+alter table sales
+  add column subtotal numeric(10, 2),
+  add column service_charge numeric(10, 2) not null default 0,
+  add column tax numeric(10, 2) not null default 0,
+  add column taxable_amount numeric(10, 2) not null default 0,
+  add column service_charge_rate numeric(5, 2) not null default 0,
+  add column tax_rate numeric(5, 2) not null default 0,
+  add column prices_include_tax boolean not null default false;
+
+update sales set subtotal = amount;
+
+alter table sales alter column subtotal set not null;
+
+-- Recomputes a sale's charges and total from its line items and the current
+-- settings. Service charge applies to every line; SST applies to the
+-- non-exempt lines and their share of the service charge.
+create or replace function apply_sale_charges(p_sale_id uuid)
+returns sales
+language plpgsql
+as $$
+declare
+  v_settings tax_settings%rowtype;
+  v_sale sales%rowtype;
+  v_service_charge_rate numeric;
+  v_tax_rate numeric;
+  v_gross numeric;
+  v_taxable_gross numeric;
+  v_subtotal numeric;
+  v_service_charge numeric;
+  v_taxable numeric;
+  v_tax numeric;
+  v_amount numeric;
+begin
+  select * into v_settings from tax_settings;
+  v_service_charge_rate := case when v_settings.service_charge_enabled then v_settings.service_charge_rate else 0 end;
+  v_tax_rate := case when v_settings.sst_enabled then v_settings.sst_rate else 0 end;
+
+  select coalesce(sum(line_total), 0), coalesce(sum(line_total) filter (where not tax_exempt), 0)
+  into v_gross, v_taxable_gross
+  from sale_items
+  where sale_id = p_sale_id;
+
+  if coalesce(v_settings.prices_include_tax, false) then
+    v_amount := v_gross;
+    v_taxable := round(v_taxable_gross / (1 + v_tax_rate / 100), 2);
+    v_tax := v_taxable_gross - v_taxable;
+    v_subtotal := round((v_gross - v_tax) / (1 + v_service_charge_rate / 100), 2);
+    v_service_charge := v_gross - v_tax - v_subtotal;
+  else
+    v_subtotal := v_gross;
+    v_service_charge := round(v_gross * v_service_charge_rate / 100, 2);
+    v_taxable := round(v_taxable_gross * (1 + v_service_charge_rate / 100), 2);
+    v_tax := round(v_taxable * v_tax_rate / 100, 2);
+    v_amount := v_subtotal + v_service_charge + v_tax;
+  end if;
+
+  update sales
+  set subtotal = v_subtotal,
+      service_charge = v_service_charge,
+      tax = v_tax,
+      taxable_amount = case when v_tax_rate > 0 then v_taxable else 0 end,
+      service_charge_rate = v_service_charge_rate,
+      tax_rate = v_tax_rate,
+      prices_include_tax = coalesce(v_settings.prices_include_tax, false),
+      amount = v_amount
+  where id = p_sale_id
+  returning * into v_sale;
+
+  return v_sale;
+end;
+$$;
+
+create or replace function complete_appointment(p_appointment_id uuid)
+returns sales
+language plpgsql
+as $$
+declare
+  v_appointment appointments%rowtype;
+  v_sale sales%rowtype;
+  v_now timestamptz := now();
+begin
+  select * into v_appointment
+  from appointments
+  where id = p_appointment_id
+  for update;
+
+  if not found then
+    raise exception 'Appointment % not found', p_appointment_id using errcode = 'P0002';
+  end if;
+
+  if v_appointment.status = 'completed' then
+    select * into v_sale from sales where appointment_id = p_appointment_id;
+    if found then
+      return v_sale;
+    end if;
+  elsif v_appointment.status not in ('booked', 'confirmed', 'checked_in', 'in_service') then
+    raise exception 'A % appointment cannot be completed', replace(v_appointment.status, '_', '-')
+      using errcode = 'P0001';
+  end if;
+
+  insert into sales (customer_name, customer_id, service, amount, subtotal, date, staff, staff_id, appointment_id)
+  values (
+    v_appointment.customer_name,
+    v_appointment.customer_id,
+    (select string_agg(s->>'name', ', ') from jsonb_array_elements(coalesce(v_appointment.services, '[]'::jsonb)) s),
+    v_appointment.total_price,
+    v_appointment.total_price,
+    (v_now at time zone 'Asia/Kuala_Lumpur')::date,
+    v_appointment.staff,
+    v_appointment.staff_id,
+    v_appointment.id
+  )
+  returning * into v_sale;
+
+  insert into sale_items (sale_id, service_id, service_name, unit_price, staff_id, staff, tax_exempt)
+  select
+    v_sale.id,
+    sv.id,
+    s.item->>'name',
+    coalesce((s.item->>'price')::numeric, 0),
+    v_appointment.staff_id,
+    v_appointment.staff,
+    coalesce(sv.tax_exempt, false)
+  from jsonb_array_elements(coalesce(v_appointment.services, '[]'::jsonb)) with ordinality as s(item, position)
+  left join services sv on sv.id::text = s.item->>'id'
+  order by s.position;
+
+  v_sale := apply_sale_charges(v_sale.id);
+
+  update appointments
+  set status = 'completed',
+      status_changed_at = v_now,
+      completed_at = coalesce(completed_at, v_now),
+      sale_id = v_sale.id
+  where id = p_appointment_id;
+
+  return v_sale;
+end;
+$$;
+
+-- p_items: [{ "service_id": uuid, "quantity": int, "discount": numeric, "staff_id": uuid|null }]
+-- Names and prices come from the services table, not the client. Lines without
+-- their own staff_id use p_staff_id. Walk-ins are paid in full at the counter.
+create or replace function create_walk_in_sale(
+  p_customer_name text,
+  p_customer_id uuid,
+  p_staff_id uuid,
+  p_items jsonb,
+  p_payments jsonb
+)
+returns sales
+language plpgsql
+as $$
+declare
+  v_sale sales%rowtype;
+  v_staff_name text;
+  v_invalid text;
+  v_paid numeric;
+begin
+  if jsonb_typeof(p_items) is distinct from 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A sale needs at least one item' using errcode = 'P0001';
+  end if;
+
+  if p_staff_id is not null then
+    select name into v_staff_name from staff where id = p_staff_id;
+    if not found then
+      raise exception 'Staff member % not found', p_staff_id using errcode = 'P0002';
+    end if;
+  end if;
+
+  create temporary table walk_in_lines on commit drop as
+  select
+    l.position,
+    sv.id as service_id,
+    sv.name as service_name,
+    sv.price as unit_price,
+    sv.tax_exempt,
+    coalesce((l.item->>'quantity')::integer, 1) as quantity,
+    coalesce((l.item->>'discount')::numeric, 0) as discount,
+    coalesce((l.item->>'staff_id')::uuid, p_staff_id) as staff_id,
+    l.item->>'service_id' as requested_service_id
+  from jsonb_array_elements(p_items) with ordinality as l(item, position)
+  left join services sv on sv.id = (l.item->>'service_id')::uuid;
+
+  select requested_service_id into v_invalid from walk_in_lines where service_id is null limit 1;
+  if found then
+    raise exception 'Service % not found', v_invalid using errcode = 'P0002';
+  end if;
+
+  if exists (select 1 from walk_in_lines where quantity < 1) then
+    raise exception 'Quantity must be at least 1' using errcode = 'P0001';
+  end if;
+
+  if exists (select 1 from walk_in_lines where discount < 0 or discount > unit_price * quantity) then
+    raise exception 'A discount cannot be negative or more than the line price' using errcode = 'P0001';
+  end if;
+
+  insert into sales (customer_name, customer_id, service, amount, subtotal, date, staff, staff_id)
+  select
+    coalesce(nullif(btrim(p_customer_name), ''), 'Walk-in'),
+    p_customer_id,
+    string_agg(service_name, ', ' order by position),
+    sum(unit_price * quantity - discount),
+    sum(unit_price * quantity - discount),
+    (now() at time zone 'Asia/Kuala_Lumpur')::date,
+    v_staff_name,
+    p_staff_id
+  from walk_in_lines
+  returning * into v_sale;
+
+  insert into sale_items (sale_id, service_id, service_name, unit_price, quantity, staff_id, staff, discount, tax_exempt)
+  select v_sale.id, l.service_id, l.service_name, l.unit_price, l.quantity, l.staff_id, st.name, l.discount, l.tax_exempt
+  from walk_in_lines l
+  left join staff st on st.id = l.staff_id
+  order by l.position;
+
+  drop table walk_in_lines;
+
+  v_sale := apply_sale_charges(v_sale.id);
+
+  if v_sale.amount > 0 then
+    perform add_sale_payments(v_sale.id, p_payments);
+    select sum(amount) into v_paid from sale_payments where sale_id = v_sale.id;
+    if v_paid < v_sale.amount then
+      raise exception 'RM % is still owing', v_sale.amount - v_paid using errcode = 'P0001';
+    end if;
+  end if;
+
+  return v_sale;
+end;
+$$;
@@ -0,0 +1,562 @@
+-- Discounts, promo codes and manager price overrides.
+--
+-- Every discount ends up on the line items: `discount` is the line's own
+-- discount and `bill_discount_share` is its part of any promo or bill-level
+-- discount. That keeps SST exact when only some lines are taxable.
+
+create table promo_codes (
+  id uuid primary key default gen_random_uuid(),
+  code text not null,
+  description text,
+  discount_type text not null check (discount_type in ('percent', 'fixed')),
+  discount_value numeric(10, 2) not null check (discount_value > 0),
+  -- Empty means every service is eligible.
+  eligible_service_ids uuid[] not null default '{}',
+  valid_from date,
+  valid_until date,
+  usage_limit integer check (usage_limit > 0),
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  constraint promo_codes_percent_check check (discount_type <> 'percent' or discount_value <= 100),
+  constraint promo_codes_validity_check check (valid_until is null or valid_from is null or valid_until >= valid_from)
+);
+
+create unique index promo_codes_code_key on promo_codes (upper(code));
+
+alter table promo_codes enable row level security;
+create policy "Authenticated users manage promo codes" on promo_codes
+  for all to authenticated using (true) with check (true);
+
+-- Managers are the users listed on the Settings page under admins.
+create or replace function is_manager()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from admins where lower(email) = lower(auth.jwt()->>'email')
+  );
+$$;
+
+alter table sale_items
+  add column list_price numeric(10, 2),
+  add column override_reason text,
+  add column overridden_by uuid,
+  add column bill_discount_share numeric(10, 2) not null default 0 check (bill_discount_share >= 0);
+
+update sale_items set list_price = unit_price;
+
+alter table sale_items alter column list_price set not null;
+
+alter table sale_items drop column line_total;
+alter table sale_items
+  add column line_total numeric(10, 2)
+    generated always as (unit_price * quantity - discount - bill_discount_share) stored;
+
+alter table sale_items
+  add constraint sale_items_discount_check check (discount + bill_discount_share <= unit_price * quantity);
+
+alter table sales
+  add column promo_code_id uuid references promo_codes(id) on delete set null,
+  add column promo_discount numeric(10, 2) not null default 0,
+  add column bill_discount numeric(10, 2) not null default 0,
+  add column bill_discount_reason text,
+  add column discount_total numeric(10, 2) not null default 0;
+
+update sales s
+set discount_total = coalesce((select sum(i.discount) from sale_items i where i.sale_id = s.id), 0);
+
+-- Discounts agreed at booking are applied when the appointment is completed.
+alter table appointments
+  add column promo_code text,
+  add column discount_type text check (discount_type in ('percent', 'fixed')),
+  add column discount_value numeric(10, 2) check (discount_value >= 0),
+  add column discount_reason text;
+
+-- Each booked service keeps the price-list price it was booked against, so
+-- completing it later compares with that rather than today's price list.
+-- Services carried over unchanged by an edit keep their original list price.
+create or replace function stamp_appointment_list_prices()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.services is null then
+    return new;
+  end if;
+
+  select coalesce(jsonb_agg(
+    s.item || jsonb_build_object('list_price', coalesce(
+      (
+        select coalesce((o.item->>'list_price')::numeric, (o.item->>'price')::numeric)
+        from jsonb_array_elements(case when tg_op = 'UPDATE' then coalesce(old.services, '[]'::jsonb) else '[]'::jsonb end) o(item)
+        where o.item->>'id' = s.item->>'id'
+          and (o.item->>'price')::numeric = (s.item->>'price')::numeric
+        limit 1
+      ),
+      sv.price,
+      (s.item->>'price')::numeric
+    ))
+    order by s.position
+  ), '[]'::jsonb)
+  into new.services
+  from jsonb_array_elements(new.services) with ordinality as s(item, position)
+  left join services sv on sv.id::text = s.item->>'id';
+
+  return new;
+end;
+$$;
+
+create trigger appointments_list_prices
+  before insert or update of services on appointments
+  for each row execute function stamp_appointment_list_prices();
+
+create view promo_code_summaries
+with (security_invoker = true)
+as
+select
+  p.*,
+  count(s.id)::integer as times_used,
+  coalesce(sum(s.promo_discount), 0) as discount_given
+from promo_codes p
+left join sales s on s.promo_code_id = p.id
+group by p.id;
+
+-- Uses of a promo code: sales that took it, plus upcoming appointments booked
+-- with it, which hold their use until they are completed or cancelled.
+create or replace function promo_code_uses(p_promo_id uuid, p_exclude_sale_id uuid, p_exclude_appointment_id uuid)
+returns integer
+language sql
+stable
+as $$
+  select (
+    (select count(*) from sales
+     where promo_code_id = p_promo_id
+       and (p_exclude_sale_id is null or id <> p_exclude_sale_id))
+    +
+    (select count(*) from appointments a
+     join promo_codes p on upper(p.code) = upper(a.promo_code)
+     where p.id = p_promo_id
+       and a.status in ('booked', 'confirmed', 'checked_in', 'in_service')
+       and (p_exclude_appointment_id is null or a.id <> p_exclude_appointment_id))
+  )::integer;
+$$;
+
+-- Promo codes are checked when they are added to a booking, so the booking
+-- keeps its discount even if the code expires or runs out before the visit.
+create or replace function check_appointment_promo_code()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_promo promo_codes%rowtype;
+  v_code text := upper(nullif(btrim(new.promo_code), ''));
+  v_today date := (now() at time zone 'Asia/Kuala_Lumpur')::date;
+begin
+  if v_code is null
+    or (tg_op = 'UPDATE' and upper(nullif(btrim(old.promo_code), '')) is not distinct from v_code) then
+    return new;
+  end if;
+
+  select * into v_promo from promo_codes where upper(code) = v_code for update;
+  if not found or not v_promo.active then
+    raise exception 'Promo code % is not valid', v_code using errcode = 'P0001';
+  end if;
+  if v_promo.valid_from > v_today or v_promo.valid_until < v_today then
+    raise exception 'Promo code % is not valid today', v_code using errcode = 'P0001';
+  end if;
+  if v_promo.usage_limit is not null
+    and promo_code_uses(v_promo.id, null, new.id) >= v_promo.usage_limit then
+    raise exception 'Promo code % has been fully redeemed', v_code using errcode = 'P0001';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger appointments_promo_code
+  before insert or update of promo_code on appointments
+  for each row execute function check_appointment_promo_code();
+
+-- Spreads p_amount over the sale's lines in proportion to what is left on each
+-- line, optionally only over lines for the given services. The last line takes
+-- the rounding difference, up to what is left on it.
+create or replace function allocate_bill_discount(p_sale_id uuid, p_amount numeric, p_service_ids uuid[])
+returns void
+language plpgsql
+as $$
+declare
+  v_line record;
+  v_total numeric;
+  v_remaining numeric := p_amount;
+  v_share numeric;
+begin
+  if p_amount <= 0 then
+    return;
+  end if;
+
+  select sum(unit_price * quantity - discount - bill_discount_share) into v_total
+  from sale_items
+  where sale_id = p_sale_id
+    and (cardinality(p_service_ids) = 0 or service_id = any(p_service_ids));
+
+  for v_line in
+    select
+      id,
+      unit_price * quantity - discount - bill_discount_share as remaining,
+      row_number() over (order by created_at, id) as position,
+      count(*) over () as line_count
+    from sale_items
+    where sale_id = p_sale_id
+      and (cardinality(p_service_ids) = 0 or service_id = any(p_service_ids))
+      and unit_price * quantity - discount - bill_discount_share > 0
+    order by created_at, id
+  loop
+    v_share := case
+      when v_line.position = v_line.line_count then least(v_remaining, v_line.remaining)
+      else least(round(p_amount * v_line.remaining / v_total, 2), v_line.remaining)
+    end;
+    update sale_items set bill_discount_share = bill_discount_share + v_share where id = v_line.id;
+    v_remaining := v_remaining - v_share;
+  end loop;
+end;
+$$;
+
+-- p_bill_discount: { "type": "percent"|"fixed", "value": numeric, "reason": text } or null.
+-- The promo code is checked against its validity window, usage limit and
+-- eligible services. Uses held by upcoming appointments count towards the
+-- limit. A code already accepted at booking (p_booked_promo) is honoured even
+-- if it has since expired, been switched off or used up. Applied before
+-- apply_sale_charges().
+create or replace function apply_sale_discounts(
+  p_sale_id uuid,
+  p_bill_discount jsonb,
+  p_promo_code text,
+  p_booked_promo boolean default false
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_promo promo_codes%rowtype;
+  v_code text := upper(nullif(btrim(p_promo_code), ''));
+  v_today date := (now() at time zone 'Asia/Kuala_Lumpur')::date;
+  v_used integer;
+  v_gross numeric;
+  v_eligible numeric;
+  v_promo_discount numeric := 0;
+  v_bill_discount numeric := 0;
+  v_type text := p_bill_discount->>'type';
+  v_value numeric := coalesce((p_bill_discount->>'value')::numeric, 0);
+begin
+  update sale_items set bill_discount_share = 0 where sale_id = p_sale_id;
+
+  select coalesce(sum(unit_price * quantity - discount), 0) into v_gross
+  from sale_items
+  where sale_id = p_sale_id;
+
+  if v_code is not null then
+    -- Lock the code so two sales cannot both take its last use.
+    select * into v_promo from promo_codes where upper(code) = v_code for update;
+    if not found or not (v_promo.active or p_booked_promo) then
+      raise exception 'Promo code % is not valid', v_code using errcode = 'P0001';
+    end if;
+    if not p_booked_promo then
+      if v_promo.valid_from > v_today or v_promo.valid_until < v_today then
+        raise exception 'Promo code % is not valid today', v_code using errcode = 'P0001';
+      end if;
+      if v_promo.usage_limit is not null then
+        v_used := promo_code_uses(v_promo.id, p_sale_id, null);
+        if v_used >= v_promo.usage_limit then
+          raise exception 'Promo code % has been fully redeemed', v_code using errcode = 'P0001';
+        end if;
+      end if;
+    end if;
+
+    select coalesce(sum(unit_price * quantity - discount), 0) into v_eligible
+    from sale_items
+    where sale_id = p_sale_id
+      and (cardinality(v_promo.eligible_service_ids) = 0 or service_id = any(v_promo.eligible_service_ids));
+    if v_eligible = 0 then
+      raise exception 'Promo code % does not apply to these services', v_code using errcode = 'P0001';
+    end if;
+
+    v_promo_discount := case
+      when v_promo.discount_type = 'percent' then round(v_eligible * v_promo.discount_value / 100, 2)
+      else least(v_promo.discount_value, v_eligible)
+    end;
+    perform allocate_bill_discount(p_sale_id, v_promo_discount, v_promo.eligible_service_ids);
+  end if;
+
+  if v_value > 0 then
+    if v_type = 'percent' then
+      if v_value > 100 then
+        raise exception 'A discount cannot be more than 100%%' using errcode = 'P0001';
+      end if;
+      v_bill_discount := round((v_gross - v_promo_discount) * v_value / 100, 2);
+    elsif v_type = 'fixed' then
+      v_bill_discount := least(v_value, v_gross - v_promo_discount);
+    else
+      raise exception 'Unknown discount type %', v_type using errcode = 'P0001';
+    end if;
+    perform allocate_bill_discount(p_sale_id, v_bill_discount, '{}');
+  end if;
+
+  update sales
+  set promo_code_id = v_promo.id,
+      promo_discount = v_promo_discount,
+      bill_discount = v_bill_discount,
+      bill_discount_reason = case when v_bill_discount > 0 then nullif(btrim(p_bill_discount->>'reason'), '') end,
+      discount_total = (
+        select coalesce(sum(discount + bill_discount_share), 0) from sale_items where sale_id = p_sale_id
+      )
+  where id = p_sale_id;
+end;
+$$;
+
+create or replace function complete_appointment(p_appointment_id uuid)
+returns sales
+language plpgsql
+as $$
+declare
+  v_appointment appointments%rowtype;
+  v_sale sales%rowtype;
+  v_now timestamptz := now();
+begin
+  select * into v_appointment
+  from appointments
+  where id = p_appointment_id
+  for update;
+
+  if not found then
+    raise exception 'Appointment % not found', p_appointment_id using errcode = 'P0002';
+  end if;
+
+  if v_appointment.status = 'completed' then
+    select * into v_sale from sales where appointment_id = p_appointment_id;
+    if found then
+      return v_sale;
+    end if;
+  elsif v_appointment.status not in ('booked', 'confirmed', 'checked_in', 'in_service') then
+    raise exception 'A % appointment cannot be completed', replace(v_appointment.status, '_', '-')
+      using errcode = 'P0001';
+  end if;
+
+  insert into sales (customer_name, customer_id, service, amount, subtotal, date, staff, staff_id, appointment_id)
+  values (
+    v_appointment.customer_name,
+    v_appointment.customer_id,
+    (select string_agg(s->>'name', ', ') from jsonb_array_elements(coalesce(v_appointment.services, '[]'::jsonb)) s),
+    v_appointment.total_price,
+    v_appointment.total_price,
+    (v_now at time zone 'Asia/Kuala_Lumpur')::date,
+    v_appointment.staff,
+    v_appointment.staff_id,
+    v_appointment.id
+  )
+  returning * into v_sale;
+
+  -- List prices are the ones stamped at booking, so later price-list changes
+  -- do not count. A booked price that differs from its list price is a price
+  -- override, which only a manager can accept.
+  create temporary table appointment_lines on commit drop as
+  select
+    s.position,
+    sv.id as service_id,
+    s.item->>'name' as service_name,
+    coalesce((s.item->>'list_price')::numeric, (s.item->>'price')::numeric, 0) as list_price,
+    coalesce((s.item->>'price')::numeric, 0) as unit_price,
+    coalesce(sv.tax_exempt, false) as tax_exempt
+  from jsonb_array_elements(coalesce(v_appointment.services, '[]'::jsonb)) with ordinality as s(item, position)
+  left join services sv on sv.id::text = s.item->>'id';
+
+  if exists (select 1 from appointment_lines where unit_price <> list_price) and not is_manager() then
+    raise exception 'This booking has a price override; a manager must complete it'
+      using errcode = '42501';
+  end if;
+
+  insert into sale_items (
+    sale_id, service_id, service_name, list_price, unit_price, override_reason, overridden_by,
+    staff_id, staff, tax_exempt
+  )
+  select
+    v_sale.id,
+    l.service_id,
+    l.service_name,
+    l.list_price,
+    l.unit_price,
+    case when l.unit_price <> l.list_price then 'Price agreed at booking' end,
+    case when l.unit_price <> l.list_price then auth.uid() end,
+    v_appointment.staff_id,
+    v_appointment.staff,
+    l.tax_exempt
+  from appointment_lines l
+  order by l.position;
+
+  drop table appointment_lines;
+
+  perform apply_sale_discounts(
+    v_sale.id,
+    jsonb_build_object(
+      'type', v_appointment.discount_type,
+      'value', v_appointment.discount_value,
+      'reason', v_appointment.discount_reason
+    ),
+    v_appointment.promo_code,
+    true
+  );
+  v_sale := apply_sale_charges(v_sale.id);
+
+  update appointments
+  set status = 'completed',
+      status_changed_at = v_now,
+      completed_at = coalesce(completed_at, v_now),
+      sale_id = v_sale.id
+  where id = p_appointment_id;
+
+  return v_sale;
+end;
+$$;
+
+drop function create_walk_in_sale(text, uuid, uuid, jsonb, jsonb);
+
+-- p_items: [{ "service_id": uuid, "quantity": int, "staff_id": uuid|null,
+--             "discount_type": "percent"|"fixed"|null, "discount_value": numeric,
+--             "unit_price": numeric|null, "override_reason": text|null }]
+-- Names and list prices come from the services table. A different unit_price
+-- is a price override and needs a manager and a reason. Lines without their
+-- own staff_id use p_staff_id. Walk-ins are paid in full at the counter.
+create or replace function create_walk_in_sale(
+  p_customer_name text,
+  p_customer_id uuid,
+  p_staff_id uuid,
+  p_items jsonb,
+  p_payments jsonb,
+  p_bill_discount jsonb default null,
+  p_promo_code text default null
+)
+returns sales
+language plpgsql
+as $$
+declare
+  v_sale sales%rowtype;
+  v_staff_name text;
+  v_invalid text;
+  v_paid numeric;
+begin
+  if jsonb_typeof(p_items) is distinct from 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A sale needs at least one item' using errcode = 'P0001';
+  end if;
+
+  if p_staff_id is not null then
+    select name into v_staff_name from staff where id = p_staff_id;
+    if not found then
+      raise exception 'Staff member % not found', p_staff_id using errcode = 'P0002';
+    end if;
+  end if;
+
+  create temporary table walk_in_lines on commit drop as
+  select
+    l.position,
+    sv.id as service_id,
+    sv.name as service_name,
+    sv.price as list_price,
+    coalesce((l.item->>'unit_price')::numeric, sv.price) as unit_price,
+    nullif(btrim(l.item->>'override_reason'), '') as override_reason,
+    sv.tax_exempt,
+    coalesce((l.item->>'quantity')::integer, 1) as quantity,
+    l.item->>'discount_type' as discount_type,
+    coalesce((l.item->>'discount_value')::numeric, 0) as discount_value,
+    coalesce((l.item->>'staff_id')::uuid, p_staff_id) as staff_id,
+    l.item->>'service_id' as requested_service_id
+  from jsonb_array_elements(p_items) with ordinality as l(item, position)
+  left join services sv on sv.id = (l.item->>'service_id')::uuid;
+
+  select requested_service_id into v_invalid from walk_in_lines where service_id is null limit 1;
+  if found then
+    raise exception 'Service % not found', v_invalid using errcode = 'P0002';
+  end if;
+
+  if exists (select 1 from walk_in_lines where quantity < 1) then
+    raise exception 'Quantity must be at least 1' using errcode = 'P0001';
+  end if;
+
+  if exists (select 1 from walk_in_lines where unit_price < 0) then
+    raise exception 'A price cannot be negative' using errcode = 'P0001';
+  end if;
+
+  if exists (select 1 from walk_in_lines where unit_price <> list_price) then
+    if not is_manager() then
+      raise exception 'Only a manager can override prices' using errcode = '42501';
+    end if;
+    if exists (select 1 from walk_in_lines where unit_price <> list_price and override_reason is null) then
+      raise exception 'Give a reason for each price override' using errcode = 'P0001';
+    end if;
+  end if;
+
+  if exists (
+    select 1 from walk_in_lines
+    where discount_value < 0
+      or (discount_value > 0 and coalesce(discount_type, '') not in ('percent', 'fixed'))
+      or (discount_type = 'percent' and discount_value > 100)
+      or (discount_type = 'fixed' and discount_value > unit_price * quantity)
+  ) then
+    raise exception 'A discount cannot be negative or more than the line price' using errcode = 'P0001';
+  end if;
+
+  insert into sales (customer_name, customer_id, service, amount, subtotal, date, staff, staff_id)
+  select
+    coalesce(nullif(btrim(p_customer_name), ''), 'Walk-in'),
+    p_customer_id,
+    string_agg(service_name, ', ' order by position),
+    sum(unit_price * quantity),
+    sum(unit_price * quantity),
+    (now() at time zone 'Asia/Kuala_Lumpur')::date,
+    v_staff_name,
+    p_staff_id
+  from walk_in_lines
+  returning * into v_sale;
+
+  insert into sale_items (
+    sale_id, service_id, service_name, list_price, unit_price, override_reason, overridden_by,
+    quantity, staff_id, staff, discount, tax_exempt
+  )
+  select
+    v_sale.id,
+    l.service_id,
+    l.service_name,
+    l.list_price,
+    l.unit_price,
+    case when l.unit_price <> l.list_price then l.override_reason end,
+    case when l.unit_price <> l.list_price then auth.uid() end,
+    l.quantity,
+    l.staff_id,
+    st.name,
+    case
+      when l.discount_type = 'percent' then round(l.unit_price * l.quantity * l.discount_value / 100, 2)
+      when l.discount_type = 'fixed' then l.discount_value
+      else 0
+    end,
+    l.tax_exempt
+  from walk_in_lines l
+  left join staff st on st.id = l.staff_id
+  order by l.position;
+
+  drop table walk_in_lines;
+
+  perform apply_sale_discounts(v_sale.id, p_bill_discount, p_promo_code);
+  v_sale := apply_sale_charges(v_sale.id);
+
+  if v_sale.amount > 0 then
+    perform add_sale_payments(v_sale.id, p_payments);
+    select sum(amount) into v_paid from sale_payments where sale_id = v_sale.id;
+    if v_paid < v_sale.amount then
+      raise exception 'RM % is still owing', v_sale.amount - v_paid using errcode = 'P0001';
+    end if;
+  end if;
+
+  return v_sale;
+end;
+$$;
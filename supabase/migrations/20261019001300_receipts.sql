@@ -0,0 +1,112 @@
+-- Numbered receipts. Each outlet has its own counter row; the next number is
+-- taken by updating that row inside the transaction that creates the sale, so
+-- a failed sale rolls its number back and the sequence has no gaps (a Postgres
+-- sequence would not guarantee that).
+
+create table receipt_settings (
+  id boolean primary key default true check (id),
+  -- The outlet this installation records sales for; also the receipt prefix.
+  outlet_code text not null default 'HQ' check (outlet_code ~ '^[A-Z0-9]{1,10}$'),
+  business_name text,
+  address text,
+  phone_number text,
+  email text,
+  header_text text,
+  footer_text text default 'Thank you for visiting!',
+  updated_at timestamptz not null default now()
+);
+
+insert into receipt_settings (id) values (true);
+
+alter table receipt_settings enable row level security;
+create policy "Authenticated users manage receipt settings" on receipt_settings
+  for all to authenticated using (true) with check (true);
+
+create table receipt_counters (
+  outlet_code text primary key,
+  last_number integer not null default 0 check (last_number >= 0)
+);
+
+alter table receipt_counters enable row level security;
+create policy "Authenticated users read receipt counters" on receipt_counters
+  for select to authenticated using (true);
+
+alter table sales
+  add column outlet_code text,
+  add column receipt_number text unique;
+
+-- Existing sales are numbered in the order they were recorded.
+with numbered as (
+  select id, row_number() over (order by date, created_at, id) as n
+  from sales
+)
+update sales s
+set outlet_code = 'HQ',
+    receipt_number = 'HQ-' || lpad(numbered.n::text, 6, '0')
+from numbered
+where numbered.id = s.id;
+
+insert into receipt_counters (outlet_code, last_number)
+select 'HQ', count(*) from sales;
+
+alter table sales
+  alter column outlet_code set not null,
+  alter column receipt_number set not null;
+
+-- Returns the next receipt number for an outlet, e.g. HQ-000124. The counter
+-- row stays locked until the calling transaction ends.
+create or replace function next_receipt_number(p_outlet_code text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_number integer;
+begin
+  insert into receipt_counters (outlet_code) values (p_outlet_code)
+  on conflict (outlet_code) do nothing;
+
+  update receipt_counters
+  set last_number = last_number + 1
+  where outlet_code = p_outlet_code
+  returning last_number into v_number;
+
+  return p_outlet_code || '-' || lpad(v_number::text, 6, '0');
+end;
+$$;
+
+-- Numbers every new sale, whichever path creates it.
+create or replace function assign_receipt_number()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.outlet_code is null then
+    select outlet_code into new.outlet_code from receipt_settings;
+  end if;
+  new.receipt_number := next_receipt_number(new.outlet_code);
+  return new;
+end;
+$$;
+
+create trigger sales_assign_receipt_number
+  before insert on sales
+  for each row execute function assign_receipt_number();
+
+-- Receipt numbers are permanent.
+create or replace function prevent_receipt_number_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.receipt_number is distinct from old.receipt_number or new.outlet_code is distinct from old.outlet_code then
+    raise exception 'Receipt % cannot be renumbered', old.receipt_number using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger sales_prevent_receipt_number_change
+  before update of receipt_number, outlet_code on sales
+  for each row execute function prevent_receipt_number_change();
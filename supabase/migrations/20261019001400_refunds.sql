@@ -0,0 +1,156 @@
+-- Refunds and voids. Sales are never edited or deleted to correct them: a
+-- refund is recorded against the sale, and a void marks the whole sale as not
+-- having happened. Both need a manager and a reason, and keep who approved
+-- them. `net_amount` is what the sale counts for in revenue.
+
+create table sale_refunds (
+  id uuid primary key default gen_random_uuid(),
+  sale_id uuid not null references sales(id),
+  amount numeric(10, 2) not null check (amount > 0),
+  method text not null
+    check (method in ('cash', 'card', 'touch_n_go', 'grabpay', 'duitnow_qr', 'ewallet', 'bank_transfer')),
+  reason text not null check (btrim(reason) <> ''),
+  approved_by uuid not null default auth.uid(),
+  approved_by_email text not null default (auth.jwt()->>'email'),
+  created_at timestamptz not null default now()
+);
+
+create index sale_refunds_sale_id_idx on sale_refunds (sale_id);
+
+alter table sale_refunds enable row level security;
+create policy "Authenticated users read sale refunds" on sale_refunds
+  for select to authenticated using (true);
+
+alter table sales
+  add column refunded_amount numeric(10, 2) not null default 0,
+  add column voided_at timestamptz,
+  add column voided_by uuid,
+  add column voided_by_email text,
+  add column void_reason text,
+  add column net_amount numeric(10, 2)
+    generated always as (case when voided_at is null then amount - refunded_amount else 0 end) stored;
+
+create or replace view customer_summaries with (security_invoker = true) as
+select
+  c.*,
+  count(s.id) as visit_count,
+  coalesce(sum(s.net_amount), 0) as lifetime_spend,
+  max(s.date) as last_visit
+from customers c
+left join sales s on s.customer_id = c.id and s.voided_at is null
+group by c.id;
+
+-- Refunds up to what was paid and not yet refunded. Runs as the owner:
+-- sale_refunds is read-only to everyone else, so refunds only go in through
+-- here, after the manager check.
+create or replace function refund_sale(p_sale_id uuid, p_amount numeric, p_method text, p_reason text)
+returns sales
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sale sales%rowtype;
+  v_paid numeric;
+begin
+  if not is_manager() then
+    raise exception 'Only a manager can approve a refund' using errcode = '42501';
+  end if;
+
+  if nullif(btrim(p_reason), '') is null then
+    raise exception 'Give a reason for the refund' using errcode = 'P0001';
+  end if;
+
+  select * into v_sale from sales where id = p_sale_id for update;
+  if not found then
+    raise exception 'Sale % not found', p_sale_id using errcode = 'P0002';
+  end if;
+
+  if v_sale.voided_at is not null then
+    raise exception 'Receipt % has been voided', v_sale.receipt_number using errcode = 'P0001';
+  end if;
+
+  if coalesce(p_amount, 0) <= 0 then
+    raise exception 'Enter an amount to refund' using errcode = 'P0001';
+  end if;
+
+  select coalesce(sum(amount), 0) into v_paid from sale_payments where sale_id = p_sale_id;
+  if p_amount > v_paid - v_sale.refunded_amount then
+    raise exception 'Only RM % of receipt % can still be refunded', v_paid - v_sale.refunded_amount, v_sale.receipt_number
+      using errcode = 'P0001';
+  end if;
+
+  insert into sale_refunds (sale_id, amount, method, reason)
+  values (p_sale_id, p_amount, p_method, btrim(p_reason));
+
+  update sales
+  set refunded_amount = refunded_amount + p_amount
+  where id = p_sale_id
+  returning * into v_sale;
+
+  return v_sale;
+end;
+$$;
+
+-- Voids are for mistakes caught on the day; later corrections are refunds.
+create or replace function void_sale(p_sale_id uuid, p_reason text)
+returns sales
+language plpgsql
+as $$
+declare
+  v_sale sales%rowtype;
+begin
+  if not is_manager() then
+    raise exception 'Only a manager can void a sale' using errcode = '42501';
+  end if;
+
+  if nullif(btrim(p_reason), '') is null then
+    raise exception 'Give a reason for voiding the sale' using errcode = 'P0001';
+  end if;
+
+  select * into v_sale from sales where id = p_sale_id for update;
+  if not found then
+    raise exception 'Sale % not found', p_sale_id using errcode = 'P0002';
+  end if;
+
+  if v_sale.voided_at is not null then
+    return v_sale;
+  end if;
+
+  if v_sale.date <> (now() at time zone 'Asia/Kuala_Lumpur')::date then
+    raise exception 'Only today''s sales can be voided; refund receipt % instead', v_sale.receipt_number
+      using errcode = 'P0001';
+  end if;
+
+  if v_sale.refunded_amount > 0 then
+    raise exception 'Receipt % has refunds and cannot be voided', v_sale.receipt_number using errcode = 'P0001';
+  end if;
+
+  update sales
+  set voided_at = now(),
+      voided_by = auth.uid(),
+      voided_by_email = auth.jwt()->>'email',
+      void_reason = btrim(p_reason)
+  where id = p_sale_id
+  returning * into v_sale;
+
+  return v_sale;
+end;
+$$;
+
+-- A voided sale takes no further payments.
+create or replace function prevent_payment_on_voided_sale()
+returns trigger
+language plpgsql
+as $$
+begin
+  if exists (select 1 from sales where id = new.sale_id and voided_at is not null) then
+    raise exception 'This sale has been voided' using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger sale_payments_prevent_voided
+  before insert on sale_payments
+  for each row execute function prevent_payment_on_voided_sale();
@@ -0,0 +1,244 @@
+-- End-of-day cash-up. Closing a day stores a Z-report snapshot of the day's
+-- sales and the counted takings per payment method, and locks the day: no new
+-- sales, line items, payments or refunds for it, and no changes to the money
+-- on its sales. Refunds taken later are recorded on the day they are paid out.
+
+create table day_closures (
+  id uuid primary key default gen_random_uuid(),
+  outlet_code text not null,
+  business_date date not null,
+  opening_float numeric(10, 2) not null default 0 check (opening_float >= 0),
+  sales_count integer not null,
+  first_receipt_number text,
+  last_receipt_number text,
+  gross_sales numeric(10, 2) not null,
+  discounts numeric(10, 2) not null,
+  service_charge numeric(10, 2) not null,
+  tax numeric(10, 2) not null,
+  voids_count integer not null,
+  voids_amount numeric(10, 2) not null,
+  refunds_count integer not null,
+  refunds_amount numeric(10, 2) not null,
+  net_sales numeric(10, 2) not null,
+  notes text,
+  closed_by uuid not null default auth.uid(),
+  closed_by_email text default (auth.jwt()->>'email'),
+  closed_at timestamptz not null default now(),
+  unique (outlet_code, business_date)
+);
+
+alter table day_closures enable row level security;
+create policy "Authenticated users read day closures" on day_closures
+  for select to authenticated using (true);
+
+create table day_closure_counts (
+  closure_id uuid not null references day_closures(id) on delete cascade,
+  method text not null
+    check (method in ('cash', 'card', 'touch_n_go', 'grabpay', 'duitnow_qr', 'ewallet', 'bank_transfer')),
+  -- For cash, the opening float plus cash taken less cash refunded.
+  expected numeric(10, 2) not null,
+  counted numeric(10, 2) not null,
+  variance numeric(10, 2) generated always as (counted - expected) stored,
+  primary key (closure_id, method)
+);
+
+alter table day_closure_counts enable row level security;
+create policy "Authenticated users read day closure counts" on day_closure_counts
+  for select to authenticated using (true);
+
+create or replace function current_outlet_code()
+returns text
+language sql
+stable
+as $$
+  select outlet_code from receipt_settings;
+$$;
+
+create or replace function is_day_closed(p_outlet_code text, p_date date)
+returns boolean
+language sql
+stable
+as $$
+  select exists (
+    select 1 from day_closures where outlet_code = p_outlet_code and business_date = p_date
+  );
+$$;
+
+-- Money taken and paid out on a day, by method: payments and refunds count on
+-- the day they happened, whichever day the sale was on. Payments on voided
+-- sales were handed back and do not count.
+create or replace function expected_takings(p_date date)
+returns table (method text, amount numeric)
+language sql
+stable
+as $$
+  with movements as (
+    select p.method, p.amount
+    from sale_payments p
+    join sales s on s.id = p.sale_id
+    where s.outlet_code = current_outlet_code()
+      and s.voided_at is null
+      and (p.created_at at time zone 'Asia/Kuala_Lumpur')::date = p_date
+    union all
+    select r.method, -r.amount
+    from sale_refunds r
+    join sales s on s.id = r.sale_id
+    where s.outlet_code = current_outlet_code()
+      and (r.created_at at time zone 'Asia/Kuala_Lumpur')::date = p_date
+  )
+  select method, sum(amount) from movements group by method;
+$$;
+
+-- p_counts: [{ "method": text, "counted": numeric }]. Counted cash is the whole
+-- drawer, float included. Runs as the owner: closures are read-only to
+-- everyone else, so a day is only closed through here, by a manager.
+create or replace function close_day(p_date date, p_opening_float numeric, p_counts jsonb, p_notes text)
+returns day_closures
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_outlet text := current_outlet_code();
+  v_closure day_closures%rowtype;
+begin
+  if not is_manager() then
+    raise exception 'Only a manager can close the day' using errcode = '42501';
+  end if;
+
+  if p_date > (now() at time zone 'Asia/Kuala_Lumpur')::date then
+    raise exception 'A day cannot be closed before it starts' using errcode = 'P0001';
+  end if;
+
+  if is_day_closed(v_outlet, p_date) then
+    raise exception '% has already been closed', to_char(p_date, 'DD Mon YYYY') using errcode = 'P0001';
+  end if;
+
+  if jsonb_typeof(p_counts) is distinct from 'array' then
+    raise exception 'Enter the counted amounts' using errcode = 'P0001';
+  end if;
+
+  insert into day_closures (
+    outlet_code, business_date, opening_float, sales_count, first_receipt_number, last_receipt_number,
+    gross_sales, discounts, service_charge, tax, voids_count, voids_amount, refunds_count, refunds_amount,
+    net_sales, notes
+  )
+  select
+    v_outlet,
+    p_date,
+    coalesce(p_opening_float, 0),
+    count(*) filter (where s.voided_at is null),
+    min(s.receipt_number),
+    max(s.receipt_number),
+    coalesce(sum(s.amount) filter (where s.voided_at is null), 0),
+    coalesce(sum(s.discount_total) filter (where s.voided_at is null), 0),
+    coalesce(sum(s.service_charge) filter (where s.voided_at is null), 0),
+    coalesce(sum(s.tax) filter (where s.voided_at is null), 0),
+    count(*) filter (where s.voided_at is not null),
+    coalesce(sum(s.amount) filter (where s.voided_at is not null), 0),
+    (select count(*) from sale_refunds r join sales rs on rs.id = r.sale_id
+     where rs.outlet_code = v_outlet and (r.created_at at time zone 'Asia/Kuala_Lumpur')::date = p_date),
+    (select coalesce(sum(r.amount), 0) from sale_refunds r join sales rs on rs.id = r.sale_id
+     where rs.outlet_code = v_outlet and (r.created_at at time zone 'Asia/Kuala_Lumpur')::date = p_date),
+    0,
+    nullif(btrim(p_notes), '')
+  from sales s
+  where s.outlet_code = v_outlet and s.date = p_date
+  returning * into v_closure;
+
+  update day_closures
+  set net_sales = gross_sales - refunds_amount
+  where id = v_closure.id
+  returning * into v_closure;
+
+  insert into day_closure_counts (closure_id, method, expected, counted)
+  select
+    v_closure.id,
+    coalesce(e.method, c.method),
+    coalesce(e.amount, 0) + case when coalesce(e.method, c.method) = 'cash' then v_closure.opening_float else 0 end,
+    coalesce(c.counted, 0)
+  from expected_takings(p_date) e
+  full join (
+    select c->>'method' as method, coalesce((c->>'counted')::numeric, 0) as counted
+    from jsonb_array_elements(p_counts) c
+  ) c on c.method = e.method;
+
+  -- The float is in the drawer even on a day with no cash sales.
+  if v_closure.opening_float > 0 and not exists (
+    select 1 from day_closure_counts where closure_id = v_closure.id and method = 'cash'
+  ) then
+    insert into day_closure_counts (closure_id, method, expected, counted)
+    values (v_closure.id, 'cash', v_closure.opening_float, 0);
+  end if;
+
+  return v_closure;
+end;
+$$;
+
+-- Locks. Sales keep their own outlet and date; payments and refunds belong to
+-- the day they are taken.
+
+create or replace function lock_closed_day_sales()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if is_day_closed(new.outlet_code, new.date) then
+      raise exception 'Sales for % are closed', to_char(new.date, 'DD Mon YYYY') using errcode = 'P0001';
+    end if;
+  elsif is_day_closed(old.outlet_code, old.date)
+    and (new.date, new.amount, new.subtotal, new.service_charge, new.tax, new.taxable_amount,
+         new.discount_total, new.promo_discount, new.bill_discount, new.voided_at)
+      is distinct from
+        (old.date, old.amount, old.subtotal, old.service_charge, old.tax, old.taxable_amount,
+         old.discount_total, old.promo_discount, old.bill_discount, old.voided_at) then
+    raise exception 'Sales for % are closed', to_char(old.date, 'DD Mon YYYY') using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$;
+
+-- Runs after sales_assign_receipt_number (triggers fire in name order), so
+-- outlet_code is set.
+create trigger sales_lock_closed_day
+  before insert or update on sales
+  for each row execute function lock_closed_day_sales();
+
+create or replace function lock_closed_day_sale_items()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_sale_id uuid := case when tg_op = 'DELETE' then old.sale_id else new.sale_id end;
+begin
+  if exists (select 1 from sales s where s.id = v_sale_id and is_day_closed(s.outlet_code, s.date)) then
+    raise exception 'This sale is on a closed day' using errcode = 'P0001';
+  end if;
+  return case when tg_op = 'DELETE' then old else new end;
+end;
+$$;
+
+create trigger sale_items_lock_closed_day
+  before insert or update or delete on sale_items
+  for each row execute function lock_closed_day_sale_items();
+
+create or replace function lock_closed_day_takings()
+returns trigger
+language plpgsql
+as $$
+begin
+  if is_day_closed(current_outlet_code(), (now() at time zone 'Asia/Kuala_Lumpur')::date) then
+    raise exception 'Today has been closed; no more payments or refunds can be taken' using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger sale_payments_lock_closed_day
+  before insert on sale_payments
+  for each row execute function lock_closed_day_takings();
+
+create trigger sale_refunds_lock_closed_day
+  before insert on sale_refunds
+  for each row execute function lock_closed_day_takings();
@@ -0,0 +1,206 @@
+-- LHDN e-invoicing (MyInvois). Documents are built and checked in the app
+-- (lib/einvoice.ts) and stored here with their submission status. A sale is
+-- covered by at most one live document: its own invoice when the buyer asks
+-- for one, otherwise the consolidated invoice for its month. Rejected and
+-- cancelled documents release their sales so they can be issued again.
+
+create table einvoice_settings (
+  id boolean primary key default true check (id),
+  supplier_tin text,
+  -- Business registration number (SSM).
+  supplier_brn text,
+  msic_code text not null default '96020' check (msic_code ~ '^[0-9]{5}$'),
+  business_activity text not null default 'Hairdressing and other beauty treatment',
+  address_line text,
+  city text,
+  postcode text,
+  -- LHDN state code, 01 (Johor) to 17 (not applicable).
+  state_code text check (state_code ~ '^[0-9]{2}$'),
+  country_code text not null default 'MYS' check (country_code ~ '^[A-Z]{3}$'),
+  updated_at timestamptz not null default now()
+);
+
+insert into einvoice_settings (id) values (true);
+
+alter table einvoice_settings enable row level security;
+create policy "Authenticated users manage e-invoice settings" on einvoice_settings
+  for all to authenticated using (true) with check (true);
+
+-- Buyer details for customers who ask for their own e-invoice.
+alter table customers
+  add column billing_name text,
+  add column tin text,
+  add column id_type text check (id_type in ('NRIC', 'BRN', 'PASSPORT', 'ARMY')),
+  add column id_number text,
+  add column sst_number text,
+  add column address_line text,
+  add column city text,
+  add column postcode text,
+  add column state_code text check (state_code ~ '^[0-9]{2}$'),
+  add column country_code text not null default 'MYS' check (country_code ~ '^[A-Z]{3}$');
+
+create table einvoices (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null check (kind in ('invoice', 'consolidated')),
+  invoice_number text not null,
+  -- First day of the month a consolidated invoice covers.
+  period date,
+  -- Snapshot of the buyer as sent, and the UBL document itself.
+  buyer jsonb not null,
+  document jsonb not null,
+  total numeric(10, 2) not null,
+  status text not null default 'pending'
+    -- stubbed: accepted by the offline development submitter, never sent to LHDN.
+    check (status in ('pending', 'stubbed', 'submitted', 'valid', 'invalid', 'cancelled')),
+  submitter text,
+  submission_uid text,
+  document_uuid text,
+  long_id text,
+  status_reason text,
+  submitted_at timestamptz,
+  status_changed_at timestamptz not null default now(),
+  created_by_email text default (auth.jwt()->>'email'),
+  created_at timestamptz not null default now(),
+  check ((kind = 'consolidated') = (period is not null))
+);
+
+create unique index einvoices_live_number_key on einvoices (invoice_number)
+  where status not in ('invalid', 'cancelled');
+
+alter table einvoices enable row level security;
+create policy "Authenticated users read e-invoices" on einvoices
+  for select to authenticated using (true);
+
+alter table sales add column einvoice_id uuid references einvoices(id);
+
+create index sales_einvoice_id_idx on sales (einvoice_id);
+
+-- Stores a validated document and claims its sales. Fails if any of them is
+-- already covered by a live document. Runs as the owner, since einvoices is
+-- read-only to everyone else; consolidated invoices need a manager.
+create or replace function save_einvoice(
+  p_kind text,
+  p_invoice_number text,
+  p_period date,
+  p_sale_ids uuid[],
+  p_buyer jsonb,
+  p_document jsonb,
+  p_total numeric
+)
+returns einvoices
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_einvoice einvoices%rowtype;
+  v_taken text;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to issue e-invoices' using errcode = '42501';
+  end if;
+
+  if p_kind = 'consolidated' and not is_manager() then
+    raise exception 'Only a manager can issue a consolidated e-invoice' using errcode = '42501';
+  end if;
+
+  if coalesce(array_length(p_sale_ids, 1), 0) = 0 then
+    raise exception 'An e-invoice needs at least one sale' using errcode = 'P0001';
+  end if;
+
+  if p_kind = 'invoice' and array_length(p_sale_ids, 1) <> 1 then
+    raise exception 'An individual e-invoice covers exactly one sale' using errcode = 'P0001';
+  end if;
+
+  perform 1 from sales where id = any(p_sale_ids) for update;
+
+  select string_agg(receipt_number, ', ' order by receipt_number) into v_taken
+  from sales
+  where id = any(p_sale_ids) and (einvoice_id is not null or voided_at is not null);
+
+  if v_taken is not null then
+    raise exception 'Receipts % are voided or already e-invoiced', v_taken using errcode = 'P0001';
+  end if;
+
+  insert into einvoices (kind, invoice_number, period, buyer, document, total)
+  values (p_kind, p_invoice_number, p_period, p_buyer, p_document, p_total)
+  returning * into v_einvoice;
+
+  update sales set einvoice_id = v_einvoice.id where id = any(p_sale_ids);
+
+  return v_einvoice;
+end;
+$$;
+
+-- Records what the submitter reported. Runs as the owner like save_einvoice,
+-- so each status is checked here: only a manager can reject, cancel or reset
+-- a document (rejected and cancelled documents release their sales), and a
+-- document is only marked valid once it has been submitted to MyInvois.
+create or replace function record_einvoice_status(
+  p_einvoice_id uuid,
+  p_status text,
+  p_submitter text default null,
+  p_submission_uid text default null,
+  p_document_uuid text default null,
+  p_long_id text default null,
+  p_reason text default null
+)
+returns einvoices
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_einvoice einvoices%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to update e-invoices' using errcode = '42501';
+  end if;
+
+  select * into v_einvoice from einvoices where id = p_einvoice_id for update;
+  if not found then
+    raise exception 'E-invoice % not found', p_einvoice_id using errcode = 'P0002';
+  end if;
+
+  case p_status
+    when 'pending', 'invalid', 'cancelled' then
+      if not is_manager() then
+        raise exception 'Only a manager can mark an e-invoice as %', p_status using errcode = '42501';
+      end if;
+    when 'stubbed' then
+      if v_einvoice.status not in ('pending', 'stubbed') or p_submitter is distinct from 'offline' then
+        raise exception 'Only the offline submitter can record a stubbed e-invoice' using errcode = 'P0001';
+      end if;
+    when 'submitted' then
+      if v_einvoice.status not in ('pending', 'stubbed', 'submitted')
+        or coalesce(p_document_uuid, v_einvoice.document_uuid) is null then
+        raise exception 'E-invoice % cannot be marked submitted', v_einvoice.invoice_number using errcode = 'P0001';
+      end if;
+    when 'valid' then
+      if v_einvoice.status not in ('submitted', 'valid') or v_einvoice.document_uuid is null then
+        raise exception 'E-invoice % has not been submitted to MyInvois', v_einvoice.invoice_number
+          using errcode = 'P0001';
+      end if;
+    else
+      raise exception 'Unknown e-invoice status %', p_status using errcode = 'P0001';
+  end case;
+
+  update einvoices
+  set status = p_status,
+      submitter = coalesce(p_submitter, submitter),
+      submission_uid = coalesce(p_submission_uid, submission_uid),
+      document_uuid = coalesce(p_document_uuid, document_uuid),
+      long_id = coalesce(p_long_id, long_id),
+      status_reason = p_reason,
+      submitted_at = case when p_status = 'submitted' and submitted_at is null then now() else submitted_at end,
+      status_changed_at = now()
+  where id = p_einvoice_id
+  returning * into v_einvoice;
+
+  if p_status in ('invalid', 'cancelled') then
+    update sales set einvoice_id = null where einvoice_id = p_einvoice_id;
+  end if;
+
+  return v_einvoice;
+end;
+$$;
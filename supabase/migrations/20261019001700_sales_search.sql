@@ -0,0 +1,80 @@
+-- Sales page queries over a date range. search_sales applies the page's
+-- search and staff filters and returns sales rows, so PostgREST can embed
+-- line items, sort and page over it; sales_summary totals the same rows for
+-- the whole range rather than the page on screen.
+
+create index sales_date_idx on sales (date, created_at);
+
+create or replace function search_sales(
+  p_from date,
+  p_to date,
+  p_search text default null,
+  p_staff_id uuid default null
+)
+returns setof sales
+language sql
+stable
+as $$
+  select s.*
+  from sales s
+  where s.date between p_from and p_to
+    and (
+      p_staff_id is null
+      or s.staff_id = p_staff_id
+      or exists (select 1 from sale_items i where i.sale_id = s.id and i.staff_id = p_staff_id)
+    )
+    and (
+      nullif(btrim(p_search), '') is null
+      or s.customer_name ilike '%' || btrim(p_search) || '%'
+      or s.service ilike '%' || btrim(p_search) || '%'
+      or s.receipt_number ilike '%' || btrim(p_search) || '%'
+      or exists (
+        select 1 from sale_items i
+        where i.sale_id = s.id and i.service_name ilike '%' || btrim(p_search) || '%'
+      )
+    );
+$$;
+
+-- Counts and net revenue exclude voided sales. Payment totals are taken less
+-- refunded, by method, as a jsonb object keyed by method.
+create or replace function sales_summary(
+  p_from date,
+  p_to date,
+  p_search text default null,
+  p_staff_id uuid default null
+)
+returns table (
+  sales_count bigint,
+  voided_count bigint,
+  net_total numeric,
+  outstanding numeric,
+  payment_totals jsonb
+)
+language sql
+stable
+as $$
+  with matched as (
+    select * from search_sales(p_from, p_to, p_search, p_staff_id)
+  ),
+  live as (
+    select * from matched where voided_at is null
+  ),
+  paid as (
+    select p.sale_id, sum(p.amount) as amount
+    from sale_payments p
+    join live l on l.id = p.sale_id
+    group by p.sale_id
+  ),
+  movements as (
+    select p.method, p.amount from sale_payments p join live l on l.id = p.sale_id
+    union all
+    select r.method, -r.amount from sale_refunds r join live l on l.id = r.sale_id
+  )
+  select
+    (select count(*) from live),
+    (select count(*) from matched where voided_at is not null),
+    (select coalesce(sum(net_amount), 0) from live),
+    (select coalesce(sum(l.amount - coalesce(p.amount, 0)), 0) from live l left join paid p on p.sale_id = l.id),
+    (select coalesce(jsonb_object_agg(method, amount), '{}'::jsonb)
+     from (select method, sum(amount) as amount from movements group by method) m);
+$$;
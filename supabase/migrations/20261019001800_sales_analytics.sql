@@ -0,0 +1,162 @@
+-- Aggregates for the analytics page, so it no longer downloads every sale.
+-- Revenue is net of refunds and voids throughout (sales.net_amount); line
+-- revenue is scaled by the sale's net/gross ratio, as netSaleItems does.
+-- A null bound leaves that side of the range open.
+
+-- Revenue per day, week (starting Sunday) or month, with empty buckets
+-- included so charts show gaps as zero.
+create or replace function revenue_by_period(p_from date, p_to date, p_bucket text default 'day')
+returns table (
+  period date,
+  sales_count bigint,
+  revenue numeric,
+  discounts numeric
+)
+language plpgsql
+stable
+as $$
+declare
+  v_step interval;
+begin
+  if p_bucket not in ('day', 'week', 'month') then
+    raise exception 'Unknown period %', p_bucket using errcode = 'P0001';
+  end if;
+  v_step := ('1 ' || p_bucket)::interval;
+
+  return query
+  with buckets as (
+    select generate_series(
+      case p_bucket
+        when 'week' then p_from - extract(dow from p_from)::integer
+        when 'month' then date_trunc('month', p_from)::date
+        else p_from
+      end,
+      p_to,
+      v_step
+    )::date as period
+  ),
+  bucketed as (
+    select
+      case p_bucket
+        when 'week' then s.date - extract(dow from s.date)::integer
+        when 'month' then date_trunc('month', s.date)::date
+        else s.date
+      end as period,
+      s.net_amount,
+      s.discount_total
+    from sales s
+    where s.date between p_from and p_to
+      and s.voided_at is null
+  )
+  select
+    b.period,
+    count(x.period),
+    coalesce(sum(x.net_amount), 0),
+    coalesce(sum(x.discount_total), 0)
+  from buckets b
+  left join bucketed x on x.period = b.period
+  group by b.period
+  order by b.period;
+end;
+$$;
+
+-- Net line revenue per service, highest first. Lines are grouped by service
+-- id so a renamed service is counted once, under its latest name.
+create or replace function revenue_by_service(p_from date default null, p_to date default null)
+returns table (
+  service_id uuid,
+  service text,
+  quantity bigint,
+  revenue numeric
+)
+language sql
+stable
+as $$
+  select
+    i.service_id,
+    (array_agg(i.service_name order by s.date desc, i.created_at desc))[1],
+    sum(i.quantity),
+    round(sum(i.line_total * case when s.amount > 0 then s.net_amount / s.amount else 1 end), 2) as revenue
+  from sale_items i
+  join sales s on s.id = i.sale_id
+  where s.voided_at is null
+    and (p_from is null or s.date >= p_from)
+    and (p_to is null or s.date <= p_to)
+  group by i.service_id, case when i.service_id is null then lower(i.service_name) end
+  order by revenue desc;
+$$;
+
+-- Net line revenue per staff member who performed the service. Lines with
+-- no staff are grouped under a null staff_id.
+create or replace function revenue_by_staff(p_from date default null, p_to date default null)
+returns table (
+  staff_id uuid,
+  staff text,
+  sales_count bigint,
+  quantity bigint,
+  revenue numeric
+)
+language sql
+stable
+as $$
+  select
+    i.staff_id,
+    coalesce(st.name, (array_agg(i.staff order by s.date desc) filter (where i.staff is not null))[1]),
+    count(distinct s.id),
+    sum(i.quantity),
+    round(sum(i.line_total * case when s.amount > 0 then s.net_amount / s.amount else 1 end), 2) as revenue
+  from sale_items i
+  join sales s on s.id = i.sale_id
+  left join staff st on st.id = i.staff_id
+  where s.voided_at is null
+    and (p_from is null or s.date >= p_from)
+    and (p_to is null or s.date <= p_to)
+  group by i.staff_id, st.name
+  order by revenue desc;
+$$;
+
+-- Headline totals: revenue, refunds, voids and where discounts came from.
+create or replace function sales_totals(p_from date default null, p_to date default null)
+returns table (
+  sales_count bigint,
+  voided_count bigint,
+  revenue numeric,
+  refunded numeric,
+  discount_total numeric,
+  line_discounts numeric,
+  promo_discounts numeric,
+  bill_discounts numeric,
+  override_count bigint,
+  override_amount numeric,
+  first_sale_date date
+)
+language sql
+stable
+as $$
+  with ranged as (
+    select *
+    from sales s
+    where (p_from is null or s.date >= p_from)
+      and (p_to is null or s.date <= p_to)
+  ),
+  live as (
+    select * from ranged where voided_at is null
+  ),
+  lines as (
+    select i.*
+    from sale_items i
+    join live l on l.id = i.sale_id
+  )
+  select
+    (select count(*) from live),
+    (select count(*) from ranged where voided_at is not null),
+    (select coalesce(sum(net_amount), 0) from live),
+    (select coalesce(sum(refunded_amount), 0) from live),
+    (select coalesce(sum(discount_total), 0) from live),
+    (select coalesce(sum(discount), 0) from lines),
+    (select coalesce(sum(promo_discount), 0) from live),
+    (select coalesce(sum(bill_discount), 0) from live),
+    (select count(*) from lines where unit_price <> list_price),
+    (select coalesce(sum((list_price - unit_price) * quantity), 0) from lines),
+    (select min(date) from ranged);
+$$;
@@ -0,0 +1,246 @@
+-- Staff, service and payment method filters for the analytics aggregates.
+-- Filters pick whole sales: a sale is included when one of its lines was
+-- done by the staff member or is for the service, and when it was paid at
+-- least partly by the method. Null filters match everything. The service
+-- and staff breakdowns also keep only the matching lines, so a colleague's
+-- work on a shared sale is not counted.
+
+create or replace function analytics_sales(
+  p_from date default null,
+  p_to date default null,
+  p_staff_id uuid default null,
+  p_service_id uuid default null,
+  p_payment_method text default null
+)
+returns setof sales
+language sql
+stable
+as $$
+  select s.*
+  from sales s
+  where (p_from is null or s.date >= p_from)
+    and (p_to is null or s.date <= p_to)
+    and (
+      p_staff_id is null
+      or s.staff_id = p_staff_id
+      or exists (select 1 from sale_items i where i.sale_id = s.id and i.staff_id = p_staff_id)
+    )
+    and (
+      p_service_id is null
+      or exists (select 1 from sale_items i where i.sale_id = s.id and i.service_id = p_service_id)
+    )
+    and (
+      p_payment_method is null
+      or exists (select 1 from sale_payments p where p.sale_id = s.id and p.method = p_payment_method)
+    );
+$$;
+
+drop function revenue_by_period(date, date, text);
+drop function revenue_by_service(date, date);
+drop function revenue_by_staff(date, date);
+drop function sales_totals(date, date);
+
+create function revenue_by_period(
+  p_from date,
+  p_to date,
+  p_bucket text default 'day',
+  p_staff_id uuid default null,
+  p_service_id uuid default null,
+  p_payment_method text default null
+)
+returns table (
+  period date,
+  sales_count bigint,
+  revenue numeric,
+  discounts numeric
+)
+language plpgsql
+stable
+as $$
+declare
+  v_step interval;
+begin
+  if p_bucket not in ('day', 'week', 'month') then
+    raise exception 'Unknown period %', p_bucket using errcode = 'P0001';
+  end if;
+  v_step := ('1 ' || p_bucket)::interval;
+
+  return query
+  with buckets as (
+    select generate_series(
+      case p_bucket
+        when 'week' then p_from - extract(dow from p_from)::integer
+        when 'month' then date_trunc('month', p_from)::date
+        else p_from
+      end,
+      p_to,
+      v_step
+    )::date as period
+  ),
+  bucketed as (
+    select
+      case p_bucket
+        when 'week' then s.date - extract(dow from s.date)::integer
+        when 'month' then date_trunc('month', s.date)::date
+        else s.date
+      end as period,
+      s.net_amount,
+      s.discount_total
+    from analytics_sales(p_from, p_to, p_staff_id, p_service_id, p_payment_method) s
+    where s.voided_at is null
+  )
+  select
+    b.period,
+    count(x.period),
+    coalesce(sum(x.net_amount), 0),
+    coalesce(sum(x.discount_total), 0)
+  from buckets b
+  left join bucketed x on x.period = b.period
+  group by b.period
+  order by b.period;
+end;
+$$;
+
+create function revenue_by_service(
+  p_from date default null,
+  p_to date default null,
+  p_staff_id uuid default null,
+  p_service_id uuid default null,
+  p_payment_method text default null
+)
+returns table (
+  service_id uuid,
+  service text,
+  quantity bigint,
+  revenue numeric
+)
+language sql
+stable
+as $$
+  select
+    i.service_id,
+    (array_agg(i.service_name order by s.date desc, i.created_at desc))[1],
+    sum(i.quantity),
+    round(sum(i.line_total * case when s.amount > 0 then s.net_amount / s.amount else 1 end), 2) as revenue
+  from sale_items i
+  join analytics_sales(p_from, p_to, p_staff_id, p_service_id, p_payment_method) s on s.id = i.sale_id
+  where s.voided_at is null
+    and (p_staff_id is null or i.staff_id = p_staff_id)
+    and (p_service_id is null or i.service_id = p_service_id)
+  group by i.service_id, case when i.service_id is null then lower(i.service_name) end
+  order by revenue desc;
+$$;
+
+create function revenue_by_staff(
+  p_from date default null,
+  p_to date default null,
+  p_staff_id uuid default null,
+  p_service_id uuid default null,
+  p_payment_method text default null
+)
+returns table (
+  staff_id uuid,
+  staff text,
+  sales_count bigint,
+  quantity bigint,
+  revenue numeric
+)
+language sql
+stable
+as $$
+  select
+    i.staff_id,
+    coalesce(st.name, (array_agg(i.staff order by s.date desc) filter (where i.staff is not null))[1]),
+    count(distinct s.id),
+    sum(i.quantity),
+    round(sum(i.line_total * case when s.amount > 0 then s.net_amount / s.amount else 1 end), 2) as revenue
+  from sale_items i
+  join analytics_sales(p_from, p_to, p_staff_id, p_service_id, p_payment_method) s on s.id = i.sale_id
+  left join staff st on st.id = i.staff_id
+  where s.voided_at is null
+    and (p_staff_id is null or i.staff_id = p_staff_id)
+    and (p_service_id is null or i.service_id = p_service_id)
+  group by i.staff_id, st.name
+  order by revenue desc;
+$$;
+
+create function sales_totals(
+  p_from date default null,
+  p_to date default null,
+  p_staff_id uuid default null,
+  p_service_id uuid default null,
+  p_payment_method text default null
+)
+returns table (
+  sales_count bigint,
+  voided_count bigint,
+  revenue numeric,
+  refunded numeric,
+  discount_total numeric,
+  line_discounts numeric,
+  promo_discounts numeric,
+  bill_discounts numeric,
+  override_count bigint,
+  override_amount numeric,
+  first_sale_date date
+)
+language sql
+stable
+as $$
+  with ranged as (
+    select * from analytics_sales(p_from, p_to, p_staff_id, p_service_id, p_payment_method)
+  ),
+  live as (
+    select * from ranged where voided_at is null
+  ),
+  lines as (
+    select i.*
+    from sale_items i
+    join live l on l.id = i.sale_id
+  )
+  select
+    (select count(*) from live),
+    (select count(*) from ranged where voided_at is not null),
+    (select coalesce(sum(net_amount), 0) from live),
+    (select coalesce(sum(refunded_amount), 0) from live),
+    (select coalesce(sum(discount_total), 0) from live),
+    (select coalesce(sum(discount), 0) from lines),
+    (select coalesce(sum(promo_discount), 0) from live),
+    (select coalesce(sum(bill_discount), 0) from live),
+    (select count(*) from lines where unit_price <> list_price),
+    (select coalesce(sum((list_price - unit_price) * quantity), 0) from lines),
+    (select min(date) from ranged);
+$$;
+
+-- Promo code use within the range, for codes used at least once.
+create function promo_code_usage(
+  p_from date default null,
+  p_to date default null,
+  p_staff_id uuid default null,
+  p_service_id uuid default null,
+  p_payment_method text default null
+)
+returns table (
+  id uuid,
+  code text,
+  discount_type text,
+  discount_value numeric,
+  times_used integer,
+  discount_given numeric
+)
+language sql
+stable
+as $$
+  select
+    p.id,
+    p.code,
+    p.discount_type,
+    p.discount_value,
+    count(s.id)::integer,
+    coalesce(sum(s.promo_discount), 0) as discount_given
+  from promo_codes p
+  join analytics_sales(p_from, p_to, p_staff_id, p_service_id, p_payment_method) s on s.promo_code_id = p.id
+  where s.voided_at is null
+  group by p.id
+  order by discount_given desc;
+$$;
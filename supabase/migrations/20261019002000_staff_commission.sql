@@ -0,0 +1,140 @@
+-- Staff performance and commission. Services get a category so commission
+-- can differ by category, and staff get contracted weekly hours to measure
+-- utilization against.
+
+alter table services add column category text;
+
+alter table staff add column weekly_hours numeric(4, 1) check (weekly_hours > 0);
+
+-- A rule applies to one staff member or everyone (null staff_id), for one
+-- service category or all of them (null category). The most specific rule
+-- wins. Flat rules pay `rate` percent; tiered rules pay the rate of the
+-- highest monthly revenue target reached, on the whole month.
+create table commission_rules (
+  id uuid primary key default gen_random_uuid(),
+  staff_id uuid references staff(id) on delete cascade,
+  category text,
+  kind text not null check (kind in ('flat', 'tiered')),
+  rate numeric(5, 2) check (rate >= 0 and rate <= 100),
+  -- [{ "target": 5000, "rate": 10 }, ...] for tiered rules.
+  tiers jsonb not null default '[]',
+  created_at timestamptz not null default now(),
+  constraint commission_rules_shape_check check (
+    (kind = 'flat' and rate is not null)
+    or (kind = 'tiered' and jsonb_typeof(tiers) = 'array' and jsonb_array_length(tiers) > 0)
+  )
+);
+
+create unique index commission_rules_scope_key on commission_rules (
+  coalesce(staff_id, '00000000-0000-0000-0000-000000000000'::uuid),
+  coalesce(lower(btrim(category)), '')
+);
+
+alter table commission_rules enable row level security;
+create policy "Authenticated users read commission rules" on commission_rules
+  for select to authenticated using (true);
+create policy "Managers manage commission rules" on commission_rules
+  for all to authenticated using (is_manager()) with check (is_manager());
+
+-- Per-staff figures for the range. Revenue is the staff member's net line
+-- revenue; the average ticket is that over the sales they worked on. A
+-- completed visit counts as rebooked when the customer has another booking
+-- within 90 days after it. Utilization compares booked appointment time with
+-- contracted hours, so available_minutes is null without weekly_hours.
+create or replace function staff_performance(p_from date, p_to date)
+returns table (
+  staff_id uuid,
+  staff text,
+  sales_count bigint,
+  service_count bigint,
+  revenue numeric,
+  visits bigint,
+  rebooked_visits bigint,
+  booked_minutes bigint,
+  available_minutes numeric
+)
+language sql
+stable
+as $$
+  with lines as (
+    select
+      i.staff_id,
+      count(distinct s.id) as sales_count,
+      sum(i.quantity) as service_count,
+      round(sum(i.line_total * case when s.amount > 0 then s.net_amount / s.amount else 1 end), 2) as revenue
+    from sale_items i
+    join sales s on s.id = i.sale_id
+    where s.date between p_from and p_to
+      and s.voided_at is null
+      and i.staff_id is not null
+    group by i.staff_id
+  ),
+  booked as (
+    select
+      a.staff_id,
+      count(*) filter (where a.status = 'completed') as visits,
+      count(*) filter (
+        where a.status = 'completed'
+          and a.customer_id is not null
+          and exists (
+            select 1
+            from appointments n
+            where n.customer_id = a.customer_id
+              and n.id <> a.id
+              and n.date > a.date
+              and n.date <= a.date + 90
+              and n.status not in ('cancelled', 'no_show')
+          )
+      ) as rebooked_visits,
+      sum(a.total_duration) filter (where a.status not in ('cancelled', 'no_show')) as booked_minutes
+    from appointments a
+    where a.date between p_from and p_to
+      and a.staff_id is not null
+    group by a.staff_id
+  )
+  select
+    st.id,
+    st.name,
+    coalesce(l.sales_count, 0),
+    coalesce(l.service_count, 0),
+    coalesce(l.revenue, 0),
+    coalesce(b.visits, 0),
+    coalesce(b.rebooked_visits, 0),
+    coalesce(b.booked_minutes, 0),
+    round(st.weekly_hours * 60 * (p_to - p_from + 1) / 7.0, 0)
+  from staff st
+  left join lines l on l.staff_id = st.id
+  left join booked b on b.staff_id = st.id
+  where st.active or l.staff_id is not null or b.staff_id is not null
+  order by coalesce(l.revenue, 0) desc, st.name;
+$$;
+
+-- Net line revenue per staff member and service category, the basis for
+-- commission. Lines for deleted or uncategorised services have a null
+-- category.
+create or replace function staff_category_revenue(p_from date, p_to date)
+returns table (
+  staff_id uuid,
+  staff text,
+  category text,
+  service_count bigint,
+  revenue numeric
+)
+language sql
+stable
+as $$
+  select
+    st.id,
+    st.name,
+    nullif(btrim(sv.category), ''),
+    sum(i.quantity),
+    round(sum(i.line_total * case when s.amount > 0 then s.net_amount / s.amount else 1 end), 2)
+  from sale_items i
+  join sales s on s.id = i.sale_id
+  join staff st on st.id = i.staff_id
+  left join services sv on sv.id = i.service_id
+  where s.date between p_from and p_to
+    and s.voided_at is null
+  group by st.id, st.name, nullif(btrim(sv.category), '')
+  order by st.name, 3 nulls last;
+$$;
@@ -0,0 +1,213 @@
+-- When staff are working. Each staff member has a weekly shift template;
+-- date-specific overrides replace the template for that date (a row with no
+-- times is a day off). Public holidays close the salon unless a staff member
+-- has an override for the date, and approved leave always wins.
+
+create table staff_shifts (
+  id uuid primary key default gen_random_uuid(),
+  staff_id uuid not null references staff(id) on delete cascade,
+  -- 0 is Sunday, as in extract(dow ...).
+  weekday smallint not null check (weekday between 0 and 6),
+  start_time time not null,
+  end_time time not null,
+  constraint staff_shifts_times_check check (end_time > start_time)
+);
+
+create index staff_shifts_staff_id_idx on staff_shifts (staff_id, weekday);
+
+create table staff_shift_overrides (
+  id uuid primary key default gen_random_uuid(),
+  staff_id uuid not null references staff(id) on delete cascade,
+  date date not null,
+  start_time time,
+  end_time time,
+  note text,
+  created_at timestamptz not null default now(),
+  constraint staff_shift_overrides_times_check check (
+    (start_time is null and end_time is null) or end_time > start_time
+  )
+);
+
+create index staff_shift_overrides_staff_id_date_idx on staff_shift_overrides (staff_id, date);
+
+create table public_holidays (
+  date date primary key,
+  name text not null
+);
+
+create table leave_requests (
+  id uuid primary key default gen_random_uuid(),
+  staff_id uuid not null references staff(id) on delete cascade,
+  start_date date not null,
+  end_date date not null,
+  type text not null check (type in ('annual', 'medical', 'unpaid', 'other')),
+  reason text,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected', 'cancelled')),
+  requested_by_email text default auth.jwt()->>'email',
+  decided_by_email text,
+  decided_at timestamptz,
+  created_at timestamptz not null default now(),
+  constraint leave_requests_dates_check check (end_date >= start_date)
+);
+
+create index leave_requests_staff_id_dates_idx on leave_requests (staff_id, start_date, end_date);
+
+alter table staff_shifts enable row level security;
+create policy "Authenticated users manage staff shifts" on staff_shifts
+  for all to authenticated using (true) with check (true);
+
+alter table staff_shift_overrides enable row level security;
+create policy "Authenticated users manage shift overrides" on staff_shift_overrides
+  for all to authenticated using (true) with check (true);
+
+alter table public_holidays enable row level security;
+create policy "Authenticated users manage public holidays" on public_holidays
+  for all to authenticated using (true) with check (true);
+
+-- Anyone can request leave; only decide_leave_request approves or rejects it.
+alter table leave_requests enable row level security;
+create policy "Authenticated users read leave requests" on leave_requests
+  for select to authenticated using (true);
+create policy "Authenticated users request leave" on leave_requests
+  for insert to authenticated with check (status = 'pending' and decided_by_email is null);
+
+create or replace function decide_leave_request(p_leave_id uuid, p_status text)
+returns leave_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_leave leave_requests%rowtype;
+begin
+  if p_status not in ('approved', 'rejected', 'cancelled') then
+    raise exception 'Unknown leave decision %', p_status using errcode = 'P0001';
+  end if;
+
+  select * into v_leave from leave_requests where id = p_leave_id for update;
+  if not found then
+    raise exception 'Leave request % not found', p_leave_id using errcode = 'P0002';
+  end if;
+
+  -- Whoever asked may withdraw a pending request; everything else is a
+  -- manager's call.
+  if not (
+    is_manager()
+    or (p_status = 'cancelled' and v_leave.status = 'pending'
+        and lower(v_leave.requested_by_email) = lower(auth.jwt()->>'email'))
+  ) then
+    raise exception 'Only a manager can decide leave requests' using errcode = '42501';
+  end if;
+
+  if v_leave.status in ('rejected', 'cancelled') then
+    raise exception 'This leave request is already %', v_leave.status using errcode = 'P0001';
+  end if;
+
+  update leave_requests
+  set status = p_status,
+      decided_by_email = auth.jwt()->>'email',
+      decided_at = now()
+  where id = p_leave_id
+  returning * into v_leave;
+
+  return v_leave;
+end;
+$$;
+
+grant execute on function decide_leave_request(uuid, text) to authenticated;
+
+-- Replaces a staff member's weekly template in one go.
+-- p_shifts: [{ "weekday": 1, "start_time": "10:00", "end_time": "19:00" }, ...]
+create or replace function set_staff_shifts(p_staff_id uuid, p_shifts jsonb)
+returns void
+language plpgsql
+as $$
+begin
+  delete from staff_shifts where staff_id = p_staff_id;
+
+  insert into staff_shifts (staff_id, weekday, start_time, end_time)
+  select p_staff_id, (shift->>'weekday')::smallint, (shift->>'start_time')::time, (shift->>'end_time')::time
+  from jsonb_array_elements(coalesce(p_shifts, '[]')) shift;
+end;
+$$;
+
+-- Working intervals per active staff member and date, after overrides,
+-- public holidays and approved leave.
+create or replace function staff_working_hours(p_from date, p_to date)
+returns table (
+  staff_id uuid,
+  date date,
+  start_time time,
+  end_time time
+)
+language sql
+stable
+as $$
+  with days as (
+    select generate_series(p_from, p_to, interval '1 day')::date as date
+  ),
+  working as (
+    select sh.staff_id, d.date, sh.start_time, sh.end_time
+    from days d
+    join staff_shifts sh on sh.weekday = extract(dow from d.date)
+    where not exists (select 1 from public_holidays h where h.date = d.date)
+      and not exists (
+        select 1 from staff_shift_overrides o where o.staff_id = sh.staff_id and o.date = d.date
+      )
+    union all
+    select o.staff_id, o.date, o.start_time, o.end_time
+    from staff_shift_overrides o
+    where o.date between p_from and p_to
+      and o.start_time is not null
+  )
+  select w.staff_id, w.date, w.start_time, w.end_time
+  from working w
+  join staff st on st.id = w.staff_id and st.active
+  where not exists (
+    select 1
+    from leave_requests l
+    where l.staff_id = w.staff_id
+      and l.status = 'approved'
+      and w.date between l.start_date and l.end_date
+  )
+  order by w.date, w.staff_id, w.start_time;
+$$;
+
+-- Whether each active staff member can take a booking of p_duration minutes
+-- at p_date p_time, and if not, why. Staff with no shifts set up at all are
+-- 'no_schedule' rather than unavailable, so a salon that has not entered
+-- working hours yet can still book them.
+create or replace function staff_availability(p_date date, p_time time, p_duration integer)
+returns table (
+  staff_id uuid,
+  status text
+)
+language sql
+stable
+as $$
+  select
+    st.id,
+    case
+      when exists (
+        select 1 from leave_requests l
+        where l.staff_id = st.id and l.status = 'approved' and p_date between l.start_date and l.end_date
+      ) then 'on_leave'
+      when exists (
+        select 1 from staff_working_hours(p_date, p_date) w
+        where w.staff_id = st.id
+          and w.start_time <= p_time
+          and extract(epoch from p_time) / 60 + p_duration <= extract(epoch from w.end_time) / 60
+      ) then 'on_shift'
+      when exists (select 1 from public_holidays h where h.date = p_date)
+        and not exists (select 1 from staff_shift_overrides o where o.staff_id = st.id and o.date = p_date)
+        then 'holiday'
+      when not exists (select 1 from staff_shifts sh where sh.staff_id = st.id)
+        and not exists (select 1 from staff_shift_overrides o where o.staff_id = st.id and o.date = p_date)
+        then 'no_schedule'
+      when exists (select 1 from staff_working_hours(p_date, p_date) w where w.staff_id = st.id)
+        then 'outside_shift'
+      else 'day_off'
+    end
+  from staff st
+  where st.active;
+$$;
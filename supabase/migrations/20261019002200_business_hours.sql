@@ -0,0 +1,226 @@
+-- When the outlet is open. Weekly opening hours, one-off closures and the
+-- public holidays of the outlet's state decide which days and times can be
+-- booked.
+
+-- A day with no times is open all day, so nothing changes until hours are set.
+create table business_hours (
+  weekday smallint primary key check (weekday between 0 and 6),
+  is_open boolean not null default true,
+  open_time time,
+  close_time time,
+  updated_at timestamptz not null default now(),
+  constraint business_hours_times_check check (
+    (open_time is null and close_time is null) or close_time > open_time
+  )
+);
+
+insert into business_hours (weekday) select generate_series(0, 6);
+
+create table business_closures (
+  id uuid primary key default gen_random_uuid(),
+  start_date date not null,
+  end_date date not null,
+  reason text not null,
+  created_at timestamptz not null default now(),
+  constraint business_closures_dates_check check (end_date >= start_date)
+);
+
+-- Public holidays can be nationwide (null state_codes) or observed only in
+-- some states, using the state codes on the e-invoice settings. The outlet
+-- observes nationwide holidays plus those of its holiday_state_code.
+alter table public_holidays drop constraint public_holidays_pkey;
+alter table public_holidays add column id uuid primary key default gen_random_uuid();
+alter table public_holidays add column state_codes text[];
+alter table public_holidays add constraint public_holidays_date_name_key unique (date, name);
+
+create table holiday_settings (
+  id boolean primary key default true check (id),
+  state_code text,
+  updated_at timestamptz not null default now()
+);
+
+insert into holiday_settings default values;
+
+alter table business_hours enable row level security;
+create policy "Authenticated users manage business hours" on business_hours
+  for all to authenticated using (true) with check (true);
+
+alter table business_closures enable row level security;
+create policy "Authenticated users manage business closures" on business_closures
+  for all to authenticated using (true) with check (true);
+
+alter table holiday_settings enable row level security;
+create policy "Authenticated users manage holiday settings" on holiday_settings
+  for all to authenticated using (true) with check (true);
+
+create or replace function observed_public_holidays(p_from date, p_to date)
+returns setof public_holidays
+language sql
+stable
+as $$
+  select h.*
+  from public_holidays h
+  where h.date between p_from and p_to
+    and (
+      h.state_codes is null
+      or (select state_code from holiday_settings) = any (h.state_codes)
+    )
+  order by h.date, h.name;
+$$;
+
+-- One row per date: whether the outlet is open, its hours (null for all
+-- day) and, when closed, why. Closures win over holidays, holidays over the
+-- weekly hours.
+create or replace function business_calendar(p_from date, p_to date)
+returns table (
+  date date,
+  is_open boolean,
+  open_time time,
+  close_time time,
+  reason text
+)
+language sql
+stable
+as $$
+  select
+    d.date::date,
+    c.reason is null and h.name is null and coalesce(bh.is_open, true),
+    bh.open_time,
+    bh.close_time,
+    coalesce(
+      c.reason,
+      h.name,
+      case when bh.is_open = false then 'Closed on ' || to_char(d.date, 'FMDay') || 's' end
+    )
+  from generate_series(p_from, p_to, interval '1 day') d(date)
+  left join business_hours bh on bh.weekday = extract(dow from d.date)
+  left join lateral (
+    select bc.reason
+    from business_closures bc
+    where d.date::date between bc.start_date and bc.end_date
+    order by bc.start_date
+    limit 1
+  ) c on true
+  left join lateral (
+    select oh.name from observed_public_holidays(d.date::date, d.date::date) oh limit 1
+  ) h on true
+  order by 1;
+$$;
+
+create or replace function check_appointment_business_hours()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_day record;
+begin
+  if tg_op = 'UPDATE'
+    and new.date = old.date
+    and new.time = old.time
+    and new.total_duration is not distinct from old.total_duration then
+    return new;
+  end if;
+
+  select * into v_day from business_calendar(new.date, new.date);
+
+  if not v_day.is_open then
+    raise exception 'The salon is closed on % (%)', to_char(new.date, 'FMDD Mon YYYY'), v_day.reason
+      using errcode = 'P0001';
+  end if;
+
+  if v_day.open_time is not null and (
+    new.time < v_day.open_time
+    or extract(epoch from new.time) / 60 + coalesce(new.total_duration, 0) > extract(epoch from v_day.close_time) / 60
+  ) then
+    raise exception 'Appointments on % must fit within opening hours (% to %)',
+      to_char(new.date, 'FMDD Mon YYYY'), to_char(v_day.open_time, 'HH24:MI'), to_char(v_day.close_time, 'HH24:MI')
+      using errcode = 'P0001';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger appointments_business_hours
+  before insert or update of date, time, total_duration on appointments
+  for each row execute function check_appointment_business_hours();
+
+-- Staff schedules now follow the outlet's holiday calendar rather than every
+-- holiday on the list.
+create or replace function staff_working_hours(p_from date, p_to date)
+returns table (
+  staff_id uuid,
+  date date,
+  start_time time,
+  end_time time
+)
+language sql
+stable
+as $$
+  with days as (
+    select generate_series(p_from, p_to, interval '1 day')::date as date
+  ),
+  holidays as (
+    select distinct h.date from observed_public_holidays(p_from, p_to) h
+  ),
+  working as (
+    select sh.staff_id, d.date, sh.start_time, sh.end_time
+    from days d
+    join staff_shifts sh on sh.weekday = extract(dow from d.date)
+    where not exists (select 1 from holidays h where h.date = d.date)
+      and not exists (
+        select 1 from staff_shift_overrides o where o.staff_id = sh.staff_id and o.date = d.date
+      )
+    union all
+    select o.staff_id, o.date, o.start_time, o.end_time
+    from staff_shift_overrides o
+    where o.date between p_from and p_to
+      and o.start_time is not null
+  )
+  select w.staff_id, w.date, w.start_time, w.end_time
+  from working w
+  join staff st on st.id = w.staff_id and st.active
+  where not exists (
+    select 1
+    from leave_requests l
+    where l.staff_id = w.staff_id
+      and l.status = 'approved'
+      and w.date between l.start_date and l.end_date
+  )
+  order by w.date, w.staff_id, w.start_time;
+$$;
+
+create or replace function staff_availability(p_date date, p_time time, p_duration integer)
+returns table (
+  staff_id uuid,
+  status text
+)
+language sql
+stable
+as $$
+  select
+    st.id,
+    case
+      when exists (
+        select 1 from leave_requests l
+        where l.staff_id = st.id and l.status = 'approved' and p_date between l.start_date and l.end_date
+      ) then 'on_leave'
+      when exists (
+        select 1 from staff_working_hours(p_date, p_date) w
+        where w.staff_id = st.id
+          and w.start_time <= p_time
+          and extract(epoch from p_time) / 60 + p_duration <= extract(epoch from w.end_time) / 60
+      ) then 'on_shift'
+      when exists (select 1 from observed_public_holidays(p_date, p_date))
+        and not exists (select 1 from staff_shift_overrides o where o.staff_id = st.id and o.date = p_date)
+        then 'holiday'
+      when not exists (select 1 from staff_shifts sh where sh.staff_id = st.id)
+        and not exists (select 1 from staff_shift_overrides o where o.staff_id = st.id and o.date = p_date)
+        then 'no_schedule'
+      when exists (select 1 from staff_working_hours(p_date, p_date) w where w.staff_id = st.id)
+        then 'outside_shift'
+      else 'day_off'
+    end
+  from staff st
+  where st.active;
+$$;
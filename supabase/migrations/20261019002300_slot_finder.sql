@@ -0,0 +1,123 @@
+-- Open booking slots. Services get a buffer: time after the service (cleanup,
+-- processing) that the staff member needs before their next booking. The
+-- appointment itself stays total_duration long; the slot finder keeps the
+-- buffer free.
+
+alter table services add column buffer_minutes integer not null default 0 check (buffer_minutes >= 0);
+
+-- The buffer owed after an appointment, from the services it was booked with.
+create or replace function appointment_buffer_minutes(p_services jsonb)
+returns integer
+language sql
+stable
+as $$
+  select coalesce(sum(sv.buffer_minutes), 0)::integer
+  from jsonb_array_elements(coalesce(p_services, '[]')) item
+  join services sv on sv.id::text = item->>'id';
+$$;
+
+-- Start times from p_from to p_to at which a booking of p_duration minutes,
+-- followed by p_buffer minutes, fits: inside opening hours and a shift of the
+-- staff member, and clear of their active appointments and those
+-- appointments' buffers. Staff with no shifts set up are treated as working
+-- whenever the outlet is open. Each row lists the ids of the staff free at
+-- that time, ordered by name; pass p_staff_id to look at one staff member only.
+create or replace function find_available_slots(
+  p_from date,
+  p_to date,
+  p_duration integer,
+  p_buffer integer default 0,
+  p_staff_id uuid default null,
+  p_step integer default 15,
+  p_exclude_appointment_id uuid default null
+)
+returns table (
+  date date,
+  time time,
+  staff_ids uuid[]
+)
+language sql
+stable
+as $$
+  with days as (
+    select c.date, c.open_time, c.close_time
+    from business_calendar(p_from, p_to) c
+    where c.is_open
+  ),
+  candidates as (
+    select st.id as staff_id, st.name
+    from staff st
+    where st.active
+      and (p_staff_id is null or st.id = p_staff_id)
+  ),
+  windows as (
+    select w.staff_id, w.date, w.start_time, w.end_time
+    from staff_working_hours(p_from, p_to) w
+    join candidates c on c.staff_id = w.staff_id
+    union all
+    select c.staff_id, d.date, null::time, null::time
+    from candidates c
+    cross join days d
+    where not exists (select 1 from staff_shifts sh where sh.staff_id = c.staff_id)
+      and not exists (
+        select 1 from staff_shift_overrides o where o.staff_id = c.staff_id and o.date = d.date
+      )
+      and not exists (
+        select 1 from leave_requests l
+        where l.staff_id = c.staff_id and l.status = 'approved' and d.date between l.start_date and l.end_date
+      )
+  ),
+  -- Minutes since midnight, so nothing wraps past 24:00.
+  bounds as (
+    select
+      w.staff_id,
+      w.date,
+      greatest(
+        coalesce(extract(epoch from w.start_time), 0),
+        coalesce(extract(epoch from d.open_time), 0)
+      )::integer / 60 as start_minute,
+      least(
+        coalesce(extract(epoch from w.end_time), 86400),
+        coalesce(extract(epoch from d.close_time), 86400)
+      )::integer / 60 as end_minute
+    from windows w
+    join days d on d.date = w.date
+  ),
+  slots as (
+    select distinct b.staff_id, b.date, m as start_minute
+    from bounds b
+    cross join generate_series(
+      ((b.start_minute + p_step - 1) / p_step) * p_step,
+      b.end_minute - p_duration,
+      p_step
+    ) m
+  ),
+  busy as (
+    select
+      a.staff_id,
+      a.date,
+      (extract(epoch from a.time) / 60)::integer as start_minute,
+      (extract(epoch from a.time) / 60)::integer + a.total_duration + appointment_buffer_minutes(a.services) as end_minute
+    from appointments a
+    where a.date between p_from and p_to
+      and a.staff_id is not null
+      and a.status in ('booked', 'confirmed', 'checked_in', 'in_service')
+      and (p_exclude_appointment_id is null or a.id <> p_exclude_appointment_id)
+  )
+  select
+    s.date,
+    make_time(s.start_minute / 60, s.start_minute % 60, 0),
+    array_agg(s.staff_id order by c.name)
+  from slots s
+  join candidates c on c.staff_id = s.staff_id
+  where not exists (
+    select 1
+    from busy b
+    where b.staff_id = s.staff_id
+      and b.date = s.date
+      and b.start_minute < s.start_minute + p_duration + p_buffer
+      and s.start_minute < b.end_minute
+  )
+  group by s.date, s.start_minute
+  order by s.date, s.start_minute;
+$$;